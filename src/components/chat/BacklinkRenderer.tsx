@@ -1,77 +1,47 @@
-import { useState, useEffect } from "react";
+import { useCallback } from "react";
+import { WikiText } from "@/components/memos/WikiLink";
 
 interface BacklinkRendererProps {
   text: string;
   onNavigateToMemo: (slug: string) => void;
+  // Slug of the memo or fragment the text belongs to, so it can't
+  // transclude itself
+  sourceSlug?: string;
 }
 
 /**
  * Component that renders text with [[backlinks]] as clickable links
  * Supports both memos and fragments - it attempts to open a memo first,
  * and if that fails, tries to open a fragment with the same slug.
+ * Links to nothing are drawn as dangling, with a button to create a stub,
+ * and ![[transclusions]] embed their target's content.
  */
 export function BacklinkRenderer({
   text,
   onNavigateToMemo,
+  sourceSlug,
 }: BacklinkRendererProps) {
-  const [elements, setElements] = useState<React.ReactNode[]>([]);
-
-  useEffect(() => {
-    if (!text) {
-      setElements([]);
-      return;
-    }
-
-    // Process the text to find backlinks
-    const backlinkPattern = /\[\[(.*?)\]\]/g;
-    const parts: React.ReactNode[] = [];
-    let lastIndex = 0;
-    let match;
-    let matchFound = false;
-
-    // Clone the text
-    const textStr = String(text);
-
-    // Find all backlinks
-    while ((match = backlinkPattern.exec(textStr)) !== null) {
-      matchFound = true;
-      if (match.index > lastIndex) {
-        parts.push(textStr.substring(lastIndex, match.index));
-      }
-
-      const slug = match[1];
-      parts.push(
-        <button
-          key={`${slug}-${match.index}`}
-          className="text-[#F48120] hover:underline font-medium"
-          onClick={() => {
-            // When a backlink is clicked, we'll try to open both a memo and a fragment
-            // The UI will show the first one that exists
-            onNavigateToMemo(slug);
-
-            // Also store the slug as a potential fragment to open
-            sessionStorage.setItem("openFragmentSlug", slug);
-          }}
-        >
-          {slug}
-        </button>
-      );
-
-      lastIndex = match.index + match[0].length;
-    }
-
-    // Add any remaining text
-    if (lastIndex < textStr.length) {
-      parts.push(textStr.substring(lastIndex));
-    }
-
-    // If no matches were found, just return the original text
-    if (!matchFound) {
-      setElements([textStr]);
-    } else {
-      setElements(parts);
-    }
-  }, [text, onNavigateToMemo]);
-
-  return <>{elements}</>;
+  const navigate = useCallback(
+    (slug: string) => {
+      // When a backlink is clicked, we'll try to open both a memo and a fragment
+      // The UI will show the first one that exists
+      onNavigateToMemo(slug);
+
+      // Also store the slug as a potential fragment to open
+      sessionStorage.setItem("openFragmentSlug", slug);
+    },
+    [onNavigateToMemo]
+  );
+
+  if (!text) {
+    return null;
+  }
+
+  return (
+    <WikiText
+      text={String(text)}
+      onNavigate={navigate}
+      ancestors={sourceSlug ? [sourceSlug] : []}
+    />
+  );
 }
@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { Card } from "@/components/card/Card";
 import { Button } from "@/components/button/Button";
 import { ArrowClockwise, X, MagnifyingGlass } from "@phosphor-icons/react";
@@ -7,41 +7,93 @@ import ForceGraph2D, {
   type LinkObject,
 } from "react-force-graph-2d";
 
+type NodeKind = "memo" | "reply" | "fragment";
+
 interface Node extends NodeObject {
-  id: string; // slug string (unique)
+  id: string;
+  key: string; // unique: fragment slug, or memo:/reply: prefixed slug
   slug: string;
+  kind: NodeKind;
   link_count: number;
 }
 
 interface Link extends LinkObject {
-  source: string; // slug of source
-  target: string; // slug of target
+  id: string;
+  source: string; // key of source
+  target: string; // key of target
   type: string;
   weight: number;
+  color?: string | null; // relation type colour
 }
 
+interface NodeAnalytics {
+  slug: string;
+  pagerank: number;
+  community: number;
+  bridge: boolean;
+}
+
+// Community colours, largest community first; the rest share the last
+const COMMUNITY_COLORS = [
+  "#F48120",
+  "#3b82f6",
+  "#22c55e",
+  "#a855f7",
+  "#ef4444",
+  "#14b8a6",
+  "#eab308",
+  "#ec4899",
+  "#6366f1",
+  "#9ca3af",
+];
+
+// Memos and replies are drawn as squares in their own colours
+const KIND_COLORS: Record<Exclude<NodeKind, "fragment">, string> = {
+  memo: "#0ea5e9",
+  reply: "#7dd3fc",
+};
+
+// Most-connected nodes shown before anything is expanded
+const INITIAL_NODES = 150;
+
+// The graph library swaps link ends for node objects once laid out
+const endKey = (end: Link["source"] | Node) =>
+  typeof end === "string" ? end : (end as Node).key;
+
 interface Props {
   onClose: () => void;
   onNavigateToFragment: (slug: string) => void;
+  onNavigateToMemo?: (slug: string) => void;
 }
 
-export function FragmentGraph({ onClose, onNavigateToFragment }: Props) {
+export function FragmentGraph({
+  onClose,
+  onNavigateToFragment,
+  onNavigateToMemo,
+}: Props) {
   const [data, setData] = useState<{ nodes: Node[]; links: Link[] } | null>(
     null
   );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [expanding, setExpanding] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<Map<string, NodeAnalytics> | null>(
+    null
+  );
+  const [colorByCommunity, setColorByCommunity] = useState(false);
+  const [sizeByCentrality, setSizeByCentrality] = useState(false);
 
   const fgRef = useRef<any>(null);
 
-  // Fetch graph data once
+  // Fetch the most connected fragments once; the rest load on expand
   useEffect(() => {
     (async () => {
       try {
         setLoading(true);
         const res = await fetch(
-          "/agents/chat/default/fragment-graph?limit=1000"
+          `/agents/chat/default/fragment-graph?limit=${INITIAL_NODES}`
         );
         if (!res.ok) throw new Error(`status ${res.status}`);
         const json = (await res.json()) as {
@@ -57,6 +109,82 @@ export function FragmentGraph({ onClose, onNavigateToFragment }: Props) {
     })();
   }, []);
 
+  // Community and centrality per fragment; the graph works without them
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/agents/chat/default/graph-analytics");
+        if (!res.ok) return;
+        const json = (await res.json()) as { nodes: NodeAnalytics[] };
+        setAnalytics(new Map(json.nodes.map((n) => [n.slug, n])));
+      } catch (e) {
+        console.error("Error loading graph analytics:", e);
+      }
+    })();
+  }, []);
+
+  // Memos aren't analysed, and their slugs may clash with a fragment's
+  const analyticsOf = (node: Node) =>
+    node.kind === "fragment" ? analytics?.get(node.slug) : undefined;
+
+  const nodeColor = (node: Node) => {
+    if (node.kind !== "fragment") return KIND_COLORS[node.kind];
+    const community = analyticsOf(node)?.community;
+    if (!colorByCommunity || community === undefined) return "#F48120";
+    return COMMUNITY_COLORS[Math.min(community, COMMUNITY_COLORS.length - 1)];
+  };
+
+  // PageRank relative to the average fragment, so 1 is typical
+  const nodeRadius = (node: Node) => {
+    const rank = analyticsOf(node)?.pagerank;
+    if (!sizeByCentrality || rank === undefined) {
+      return Math.max(8, 5 + node.link_count);
+    }
+    return Math.max(5, 8 * Math.sqrt(rank * analytics!.size));
+  };
+
+  // Links currently drawn per node, to tell which have more to expand
+  const loadedLinks = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const link of data?.links ?? []) {
+      for (const end of [endKey(link.source), endKey(link.target)]) {
+        counts.set(end, (counts.get(end) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [data]);
+
+  // Merge a fragment's immediate neighbours into the graph
+  const expandNode = async (slug: string) => {
+    try {
+      setExpanding(slug);
+      const res = await fetch(
+        `/agents/chat/default/fragment-neighborhood?slug=${encodeURIComponent(slug)}&depth=1`
+      );
+      if (!res.ok) throw new Error(`status ${res.status}`);
+      const json = (await res.json()) as { nodes: Node[]; links: Link[] };
+
+      setData((prev) => {
+        if (!prev) return json;
+        // Keep existing node objects so they stay where they were laid out
+        const keys = new Set(prev.nodes.map((n) => n.key));
+        const linkIds = new Set(prev.links.map((l) => l.id));
+        return {
+          nodes: [...prev.nodes, ...json.nodes.filter((n) => !keys.has(n.key))],
+          links: [
+            ...prev.links,
+            ...json.links.filter((l) => !linkIds.has(l.id)),
+          ],
+        };
+      });
+      setExpanded((prev) => new Set(prev).add(slug));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setExpanding(null);
+    }
+  };
+
   // After graph ready tweak physics and forces
   useEffect(() => {
     if (fgRef.current) {
@@ -115,8 +243,53 @@ export function FragmentGraph({ onClose, onNavigateToFragment }: Props) {
       <div className="flex items-center justify-between p-3 border-b border-neutral-300 dark:border-neutral-800 bg-white dark:bg-neutral-950">
         <div className="flex items-center gap-2">
           <h2 className="font-semibold">
-            Fragment Graph ({data?.nodes.length})
+            Knowledge Graph ({data?.nodes.length})
           </h2>
+          <span className="text-xs text-muted-foreground">
+            {expanding
+              ? `Expanding ${expanding}…`
+              : "Click a fragment to expand it, again to open it"}
+          </span>
+          <span className="text-xs text-muted-foreground flex items-center gap-2">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-full bg-[#F48120]" />
+              fragment
+            </span>
+            <span className="flex items-center gap-1">
+              <span
+                className="inline-block w-2 h-2"
+                style={{ backgroundColor: KIND_COLORS.memo }}
+              />
+              memo
+            </span>
+            <span className="flex items-center gap-1">
+              <span
+                className="inline-block w-2 h-2"
+                style={{ backgroundColor: KIND_COLORS.reply }}
+              />
+              reply
+            </span>
+          </span>
+          {analytics && (
+            <>
+              <label className="text-xs flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={colorByCommunity}
+                  onChange={(e) => setColorByCommunity(e.target.checked)}
+                />
+                Communities
+              </label>
+              <label className="text-xs flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={sizeByCentrality}
+                  onChange={(e) => setSizeByCentrality(e.target.checked)}
+                />
+                Centrality
+              </label>
+            </>
+          )}
           <div className="relative">
             <input
               value={filter}
@@ -150,38 +323,65 @@ export function FragmentGraph({ onClose, onNavigateToFragment }: Props) {
         linkDirectionalParticles={2} // animated dots on links
         linkDirectionalParticleWidth={2}
         graphData={visible}
-        nodeId="slug"
-        nodeLabel={(n: Node) => n.slug}
+        nodeId="key"
+        nodeLabel={(n: Node) =>
+          n.kind === "fragment" ? n.slug : `${n.kind}: ${n.slug}`
+        }
         linkDistance={120} // target link length
         linkDirectionalArrowLength={4}
         linkDirectionalArrowRelPos={1}
-        linkColor={() => "#F4812080"}
+        linkColor={(l: Link) => (l.color ? `${l.color}80` : "#F4812080")}
         nodeRelSize={5}
         nodeVal={(n: Node) => 1 + n.link_count / 3}
         enableNodeDrag={true}
         warmupTicks={100}
         cooldownTicks={200}
         onNodeClick={(node: Node) => {
-          onNavigateToFragment(node.slug);
+          // Memos aren't traversed; they open straight away
+          if (node.kind !== "fragment") {
+            onNavigateToMemo?.(node.slug);
+          } else if (expanded.has(node.slug)) {
+            onNavigateToFragment(node.slug);
+          } else if (!expanding) {
+            expandNode(node.slug);
+          }
         }}
         nodeCanvasObjectMode={() => "replace"} // complete control over node rendering
         nodeCanvasObject={(node: Node, ctx, globalScale) => {
-          const radius = Math.max(8, 5 + node.link_count); // bigger nodes
+          const radius = nodeRadius(node);
 
-          // Orange circle with slight darker border
+          // Fragments are circles, memos and replies squares
           ctx.beginPath();
-          ctx.arc(
-            node.x as number,
-            node.y as number,
-            radius,
-            0,
-            2 * Math.PI,
-            false
-          );
-          ctx.fillStyle = "#F48120";
+          if (node.kind === "fragment") {
+            ctx.arc(
+              node.x as number,
+              node.y as number,
+              radius,
+              0,
+              2 * Math.PI,
+              false
+            );
+          } else {
+            ctx.rect(
+              (node.x as number) - radius,
+              (node.y as number) - radius,
+              radius * 2,
+              radius * 2
+            );
+          }
+          ctx.fillStyle = nodeColor(node);
           ctx.fill();
-          ctx.strokeStyle = "#D46100";
-          ctx.lineWidth = 1;
+          // A white ring marks fragments with links not loaded yet
+          const hasMore =
+            node.kind === "fragment" &&
+            !expanded.has(node.slug) &&
+            node.link_count > (loadedLinks.get(node.key) ?? 0);
+          ctx.strokeStyle = hasMore
+            ? "#FFFFFF"
+            : node.kind === "fragment"
+              ? "#D46100"
+              : "#0369a1";
+          ctx.lineWidth = hasMore ? 2 : 1;
           ctx.stroke();
 
           // Always-visible node label (white text on dark pill)
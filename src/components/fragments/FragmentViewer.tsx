@@ -1,10 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
   X,
   ArrowLeft,
   ArrowClockwise,
   ArrowUpRight,
   ArrowDownRight,
+  PencilSimple,
+  Check,
+  Trash,
+  GitMerge,
 } from "@phosphor-icons/react";
 import { Card } from "@/components/card/Card";
 import { Button } from "@/components/button/Button";
@@ -12,10 +16,16 @@ import ReactMarkdown from "react-markdown";
 import { BacklinkRenderer } from "@/components/chat/BacklinkRenderer";
 
 interface FragmentLink {
+  id: string;
   rel: string;
+  label?: string; // how the link reads from this fragment (inverse if incoming)
+  color?: string | null;
+  weight?: number | null;
   to_id?: string;
+  to_kind?: "memo" | "reply" | "fragment";
   to_slug?: string;
   from_id?: string;
+  from_kind?: "memo" | "reply" | "fragment";
   from_slug?: string;
 }
 
@@ -35,12 +45,15 @@ interface FragmentViewerProps {
   slug: string;
   onClose: () => void;
   onNavigateToFragment?: (slug: string) => void;
+  // Called after the fragment has been deleted (e.g. to refresh a list)
+  onDeleted?: () => void;
 }
 
 export function FragmentViewer({
   slug,
   onClose,
   onNavigateToFragment,
+  onDeleted,
 }: FragmentViewerProps) {
   const [fragment, setFragment] = useState<Fragment | null>(null);
   const [outgoingLinks, setOutgoingLinks] = useState<FragmentLink[]>([]);
@@ -48,45 +61,362 @@ export function FragmentViewer({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchFragment() {
-      try {
-        setLoading(true);
-        setError(null);
-        setFragment(null);
-        setOutgoingLinks([]);
-        setIncomingLinks([]);
-
-        const response = await fetch(
-          `/agents/chat/default/fragment?slug=${encodeURIComponent(slug)}`
+  // Editing / cleanup state
+  const [isEditing, setIsEditing] = useState(false);
+  const [editSlug, setEditSlug] = useState("");
+  const [editContent, setEditContent] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeSlug, setMergeSlug] = useState("");
+  const [merging, setMerging] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [editingLinkId, setEditingLinkId] = useState<string | null>(null);
+  const [linkRel, setLinkRel] = useState("");
+  const [linkWeight, setLinkWeight] = useState("1");
+
+  const fetchFragment = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setFragment(null);
+      setOutgoingLinks([]);
+      setIncomingLinks([]);
+
+      const response = await fetch(
+        `/agents/chat/default/fragment?slug=${encodeURIComponent(slug)}`
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch fragment: ${response.status} ${response.statusText}`
         );
+      }
 
-        if (!response.ok) {
-          throw new Error(
-            `Failed to fetch fragment: ${response.status} ${response.statusText}`
-          );
-        }
+      const data = await response.json();
+
+      setFragment(data.fragment);
+      setOutgoingLinks(data.outgoing || []);
+      setIncomingLinks(data.incoming || []);
+    } catch (err) {
+      console.error("Error fetching fragment:", err);
+      setError((err as Error).message || "Failed to load fragment");
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    if (slug) {
+      setIsEditing(false);
+      setShowMerge(false);
+      setActionError(null);
+      fetchFragment();
+    }
+  }, [slug, fetchFragment]);
 
-        const data = await response.json();
+  const startEditing = () => {
+    if (!fragment) return;
+    setEditSlug(fragment.slug);
+    setEditContent(fragment.content);
+    setActionError(null);
+    setIsEditing(true);
+  };
+
+  const saveFragment = async () => {
+    if (!fragment) return;
+
+    try {
+      setSaving(true);
+      setActionError(null);
+      const response = await fetch("/agents/chat/default/update-fragment", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          slug: fragment.slug,
+          new_slug: editSlug.trim(),
+          content: editContent,
+        }),
+      });
 
+      const data = (await response.json()) as {
+        success: boolean;
+        fragment?: Fragment;
+        error?: string;
+      };
+      if (!response.ok || !data.success || !data.fragment) {
+        throw new Error(data.error || `Failed to save: ${response.status}`);
+      }
+
+      setIsEditing(false);
+      if (data.fragment.slug !== slug && onNavigateToFragment) {
+        // Renamed – reload under the new slug
+        onNavigateToFragment(data.fragment.slug);
+      } else {
         setFragment(data.fragment);
-        setOutgoingLinks(data.outgoing || []);
-        setIncomingLinks(data.incoming || []);
-      } catch (err) {
-        console.error("Error fetching fragment:", err);
-        setError((err as Error).message || "Failed to load fragment");
-      } finally {
-        setLoading(false);
       }
+    } catch (err) {
+      console.error("Error saving fragment:", err);
+      setActionError((err as Error).message);
+    } finally {
+      setSaving(false);
     }
+  };
 
-    if (slug) {
+  const deleteFragment = async () => {
+    if (!fragment) return;
+
+    try {
+      setDeleting(true);
+      setActionError(null);
+      const response = await fetch(
+        `/agents/chat/default/delete-fragment?slug=${encodeURIComponent(fragment.slug)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete fragment: ${response.status}`);
+      }
+
+      onDeleted?.();
+      onClose();
+    } catch (err) {
+      console.error("Error deleting fragment:", err);
+      setActionError((err as Error).message);
+    } finally {
+      setDeleting(false);
+      setShowDeleteConfirm(false);
+    }
+  };
+
+  const startEditingLink = (link: FragmentLink) => {
+    setEditingLinkId(link.id);
+    setLinkRel(link.rel);
+    setLinkWeight(String(link.weight ?? 1));
+    setActionError(null);
+  };
+
+  // Re-label / re-weight an edge in place
+  const saveLink = async (link: FragmentLink) => {
+    const weight = Number(linkWeight);
+    if (!linkRel.trim() || !Number.isFinite(weight)) {
+      setActionError("A link needs a verb and a numeric weight.");
+      return;
+    }
+
+    try {
+      setActionError(null);
+      const response = await fetch(
+        "/agents/chat/default/update-fragment-link",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            edge_id: link.id,
+            new_rel: linkRel.trim(),
+            weight,
+          }),
+        }
+      );
+
+      const data = (await response.json()) as {
+        success: boolean;
+        error?: string;
+      };
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.error || `Failed to update link: ${response.status}`
+        );
+      }
+
+      // The verb may have been normalised or the link flipped, so reload
+      setEditingLinkId(null);
+      await fetchFragment();
+    } catch (err) {
+      console.error("Error updating link:", err);
+      setActionError((err as Error).message);
+    }
+  };
+
+  const removeLink = async (link: FragmentLink) => {
+    try {
+      setActionError(null);
+      const response = await fetch(
+        "/agents/chat/default/delete-fragment-link",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ edge_id: link.id }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to remove link: ${response.status}`);
+      }
+
+      setOutgoingLinks((links) => links.filter((l) => l.id !== link.id));
+      setIncomingLinks((links) => links.filter((l) => l.id !== link.id));
+    } catch (err) {
+      console.error("Error removing link:", err);
+      setActionError((err as Error).message);
+    }
+  };
+
+  // One row of the outgoing/incoming link lists, with inline edge controls
+  const renderLink = (
+    link: FragmentLink,
+    targetSlug: string,
+    targetKind: FragmentLink["to_kind"] = "fragment"
+  ) => (
+    <li
+      key={link.id}
+      className="border border-neutral-200 dark:border-neutral-800 rounded p-2"
+    >
+      {editingLinkId === link.id ? (
+        <div className="flex items-center gap-1 mb-1">
+          <input
+            type="text"
+            value={linkRel}
+            onChange={(e) => setLinkRel(e.target.value)}
+            aria-label="Relationship verb"
+            className="flex-1 min-w-0 px-1.5 py-0.5 text-xs border rounded bg-neutral-100 dark:bg-neutral-800 border-neutral-300 dark:border-neutral-700"
+          />
+          <input
+            type="number"
+            step="0.1"
+            value={linkWeight}
+            onChange={(e) => setLinkWeight(e.target.value)}
+            aria-label="Weight"
+            className="w-16 px-1.5 py-0.5 text-xs border rounded bg-neutral-100 dark:bg-neutral-800 border-neutral-300 dark:border-neutral-700"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            onClick={() => saveLink(link)}
+            aria-label="Save link"
+          >
+            <Check size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            onClick={() => setEditingLinkId(null)}
+            aria-label="Cancel"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1 mb-1">
+          <span
+            className="text-xs bg-neutral-100 dark:bg-neutral-900 px-1.5 py-0.5 rounded flex items-center gap-1"
+            title={link.label && link.label !== link.rel ? link.rel : undefined}
+          >
+            {link.color && (
+              <span
+                className="inline-block w-2 h-2 rounded-full"
+                style={{ backgroundColor: link.color }}
+              />
+            )}
+            {link.label ?? link.rel}
+          </span>
+          {link.weight != null && link.weight !== 1 && (
+            <span className="text-xs text-muted-foreground">
+              ×{link.weight}
+            </span>
+          )}
+          <div className="ml-auto flex items-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              onClick={() => startEditingLink(link)}
+              aria-label="Edit link"
+            >
+              <PencilSimple size={14} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              onClick={() => removeLink(link)}
+              aria-label="Remove link"
+            >
+              <Trash size={14} />
+            </Button>
+          </div>
+        </div>
+      )}
+      <button
+        type="button"
+        className="text-[#F48120] hover:underline font-medium flex items-center gap-0.5"
+        onClick={() => handleLinkClick(targetSlug, targetKind)}
+      >
+        {targetKind !== "fragment" && (
+          <span className="text-xs text-muted-foreground mr-1">
+            {targetKind}
+          </span>
+        )}
+        [[{targetSlug}]]
+      </button>
+    </li>
+  );
+
+  // Fold another (duplicate) fragment into this one
+  const mergeIntoThis = async () => {
+    if (!fragment || !mergeSlug.trim()) return;
+
+    try {
+      setMerging(true);
+      setActionError(null);
+      const response = await fetch("/agents/chat/default/merge-fragments", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          keep_slug: fragment.slug,
+          merge_slug: mergeSlug.trim(),
+        }),
+      });
+
+      const data = (await response.json()) as {
+        success: boolean;
+        error?: string;
+      };
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to merge: ${response.status}`);
+      }
+
+      setShowMerge(false);
+      setMergeSlug("");
       fetchFragment();
+    } catch (err) {
+      console.error("Error merging fragments:", err);
+      setActionError((err as Error).message);
+    } finally {
+      setMerging(false);
     }
-  }, [slug]);
+  };
 
-  const handleLinkClick = (targetSlug: string) => {
-    if (onNavigateToFragment) {
+  const handleLinkClick = (
+    targetSlug: string,
+    targetKind: FragmentLink["to_kind"] = "fragment"
+  ) => {
+    if (targetKind !== "fragment") {
+      // Signal that a memo should be opened
+      onClose();
+      sessionStorage.setItem("openMemoSlug", targetSlug);
+    } else if (onNavigateToFragment) {
       onNavigateToFragment(targetSlug);
     }
   };
@@ -156,23 +486,130 @@ export function FragmentViewer({
               {fragment.slug}
             </h2>
           </div>
-          <Button variant="ghost" size="sm" shape="square" onClick={onClose}>
-            <X size={18} />
-          </Button>
+          <div className="flex items-center gap-1">
+            {isEditing ? (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  shape="square"
+                  onClick={() => setIsEditing(false)}
+                  aria-label="Cancel editing"
+                >
+                  <X size={18} />
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  shape="square"
+                  onClick={saveFragment}
+                  disabled={saving}
+                  aria-label="Save fragment"
+                >
+                  {saving ? (
+                    <ArrowClockwise size={18} className="animate-spin" />
+                  ) : (
+                    <Check size={18} />
+                  )}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  shape="square"
+                  onClick={() => setShowMerge(!showMerge)}
+                  aria-label="Merge a duplicate into this fragment"
+                >
+                  <GitMerge size={18} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  shape="square"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  aria-label="Delete fragment"
+                >
+                  <Trash size={18} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  shape="square"
+                  onClick={startEditing}
+                  aria-label="Edit fragment"
+                >
+                  <PencilSimple size={18} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  shape="square"
+                  onClick={onClose}
+                >
+                  <X size={18} />
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
+        {actionError && (
+          <p className="mb-4 text-sm text-red-500">{actionError}</p>
+        )}
+
+        {/* Merge */}
+        {showMerge && !isEditing && (
+          <div className="mb-4 p-3 rounded-md bg-neutral-100 dark:bg-neutral-900 flex items-center gap-2">
+            <input
+              type="text"
+              value={mergeSlug}
+              onChange={(e) => setMergeSlug(e.target.value)}
+              placeholder="Slug of the duplicate to merge into this fragment"
+              className="flex-1 px-3 py-1.5 text-sm border rounded-md bg-white dark:bg-neutral-800 border-neutral-300 dark:border-neutral-700"
+            />
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={mergeIntoThis}
+              disabled={merging || !mergeSlug.trim()}
+            >
+              {merging ? "Merging…" : "Merge"}
+            </Button>
+          </div>
+        )}
+
         {/* Content */}
-        <div className="mb-6 prose dark:prose-invert max-w-none prose-sm">
-          <BacklinkRenderer
-            text={fragment.content}
-            onNavigateToMemo={(memoSlug) => {
-              // Handle memo navigation
-              onClose();
-              // Signal that a memo should be opened
-              sessionStorage.setItem("openMemoSlug", memoSlug);
-            }}
-          />
-        </div>
+        {isEditing ? (
+          <div className="mb-6 space-y-3">
+            <input
+              type="text"
+              value={editSlug}
+              onChange={(e) => setEditSlug(e.target.value)}
+              placeholder="Slug"
+              className="w-full px-3 py-2 text-sm border rounded-md bg-neutral-100 dark:bg-neutral-800 border-neutral-300 dark:border-neutral-700"
+            />
+            <textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              className="w-full min-h-[160px] px-3 py-2 font-mono text-sm border rounded-md bg-neutral-100 dark:bg-neutral-800 border-neutral-300 dark:border-neutral-700"
+            />
+          </div>
+        ) : (
+          <div className="mb-6 prose dark:prose-invert max-w-none prose-sm">
+            <BacklinkRenderer
+              text={fragment.content}
+              sourceSlug={fragment.slug}
+              onNavigateToMemo={(memoSlug) => {
+                // Handle memo navigation
+                onClose();
+                // Signal that a memo should be opened
+                sessionStorage.setItem("openMemoSlug", memoSlug);
+              }}
+            />
+          </div>
+        )}
 
         {/* Metadata */}
         <div className="mb-6 grid grid-cols-2 gap-4 text-sm text-muted-foreground">
@@ -211,24 +648,9 @@ export function FragmentViewer({
             </h3>
             {outgoingLinks.length > 0 ? (
               <ul className="space-y-2">
-                {outgoingLinks.map((link, i) => (
-                  <li
-                    key={`out-${i}`}
-                    className="border border-neutral-200 dark:border-neutral-800 rounded p-2"
-                  >
-                    <div className="flex items-center gap-1 mb-1">
-                      <span className="text-xs bg-neutral-100 dark:bg-neutral-900 px-1.5 py-0.5 rounded">
-                        {link.rel}
-                      </span>
-                    </div>
-                    <button
-                      className="text-[#F48120] hover:underline font-medium flex items-center gap-0.5"
-                      onClick={() => handleLinkClick(link.to_slug!)}
-                    >
-                      [[{link.to_slug}]]
-                    </button>
-                  </li>
-                ))}
+                {outgoingLinks.map((link) =>
+                  renderLink(link, link.to_slug!, link.to_kind)
+                )}
               </ul>
             ) : (
               <p className="text-sm text-muted-foreground">No outgoing links</p>
@@ -243,24 +665,9 @@ export function FragmentViewer({
             </h3>
             {incomingLinks.length > 0 ? (
               <ul className="space-y-2">
-                {incomingLinks.map((link, i) => (
-                  <li
-                    key={`in-${i}`}
-                    className="border border-neutral-200 dark:border-neutral-800 rounded p-2"
-                  >
-                    <div className="flex items-center gap-1 mb-1">
-                      <span className="text-xs bg-neutral-100 dark:bg-neutral-900 px-1.5 py-0.5 rounded">
-                        {link.rel}
-                      </span>
-                    </div>
-                    <button
-                      className="text-[#F48120] hover:underline font-medium flex items-center gap-0.5"
-                      onClick={() => handleLinkClick(link.from_slug!)}
-                    >
-                      [[{link.from_slug}]]
-                    </button>
-                  </li>
-                ))}
+                {incomingLinks.map((link) =>
+                  renderLink(link, link.from_slug!, link.from_kind)
+                )}
               </ul>
             ) : (
               <p className="text-sm text-muted-foreground">No incoming links</p>
@@ -268,6 +675,44 @@ export function FragmentViewer({
           </div>
         </div>
       </Card>
+
+      {/* Delete confirmation dialog */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+          <div className="bg-white dark:bg-neutral-900 rounded-lg p-5 max-w-md w-full">
+            <h3 className="text-lg font-semibold mb-3">Delete Fragment</h3>
+            <p className="mb-4">
+              Delete "{fragment.slug}" and its{" "}
+              {outgoingLinks.length + incomingLinks.length} link(s)? This action
+              cannot be undone.
+            </p>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="ghost"
+                onClick={() => setShowDeleteConfirm(false)}
+                disabled={deleting}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={deleteFragment}
+                disabled={deleting}
+              >
+                {deleting ? (
+                  <>
+                    <ArrowClockwise size={16} className="animate-spin mr-2" />
+                    Deleting...
+                  </>
+                ) : (
+                  "Delete"
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { Button } from "@/components/button/Button";
 import { ArrowClockwise, X, MagnifyingGlass } from "@phosphor-icons/react";
 import { FragmentViewer } from "./FragmentViewer";
 import { FragmentGraph } from "./FragmentGraph";
+import { Snippet } from "@/components/snippet/Snippet";
 
 const PAGE_SIZE = 50;
 
@@ -15,6 +16,19 @@ interface Fragment {
   created: string;
   modified: string;
   link_count: number;
+  // Present when listing search results
+  snippet?: string;
+}
+
+// Subset of a /search hit used here
+interface SearchHit {
+  id: string;
+  slug: string;
+  snippet: string;
+  author: string | null;
+  link_count?: number;
+  created: string;
+  modified: string;
 }
 
 interface Props {
@@ -25,6 +39,7 @@ export function FragmentsPanel({ onClose }: Props) {
   // ─────────────────────── state ────────────────────────────────
   const [fragments, setFragments] = useState<Fragment[]>([]);
   const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState<string>("");
@@ -37,15 +52,46 @@ export function FragmentsPanel({ onClose }: Props) {
   const fetchFragments = async (reset = false) => {
     try {
       setLoading(true);
-      const offset = reset ? 0 : fragments.length;
+
+      // Searching goes through the hybrid (keyword + semantic) endpoint and
+      // returns a single ranked page
+      if (search.trim()) {
+        const res = await fetch(
+          `/agents/chat/default/search?kinds=fragment&limit=${PAGE_SIZE}&q=${encodeURIComponent(search)}`
+        );
+        if (!res.ok) throw new Error(`status ${res.status}`);
+        const json = (await res.json()) as { hits: SearchHit[] };
+        const items = json.hits.map((hit) => ({
+          id: hit.id,
+          slug: hit.slug,
+          content: hit.snippet,
+          snippet: hit.snippet,
+          speaker: hit.author,
+          created: hit.created,
+          modified: hit.modified,
+          link_count: hit.link_count ?? 0,
+        }));
+
+        setTotal(items.length);
+        setNextCursor(null);
+        setFragments(items);
+        return;
+      }
+
+      const cursor =
+        !reset && nextCursor ? `&cursor=${encodeURIComponent(nextCursor)}` : "";
       const res = await fetch(
-        `/agents/chat/default/list-fragments?limit=${PAGE_SIZE}&offset=${offset}` +
-          (search ? `&q=${encodeURIComponent(search)}` : "")
+        `/agents/chat/default/list-fragments?limit=${PAGE_SIZE}${cursor}`
       );
       if (!res.ok) throw new Error(`status ${res.status}`);
-      const json = (await res.json()) as { total: number; items: Fragment[] };
+      const json = (await res.json()) as {
+        total: number;
+        items: Fragment[];
+        next_cursor: string | null;
+      };
 
       setTotal(json.total);
+      setNextCursor(json.next_cursor);
       setFragments((prev) => (reset ? json.items : [...prev, ...json.items]));
     } catch (e) {
       setError((e as Error).message);
@@ -75,7 +121,7 @@ export function FragmentsPanel({ onClose }: Props) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [search]);
 
-  const hasMore = total !== null && fragments.length < total;
+  const hasMore = nextCursor !== null;
 
   // ─────────────────────── render switches ───────────────────────
   if (viewingFragment) {
@@ -84,6 +130,7 @@ export function FragmentsPanel({ onClose }: Props) {
         slug={viewingFragment}
         onClose={() => setViewingFragment(null)}
         onNavigateToFragment={(slug) => setViewingFragment(slug)}
+        onDeleted={() => fetchFragments(true)}
       />
     );
   }
@@ -96,6 +143,11 @@ export function FragmentsPanel({ onClose }: Props) {
           setShowGraph(false);
           setViewingFragment(slug);
         }}
+        onNavigateToMemo={(slug) => {
+          // Signal that a memo should be opened
+          onClose();
+          sessionStorage.setItem("openMemoSlug", slug);
+        }}
       />
     );
   }
@@ -189,7 +241,7 @@ export function FragmentsPanel({ onClose }: Props) {
                 </td>
                 <td className="px-3 py-2 text-center">{f.link_count}</td>
                 <td className="px-3 py-2 max-w-[400px] truncate">
-                  {f.content}
+                  {f.snippet ? <Snippet text={f.snippet} /> : f.content}
                 </td>
                 <td className="px-3 py-2 whitespace-nowrap">
                   {new Date(f.created).toLocaleString()}
@@ -0,0 +1,272 @@
+import { Button } from "@/components/button/Button";
+import {
+  X,
+  ArrowClockwise,
+  ArrowCounterClockwise,
+} from "@phosphor-icons/react";
+import { useState, useEffect, useCallback } from "react";
+
+interface MemoRevision {
+  id: string;
+  memo_id: string;
+  revision: number;
+  author: string;
+  created: string;
+}
+
+interface DiffLine {
+  type: "equal" | "add" | "remove";
+  text: string;
+  old_line: number | null;
+  new_line: number | null;
+}
+
+interface RevisionDiff {
+  from: number;
+  to: number | "current";
+  added: number;
+  removed: number;
+  lines: DiffLine[];
+}
+
+interface RestoredMemo {
+  id: string;
+  slug: string;
+  content: string;
+  headers: string;
+  created: string;
+  modified: string;
+}
+
+interface MemoHistoryDrawerProps {
+  slug: string;
+  // Bumped by the parent whenever the memo is saved, so the list stays fresh
+  modified: string;
+  onClose: () => void;
+  // Called with the updated memo after a revision has been restored
+  onRestored: (memo: RestoredMemo) => void;
+}
+
+// "assistant:🤔:Skeptic" -> "🤔 Skeptic"
+const formatAuthor = (author: string) => {
+  if (author.startsWith("assistant:")) {
+    const [, emoji, name] = author.split(":");
+    return `${emoji} ${name}`;
+  }
+  return author;
+};
+
+export function MemoHistoryDrawer({
+  slug,
+  modified,
+  onClose,
+  onRestored,
+}: MemoHistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<MemoRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+  };
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/agents/chat/default/memo-revisions?slug=${encodeURIComponent(slug)}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch revisions: ${response.status}`);
+      }
+
+      const data = (await response.json()) as { revisions: MemoRevision[] };
+      setRevisions(data.revisions || []);
+    } catch (error) {
+      console.error("Error loading revisions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload after each save
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, modified]);
+
+  // Diff the selected revision against the memo as it is now
+  const selectRevision = async (revision: number) => {
+    setSelected(revision);
+    try {
+      setLoadingDiff(true);
+      const response = await fetch(
+        `/agents/chat/default/memo-revision-diff?slug=${encodeURIComponent(slug)}&from=${revision}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch diff: ${response.status}`);
+      }
+
+      setDiff((await response.json()) as RevisionDiff);
+    } catch (error) {
+      console.error("Error loading diff:", error);
+      setDiff(null);
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  const restoreRevision = async () => {
+    if (selected === null) return;
+
+    try {
+      setRestoring(true);
+      const response = await fetch(
+        "/agents/chat/default/restore-memo-revision",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ slug, revision: selected }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to restore revision: ${response.status}`);
+      }
+
+      onRestored(await response.json());
+      setSelected(null);
+      setDiff(null);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full max-w-md z-50 bg-white dark:bg-neutral-950 border-l border-neutral-200 dark:border-neutral-800 shadow-xl flex flex-col">
+      <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800 flex justify-between items-center">
+        <h3 className="font-semibold">History</h3>
+        <Button
+          variant="ghost"
+          size="md"
+          shape="square"
+          className="rounded-full h-9 w-9"
+          onClick={onClose}
+          aria-label="Close history"
+        >
+          <X size={20} />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {loading && revisions.length === 0 ? (
+          <div className="p-4 flex justify-center">
+            <ArrowClockwise size={20} className="animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="p-4 text-sm text-neutral-500 dark:text-neutral-400">
+            No edits yet. Revisions are recorded the first time this memo is
+            changed.
+          </p>
+        ) : (
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
+            {revisions.map((rev, index) => (
+              <div key={rev.id}>
+                <button
+                  type="button"
+                  className={`w-full text-left px-4 py-2 hover:bg-neutral-100 dark:hover:bg-neutral-900 ${selected === rev.revision ? "bg-neutral-100 dark:bg-neutral-900" : ""}`}
+                  onClick={() => selectRevision(rev.revision)}
+                >
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">
+                      #{rev.revision}
+                      {index === 0 && (
+                        <span className="ml-2 text-xs text-[#F48120]">
+                          current
+                        </span>
+                      )}
+                    </span>
+                    <span>{formatAuthor(rev.author)}</span>
+                  </div>
+                  <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {formatDate(rev.created)}
+                  </div>
+                </button>
+
+                {selected === rev.revision && (
+                  <div className="px-4 pb-3">
+                    {loadingDiff ? (
+                      <div className="py-2 flex justify-center">
+                        <ArrowClockwise size={16} className="animate-spin" />
+                      </div>
+                    ) : diff && diff.added + diff.removed === 0 ? (
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400 py-2">
+                        Same as the current content.
+                      </p>
+                    ) : (
+                      diff && (
+                        <>
+                          <div className="text-xs text-neutral-500 dark:text-neutral-400 py-2">
+                            Changes since this revision: +{diff.added} −
+                            {diff.removed}
+                          </div>
+                          <pre className="text-xs font-mono overflow-x-auto rounded-md border border-neutral-200 dark:border-neutral-800 max-h-80">
+                            {diff.lines.map((line) => (
+                              <div
+                                key={`${line.type}-${line.old_line}-${line.new_line}`}
+                                className={
+                                  line.type === "add"
+                                    ? "bg-green-500/15 text-green-700 dark:text-green-400"
+                                    : line.type === "remove"
+                                      ? "bg-red-500/15 text-red-700 dark:text-red-400"
+                                      : "text-neutral-500"
+                                }
+                              >
+                                {line.type === "add"
+                                  ? "+ "
+                                  : line.type === "remove"
+                                    ? "- "
+                                    : "  "}
+                                {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="mt-2 flex items-center gap-1"
+                            onClick={restoreRevision}
+                            disabled={restoring}
+                          >
+                            {restoring ? (
+                              <ArrowClockwise
+                                size={14}
+                                className="animate-spin"
+                              />
+                            ) : (
+                              <ArrowCounterClockwise size={14} />
+                            )}
+                            Restore this version
+                          </Button>
+                        </>
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
 import { TextArea } from "@/components/input/TextArea";
 import { Toggle } from "@/components/toggle/Toggle";
+import { MemoHistoryDrawer } from "@/components/memos/MemoHistoryDrawer";
+import { useLinkTargets, WikiText } from "@/components/memos/WikiLink";
+import { findWikiLinks } from "@/wiki-links";
 import {
   X,
   PencilSimple,
@@ -11,8 +14,9 @@ import {
   Play,
   ArrowRight,
   Trash,
+  ClockCounterClockwise,
 } from "@phosphor-icons/react";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import ReactMarkdown from "react-markdown";
 
 interface Memo {
@@ -20,7 +24,6 @@ interface Memo {
   slug: string;
   content: string;
   headers: string;
-  links: string;
   created: string;
   modified: string;
 }
@@ -51,6 +54,8 @@ export function MemoViewer({
 }: MemoViewerProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(memo.content);
+  const [editSlug, setEditSlug] = useState(memo.slug);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [currentMemo, setCurrentMemo] = useState<Memo>(memo);
   const [backlinks, setBacklinks] = useState<Memo[]>([]);
@@ -59,6 +64,7 @@ export function MemoViewer({
   const [isWorkflow, setIsWorkflow] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Parse headers to get topic and keywords if available
   const parseHeaders = (headersString: string): MemoHeaders => {
@@ -71,6 +77,14 @@ export function MemoViewer({
   };
 
   const headers = parseHeaders(currentMemo.headers);
+
+  // What each [[link]] in the memo points at, so dangling ones stand out
+  const linkSlugs = useMemo(
+    () => findWikiLinks(currentMemo.content).map((link) => link.slug),
+    [currentMemo.content]
+  );
+  const { kinds: linkKinds, refresh: refreshLinkKinds } =
+    useLinkTargets(linkSlugs);
   // Update isWorkflow state based on headers
   useEffect(() => {
     setIsWorkflow(headers.type === "workflow");
@@ -90,17 +104,6 @@ export function MemoViewer({
     return date.toLocaleDateString() + " " + date.toLocaleTimeString();
   };
 
-  // Function to parse the links JSON string
-  const parseLinks = (linksString: string) => {
-    try {
-      return JSON.parse(linksString);
-    } catch {
-      return { incoming: [], outgoing: [] };
-    }
-  };
-
-  const links = parseLinks(currentMemo.links);
-
   // Load backlinks for the current memo
   const loadBacklinks = useCallback(async () => {
     try {
@@ -133,6 +136,7 @@ export function MemoViewer({
   const saveMemo = async () => {
     try {
       setSaving(true);
+      setSaveError(null);
 
       // Prepare headers based on workflow status
       let updatedHeaders: MemoHeaders = {};
@@ -176,6 +180,30 @@ export function MemoViewer({
         modified: new Date().toISOString(),
       });
 
+      // Rename after saving, so links in the new content are rewritten too
+      const newSlug = editSlug.trim();
+      if (newSlug && newSlug !== currentMemo.slug) {
+        const renameResponse = await fetch("/agents/chat/default/rename-memo", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ slug: currentMemo.slug, new_slug: newSlug }),
+        });
+        if (!renameResponse.ok) {
+          const data = (await renameResponse.json()) as { error?: string };
+          throw new Error(
+            data.error || `Failed to rename memo: ${renameResponse.status}`
+          );
+        }
+        const renamed = await fetch(
+          `/agents/chat/default/get-memo?slug=${encodeURIComponent(newSlug)}`
+        );
+        if (renamed.ok) {
+          setCurrentMemo((await renamed.json()) as Memo);
+        }
+      }
+
       // Update isWorkflow state based on the new headers
       const newHeadersParsed = parseHeaders(newHeaders);
       const newIsWorkflow = newHeadersParsed.type === "workflow";
@@ -189,6 +217,7 @@ export function MemoViewer({
       loadBacklinks();
     } catch (error) {
       console.error("Error saving memo:", error);
+      setSaveError((error as Error).message);
     } finally {
       setSaving(false);
     }
@@ -277,8 +306,8 @@ export function MemoViewer({
     }
   };
 
-  // Navigate to a linked memo (client-side only)
-  const navigateToMemo = (slug: string) => {
+  // Navigate to a linked memo (from memos already loaded when possible)
+  const navigateToMemo = async (slug: string) => {
     // First look in allMemos (from the parent component)
     let targetMemo = allMemos.find((memo) => memo.slug === slug);
 
@@ -287,8 +316,21 @@ export function MemoViewer({
       targetMemo = backlinks.find((memo) => memo.slug === slug);
     }
 
+    // Otherwise ask the server, which also follows renamed slugs
+    if (!targetMemo && linkKinds[slug] !== "fragment") {
+      try {
+        const response = await fetch(
+          `/agents/chat/default/get-memo?slug=${encodeURIComponent(slug)}`
+        );
+        if (response.ok) {
+          targetMemo = (await response.json()) as Memo;
+        }
+      } catch (error) {
+        console.error("Error fetching memo:", error);
+      }
+    }
+
     if (targetMemo) {
-      // Use the memo we already have without making a server request
       setCurrentMemo(targetMemo);
       setEditedContent(targetMemo.content);
 
@@ -302,15 +344,37 @@ export function MemoViewer({
 
       // Load backlinks for the new memo
       loadBacklinks();
-    } else {
-      // If the memo isn't in our cache, we'll just show the link as is
-      console.log(`Note with slug "${slug}" not found in available memos`);
-      // Optionally, could show a notification to the user that the linked note doesn't exist
+    } else if (linkKinds[slug] === "fragment") {
+      // Not a memo – hand over to the fragments panel
+      sessionStorage.setItem("openFragmentSlug", slug);
+      onClose();
     }
+    // Dangling links offer a stub instead of navigating
   };
 
   // End of navigateToMemo function
 
+  // Open the stub created for a dangling link
+  const handleStubCreated = (slug: string) => {
+    refreshLinkKinds();
+    navigateToMemo(slug);
+  };
+
+  // Swap in the memo returned by a revision restore
+  const handleRestored = (restored: Memo) => {
+    setCurrentMemo(restored);
+    setEditedContent(restored.content);
+
+    const newHeaders = parseHeaders(restored.headers);
+    const newIsWorkflow = newHeaders.type === "workflow";
+    setIsWorkflow(newIsWorkflow);
+    setEditIsWorkflow(newIsWorkflow);
+    setEditWorkflowTitle(newHeaders.title || restored.slug);
+    setEditWorkflowDescription(newHeaders.description || "");
+
+    loadBacklinks();
+  };
+
   // Function to delete the current memo
   const deleteMemo = async () => {
     try {
@@ -345,7 +409,18 @@ export function MemoViewer({
     <div className="fixed inset-0 bg-white dark:bg-neutral-950 z-50 overflow-auto flex flex-col">
       <div className="sticky top-0 z-10 bg-white dark:bg-neutral-950 border-b border-neutral-200 dark:border-neutral-800 px-4 py-3 flex justify-between items-center">
         <div className="flex items-center gap-2">
-          <h2 className="font-semibold">{currentMemo.slug}</h2>
+          {isEditing ? (
+            <input
+              type="text"
+              value={editSlug}
+              onChange={(e) => setEditSlug(e.target.value)}
+              placeholder="Slug"
+              aria-label="Slug"
+              className="font-semibold px-2 py-1 text-sm border rounded-md bg-neutral-100 dark:bg-neutral-800 border-neutral-300 dark:border-neutral-700"
+            />
+          ) : (
+            <h2 className="font-semibold">{currentMemo.slug}</h2>
+          )}
           {isWorkflow && (
             <span className="text-xs bg-[#F48120]/20 text-[#F48120] px-2 py-1 rounded-full flex items-center">
               <FlowArrow size={12} className="mr-1" />
@@ -385,6 +460,8 @@ export function MemoViewer({
                 onClick={() => {
                   setIsEditing(false);
                   setEditedContent(currentMemo.content); // Revert to original content
+                  setEditSlug(currentMemo.slug);
+                  setSaveError(null);
                   setEditIsWorkflow(isWorkflow); // Reset workflow state
                   setEditWorkflowTitle(headers.title || currentMemo.slug);
                   setEditWorkflowDescription(headers.description || "");
@@ -424,7 +501,20 @@ export function MemoViewer({
                 size="md"
                 shape="square"
                 className="rounded-full h-9 w-9"
-                onClick={() => setIsEditing(true)}
+                onClick={() => setShowHistory(!showHistory)}
+                aria-label="Show history"
+              >
+                <ClockCounterClockwise size={20} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="md"
+                shape="square"
+                className="rounded-full h-9 w-9"
+                onClick={() => {
+                  setEditSlug(currentMemo.slug);
+                  setIsEditing(true);
+                }}
               >
                 <PencilSimple size={20} />
               </Button>
@@ -443,6 +533,7 @@ export function MemoViewer({
       </div>
 
       <div className="flex-1 p-4 max-w-3xl mx-auto w-full">
+        {saveError && <p className="mb-4 text-sm text-red-500">{saveError}</p>}
         {isWorkflow && headers.title && (
           <div className="text-lg text-[#F48120] mb-2 font-medium">
             {headers.title}
@@ -538,74 +629,18 @@ export function MemoViewer({
                   </p>
                 </div>
               )}
-              {/* Process the content for standalone backlinks first */}
+              {/* Lines with links or transclusions are rendered as wiki text */}
               {currentMemo.content.split("\n").map((line, lineIndex) => {
-                // Check if line is just a backlink
-                const standaloneMatch = line.trim().match(/^\[\[(.*?)\]\]$/);
-                if (standaloneMatch) {
-                  const slug = standaloneMatch[1];
-                  return (
-                    <p key={`line-${lineIndex}`} className="my-1">
-                      <button
-                        className="text-[#F48120] hover:underline font-medium"
-                        onClick={() => navigateToMemo(slug)}
-                      >
-                        {slug}
-                      </button>
-                    </p>
-                  );
-                }
-
-                // Check if the line contains any backlinks
-                const backlinkRegex = /\[\[(.*?)\]\]/g;
-                let match;
-                let containsBacklinks = false;
-                const matches = [];
-
-                // Reset regex
-                backlinkRegex.lastIndex = 0;
-
-                // Check for backlinks in this line
-                while ((match = backlinkRegex.exec(line)) !== null) {
-                  containsBacklinks = true;
-                  matches.push({
-                    fullMatch: match[0],
-                    slug: match[1],
-                    index: match.index,
-                  });
-                }
-
-                // If line contains backlinks, process them directly
-                if (containsBacklinks) {
-                  const parts = [];
-                  let lastIndex = 0;
-
-                  // Build elements with clickable backlinks
-                  matches.forEach((m, i) => {
-                    if (m.index > lastIndex) {
-                      parts.push(line.substring(lastIndex, m.index));
-                    }
-
-                    parts.push(
-                      <button
-                        key={`backlink-${lineIndex}-${i}`}
-                        className="text-[#F48120] hover:underline font-medium"
-                        onClick={() => navigateToMemo(m.slug)}
-                      >
-                        {m.slug}
-                      </button>
-                    );
-
-                    lastIndex = m.index + m.fullMatch.length;
-                  });
-
-                  if (lastIndex < line.length) {
-                    parts.push(line.substring(lastIndex));
-                  }
-
+                if (findWikiLinks(line).length) {
                   return (
                     <p key={`line-${lineIndex}`} className="my-1">
-                      {parts}
+                      <WikiText
+                        text={line}
+                        kinds={linkKinds}
+                        onNavigate={navigateToMemo}
+                        onStubCreated={handleStubCreated}
+                        ancestors={[currentMemo.slug]}
+                      />
                     </p>
                   );
                 }
@@ -616,45 +651,15 @@ export function MemoViewer({
                     <ReactMarkdown
                       components={{
                         // Custom renderer for text to handle backlinks
-                        text: ({ children }) => {
-                          // Process backlinks
-                          const text = String(children);
-                          const backlinkPattern = /\[\[(.*?)\]\]/g;
-                          const parts: React.ReactNode[] = [];
-                          let lastIndex = 0;
-                          let match;
-                          let matchFound = false;
-
-                          while (
-                            (match = backlinkPattern.exec(text)) !== null
-                          ) {
-                            matchFound = true;
-                            if (match.index > lastIndex) {
-                              parts.push(
-                                text.substring(lastIndex, match.index)
-                              );
-                            }
-
-                            const slug = match[1];
-                            parts.push(
-                              <button
-                                key={`${slug}-${match.index}`}
-                                className="text-[#F48120] hover:underline font-medium"
-                                onClick={() => navigateToMemo(slug)}
-                              >
-                                {slug}
-                              </button>
-                            );
-
-                            lastIndex = match.index + match[0].length;
-                          }
-
-                          if (lastIndex < text.length) {
-                            parts.push(text.substring(lastIndex));
-                          }
-
-                          return matchFound ? <>{parts}</> : <>{text}</>;
-                        },
+                        text: ({ children }) => (
+                          <WikiText
+                            text={String(children)}
+                            kinds={linkKinds}
+                            onNavigate={navigateToMemo}
+                            onStubCreated={handleStubCreated}
+                            ancestors={[currentMemo.slug]}
+                          />
+                        ),
 
                         // Custom renderer for list items to handle checkboxes
                         li: (props: any) => {
@@ -748,6 +753,15 @@ export function MemoViewer({
         </div>
       </div>
 
+      {showHistory && (
+        <MemoHistoryDrawer
+          slug={currentMemo.slug}
+          modified={currentMemo.modified}
+          onClose={() => setShowHistory(false)}
+          onRestored={handleRestored}
+        />
+      )}
+
       {/* Delete confirmation dialog */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
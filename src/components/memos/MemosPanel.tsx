@@ -1,14 +1,16 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Card } from "@/components/card/Card";
 import { Button } from "@/components/button/Button";
 import { TextArea } from "@/components/input/TextArea";
 import { MemoViewer } from "./MemoViewer";
+import { Snippet } from "@/components/snippet/Snippet";
 import {
   X,
   Plus,
   Check,
   ArrowClockwise,
   FlowArrow,
+  MagnifyingGlass,
 } from "@phosphor-icons/react";
 import ReactMarkdown from "react-markdown";
 
@@ -17,18 +19,37 @@ interface Memo {
   slug: string;
   content: string;
   headers: string;
-  links: string;
   created: string;
   modified: string;
 }
 
+// One page of /list-memos
+interface MemoPage {
+  items: Memo[];
+  total: number;
+  next_cursor: string | null;
+}
+
+// Subset of a /search hit used here
+interface SearchHit {
+  kind: "memo" | "reply" | "fragment";
+  id: string;
+  slug: string;
+  snippet: string;
+  author: string | null;
+  modified: string;
+}
+
 interface MemosPanelProps {
   onClose: () => void;
 }
 
 export function MemosPanel({ onClose }: MemosPanelProps) {
   const [memos, setMemos] = useState<Memo[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedMemo, setSelectedMemo] = useState<Memo | null>(null);
   const [isCreatingMemo, setIsCreatingMemo] = useState(false);
@@ -38,17 +59,35 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
   const [isWorkflow, setIsWorkflow] = useState(false);
   const [workflowTitle, setWorkflowTitle] = useState("");
   const [workflowDescription, setWorkflowDescription] = useState("");
+  const [search, setSearch] = useState("");
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Fetch a page of memos, the first one unless a cursor is given
+  const fetchMemoPage = useCallback(
+    async (cursor?: string): Promise<MemoPage> => {
+      const response = await fetch(
+        `/agents/chat/default/list-memos${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch memos: ${response.status}`);
+      }
+      const page = (await response.json()) as MemoPage;
+      setTotal(page.total);
+      setNextCursor(page.next_cursor);
+      return page;
+    },
+    []
+  );
 
   // Function to refresh memos list
   const refreshMemos = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/agents/chat/default/list-memos");
-      if (!response.ok) {
-        throw new Error(`Failed to fetch memos: ${response.status}`);
-      }
-      const data = await response.json();
-      setMemos(data as Memo[]);
+      const page = await fetchMemoPage();
+      setMemos(page.items);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load memos");
     } finally {
@@ -60,22 +99,26 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
     const fetchInitialMemos = async () => {
       try {
         setLoading(true);
-        const response = await fetch("/agents/chat/default/list-memos");
-        if (!response.ok) {
-          throw new Error(`Failed to fetch memos: ${response.status}`);
-        }
-        const data = await response.json();
-        setMemos(data as Memo[]);
+        const page = await fetchMemoPage();
+        setMemos(page.items);
 
         // Check if we need to open a specific memo
         const openMemoSlug = sessionStorage.getItem("openMemoSlug");
         if (openMemoSlug) {
-          // Find the memo with this slug
-          const memoToOpen = (data as Memo[]).find(
+          // Find the memo with this slug, fetching it if it isn't on the
+          // first page
+          const memoToOpen = page.items.find(
             (memo) => memo.slug === openMemoSlug
           );
           if (memoToOpen) {
             setSelectedMemo(memoToOpen);
+          } else {
+            const response = await fetch(
+              `/agents/chat/default/get-memo?slug=${encodeURIComponent(openMemoSlug)}`
+            );
+            if (response.ok) {
+              setSelectedMemo((await response.json()) as Memo);
+            }
           }
           // Clear the sessionStorage item so it doesn't persist
           sessionStorage.removeItem("openMemoSlug");
@@ -88,7 +131,71 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
     };
 
     fetchInitialMemos();
-  }, []);
+  }, [fetchMemoPage]);
+
+  const loadMoreMemos = async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const page = await fetchMemoPage(nextCursor);
+      setMemos((prev) => [...prev, ...page.items]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load memos");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Debounced hybrid search over memos and replies
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+
+    const query = search.trim();
+    if (!query) {
+      setSearchHits(null);
+      return;
+    }
+
+    debounceRef.current = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const response = await fetch(
+          `/agents/chat/default/search?kinds=memo,reply&limit=30&q=${encodeURIComponent(query)}`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to search memos: ${response.status}`);
+        }
+        const data = (await response.json()) as { hits: SearchHit[] };
+        setSearchHits(data.hits);
+      } catch (err) {
+        console.error("Error searching memos:", err);
+        setSearchHits([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+  }, [search]);
+
+  // Open a search hit, fetching it if it isn't in the loaded list (e.g. a reply)
+  const openHit = async (hit: SearchHit) => {
+    const loaded = memos.find((memo) => memo.id === hit.id);
+    if (loaded) {
+      setSelectedMemo(loaded);
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/agents/chat/default/get-memo?slug=${encodeURIComponent(hit.slug)}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch memo: ${response.status}`);
+      }
+      setSelectedMemo((await response.json()) as Memo);
+    } catch (err) {
+      console.error("Error opening search result:", err);
+    }
+  };
 
   // Create a new memo
   const createMemo = async () => {
@@ -206,7 +313,7 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
   return (
     <div className="fixed inset-0 z-20 bg-white dark:bg-neutral-950 overflow-auto">
       <div className="sticky top-0 z-10 bg-white dark:bg-neutral-950 border-b border-neutral-200 dark:border-neutral-800 px-4 py-3 flex justify-between items-center">
-        <h2 className="font-semibold">Memos ({memos.length})</h2>
+        <h2 className="font-semibold">Memos ({total ?? memos.length})</h2>
         <div className="flex items-center gap-2">
           <Button
             variant="ghost"
@@ -229,6 +336,28 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
         </div>
       </div>
 
+      {/* Search bar */}
+      <div className="px-4 pt-3 max-w-5xl mx-auto">
+        <div className="relative">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search memos and replies…"
+            className="w-full px-8 py-2 rounded-md border border-neutral-300 dark:border-neutral-800 bg-transparent outline-none"
+          />
+          <MagnifyingGlass
+            size={16}
+            className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground"
+          />
+          {searching && (
+            <ArrowClockwise
+              size={16}
+              className="absolute right-2 top-1/2 -translate-y-1/2 animate-spin text-muted-foreground"
+            />
+          )}
+        </div>
+      </div>
+
       {/* Create New Memo Dialog */}
       {isCreatingMemo && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-30">
@@ -356,13 +485,47 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
           </Card>
         )}
 
-        {!loading && !error && memos.length === 0 && (
+        {searchHits && (
+          <div className="max-w-5xl mx-auto divide-y divide-neutral-200 dark:divide-neutral-800">
+            {searchHits.length === 0 && !searching && (
+              <div className="text-center py-12 text-muted-foreground">
+                No matches
+              </div>
+            )}
+            {searchHits.map((hit) => (
+              <button
+                key={hit.id}
+                type="button"
+                className="w-full text-left py-3 px-2 hover:bg-neutral-100 dark:hover:bg-neutral-900"
+                onClick={() => openHit(hit)}
+              >
+                <div className="flex justify-between items-baseline gap-2">
+                  <span className="font-medium truncate">
+                    {hit.slug}
+                    {hit.kind === "reply" && (
+                      <span className="ml-2 text-xs text-[#F48120]">reply</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400 whitespace-nowrap">
+                    {new Date(hit.modified).toLocaleDateString()}
+                  </span>
+                </div>
+                <Snippet
+                  text={hit.snippet}
+                  className="block text-sm text-neutral-700 dark:text-neutral-300 line-clamp-2"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!searchHits && !loading && !error && memos.length === 0 && (
           <div className="text-center py-12 text-muted-foreground">
             No memos found
           </div>
         )}
 
-        {!loading && !error && memos.length > 0 && (
+        {!searchHits && !loading && !error && memos.length > 0 && (
           <div className="grid grid-cols-2 gap-4 max-w-5xl mx-auto">
             {memos.map((memo) => {
               const headers = parseHeaders(memo.headers);
@@ -426,6 +589,21 @@ export function MemosPanel({ onClose }: MemosPanelProps) {
             })}
           </div>
         )}
+
+        {!searchHits && nextCursor && (
+          <div className="flex justify-center my-6">
+            <Button disabled={loadingMore} onClick={loadMoreMemos}>
+              {loadingMore ? (
+                <>
+                  <ArrowClockwise size={16} className="animate-spin mr-1" />
+                  Loading…
+                </>
+              ) : (
+                "Load more"
+              )}
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  extractSection,
+  findWikiLinks,
+  MAX_TRANSCLUSION_DEPTH,
+  splitWikiLinks,
+  type WikiLinkToken,
+  wikiLinkLabel,
+} from "@/wiki-links";
+
+export type LinkTargetKind = "memo" | "fragment" | "unresolved";
+
+// Slugs known to exist, shared by every link on the page. Unresolved slugs
+// aren't cached so a target created elsewhere shows up on the next render.
+const resolvedTargets = new Map<string, LinkTargetKind>();
+
+/**
+ * What each `[[slug]]` in `slugs` resolves to (memo, fragment or unresolved).
+ * Slugs still being looked up are absent from the result.
+ */
+export function useLinkTargets(slugs: string[]) {
+  const key = [...new Set(slugs)].sort().join("\n");
+  const [kinds, setKinds] = useState<Record<string, LinkTargetKind>>({});
+  const [version, setVersion] = useState(0);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: version forces a re-check
+  useEffect(() => {
+    const wanted = key ? key.split("\n") : [];
+    const known: Record<string, LinkTargetKind> = {};
+    for (const slug of wanted) {
+      const kind = resolvedTargets.get(slug);
+      if (kind) known[slug] = kind;
+    }
+    setKinds(known);
+
+    const missing = wanted.filter((slug) => !resolvedTargets.has(slug));
+    if (!missing.length) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams();
+    for (const slug of missing) params.append("slug", slug);
+    fetch(`/agents/chat/default/resolve-links?${params}`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to resolve links: ${response.status}`);
+        }
+        return response.json() as Promise<{
+          kinds: Record<string, LinkTargetKind>;
+        }>;
+      })
+      .then(({ kinds: resolved }) => {
+        for (const [slug, kind] of Object.entries(resolved)) {
+          if (kind !== "unresolved") resolvedTargets.set(slug, kind);
+        }
+        if (!cancelled) setKinds({ ...known, ...resolved });
+      })
+      .catch((error) => console.error("Error resolving links:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { kinds, refresh };
+}
+
+/**
+ * Create a placeholder memo or fragment for a missing link target.
+ */
+export async function createStub(
+  slug: string,
+  kind: "memo" | "fragment" = "memo"
+) {
+  const response = await fetch("/agents/chat/default/create-stub", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ slug, kind }),
+  });
+  if (!response.ok) {
+    const data = (await response.json()) as { error?: string };
+    throw new Error(data.error || `Failed to create stub: ${response.status}`);
+  }
+  resolvedTargets.set(slug, kind);
+}
+
+interface WikiLinkProps {
+  slug: string;
+  label?: string;
+  kind?: LinkTargetKind; // undefined while it's being resolved
+  onNavigate: (slug: string) => void;
+  onStubCreated?: (slug: string) => void;
+}
+
+/**
+ * A `[[slug]]` link. Links to nothing are drawn dashed and muted, with a
+ * button that creates a stub memo for them.
+ */
+export function WikiLink({
+  slug,
+  label,
+  kind,
+  onNavigate,
+  onStubCreated,
+}: WikiLinkProps) {
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (kind !== "unresolved") {
+    return (
+      <button
+        type="button"
+        className="text-[#F48120] hover:underline font-medium"
+        onClick={() => onNavigate(slug)}
+      >
+        {label ?? slug}
+      </button>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-baseline gap-1">
+      <span
+        className="text-neutral-500 dark:text-neutral-400 border-b border-dashed border-red-400 cursor-help"
+        title={error ?? `Nothing is called '${slug}' yet`}
+      >
+        {label ?? slug}
+      </span>
+      <button
+        type="button"
+        className="text-xs text-red-500 hover:underline disabled:opacity-50"
+        disabled={creating}
+        title={`Create a stub memo called '${slug}'`}
+        onClick={async () => {
+          try {
+            setCreating(true);
+            setError(null);
+            await createStub(slug);
+            onStubCreated?.(slug);
+          } catch (err) {
+            console.error("Error creating stub:", err);
+            setError((err as Error).message);
+          } finally {
+            setCreating(false);
+          }
+        }}
+      >
+        {creating ? "creating…" : "+ stub"}
+      </button>
+    </span>
+  );
+}
+
+interface WikiTextProps {
+  text: string;
+  onNavigate: (slug: string) => void;
+  // Link targets already resolved by the caller; resolved here otherwise
+  kinds?: Record<string, LinkTargetKind>;
+  onStubCreated?: (slug: string) => void;
+  // Slugs being shown around this text, and how many transclusions deep it
+  // is, for cycle and depth protection
+  ancestors?: string[];
+  depth?: number;
+}
+
+/**
+ * Plain text with its `[[links]]` as WikiLinks and its `![[transclusions]]`
+ * embedded. A transclusion of one of its own ancestors (a cycle), or one
+ * nested deeper than MAX_TRANSCLUSION_DEPTH, is shown as a link instead.
+ */
+export function WikiText({
+  text,
+  onNavigate,
+  kinds,
+  onStubCreated,
+  ancestors = [],
+  depth = 0,
+}: WikiTextProps) {
+  const slugs = useMemo(
+    () => (kinds ? [] : findWikiLinks(text).map((link) => link.slug)),
+    [text, kinds]
+  );
+  const own = useLinkTargets(slugs);
+  const targets = kinds ?? own.kinds;
+  const stubCreated = (slug: string) => {
+    if (!kinds) own.refresh();
+    onStubCreated?.(slug);
+  };
+
+  return (
+    <>
+      {splitWikiLinks(text).map((part) => {
+        if (typeof part === "string") return part;
+        const key = `${part.raw}-${part.index}`;
+        if (
+          part.embed &&
+          targets[part.slug] !== "unresolved" &&
+          !ancestors.includes(part.slug) &&
+          depth < MAX_TRANSCLUSION_DEPTH
+        ) {
+          return (
+            <Transclusion
+              key={key}
+              link={part}
+              kind={targets[part.slug]}
+              onNavigate={onNavigate}
+              ancestors={ancestors}
+              depth={depth}
+            />
+          );
+        }
+        return (
+          <WikiLink
+            key={key}
+            slug={part.slug}
+            label={wikiLinkLabel(part)}
+            kind={targets[part.slug]}
+            onNavigate={onNavigate}
+            onStubCreated={stubCreated}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+interface TransclusionProps {
+  link: WikiLinkToken;
+  kind?: LinkTargetKind;
+  onNavigate: (slug: string) => void;
+  ancestors: string[];
+  depth: number;
+}
+
+/**
+ * The content (or section) of the memo or fragment a `![[link]]` names,
+ * with its own links and transclusions rendered inside it.
+ */
+function Transclusion({
+  link,
+  kind,
+  onNavigate,
+  ancestors,
+  depth,
+}: TransclusionProps) {
+  const [content, setContent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async (): Promise<string | null> => {
+      // Memos first (following renamed slugs), then fragments
+      if (kind !== "fragment") {
+        const response = await fetch(
+          `/agents/chat/default/get-memo?slug=${encodeURIComponent(link.slug)}`
+        );
+        if (response.ok) {
+          return ((await response.json()) as { content: string }).content;
+        }
+      }
+      const response = await fetch(
+        `/agents/chat/default/fragment?slug=${encodeURIComponent(link.slug)}`
+      );
+      if (response.ok) {
+        return ((await response.json()) as { fragment: { content: string } })
+          .fragment.content;
+      }
+      return null;
+    };
+
+    setContent(null);
+    setError(null);
+    load()
+      .then((full) => {
+        if (cancelled) return;
+        if (full === null) {
+          setError(`Nothing is called '${link.slug}'`);
+          return;
+        }
+        const embedded = link.anchor ? extractSection(full, link.anchor) : full;
+        if (embedded === null) {
+          setError(`No section '${link.anchor}' in '${link.slug}'`);
+          return;
+        }
+        setContent(embedded);
+      })
+      .catch((err) => {
+        console.error("Error loading transclusion:", err);
+        if (!cancelled) setError((err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [link.slug, link.anchor, kind]);
+
+  return (
+    <span className="block my-2 pl-3 border-l-2 border-[#F48120]/40">
+      <span className="block text-xs mb-1">
+        <WikiLink
+          slug={link.slug}
+          label={wikiLinkLabel(link)}
+          kind={kind}
+          onNavigate={onNavigate}
+        />
+      </span>
+      {error ? (
+        <span className="block text-xs text-red-500">{error}</span>
+      ) : content === null ? (
+        <span className="block text-xs text-neutral-500">Loading…</span>
+      ) : (
+        <span className="block whitespace-pre-wrap text-sm">
+          <WikiText
+            text={content}
+            onNavigate={onNavigate}
+            ancestors={[...ancestors, link.slug]}
+            depth={depth + 1}
+          />
+        </span>
+      )}
+    </span>
+  );
+}
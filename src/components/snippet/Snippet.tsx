@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+
+export type SnippetProps = {
+  // Search excerpt with matches wrapped in <mark></mark>
+  text: string;
+  className?: string;
+};
+
+// Split on the markers rather than injecting HTML: the surrounding text is
+// user content and must stay escaped.
+const MARK = /<mark>(.*?)<\/mark>/g;
+
+export const Snippet = ({ text, className }: SnippetProps) => {
+  const parts = text.split(MARK);
+
+  return (
+    <span className={cn(className)}>
+      {parts.map((part, i) =>
+        // Odd indices are the captured (highlighted) groups
+        i % 2 === 1 ? (
+          <mark
+            // biome-ignore lint/suspicious/noArrayIndexKey: parts never reorder
+            key={i}
+            className="bg-[#F48120]/20 text-inherit rounded-sm"
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
@@ -23,13 +23,21 @@ interface Memo {
   slug: string;
   content: string;
   headers: string;
-  links: string;
   created: string;
   modified: string;
   parent_id?: string | null;
   author?: string;
   reactions?: { [emoji: string]: string[] }; // emoji -> array of user IDs
   summary?: string;
+  // From /threads and /replies
+  reply_count?: number;
+  participants?: string[];
+  last_activity?: string;
+}
+
+interface ThreadPage {
+  items: Memo[];
+  next_cursor: string | null;
 }
 
 interface ThreadsPanelProps {
@@ -43,6 +51,10 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
   // Data state
   const [rootMemos, setRootMemos] = useState<Memo[]>([]);
   const [replies, setReplies] = useState<Memo[]>([]);
+  // Cursors of the next page of threads / replies, null when all are loaded
+  const [threadsCursor, setThreadsCursor] = useState<string | null>(null);
+  const [repliesCursor, setRepliesCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [allThreadMemos, setAllThreadMemos] = useState<Memo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -169,52 +181,57 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
     }
   }, [currentMemo]);
 
-  const loadRootMemos = async () => {
+  // Load the first page of threads, or the page after `cursor`
+  const loadRootMemos = async (cursor: string | null = null) => {
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
       setError(null);
 
-      const response = await fetch(
-        "/agents/chat/default/list-memos?sortBy=modified&sortOrder=desc&limit=50"
-      );
+      const params = new URLSearchParams({ limit: "50" });
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`/agents/chat/default/threads?${params}`);
       if (!response.ok) {
-        throw new Error(`Failed to fetch memos: ${response.status}`);
+        throw new Error(`Failed to fetch threads: ${response.status}`);
       }
 
-      const allMemos = (await response.json()) as Memo[];
-      const rootMemos = allMemos.filter((memo: Memo) => !memo.parent_id);
-      setRootMemos(rootMemos);
-
-      // Load reply counts for root memos
-      await loadReplyCounts(rootMemos, allMemos);
+      const page = (await response.json()) as ThreadPage;
+      setRootMemos((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setThreadsCursor(page.next_cursor);
+      loadReplyCounts(page.items);
     } catch (err) {
-      console.error("Error fetching root memos:", err);
+      console.error("Error fetching threads:", err);
       setError(err instanceof Error ? err.message : "Failed to load memos");
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  const loadReplies = async (memo: Memo) => {
+  // Load the first page of direct replies to `memo`, or the page after `cursor`
+  const loadReplies = async (memo: Memo, cursor: string | null = null) => {
     try {
-      const response = await fetch(
-        "/agents/chat/default/list-memos?sortBy=created&sortOrder=asc&limit=255"
-      );
+      if (cursor) setLoadingMore(true);
+
+      const params = new URLSearchParams({ parent: memo.id, limit: "50" });
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`/agents/chat/default/replies?${params}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch replies: ${response.status}`);
       }
 
-      const allMemos = (await response.json()) as Memo[];
-      const directReplies = allMemos.filter(
-        (m: Memo) => m.parent_id === memo.id
-      );
-      setReplies(directReplies);
-
-      // Load reply counts for the current replies
-      await loadReplyCounts(directReplies, allMemos);
+      const page = (await response.json()) as ThreadPage;
+      setReplies((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setRepliesCursor(page.next_cursor);
+      loadReplyCounts(page.items);
     } catch (err) {
       console.error("Error fetching replies:", err);
       setError(err instanceof Error ? err.message : "Failed to load replies");
+    } finally {
+      setLoadingMore(false);
     }
   };
 
@@ -258,6 +275,7 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
     // Always go back to root view
     setCurrentMemo(null);
     setReplies([]);
+    setRepliesCursor(null);
     setAllThreadMemos([]);
   };
 
@@ -537,14 +555,12 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
     }
   };
 
-  // Function to load reply counts for a set of memos
-  const loadReplyCounts = async (memos: Memo[], allMemos: Memo[]) => {
+  // Record the reply counts that came with a page of threads or replies
+  const loadReplyCounts = (memos: Memo[]) => {
     const counts = new Map<string, number>();
 
     memos.forEach((memo) => {
-      // Count direct replies for this memo
-      const directReplies = allMemos.filter((m) => m.parent_id === memo.id);
-      counts.set(memo.id, directReplies.length);
+      counts.set(memo.id, memo.reply_count ?? 0);
     });
 
     setReplyCounts((prevCounts) => {
@@ -1183,6 +1199,20 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
                       </div>
                     )}
 
+                    {showRepliesCount &&
+                      !isMain &&
+                      memo.participants &&
+                      memo.participants.length > 1 && (
+                        <span
+                          className="text-xs text-neutral-500"
+                          title={memo.participants
+                            .map((author) => getAuthorName(author))
+                            .join(", ")}
+                        >
+                          {memo.participants.length} participants
+                        </span>
+                      )}
+
                     {/* Reactions */}
                     <div className="flex items-center gap-1">
                       {Object.entries(getMemoReactions(memo)).map(
@@ -1370,6 +1400,21 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
                       return renderMemo(memo, isFocused, true);
                     })}
 
+                    {repliesCursor && (
+                      <div className="p-4 text-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={loadingMore}
+                          onClick={() =>
+                            loadReplies(currentMemo, repliesCursor)
+                          }
+                        >
+                          {loadingMore ? "Loading..." : "Load more replies"}
+                        </Button>
+                      </div>
+                    )}
+
                     {replies.length === 0 && (
                       <div className="p-8 text-center">
                         <ChatCircle
@@ -1414,7 +1459,21 @@ export function ThreadsPanel({ onClose }: ThreadsPanelProps) {
                   </Button>
                 </div>
               ) : (
-                rootMemos.map((memo) => renderMemo(memo, false, true))
+                <>
+                  {rootMemos.map((memo) => renderMemo(memo, false, true))}
+                  {threadsCursor && (
+                    <div className="p-4 text-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={loadingMore}
+                        onClick={() => loadRootMemos(threadsCursor)}
+                      >
+                        {loadingMore ? "Loading..." : "Load more threads"}
+                      </Button>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           )}
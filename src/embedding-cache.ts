@@ -0,0 +1,277 @@
+/**
+ * Embedding cache
+ * ---------------
+ * Wraps the configured `EmbeddingProvider` so identical text is only sent to
+ * the model once. Texts are keyed by the SHA-256 of their content together
+ * with the provider's model and dimensions, at two levels:
+ *
+ *  - memory  the last MEMORY_ENTRIES texts of this Durable Object instance,
+ *            including ones still being embedded, so a request that embeds
+ *            the same message twice (e.g. the fragment and memo context
+ *            builders) or concurrently only asks once
+ *  - SQLite  every text ever embedded, so re-saving an unchanged memo, a
+ *            fragment copied from a memo or a repeated re-index is free
+ *
+ * Hits and misses at each level are counted in `embedding_cache_stats`;
+ * `/embedding-cache-stats` reports them.
+ *
+ * Tables (created in migrations.ts)
+ *  - embedding_cache        (model, dimensions, hash) -> float32 BLOB
+ *  - embedding_cache_stats  (counter name -> total)
+ */
+import type { EmbeddingProvider } from "./embeddings";
+import { decodeVector, encodeVector } from "./vector-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type EmbeddingCacheCounts = {
+  memory_hits: number;
+  cache_hits: number;
+  misses: number;
+};
+
+/**
+ * Persistent side of the cache, keyed by content hash within one
+ * model/dimensions pair.
+ */
+export interface EmbeddingCacheStore {
+  get(
+    model: string,
+    dimensions: number,
+    hashes: string[]
+  ): Map<string, number[]>;
+  put(
+    model: string,
+    dimensions: number,
+    entries: { hash: string; values: number[] }[]
+  ): void;
+  record(counts: EmbeddingCacheCounts): void;
+}
+
+export type EmbeddingCacheStats = EmbeddingCacheCounts & {
+  model: string;
+  dimensions: number;
+  entries: number; // cached texts for the current model
+  total_entries: number; // across every model
+  hit_rate: number; // (memory_hits + cache_hits) / lookups, 0 when none
+};
+
+// Texts kept in memory per instance
+const MEMORY_ENTRIES = 200;
+
+// ---------------------------------------------------------------------------
+// Hashing
+// ---------------------------------------------------------------------------
+export async function contentHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ---------------------------------------------------------------------------
+// Provider wrapper
+// ---------------------------------------------------------------------------
+
+/**
+ * `provider`, answering from memory and `store` before calling the model.
+ * Only texts missing from both are embedded, in one request.
+ */
+export function cachedEmbeddingProvider(
+  provider: EmbeddingProvider,
+  store: EmbeddingCacheStore
+): EmbeddingProvider {
+  const { model, dimensions } = provider;
+  const memory = new Map<string, Promise<number[]>>();
+
+  const remember = (hash: string, values: Promise<number[]>) => {
+    memory.delete(hash);
+    memory.set(hash, values);
+    // Evict the least recently used
+    if (memory.size > MEMORY_ENTRIES) {
+      memory.delete(memory.keys().next().value as string);
+    }
+    // A failed embedding shouldn't stay cached
+    values.catch(() => memory.delete(hash));
+  };
+
+  return {
+    provider: provider.provider,
+    model,
+    dimensions,
+    async embed(texts) {
+      const hashes = await Promise.all(texts.map(contentHash));
+      const counts: EmbeddingCacheCounts = {
+        memory_hits: 0,
+        cache_hits: 0,
+        misses: 0,
+      };
+
+      // Memory first; what's left is looked up in SQLite in one query
+      const results = new Map<string, Promise<number[]>>();
+      const unseen: string[] = [];
+      for (const hash of hashes) {
+        const hit = memory.get(hash);
+        if (hit) {
+          counts.memory_hits++;
+          remember(hash, hit);
+          results.set(hash, hit);
+        } else if (!unseen.includes(hash)) {
+          unseen.push(hash);
+        } else {
+          // Repeated within this call
+          counts.memory_hits++;
+        }
+      }
+
+      const stored = unseen.length
+        ? store.get(model, dimensions, unseen)
+        : new Map<string, number[]>();
+      const missing: string[] = [];
+      for (const hash of unseen) {
+        const values = stored.get(hash);
+        if (values) {
+          counts.cache_hits++;
+          const hit = Promise.resolve(values);
+          remember(hash, hit);
+          results.set(hash, hit);
+        } else {
+          counts.misses++;
+          missing.push(hash);
+        }
+      }
+
+      if (missing.length) {
+        const request = provider.embed(
+          missing.map((hash) => texts[hashes.indexOf(hash)])
+        );
+        missing.forEach((hash, i) => {
+          const values = request.then((all) => all[i]);
+          remember(hash, values);
+          results.set(hash, values);
+        });
+        const embedded = await request;
+        store.put(
+          model,
+          dimensions,
+          missing.map((hash, i) => ({ hash, values: embedded[i] }))
+        );
+      }
+
+      store.record(counts);
+      return Promise.all(
+        hashes.map((hash) => results.get(hash) as Promise<number[]>)
+      );
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SQLite store
+// ---------------------------------------------------------------------------
+export function sqliteEmbeddingCache(sql: SqlStorage): EmbeddingCacheStore {
+  // Agent.sql can't bind BLOBs, so this talks to the storage API directly
+  return {
+    get(model, dimensions, hashes) {
+      const rows = sql
+        .exec<{ hash: string; embedding: ArrayBuffer }>(
+          `SELECT hash, embedding FROM embedding_cache
+           WHERE model = ? AND dimensions = ?
+             AND hash IN (SELECT value FROM json_each(?))`,
+          model,
+          dimensions,
+          JSON.stringify(hashes)
+        )
+        .toArray();
+      return new Map(
+        rows.map((row) => [row.hash, Array.from(decodeVector(row.embedding))])
+      );
+    },
+    put(model, dimensions, entries) {
+      const now = new Date().toISOString();
+      for (const { hash, values } of entries) {
+        sql.exec(
+          `INSERT OR REPLACE INTO embedding_cache (model, dimensions, hash, embedding, created)
+           VALUES (?, ?, ?, ?, ?)`,
+          model,
+          dimensions,
+          hash,
+          encodeVector(values),
+          now
+        );
+      }
+    },
+    record(counts) {
+      for (const [name, value] of Object.entries(counts)) {
+        if (!value) continue;
+        sql.exec(
+          `INSERT INTO embedding_cache_stats (name, value) VALUES (?, ?)
+           ON CONFLICT(name) DO UPDATE SET value = value + excluded.value`,
+          name,
+          value
+        );
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Stats
+// ---------------------------------------------------------------------------
+
+/**
+ * Hit/miss totals and cache size for `provider`'s model.
+ */
+export function getEmbeddingCacheStats(
+  sql: SqlStorage,
+  { model, dimensions }: { model: string; dimensions: number }
+): EmbeddingCacheStats {
+  const counts: EmbeddingCacheCounts = {
+    memory_hits: 0,
+    cache_hits: 0,
+    misses: 0,
+  };
+  for (const row of sql
+    .exec<{
+      name: string;
+      value: number;
+    }>("SELECT name, value FROM embedding_cache_stats")
+    .toArray()) {
+    if (row.name in counts) {
+      counts[row.name as keyof EmbeddingCacheCounts] = row.value;
+    }
+  }
+
+  const [sizes] = sql
+    .exec<{ entries: number; total_entries: number }>(
+      `SELECT
+         SUM(model = ? AND dimensions = ?) AS entries,
+         COUNT(*) AS total_entries
+       FROM embedding_cache`,
+      model,
+      dimensions
+    )
+    .toArray();
+
+  const lookups = counts.memory_hits + counts.cache_hits + counts.misses;
+  return {
+    model,
+    dimensions,
+    entries: sizes?.entries ?? 0,
+    total_entries: sizes?.total_entries ?? 0,
+    ...counts,
+    hit_rate: lookups ? (counts.memory_hits + counts.cache_hits) / lookups : 0,
+  };
+}
+
+/**
+ * Drop every cached embedding and reset the counters.
+ */
+export function clearEmbeddingCache(sql: SqlStorage) {
+  sql.exec("DELETE FROM embedding_cache");
+  sql.exec("DELETE FROM embedding_cache_stats");
+}
@@ -0,0 +1,210 @@
+/**
+ * Embedding providers
+ * -------------------
+ * Every vector in the app is produced through an `EmbeddingProvider`, picked
+ * once per Durable Object from the environment:
+ *
+ *  EMBEDDING_PROVIDER    "workers-ai" (default) | "openai" | "local"
+ *  EMBEDDING_MODEL       model name (provider default otherwise)
+ *  EMBEDDING_DIMENSIONS  vector size, default 768 to match the Vectorize index
+ *  EMBEDDING_BASE_URL    OpenAI-compatible endpoint, default api.openai.com
+ *  EMBEDDING_API_KEY     key for that endpoint, falls back to OPENAI_API_KEY
+ *
+ * The provider's model and dimensions are recorded with each stored vector,
+ * so switching providers marks existing vectors stale (see reindex.ts).
+ *
+ * The local provider hashes words and character trigrams into a fixed-size
+ * vector. It needs no service and always returns the same vector for the same
+ * text, which makes it suitable for tests and offline development; similarity
+ * is lexical rather than semantic.
+ */
+import type { Ai } from "@cloudflare/workers-types/experimental";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export interface EmbeddingProvider {
+  readonly provider: "workers-ai" | "openai" | "local";
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingEnv = {
+  AI?: Ai;
+  OPENAI_API_KEY?: string;
+  EMBEDDING_PROVIDER?: string;
+  EMBEDDING_MODEL?: string;
+  EMBEDDING_DIMENSIONS?: string;
+  EMBEDDING_BASE_URL?: string;
+  EMBEDDING_API_KEY?: string;
+};
+
+export const DEFAULT_DIMENSIONS = 768;
+
+// ---------------------------------------------------------------------------
+// Workers AI
+// ---------------------------------------------------------------------------
+export function workersAiProvider(
+  ai: Ai | undefined,
+  model = "@cf/baai/bge-base-en-v1.5",
+  dimensions = DEFAULT_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    provider: "workers-ai",
+    model,
+    dimensions,
+    async embed(texts) {
+      if (!ai) {
+        throw new Error("AI service not available");
+      }
+      // Other Workers AI embedding models share bge's input/output shape
+      const result = await ai.run(model as "@cf/baai/bge-base-en-v1.5", {
+        text: texts,
+      });
+      if (!("data" in result) || !result.data) {
+        throw new Error("Workers AI returned no embeddings");
+      }
+      return result.data;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible HTTP
+// ---------------------------------------------------------------------------
+export function openAiProvider({
+  apiKey,
+  baseUrl = "https://api.openai.com/v1",
+  model = "text-embedding-3-small",
+  dimensions = DEFAULT_DIMENSIONS,
+}: {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  dimensions?: number;
+}): EmbeddingProvider {
+  return {
+    provider: "openai",
+    model,
+    dimensions,
+    async embed(texts) {
+      if (!apiKey) {
+        throw new Error("No API key configured for embeddings");
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ model, input: texts, dimensions }),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Embedding request failed: ${response.status} ${await response.text()}`
+        );
+      }
+
+      const json = (await response.json()) as {
+        data: { index: number; embedding: number[] }[];
+      };
+      return json.data
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Local deterministic hashing
+// ---------------------------------------------------------------------------
+
+// 32-bit FNV-1a
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hash `text` into a unit vector: each word and each character
+ * trigram of a word adds ±weight to one dimension.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  const add = (feature: string, weight: number) => {
+    const index = fnv1a(feature) % dimensions;
+    const sign = fnv1a(feature, 0x9e3779b9) & 1 ? 1 : -1;
+    vector[index] += sign * weight;
+  };
+
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    // Nothing to hash; still return a valid unit vector
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+export function localHashProvider(
+  dimensions = DEFAULT_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    provider: "local",
+    model: "local-hash-v1",
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => hashEmbedding(text, dimensions));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the provider configured by `env` (Workers AI when unset).
+ */
+export function createEmbeddingProvider(env: EmbeddingEnv): EmbeddingProvider {
+  const dimensions =
+    Number.parseInt(env.EMBEDDING_DIMENSIONS ?? "", 10) || DEFAULT_DIMENSIONS;
+
+  switch (env.EMBEDDING_PROVIDER) {
+    case "openai":
+      return openAiProvider({
+        apiKey: env.EMBEDDING_API_KEY || env.OPENAI_API_KEY,
+        baseUrl: env.EMBEDDING_BASE_URL || undefined,
+        model: env.EMBEDDING_MODEL || undefined,
+        dimensions,
+      });
+    case "local":
+      return localHashProvider(dimensions);
+    case undefined:
+    case "":
+    case "workers-ai":
+      return workersAiProvider(
+        env.AI,
+        env.EMBEDDING_MODEL || undefined,
+        dimensions
+      );
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER '${env.EMBEDDING_PROVIDER}'`);
+  }
+}
@@ -0,0 +1,606 @@
+/**
+ * Fragment graph traversal
+ * ------------------------
+ * Neighbourhood and path queries over fragment edges, for answering "how is
+ * X connected to Y?" in chat and for expanding FragmentGraph.tsx one node at
+ * a time. The graph is walked breadth-first with one query per hop, so only
+ * the part within reach of the starting fragment is ever read.
+ *
+ * Edges are followed along their direction ("out"), against it ("in") or
+ * either way ("both", the default), optionally only for some relation types
+ * (names or inverse names from relation-types.ts). Edges with a memo or reply
+ * at either end aren't part of the fragment graph and are skipped by the
+ * traversals; `loadGraph` draws them alongside the fragments for
+ * /fragment-graph.
+ *
+ * Tables (created in migrations.ts)
+ *  - fragments, memos, fragment_edges  (read only)
+ */
+import type { Chat } from "./server";
+import type { FragmentOpResult, NodeKind } from "./fragment-tools";
+import {
+  getRelationTypes,
+  incomingLabel,
+  matchRelation,
+} from "./relation-types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type Direction = "out" | "in" | "both";
+
+export type GraphEdge = {
+  id: string;
+  from_id: string;
+  to_id: string;
+  rel: string;
+  weight: number | null;
+};
+
+export type TraversalOptions = {
+  direction?: Direction;
+  rels?: string[]; // relation type names or inverses; all when omitted
+};
+
+/**
+ * A walk between two nodes. `reversed[i]` is set when `edges[i]` was
+ * followed against its direction.
+ */
+export type GraphPath = {
+  nodes: string[]; // ids, from start to end
+  edges: GraphEdge[];
+  reversed: boolean[];
+};
+
+export type GraphNode = {
+  id: string;
+  key: string; // see nodeKey
+  slug: string;
+  kind: NodeKind;
+  link_count: number; // every edge of the node, loaded or not
+  depth: number; // hops from the centre
+};
+
+// Same shape as /fragment-graph links, so the UI can merge them
+export type GraphLink = {
+  id: string;
+  source: string; // node key
+  target: string; // node key
+  type: string;
+  weight: number;
+  color: string | null;
+};
+
+export type Neighborhood = {
+  center: string;
+  depth: number;
+  nodes: GraphNode[];
+  links: GraphLink[];
+  truncated: boolean; // stopped at the node limit
+};
+
+export type PathStep = {
+  source: string; // slug, in walking order
+  target: string;
+  type: string; // the edge's verb
+  label: string; // how the step reads in walking order
+  reversed: boolean;
+};
+
+export type FragmentPath = {
+  length: number;
+  slugs: string[];
+  steps: PathStep[];
+  text: string; // a —example_of→ b ←part_of— c
+};
+
+export const MAX_NEIGHBORHOOD_DEPTH = 4;
+export const MAX_PATH_DEPTH = 6;
+
+// Fragments read per traversal
+const MAX_NODES = 500;
+
+// Partial paths explored before giving up on finding more
+const MAX_PATH_EXPANSIONS = 20000;
+
+// ---------------------------------------------------------------------------
+// Path search
+// ---------------------------------------------------------------------------
+type Step = { edge: GraphEdge; next: string; reversed: boolean };
+
+function adjacency(
+  edges: GraphEdge[],
+  direction: Direction = "both"
+): Map<string, Step[]> {
+  const steps = new Map<string, Step[]>();
+  const add = (from: string, step: Step) => {
+    const list = steps.get(from);
+    if (list) list.push(step);
+    else steps.set(from, [step]);
+  };
+  for (const edge of edges) {
+    if (direction !== "in") {
+      add(edge.from_id, { edge, next: edge.to_id, reversed: false });
+    }
+    if (direction !== "out" && edge.from_id !== edge.to_id) {
+      add(edge.to_id, { edge, next: edge.from_id, reversed: true });
+    }
+  }
+  return steps;
+}
+
+/**
+ * Fewest-hop path from `fromId` to `toId` of at most `maxDepth` edges, or
+ * null when there is none.
+ */
+export function shortestPath(
+  edges: GraphEdge[],
+  fromId: string,
+  toId: string,
+  {
+    direction = "both",
+    maxDepth = MAX_PATH_DEPTH,
+  }: { direction?: Direction; maxDepth?: number } = {}
+): GraphPath | null {
+  if (fromId === toId) {
+    return { nodes: [fromId], edges: [], reversed: [] };
+  }
+
+  const steps = adjacency(edges, direction);
+  const via = new Map<string, { prev: string; step: Step }>();
+  const seen = new Set([fromId]);
+  let frontier = [fromId];
+
+  for (let depth = 0; depth < maxDepth && frontier.length; depth++) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      for (const step of steps.get(node) ?? []) {
+        if (seen.has(step.next)) continue;
+        seen.add(step.next);
+        via.set(step.next, { prev: node, step });
+        if (step.next === toId) {
+          return tracePath(via, fromId, toId);
+        }
+        next.push(step.next);
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
+
+function tracePath(
+  via: Map<string, { prev: string; step: Step }>,
+  fromId: string,
+  toId: string
+): GraphPath {
+  const path: GraphPath = { nodes: [toId], edges: [], reversed: [] };
+  let node = toId;
+  while (node !== fromId) {
+    const { prev, step } = via.get(node)!;
+    path.nodes.unshift(prev);
+    path.edges.unshift(step.edge);
+    path.reversed.unshift(step.reversed);
+    node = prev;
+  }
+  return path;
+}
+
+/**
+ * Simple paths (no repeated fragment) from `fromId` to `toId` of at most
+ * `maxDepth` edges, shortest first, up to `limit` of them.
+ */
+export function simplePaths(
+  edges: GraphEdge[],
+  fromId: string,
+  toId: string,
+  {
+    direction = "both",
+    maxDepth = MAX_PATH_DEPTH,
+    limit = 10,
+  }: { direction?: Direction; maxDepth?: number; limit?: number } = {}
+): GraphPath[] {
+  if (fromId === toId) {
+    return [{ nodes: [fromId], edges: [], reversed: [] }];
+  }
+
+  // Breadth-first over partial paths, so paths come out shortest first
+  const steps = adjacency(edges, direction);
+  const found: GraphPath[] = [];
+  let queue: GraphPath[] = [{ nodes: [fromId], edges: [], reversed: [] }];
+  let expansions = 0;
+
+  while (queue.length && found.length < limit) {
+    const next: GraphPath[] = [];
+    for (const path of queue) {
+      if (path.edges.length >= maxDepth) continue;
+      const last = path.nodes[path.nodes.length - 1];
+      for (const step of steps.get(last) ?? []) {
+        if (path.nodes.includes(step.next)) continue;
+        if (++expansions > MAX_PATH_EXPANSIONS) return found;
+
+        const extended: GraphPath = {
+          nodes: [...path.nodes, step.next],
+          edges: [...path.edges, step.edge],
+          reversed: [...path.reversed, step.reversed],
+        };
+        if (step.next === toId) {
+          found.push(extended);
+          if (found.length >= limit) return found;
+        } else {
+          next.push(extended);
+        }
+      }
+    }
+    queue = next;
+  }
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Canonical names for a relation filter, or a 400 naming the unknown verb.
+ */
+async function resolveRels(
+  agent: Chat,
+  rels: string[] | undefined
+): Promise<FragmentOpResult<string[] | null>> {
+  if (!rels?.length) return { ok: true, value: null };
+
+  const types = await getRelationTypes(agent);
+  const names: string[] = [];
+  for (const raw of rels) {
+    const match = matchRelation(types, raw);
+    if (!match) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Unknown relationship '${raw}'.`,
+      };
+    }
+    names.push(match.type.name);
+  }
+  return { ok: true, value: names };
+}
+
+/**
+ * Fragments within `depth` hops of `startId` with their distance, and every
+ * edge among them that passes the relation filter.
+ */
+async function loadSubgraph(
+  agent: Chat,
+  startId: string,
+  depth: number,
+  direction: Direction,
+  rels: string[] | null
+): Promise<{
+  depths: Map<string, number>;
+  edges: GraphEdge[];
+  truncated: boolean;
+}> {
+  const relFilter = rels ? JSON.stringify(rels) : null;
+  const followOut = direction === "in" ? 0 : 1;
+  const followIn = direction === "out" ? 0 : 1;
+
+  const depths = new Map([[startId, 0]]);
+  let frontier = [startId];
+  let truncated = false;
+
+  for (let hop = 1; hop <= depth && frontier.length && !truncated; hop++) {
+    const ids = JSON.stringify(frontier);
+    const rows = await agent.sql<{ from_id: string; to_id: string }>`
+      SELECT fe.from_id, fe.to_id
+      FROM fragment_edges fe
+      JOIN fragments f1 ON f1.id = fe.from_id
+      JOIN fragments f2 ON f2.id = fe.to_id
+      WHERE ((${followOut} = 1 AND fe.from_id IN (SELECT value FROM json_each(${ids})))
+             OR (${followIn} = 1 AND fe.to_id IN (SELECT value FROM json_each(${ids}))))
+        AND (${relFilter} IS NULL OR fe.rel IN (SELECT value FROM json_each(${relFilter})))
+    `;
+
+    const next: string[] = [];
+    for (const row of rows) {
+      for (const id of [row.from_id, row.to_id]) {
+        if (depths.has(id)) continue;
+        if (depths.size >= MAX_NODES) {
+          truncated = true;
+          break;
+        }
+        depths.set(id, hop);
+        next.push(id);
+      }
+      if (truncated) break;
+    }
+    frontier = next;
+  }
+
+  const ids = JSON.stringify([...depths.keys()]);
+  const edges = await agent.sql<GraphEdge>`
+    SELECT id, from_id, to_id, rel, weight FROM fragment_edges
+    WHERE from_id IN (SELECT value FROM json_each(${ids}))
+      AND to_id IN (SELECT value FROM json_each(${ids}))
+      AND (${relFilter} IS NULL OR rel IN (SELECT value FROM json_each(${relFilter})))
+  `;
+  return { depths, edges, truncated };
+}
+
+async function fragmentIdsBySlug(
+  agent: Chat,
+  slugs: string[]
+): Promise<Map<string, string>> {
+  const rows = await agent.sql<{ id: string; slug: string }>`
+    SELECT id, slug FROM fragments
+    WHERE slug IN (SELECT value FROM json_each(${JSON.stringify(slugs)}))
+  `;
+  return new Map(rows.map((r) => [r.slug, r.id]));
+}
+
+async function slugsById(
+  agent: Chat,
+  ids: string[]
+): Promise<Map<string, string>> {
+  const rows = await agent.sql<{ id: string; slug: string }>`
+    SELECT id, slug FROM fragments
+    WHERE id IN (SELECT value FROM json_each(${JSON.stringify(ids)}))
+  `;
+  return new Map(rows.map((r) => [r.id, r.slug]));
+}
+
+/**
+ * Traversal options from query parameters (`direction`, comma-separated
+ * `rels`), or null when the direction isn't one of out / in / both.
+ */
+export function parseTraversalParams(
+  params: URLSearchParams
+): TraversalOptions | null {
+  const direction = params.get("direction") || "both";
+  if (direction !== "out" && direction !== "in" && direction !== "both") {
+    return null;
+  }
+  const rels = (params.get("rels") || "")
+    .split(",")
+    .map((r) => r.trim())
+    .filter(Boolean);
+  return { direction, rels };
+}
+
+/**
+ * Node id on the graph canvas. Memo and fragment slugs may clash, so memos
+ * and replies are prefixed; fragments keep their bare slug.
+ */
+export const nodeKey = (kind: NodeKind, slug: string) =>
+  kind === "fragment" ? slug : `${kind}:${slug}`;
+
+const clampDepth = (value: number, max: number) =>
+  Math.min(Math.max(Math.floor(value) || 1, 1), max);
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Fragments within `depth` hops of `slug` and the links among them.
+ */
+export async function fragmentNeighborhood(
+  agent: Chat,
+  slug: string,
+  {
+    depth = 1,
+    direction = "both",
+    rels,
+  }: TraversalOptions & { depth?: number } = {}
+): Promise<FragmentOpResult<Neighborhood>> {
+  const ids = await fragmentIdsBySlug(agent, [slug]);
+  const startId = ids.get(slug);
+  if (!startId) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No fragment found with slug '${slug}'.`,
+    };
+  }
+  const relNames = await resolveRels(agent, rels);
+  if (!relNames.ok) return relNames;
+
+  const hops = clampDepth(depth, MAX_NEIGHBORHOOD_DEPTH);
+  const { depths, edges, truncated } = await loadSubgraph(
+    agent,
+    startId,
+    hops,
+    direction,
+    relNames.value
+  );
+
+  const nodeRows = await agent.sql<{
+    id: string;
+    slug: string;
+    link_count: number;
+  }>`
+    SELECT f.id, f.slug,
+      (SELECT COUNT(*) FROM fragment_edges fe
+       WHERE fe.from_id = f.id OR fe.to_id = f.id) AS link_count
+    FROM fragments f
+    WHERE f.id IN (SELECT value FROM json_each(${JSON.stringify([...depths.keys()])}))
+  `;
+  const slugs = new Map(nodeRows.map((n) => [n.id, n.slug]));
+  const colors = new Map(
+    (await getRelationTypes(agent)).map((t) => [t.name, t.color])
+  );
+
+  return {
+    ok: true,
+    value: {
+      center: slug,
+      depth: hops,
+      nodes: nodeRows
+        .map((n) => ({
+          ...n,
+          key: n.slug,
+          kind: "fragment" as const,
+          depth: depths.get(n.id) ?? 0,
+        }))
+        .sort((a, b) => a.depth - b.depth || b.link_count - a.link_count),
+      links: edges.map((e) => ({
+        id: e.id,
+        source: slugs.get(e.from_id)!,
+        target: slugs.get(e.to_id)!,
+        type: e.rel,
+        weight: e.weight ?? 1,
+        color: colors.get(e.rel) ?? null,
+      })),
+      truncated,
+    },
+  };
+}
+
+/**
+ * Ways `fromSlug` connects to `toSlug` within `maxDepth` hops: the shortest
+ * path, or with `all` every simple path up to `limit`.
+ */
+export async function fragmentPaths(
+  agent: Chat,
+  fromSlug: string,
+  toSlug: string,
+  {
+    maxDepth = 4,
+    all = false,
+    limit = 10,
+    direction = "both",
+    rels,
+  }: TraversalOptions & {
+    maxDepth?: number;
+    all?: boolean;
+    limit?: number;
+  } = {}
+): Promise<
+  FragmentOpResult<{
+    from: string;
+    to: string;
+    paths: FragmentPath[];
+    truncated: boolean;
+  }>
+> {
+  const ids = await fragmentIdsBySlug(agent, [fromSlug, toSlug]);
+  const fromId = ids.get(fromSlug);
+  const toId = ids.get(toSlug);
+  if (!fromId || !toId) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No fragment found with slug '${fromId ? toSlug : fromSlug}'.`,
+    };
+  }
+  const relNames = await resolveRels(agent, rels);
+  if (!relNames.ok) return relNames;
+
+  // Every node on a path of n hops is within n hops of the start
+  const hops = clampDepth(maxDepth, MAX_PATH_DEPTH);
+  const { edges, truncated } = await loadSubgraph(
+    agent,
+    fromId,
+    hops,
+    direction,
+    relNames.value
+  );
+
+  const options = { direction, maxDepth: hops };
+  const found = all
+    ? simplePaths(edges, fromId, toId, { ...options, limit })
+    : [shortestPath(edges, fromId, toId, options)].filter(
+        (p): p is GraphPath => p !== null
+      );
+
+  const slugs = await slugsById(agent, [
+    ...new Set(found.flatMap((p) => p.nodes)),
+  ]);
+  const types = await getRelationTypes(agent);
+
+  const paths = found.map((path) => {
+    const steps: PathStep[] = path.edges.map((edge, i) => {
+      const type = types.find((t) => t.name === edge.rel);
+      return {
+        source: slugs.get(path.nodes[i])!,
+        target: slugs.get(path.nodes[i + 1])!,
+        type: edge.rel,
+        label: path.reversed[i] && type ? incomingLabel(type) : edge.rel,
+        reversed: path.reversed[i],
+      };
+    });
+    const text = steps.reduce(
+      (line, step) =>
+        `${line} ${step.reversed ? `←${step.type}—` : `—${step.type}→`} ${step.target}`,
+      slugs.get(path.nodes[0])!
+    );
+    return {
+      length: path.edges.length,
+      slugs: path.nodes.map((id) => slugs.get(id)!),
+      steps,
+      text,
+    };
+  });
+
+  return {
+    ok: true,
+    value: { from: fromSlug, to: toSlug, paths, truncated },
+  };
+}
+
+/**
+ * The most connected nodes, up to `limit`, and every link among them. Every
+ * fragment is a candidate; memos and replies only once they are linked.
+ */
+export async function loadGraph(
+  agent: Chat,
+  limit: number
+): Promise<{ nodes: Omit<GraphNode, "depth">[]; links: GraphLink[] }> {
+  const rows = await agent.sql<{
+    id: string;
+    slug: string;
+    kind: NodeKind;
+    link_count: number;
+  }>`
+    SELECT * FROM (
+      SELECT f.id, f.slug, 'fragment' AS kind,
+        (SELECT COUNT(*) FROM fragment_edges fe
+         WHERE fe.from_id = f.id OR fe.to_id = f.id) AS link_count
+      FROM fragments f
+      UNION ALL
+      SELECT m.id, m.slug,
+        CASE WHEN m.parent_id IS NULL THEN 'memo' ELSE 'reply' END AS kind,
+        (SELECT COUNT(*) FROM fragment_edges fe
+         WHERE fe.from_id = m.id OR fe.to_id = m.id) AS link_count
+      FROM memos m
+      WHERE m.id IN (SELECT from_id FROM fragment_edges WHERE from_kind != 'fragment')
+         OR m.id IN (SELECT to_id FROM fragment_edges WHERE to_kind != 'fragment')
+    )
+    ORDER BY link_count DESC
+    LIMIT ${limit}
+  `;
+  const nodes = rows.map((n) => ({ ...n, key: nodeKey(n.kind, n.slug) }));
+  const keys = new Map(nodes.map((n) => [n.id, n.key]));
+
+  // Only edges between the nodes returned, so none dangle
+  const ids = JSON.stringify([...keys.keys()]);
+  const edges = await agent.sql<GraphEdge & { color: string | null }>`
+    SELECT fe.id, fe.from_id, fe.to_id, fe.rel, fe.weight, rt.color
+    FROM fragment_edges fe
+    LEFT JOIN relation_types rt ON rt.name = fe.rel
+    WHERE fe.from_id IN (SELECT value FROM json_each(${ids}))
+      AND fe.to_id IN (SELECT value FROM json_each(${ids}))
+  `;
+
+  return {
+    nodes,
+    links: edges.map((e) => ({
+      id: e.id,
+      source: keys.get(e.from_id)!,
+      target: keys.get(e.to_id)!,
+      type: e.rel,
+      weight: e.weight ?? 1,
+      color: e.color,
+    })),
+  };
+}
@@ -4,18 +4,49 @@
  * A first-cut implementation modelled on memo-tools.ts but trimmed down
  * to the absolutely essential operations so we can iterate quickly.
  *
- * Tables
+ * Tables (created in migrations.ts)
  *  - fragments        (nodes)
- *  - fragment_edges   (directed, labelled edges between fragments)
+ *  - fragment_edges   (directed, labelled edges; either end may also be a
+ *                      memo or reply, see `NodeKind`)
  *
- * The schema is intentionally generic so we can add new relationship
- * verbs or additional metadata without a database migration.
+ * Edge verbs come from the relation type registry (relation-types.ts);
+ * new verbs are added there rather than by migration.
  */
 import { tool } from "ai";
 import { z } from "zod";
 
 import { agentContext } from "./server";
 import type { Chat } from "./server";
+import { searchFragmentsFts } from "./fts";
+import {
+  DEFAULT_TOOL_PAGE_SIZE,
+  listFragmentsPage,
+  listToolParameters,
+} from "./list-pages";
+import {
+  recordSlugAlias,
+  renameFragment,
+  resolveSlugAlias,
+} from "./slug-rename";
+import {
+  fragmentNeighborhood,
+  fragmentPaths,
+  MAX_NEIGHBORHOOD_DEPTH,
+  MAX_PATH_DEPTH,
+} from "./fragment-graph";
+import {
+  createRelationType,
+  FALLBACK_RELATION,
+  getRelationTypes,
+  incomingLabel,
+  resolveRelation,
+  unknownRelationError,
+} from "./relation-types";
+import {
+  fragmentVectorMetadata,
+  vectorRef,
+  vectorRefIds,
+} from "./vector-metadata";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -33,10 +64,17 @@ export type Fragment = {
   modified: string; // ISO
 };
 
+/**
+ * What one end of an edge is. Memos with a parent are replies.
+ */
+export type NodeKind = "memo" | "reply" | "fragment";
+
 export type FragmentEdge = {
   id: string;
   from_id: string;
+  from_kind: NodeKind;
   to_id: string;
+  to_kind: NodeKind;
   rel: string;
   weight: number | null;
   metadata: string; // JSON
@@ -51,48 +89,597 @@ function generateId() {
 }
 
 /**
- * Ensure both tables exist. This runs on every call (cheap) so callers don't
- * have to remember.
+ * Outcome of a mutating fragment operation, shared by the agent tools and the
+ * REST endpoints in server.ts. `status` is the HTTP status to use on failure.
+ */
+export type FragmentOpResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+export async function getFragmentBySlug(
+  agent: Chat,
+  slug: string
+): Promise<Fragment | null> {
+  const rows = await agent.sql<Fragment>`
+    SELECT * FROM fragments WHERE slug = ${slug} LIMIT 1
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Vector ids that may hold an embedding for this fragment. Fragments made by
+ * the /create-fragment endpoint were upserted under their bare id without
+ * recording a vector_id, so both spellings are covered.
+ */
+function fragmentVectorIds(fragment: Fragment): string[] {
+  if (fragment.vector_id) {
+    return [fragment.vector_id];
+  }
+  return [`fragment-${fragment.id}`, fragment.id];
+}
+
+/**
+ * (Re-)embed a fragment and record its vector_id. Throws if embedding fails.
  */
-async function initFragmentTables() {
-  const agent = agentContext.getStore();
-  if (!agent) {
-    throw new Error("No agent found");
+export async function storeFragmentEmbedding(agent: Chat, fragment: Fragment) {
+  const embeddings = await agent.createEmbeddings(fragment.content);
+  const vector_id = `fragment-${fragment.id}`;
+
+  // Drop a legacy bare-id vector so the fragment isn't indexed twice
+  if (!fragment.vector_id) {
+    await agent.deleteVectorEmbedding(fragment.id);
   }
 
-  // fragments table
+  await agent.storeVectorEmbedding(
+    vector_id,
+    embeddings,
+    fragmentVectorMetadata(fragment)
+  );
   await agent.sql`
-    CREATE TABLE IF NOT EXISTS fragments (
-      id        TEXT PRIMARY KEY,
-      slug      TEXT UNIQUE NOT NULL,
-      content   TEXT NOT NULL,
-      speaker   TEXT,
-      ts        TEXT NOT NULL,
-      convo_id  TEXT,
-      metadata  TEXT NOT NULL,
-      vector_id TEXT,
-      created   TEXT NOT NULL,
-      modified  TEXT NOT NULL
-    )`;
-
-  await agent.sql`CREATE INDEX IF NOT EXISTS idx_fragments_convo  ON fragments(convo_id)`;
-  await agent.sql`CREATE INDEX IF NOT EXISTS idx_fragments_vector ON fragments(vector_id)`;
-
-  // fragment_edges table
+    UPDATE fragments SET vector_id = ${vector_id} WHERE id = ${fragment.id}
+  `;
+}
+
+/**
+ * Like storeFragmentEmbedding, but failures are logged and swallowed – the
+ * row itself is already up to date.
+ */
+export async function embedFragment(agent: Chat, fragment: Fragment) {
+  try {
+    await storeFragmentEmbedding(agent, fragment);
+  } catch (err) {
+    console.error("Embedding/upsert failed for fragment", fragment.slug, err);
+  }
+}
+
+/**
+ * Edit a fragment's slug, content, speaker and/or metadata. The embedding is
+ * refreshed when the content or slug changes; a new slug goes through
+ * `renameFragment`, so links to the fragment follow it.
+ */
+export async function updateFragmentBySlug(
+  agent: Chat,
+  slug: string,
+  changes: {
+    new_slug?: string;
+    content?: string;
+    speaker?: string | null;
+    metadata?: string;
+  },
+  { author = "user" }: { author?: string } = {}
+): Promise<FragmentOpResult<Fragment>> {
+  let fragment = await getFragmentBySlug(agent, slug);
+  if (!fragment) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No fragment found with slug '${slug}'.`,
+    };
+  }
+
+  if (changes.metadata !== undefined) {
+    try {
+      JSON.parse(changes.metadata);
+    } catch {
+      return { ok: false, status: 400, error: "metadata must be valid JSON." };
+    }
+  }
+
+  const newSlug = changes.new_slug?.trim();
+  if (newSlug && newSlug !== fragment.slug) {
+    const renamed = await renameFragment(agent, fragment.slug, newSlug, {
+      author,
+    });
+    if (!renamed.ok) {
+      return renamed;
+    }
+    fragment = (await getFragmentBySlug(agent, newSlug))!;
+  }
+
+  const updated: Fragment = {
+    ...fragment,
+    content: changes.content ?? fragment.content,
+    speaker: changes.speaker !== undefined ? changes.speaker : fragment.speaker,
+    metadata: changes.metadata ?? fragment.metadata,
+    modified: new Date().toISOString(),
+  };
+
   await agent.sql`
-    CREATE TABLE IF NOT EXISTS fragment_edges (
-      id       TEXT PRIMARY KEY,
-      from_id  TEXT NOT NULL,
-      to_id    TEXT NOT NULL,
-      rel      TEXT NOT NULL,
-      weight   REAL,
-      metadata TEXT NOT NULL,
-      created  TEXT NOT NULL
-    )`;
-
-  await agent.sql`CREATE INDEX IF NOT EXISTS idx_edges_from ON fragment_edges(from_id)`;
-  await agent.sql`CREATE INDEX IF NOT EXISTS idx_edges_to   ON fragment_edges(to_id)`;
-  await agent.sql`CREATE INDEX IF NOT EXISTS idx_edges_rel  ON fragment_edges(rel)`;
+    UPDATE fragments
+    SET content = ${updated.content},
+        speaker = ${updated.speaker ?? null},
+        metadata = ${updated.metadata},
+        modified = ${updated.modified}
+    WHERE id = ${fragment.id}
+  `;
+
+  if (updated.content !== fragment.content) {
+    await embedFragment(agent, updated);
+  }
+
+  return { ok: true, value: (await getFragmentBySlug(agent, fragment.slug))! };
+}
+
+/**
+ * Delete a fragment, every edge touching it and its embedding.
+ */
+export async function deleteFragmentBySlug(
+  agent: Chat,
+  slug: string
+): Promise<FragmentOpResult<{ id: string; edges_removed: number }>> {
+  const fragment = await getFragmentBySlug(agent, slug);
+  if (!fragment) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No fragment found with slug '${slug}'.`,
+    };
+  }
+
+  const edgeCount = await agent.sql<{ count: number }>`
+    SELECT COUNT(*) AS count FROM fragment_edges
+    WHERE from_id = ${fragment.id} OR to_id = ${fragment.id}
+  `;
+
+  await agent.sql`
+    DELETE FROM fragment_edges WHERE from_id = ${fragment.id} OR to_id = ${fragment.id}
+  `;
+  await agent.sql`DELETE FROM fragments WHERE id = ${fragment.id}`;
+
+  for (const vectorId of fragmentVectorIds(fragment)) {
+    await agent.deleteVectorEmbedding(vectorId);
+  }
+
+  return {
+    ok: true,
+    value: { id: fragment.id, edges_removed: edgeCount[0]?.count ?? 0 },
+  };
+}
+
+/**
+ * Fold `merge_slug` into `keep_slug`: edges are re-pointed at the survivor,
+ * self-loops and duplicate edges that result are dropped, and the merged
+ * fragment (and its embedding) is deleted, its slug and aliases becoming
+ * aliases of the survivor so `[[links]]` to it still resolve. The survivor
+ * keeps its content unless `content` is given. The rows change in one
+ * transaction.
+ */
+export async function mergeFragmentsBySlug(
+  agent: Chat,
+  keep_slug: string,
+  merge_slug: string,
+  content?: string
+): Promise<FragmentOpResult<Fragment>> {
+  if (keep_slug === merge_slug) {
+    return {
+      ok: false,
+      status: 400,
+      error: "Cannot merge a fragment into itself.",
+    };
+  }
+
+  const keep = await getFragmentBySlug(agent, keep_slug);
+  const merge = await getFragmentBySlug(agent, merge_slug);
+  if (!keep || !merge) {
+    return {
+      ok: false,
+      status: 404,
+      error: `Unable to find fragment '${!keep ? keep_slug : merge_slug}'.`,
+    };
+  }
+
+  // Record provenance on the survivor
+  let metadata: Record<string, unknown> = {};
+  try {
+    metadata = JSON.parse(keep.metadata || "{}");
+  } catch {
+    // Replace unparseable metadata
+  }
+  const mergedFrom = Array.isArray(metadata.merged_from)
+    ? (metadata.merged_from as string[])
+    : [];
+  metadata.merged_from = [...mergedFrom, merge.slug];
+
+  const merged: Fragment = {
+    ...keep,
+    content: content ?? keep.content,
+    metadata: JSON.stringify(metadata),
+    modified: new Date().toISOString(),
+  };
+
+  agent.transaction(() => {
+    // Re-point every edge of the merged fragment at the survivor. Edges the
+    // survivor already has (same from/to/rel) are skipped by OR IGNORE and
+    // removed below along with the rest of the merged fragment's edges.
+    agent.sql`
+      UPDATE OR IGNORE fragment_edges SET from_id = ${keep.id} WHERE from_id = ${merge.id}
+    `;
+    agent.sql`
+      UPDATE OR IGNORE fragment_edges SET to_id = ${keep.id} WHERE to_id = ${merge.id}
+    `;
+    agent.sql`
+      DELETE FROM fragment_edges WHERE from_id = ${merge.id} OR to_id = ${merge.id}
+    `;
+
+    // Edges between the two fragments have become self-loops
+    agent.sql`
+      DELETE FROM fragment_edges WHERE from_id = ${keep.id} AND to_id = ${keep.id}
+    `;
+
+    // Old slugs of the merged fragment, and its own, lead to the survivor
+    agent.sql`
+      UPDATE slug_aliases SET target_id = ${keep.id}
+      WHERE kind = 'fragment' AND target_id = ${merge.id}
+    `;
+    agent.sql`DELETE FROM fragments WHERE id = ${merge.id}`;
+    recordSlugAlias(agent, "fragment", keep.id, merge.slug, keep.slug);
+
+    agent.sql`
+      UPDATE fragments
+      SET content = ${merged.content},
+          metadata = ${merged.metadata},
+          modified = ${merged.modified}
+      WHERE id = ${keep.id}
+    `;
+  });
+
+  for (const vectorId of fragmentVectorIds(merge)) {
+    await agent.deleteVectorEmbedding(vectorId);
+  }
+  if (merged.content !== keep.content) {
+    await embedFragment(agent, merged);
+  }
+
+  return { ok: true, value: (await getFragmentBySlug(agent, keep.slug))! };
+}
+
+/**
+ * One end of a link, by id or slug. Without a kind, fragments are looked up
+ * first and memos second; "memo" also matches replies.
+ */
+export type LinkEndpointRef = {
+  id?: string;
+  slug?: string;
+  kind?: NodeKind;
+};
+
+export type LinkEndpoint = { id: string; slug: string; kind: NodeKind };
+
+export async function resolveLinkEndpoint(
+  agent: Chat,
+  ref: LinkEndpointRef
+): Promise<LinkEndpoint | null> {
+  if (!ref.id && !ref.slug) {
+    return null;
+  }
+
+  if (!ref.kind || ref.kind === "fragment") {
+    const rows = ref.id
+      ? await agent.sql<{ id: string; slug: string }>`
+          SELECT id, slug FROM fragments WHERE id = ${ref.id} LIMIT 1`
+      : await agent.sql<{ id: string; slug: string }>`
+          SELECT id, slug FROM fragments WHERE slug = ${ref.slug!} LIMIT 1`;
+    if (rows[0]) {
+      return { ...rows[0], kind: "fragment" };
+    }
+    if (ref.kind) {
+      return null;
+    }
+  }
+
+  const rows = ref.id
+    ? await agent.sql<{ id: string; slug: string; parent_id: string | null }>`
+        SELECT id, slug, parent_id FROM memos WHERE id = ${ref.id} LIMIT 1`
+    : await agent.sql<{ id: string; slug: string; parent_id: string | null }>`
+        SELECT id, slug, parent_id FROM memos WHERE slug = ${ref.slug!} LIMIT 1`;
+  const memo = rows[0];
+  if (!memo) {
+    return null;
+  }
+  return {
+    id: memo.id,
+    slug: memo.slug,
+    kind: memo.parent_id ? "reply" : "memo",
+  };
+}
+
+const describeEndpoint = (ref: LinkEndpointRef) =>
+  `${ref.kind ?? "fragment or memo"} '${ref.slug ?? ref.id}'`;
+
+/**
+ * Link two nodes of any kind. The verb is stored in canonical form (an
+ * inverse flips the edge); unknown verbs are an error unless `fallback` is
+ * set, in which case they become generic links that keep the wording in
+ * their metadata. Linking a pair that is already linked by the verb returns
+ * the existing edge with `created: false`.
+ */
+export async function createLink(
+  agent: Chat,
+  fromRef: LinkEndpointRef,
+  toRef: LinkEndpointRef,
+  relationship: string,
+  {
+    weight = 1,
+    metadata = {},
+    fallback = false,
+  }: {
+    weight?: number | null;
+    metadata?: Record<string, unknown>;
+    fallback?: boolean;
+  } = {}
+): Promise<
+  FragmentOpResult<{
+    edge: FragmentEdge;
+    from: LinkEndpoint;
+    to: LinkEndpoint;
+    created: boolean;
+  }>
+> {
+  const [fromEnd, toEnd] = await Promise.all([
+    resolveLinkEndpoint(agent, fromRef),
+    resolveLinkEndpoint(agent, toRef),
+  ]);
+  if (!fromEnd || !toEnd) {
+    return {
+      ok: false,
+      status: 404,
+      error: `Unable to find ${describeEndpoint(fromEnd ? toRef : fromRef)}.`,
+    };
+  }
+
+  const match = await resolveRelation(agent, relationship);
+  if (!match && !fallback) {
+    return {
+      ok: false,
+      status: 400,
+      error: await unknownRelationError(agent, relationship),
+    };
+  }
+  const rel = match?.type.name ?? FALLBACK_RELATION;
+  const [from, to] = match?.reversed ? [toEnd, fromEnd] : [fromEnd, toEnd];
+
+  const existing = await findEdge(agent, from.id, to.id, rel);
+  if (existing) {
+    return { ok: true, value: { edge: existing, from, to, created: false } };
+  }
+
+  const edge: FragmentEdge = {
+    id: generateId(),
+    from_id: from.id,
+    from_kind: from.kind,
+    to_id: to.id,
+    to_kind: to.kind,
+    rel,
+    weight,
+    metadata: JSON.stringify(match ? metadata : { ...metadata, relationship }),
+    created: new Date().toISOString(),
+  };
+  await agent.sql`
+    INSERT INTO fragment_edges (id, from_id, from_kind, to_id, to_kind, rel, weight, metadata, created)
+    VALUES (${edge.id}, ${edge.from_id}, ${edge.from_kind}, ${edge.to_id}, ${edge.to_kind},
+            ${edge.rel}, ${edge.weight}, ${edge.metadata}, ${edge.created})
+  `;
+  return { ok: true, value: { edge, from, to, created: true } };
+}
+
+/**
+ * Identifies one edge, either by id or by its (from, to, rel) triple – the
+ * triple is unique, see migration 7. Ends are looked up like
+ * `resolveLinkEndpoint` does: fragments first, then memos, unless a kind is
+ * given.
+ */
+export type FragmentEdgeRef =
+  | { edge_id: string }
+  | {
+      from_slug: string;
+      to_slug: string;
+      rel: string;
+      from_kind?: NodeKind;
+      to_kind?: NodeKind;
+    };
+
+async function resolveEdge(
+  agent: Chat,
+  ref: FragmentEdgeRef
+): Promise<FragmentEdge | null> {
+  if ("edge_id" in ref) {
+    const rows = await agent.sql<FragmentEdge>`
+      SELECT * FROM fragment_edges WHERE id = ${ref.edge_id} LIMIT 1
+    `;
+    return rows[0] ?? null;
+  }
+
+  const [from, to] = await Promise.all([
+    resolveLinkEndpoint(agent, { slug: ref.from_slug, kind: ref.from_kind }),
+    resolveLinkEndpoint(agent, { slug: ref.to_slug, kind: ref.to_kind }),
+  ]);
+  if (!from || !to) {
+    return null;
+  }
+
+  // Verbs outside the registry (from before it existed) are matched as-is
+  const match = await resolveRelation(agent, ref.rel);
+  if (!match) {
+    return findEdge(agent, from.id, to.id, ref.rel);
+  }
+  return match.reversed
+    ? findEdge(agent, to.id, from.id, match.type.name)
+    : findEdge(agent, from.id, to.id, match.type.name);
+}
+
+/**
+ * Remove a single edge.
+ */
+export async function deleteFragmentEdge(
+  agent: Chat,
+  ref: FragmentEdgeRef
+): Promise<FragmentOpResult<FragmentEdge>> {
+  const edge = await resolveEdge(agent, ref);
+  if (!edge) {
+    return { ok: false, status: 404, error: "No such link." };
+  }
+
+  await agent.sql`DELETE FROM fragment_edges WHERE id = ${edge.id}`;
+  return { ok: true, value: edge };
+}
+
+/**
+ * Re-label and/or re-weight a single edge. The new verb must be registered
+ * (an inverse name flips the edge); re-labelling onto a verb the pair is
+ * already linked by is a conflict.
+ */
+export async function updateFragmentEdge(
+  agent: Chat,
+  ref: FragmentEdgeRef,
+  changes: { rel?: string; weight?: number | null }
+): Promise<FragmentOpResult<FragmentEdge>> {
+  const edge = await resolveEdge(agent, ref);
+  if (!edge) {
+    return { ok: false, status: 404, error: "No such link." };
+  }
+
+  let { rel, from_id, from_kind, to_id, to_kind } = edge;
+  if (changes.rel?.trim()) {
+    const match = await resolveRelation(agent, changes.rel);
+    if (!match) {
+      return {
+        ok: false,
+        status: 400,
+        error: await unknownRelationError(agent, changes.rel),
+      };
+    }
+    rel = match.type.name;
+    if (match.reversed) {
+      // The ends swap along with their kinds
+      [from_id, from_kind] = [edge.to_id, edge.to_kind];
+      [to_id, to_kind] = [edge.from_id, edge.from_kind];
+    }
+  }
+  const weight = changes.weight !== undefined ? changes.weight : edge.weight;
+
+  if (rel !== edge.rel || from_id !== edge.from_id) {
+    const existing = await findEdge(agent, from_id, to_id, rel);
+    if (existing && existing.id !== edge.id) {
+      return {
+        ok: false,
+        status: 409,
+        error: `These fragments are already linked via '${rel}'.`,
+      };
+    }
+  }
+
+  await agent.sql`
+    UPDATE fragment_edges
+    SET from_id = ${from_id}, from_kind = ${from_kind}, to_id = ${to_id},
+        to_kind = ${to_kind}, rel = ${rel}, weight = ${weight}
+    WHERE id = ${edge.id}
+  `;
+  return {
+    ok: true,
+    value: { ...edge, from_id, from_kind, to_id, to_kind, rel, weight },
+  };
+}
+
+/**
+ * An existing `rel` edge between two fragments. Symmetric verbs match in
+ * either direction.
+ */
+async function findEdge(
+  agent: Chat,
+  from_id: string,
+  to_id: string,
+  rel: string
+): Promise<FragmentEdge | null> {
+  const rows = await agent.sql<FragmentEdge>`
+    SELECT fe.* FROM fragment_edges fe
+    LEFT JOIN relation_types rt ON rt.name = fe.rel
+    WHERE fe.rel = ${rel}
+      AND ((fe.from_id = ${from_id} AND fe.to_id = ${to_id})
+           OR (rt.symmetric = 1 AND fe.from_id = ${to_id} AND fe.to_id = ${from_id}))
+    LIMIT 1
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Links of a fragment in both directions, including those to and from memos.
+ * Each carries the `label` it reads as from this fragment (the inverse name
+ * for incoming links) and its relation type's colour.
+ */
+export async function getLinksOfFragment(agent: Chat, fragmentId: string) {
+  const types = await getRelationTypes(agent);
+  const typeOf = (rel: string) => types.find((t) => t.name === rel);
+
+  const outgoing = await agent.sql<{
+    id: string;
+    rel: string;
+    weight: number | null;
+    to_id: string;
+    to_kind: NodeKind;
+    to_slug: string;
+  }>`
+    SELECT fe.id, fe.rel, fe.weight, fe.to_id, fe.to_kind,
+      COALESCE(f2.slug, m.slug) AS to_slug
+    FROM fragment_edges fe
+    LEFT JOIN fragments f2 ON fe.to_kind = 'fragment' AND fe.to_id = f2.id
+    LEFT JOIN memos m ON fe.to_kind != 'fragment' AND fe.to_id = m.id
+    WHERE fe.from_id = ${fragmentId}
+      AND COALESCE(f2.slug, m.slug) IS NOT NULL
+  `;
+
+  const incoming = await agent.sql<{
+    id: string;
+    rel: string;
+    weight: number | null;
+    from_id: string;
+    from_kind: NodeKind;
+    from_slug: string;
+  }>`
+    SELECT fe.id, fe.rel, fe.weight, fe.from_id, fe.from_kind,
+      COALESCE(f2.slug, m.slug) AS from_slug
+    FROM fragment_edges fe
+    LEFT JOIN fragments f2 ON fe.from_kind = 'fragment' AND fe.from_id = f2.id
+    LEFT JOIN memos m ON fe.from_kind != 'fragment' AND fe.from_id = m.id
+    WHERE fe.to_id = ${fragmentId}
+      AND COALESCE(f2.slug, m.slug) IS NOT NULL
+  `;
+
+  return {
+    outgoing: outgoing.map((link) => ({
+      ...link,
+      label: link.rel,
+      color: typeOf(link.rel)?.color ?? null,
+    })),
+    // Verbs outside the registry (from before it existed) keep their name
+    incoming: incoming.map((link) => {
+      const type = typeOf(link.rel);
+      return {
+        ...link,
+        label: type ? incomingLabel(type) : link.rel,
+        color: type?.color ?? null,
+      };
+    }),
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -128,8 +715,6 @@ const createFragment = tool({
       throw new Error("No agent found");
     }
 
-    await initFragmentTables();
-
     // Does slug exist already?
     const existsRes = await agent.sql<{ count: number }>`
       SELECT COUNT(*) as count FROM fragments WHERE slug = ${slug}
@@ -155,10 +740,11 @@ const createFragment = tool({
         try {
           const embeddings = await agent.createEmbeddings(content);
           const vector_id = `fragment-${id}`;
-          await agent.storeVectorEmbedding(vector_id, embeddings, {
-            fragment_id: id,
-            slug,
-          });
+          await agent.storeVectorEmbedding(
+            vector_id,
+            embeddings,
+            fragmentVectorMetadata({ id, slug })
+          );
 
           // Update the fragment row with the vector_id once done
           // @ts-ignore
@@ -188,17 +774,18 @@ const getFragment = tool({
     if (!agent) {
       throw new Error("No agent found");
     }
-    await initFragmentTables();
-
-    const frags = await agent.sql<Fragment>`
-      SELECT * FROM fragments WHERE slug = ${slug} LIMIT 1
-    `;
+    const fragment = await getFragmentBySlug(agent, slug);
+    if (fragment) {
+      return fragment;
+    }
 
-    if (!frags.length) {
+    // Follow a renamed fragment's old slug
+    const current = await resolveSlugAlias(agent, "fragment", slug);
+    const renamed = current && (await getFragmentBySlug(agent, current));
+    if (!renamed) {
       return `No fragment found with slug '${slug}'.`;
     }
-
-    return frags[0];
+    return { ...renamed, redirected_from: slug };
   },
 });
 
@@ -215,8 +802,6 @@ const getFragmentLinks = tool({
     if (!agent) {
       throw new Error("No agent found");
     }
-    await initFragmentTables();
-
     // First verify the fragment exists
     const frags = await agent.sql<Fragment>`
       SELECT id FROM fragments WHERE slug = ${slug} LIMIT 1
@@ -226,23 +811,10 @@ const getFragmentLinks = tool({
       return `No fragment found with slug '${slug}'.`;
     }
 
-    const fragment_id = frags[0].id;
-
-    // Get outgoing links
-    const outgoing = await agent.sql`
-      SELECT fe.rel, fe.to_id, f2.slug AS to_slug
-      FROM fragment_edges fe
-      JOIN fragments f2 ON fe.to_id = f2.id
-      WHERE fe.from_id = ${fragment_id}
-    `;
-
-    // Get incoming links
-    const incoming = await agent.sql`
-      SELECT fe.rel, fe.from_id, f2.slug AS from_slug
-      FROM fragment_edges fe
-      JOIN fragments f2 ON fe.from_id = f2.id
-      WHERE fe.to_id = ${fragment_id}
-    `;
+    const { outgoing, incoming } = await getLinksOfFragment(
+      agent as Chat,
+      frags[0].id
+    );
 
     return {
       fragment_slug: slug,
@@ -253,97 +825,455 @@ const getFragmentLinks = tool({
 });
 
 /**
- * Create a directed relationship between two fragments.
+ * Fragments within a few hops of a fragment.
+ */
+const getFragmentNeighborhood = tool({
+  description:
+    "List the fragments within a few hops of a fragment, and the links among them",
+  parameters: z.object({
+    slug: z.string().describe("Fragment at the centre"),
+    depth: z
+      .number()
+      .optional()
+      .describe(`Hops to follow (default 1, max ${MAX_NEIGHBORHOOD_DEPTH})`),
+    direction: z
+      .enum(["out", "in", "both"])
+      .optional()
+      .describe("Follow links along, against or regardless of direction"),
+    rels: z
+      .array(z.string())
+      .optional()
+      .describe("Only follow these relationship verbs"),
+  }),
+  execute: async ({ slug, depth, direction, rels }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    const result = await fragmentNeighborhood(agent, slug, {
+      depth,
+      direction,
+      rels,
+    });
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    const { nodes, links, truncated } = result.value;
+    return {
+      fragments: nodes.map(({ slug, depth }) => ({ slug, depth })),
+      links: links.map(({ source, target, type }) => ({
+        source,
+        target,
+        type,
+      })),
+      truncated,
+    };
+  },
+});
+
+/**
+ * How two fragments are connected.
+ */
+const findFragmentPaths = tool({
+  description:
+    "Find how two fragments are connected: the shortest chain of links between them, or every chain up to a depth",
+  parameters: z.object({
+    from_slug: z.string(),
+    to_slug: z.string(),
+    max_depth: z
+      .number()
+      .optional()
+      .describe(`Longest chain to consider (default 4, max ${MAX_PATH_DEPTH})`),
+    all: z
+      .boolean()
+      .optional()
+      .describe("Return every simple path rather than only the shortest"),
+    limit: z.number().optional().describe("Max paths with all (default 10)"),
+    direction: z
+      .enum(["out", "in", "both"])
+      .optional()
+      .describe("Follow links along, against or regardless of direction"),
+    rels: z
+      .array(z.string())
+      .optional()
+      .describe("Only follow these relationship verbs"),
+  }),
+  execute: async ({
+    from_slug,
+    to_slug,
+    max_depth,
+    all,
+    limit,
+    direction,
+    rels,
+  }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    const result = await fragmentPaths(agent, from_slug, to_slug, {
+      maxDepth: max_depth,
+      all,
+      limit,
+      direction,
+      rels,
+    });
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    const { paths, truncated } = result.value;
+    if (!paths.length) {
+      return `No connection between '${from_slug}' and '${to_slug}' within ${max_depth ?? 4} links${truncated ? " (search stopped early; the graph around it is large)" : ""}.`;
+    }
+    return paths.map((p) => p.text);
+  },
+});
+
+/**
+ * Create a directed relationship between two fragments, or between a
+ * fragment and a memo.
  */
 const linkFragments = tool({
-  description: "Link two fragments with a relationship verb (edge)",
+  description:
+    "Link two fragments with a relationship verb (edge). Either end may instead be a memo, by setting from_kind or to_kind",
   parameters: z.object({
     from_slug: z.string(),
     to_slug: z.string(),
     rel: z
       .string()
-      .describe("Relationship verb, e.g. 'example_of', 'abstracts'"),
+      .describe(
+        "Registered relationship verb or its inverse, e.g. 'example_of', 'has_example' (see listRelationTypes)"
+      ),
+    from_kind: z
+      .enum(["fragment", "memo"])
+      .optional()
+      .describe("What from_slug names (default 'fragment')"),
+    to_kind: z
+      .enum(["fragment", "memo"])
+      .optional()
+      .describe("What to_slug names (default 'fragment')"),
     weight: z.number().optional(),
     metadata: z.string().optional(),
   }),
-  execute: async ({ from_slug, to_slug, rel, weight = 1, metadata = "{}" }) => {
+  execute: async ({
+    from_slug,
+    to_slug,
+    rel,
+    from_kind = "fragment",
+    to_kind = "fragment",
+    weight = 1,
+    metadata = "{}",
+  }) => {
     const agent = agentContext.getStore() as Chat | null;
     if (!agent) {
       throw new Error("No agent found");
     }
 
-    await initFragmentTables();
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return "Error: metadata must be valid JSON.";
+    }
 
-    // Resolve ids
-    const rows = await agent.sql<Pick<Fragment, "id" | "slug">>`
-      SELECT id, slug FROM fragments WHERE slug IN (${from_slug}, ${to_slug})
-    `;
-    const idMap: Record<string, string> = {};
-    rows.forEach((r) => (idMap[r.slug] = r.id));
+    // Stored under the canonical verb; an inverse verb flips the edge
+    const result = await createLink(
+      agent,
+      { slug: from_slug, kind: from_kind },
+      { slug: to_slug, kind: to_kind },
+      rel,
+      { weight, metadata: parsed }
+    );
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
 
-    const from_id = idMap[from_slug];
-    const to_id = idMap[to_slug];
+    const { edge, from, to, created } = result.value;
+    if (!created) {
+      return `'${from.slug}' is already linked to '${to.slug}' via '${edge.rel}' (edge id ${edge.id}). Use updateFragmentLink to change its weight.`;
+    }
+    return `Linked '${from.slug}' → '${to.slug}' via '${edge.rel}' (edge id ${edge.id}).`;
+  },
+});
 
-    if (!from_id || !to_id) {
-      return `Error: unable to find fragment(s) — missing from_slug or to_slug.`;
+/**
+ * Edit an existing fragment.
+ */
+const updateFragment = tool({
+  description:
+    "Edit a fragment's content, slug, speaker or metadata (re-embeds on content/slug change). A new slug rewrites [[links]] to the fragment and keeps the old slug as an alias",
+  parameters: z.object({
+    slug: z.string().describe("Current slug of the fragment"),
+    new_slug: z.string().optional().describe("Rename the fragment"),
+    content: z.string().optional().describe("Replacement text"),
+    speaker: z.string().optional().describe("'user' | 'assistant' | other"),
+    metadata: z.string().optional().describe("Replacement JSON metadata"),
+  }),
+  execute: async ({ slug, new_slug, content, speaker, metadata }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
     }
 
-    const edgeId = generateId();
-    const nowIso = new Date().toISOString();
+    const result = await updateFragmentBySlug(
+      agent,
+      slug,
+      { new_slug, content, speaker, metadata },
+      { author: "assistant" }
+    );
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    return `Fragment '${result.value.slug}' updated.`;
+  },
+});
 
-    // @ts-ignore
-    await agent.sql`
-      INSERT INTO fragment_edges (id, from_id, to_id, rel, weight, metadata, created)
-      VALUES (${edgeId}, ${from_id}, ${to_id}, ${rel}, ${weight}, ${metadata}, ${nowIso})
-    `;
+/**
+ * Delete a fragment and its edges.
+ */
+const deleteFragment = tool({
+  description: "Delete a fragment by slug, along with all of its links",
+  parameters: z.object({
+    slug: z.string().describe("Slug of the fragment to delete"),
+  }),
+  execute: async ({ slug }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
 
-    return `Linked '${from_slug}' → '${to_slug}' via '${rel}' (edge id ${edgeId}).`;
+    const result = await deleteFragmentBySlug(agent, slug);
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    return `Fragment '${slug}' deleted (${result.value.edges_removed} link(s) removed).`;
   },
 });
 
 /**
- * List fragments (basic pagination)
+ * Merge two near-duplicate fragments.
  */
-const listFragments = tool({
-  description: "List fragments (paginated)",
+const mergeFragments = tool({
+  description:
+    "Merge a duplicate fragment into another: its links move to the surviving fragment and the duplicate is deleted",
   parameters: z.object({
-    limit: z.number().optional().describe("Max rows (default 20)"),
-    offset: z.number().optional().describe("Offset for pagination"),
+    keep_slug: z.string().describe("Slug of the fragment that survives"),
+    merge_slug: z.string().describe("Slug of the duplicate to fold in"),
+    content: z
+      .string()
+      .optional()
+      .describe("Optional combined text for the surviving fragment"),
   }),
-  execute: async ({ limit = 20, offset = 0 }) => {
-    const agent = agentContext.getStore();
+  execute: async ({ keep_slug, merge_slug, content }) => {
+    const agent = agentContext.getStore() as Chat | null;
     if (!agent) {
       throw new Error("No agent found");
     }
-    await initFragmentTables();
 
-    const frags = await agent.sql<Fragment>`
-      SELECT * FROM fragments ORDER BY modified DESC LIMIT ${limit} OFFSET ${offset}
-    `;
-    return frags.length ? frags : "No fragments found.";
+    const result = await mergeFragmentsBySlug(
+      agent,
+      keep_slug,
+      merge_slug,
+      content
+    );
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    return `Merged '${merge_slug}' into '${keep_slug}'.`;
+  },
+});
+
+/**
+ * Remove a relationship between two fragments.
+ */
+const unlinkFragments = tool({
+  description: "Remove the link (edge) between two fragments with a given verb",
+  parameters: z.object({
+    from_slug: z.string(),
+    to_slug: z.string(),
+    rel: z.string().describe("Relationship verb of the link to remove"),
+    from_kind: z
+      .enum(["fragment", "memo"])
+      .optional()
+      .describe("What from_slug names (default: a fragment, else a memo)"),
+    to_kind: z
+      .enum(["fragment", "memo"])
+      .optional()
+      .describe("What to_slug names (default: a fragment, else a memo)"),
+  }),
+  execute: async ({ from_slug, to_slug, rel, from_kind, to_kind }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    const result = await deleteFragmentEdge(agent, {
+      from_slug,
+      to_slug,
+      rel,
+      from_kind,
+      to_kind,
+    });
+    if (!result.ok) {
+      return `Error: no '${rel}' link from '${from_slug}' to '${to_slug}'.`;
+    }
+    return `Unlinked '${from_slug}' → '${to_slug}' ('${rel}').`;
+  },
+});
+
+/**
+ * Change the verb and/or weight of an existing relationship.
+ */
+const updateFragmentLink = tool({
+  description: "Re-label (change the verb of) and/or re-weight a fragment link",
+  parameters: z.object({
+    from_slug: z.string(),
+    to_slug: z.string(),
+    rel: z.string().describe("Current relationship verb"),
+    new_rel: z.string().optional().describe("Replacement verb"),
+    weight: z.number().optional().describe("Replacement weight"),
+    from_kind: z
+      .enum(["fragment", "memo"])
+      .optional()
+      .describe("What from_slug names (default: a fragment, else a memo)"),
+    to_kind: z
+      .enum(["fragment", "memo"])
+      .optional()
+      .describe("What to_slug names (default: a fragment, else a memo)"),
+  }),
+  execute: async ({
+    from_slug,
+    to_slug,
+    rel,
+    new_rel,
+    weight,
+    from_kind,
+    to_kind,
+  }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    const result = await updateFragmentEdge(
+      agent,
+      { from_slug, to_slug, rel, from_kind, to_kind },
+      { rel: new_rel, weight }
+    );
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    return `Link '${from_slug}' → '${to_slug}' is now '${result.value.rel}' (weight ${result.value.weight ?? 1}).`;
+  },
+});
+
+/**
+ * List the relationship verbs links may use.
+ */
+const listRelationTypes = tool({
+  description:
+    "List the relationship verbs fragment links may use, with their inverse names and descriptions",
+  parameters: z.object({}),
+  execute: async () => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    return (await getRelationTypes(agent)).map((t) => ({
+      name: t.name,
+      inverse: t.inverse,
+      symmetric: Boolean(t.symmetric),
+      description: t.description,
+    }));
+  },
+});
+
+/**
+ * Add a relationship verb to the registry.
+ */
+const defineRelationType = tool({
+  description:
+    "Add a new relationship verb for fragment links. Only do this when no existing verb fits",
+  parameters: z.object({
+    name: z.string().describe("Verb, e.g. 'causes'"),
+    inverse: z
+      .string()
+      .optional()
+      .describe("How it reads from the target, e.g. 'caused_by'"),
+    symmetric: z
+      .boolean()
+      .optional()
+      .describe("True when it reads the same both ways (no inverse)"),
+    description: z.string().optional(),
+  }),
+  execute: async ({ name, inverse, symmetric, description }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    const result = await createRelationType(agent, {
+      name,
+      inverse,
+      symmetric,
+      description,
+    });
+    if (!result.ok) {
+      return `Error: ${result.error}`;
+    }
+    const { value } = result;
+    return value.symmetric
+      ? `Relation type '${value.name}' added (symmetric).`
+      : `Relation type '${value.name}' added (inverse '${value.inverse}').`;
   },
 });
 
 /**
- * Text search over fragment content (LIKE pattern – fast enough for now).
+ * List fragments a page at a time, with the same sorting and filters as
+ * memos (see list-pages.ts)
+ */
+const listFragments = tool({
+  description:
+    "List fragments a page at a time, optionally sorted and filtered. Returns { items, total, next_cursor }; pass next_cursor back to get the next page",
+  parameters: listToolParameters,
+  execute: async ({ limit = DEFAULT_TOOL_PAGE_SIZE, ...options }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    try {
+      const result = await listFragmentsPage(agent, { ...options, limit });
+      if (!result.ok) {
+        return `Error: ${result.error}`;
+      }
+      return result.value.total ? result.value : "No fragments found.";
+    } catch (error) {
+      console.error("Error listing fragments:", error);
+      return `Error listing fragments: ${error}`;
+    }
+  },
+});
+
+/**
+ * Full-text search over fragments (FTS5, BM25-ranked).
  */
 const searchFragments = tool({
-  description: "Search fragments by content (simple LIKE search)",
+  description:
+    'Full-text search over fragment slugs, content and metadata. Supports "exact phrases", prefix* terms and OR',
   parameters: z.object({
     query: z.string(),
     limit: z.number().optional(),
   }),
   execute: async ({ query, limit = 10 }) => {
-    const agent = agentContext.getStore();
+    const agent = agentContext.getStore() as Chat | null;
     if (!agent) {
       throw new Error("No agent found");
     }
-    await initFragmentTables();
-
-    const pattern = "%" + query.replace(/[%_]/g, (c) => "\\" + c) + "%";
-    const rows = await agent.sql<Fragment>`
-      SELECT * FROM fragments WHERE content LIKE ${pattern} ORDER BY modified DESC LIMIT ${limit}
-    `;
+    const rows = await searchFragmentsFts<Fragment>(agent, query, { limit });
     return rows.length ? rows : `No fragments match '${query}'.`;
   },
 });
@@ -363,13 +1293,12 @@ const semanticSearchFragments = tool({
     if (!agent) {
       throw new Error("No agent found");
     }
-    await initFragmentTables();
-
     const queryEmbedding = await agent.createEmbeddings(query);
     const vectorResults = await agent.searchSimilarVectors(
       queryEmbedding,
       top_k,
-      threshold
+      threshold,
+      "fragment"
     );
 
     // If no matches found, return the empty results
@@ -378,9 +1307,7 @@ const semanticSearchFragments = tool({
     }
 
     // Extract fragment IDs from the vector results
-    const fragmentIds = vectorResults.matches
-      .map((match: any) => match.metadata?.fragment_id)
-      .filter(Boolean);
+    const fragmentIds = vectorRefIds(vectorResults.matches, "fragment");
 
     if (!fragmentIds.length) {
       return vectorResults;
@@ -401,8 +1328,8 @@ const semanticSearchFragments = tool({
 
     // Enhance the vector results with fragment content
     const enhancedMatches = vectorResults.matches.map((match: any) => {
-      const fragmentId = match.metadata?.fragment_id;
-      const fragment = fragmentContents[fragmentId];
+      const ref = vectorRef(match);
+      const fragment = ref ? fragmentContents[ref.id] : undefined;
 
       if (fragment) {
         return {
@@ -440,4 +1367,13 @@ export const fragmentTools = {
   semanticSearchFragments,
   getFragment,
   getFragmentLinks,
+  getFragmentNeighborhood,
+  findFragmentPaths,
+  updateFragment,
+  deleteFragment,
+  mergeFragments,
+  unlinkFragments,
+  updateFragmentLink,
+  listRelationTypes,
+  defineRelationType,
 };
@@ -0,0 +1,175 @@
+/**
+ * Full-text search over memos and fragments
+ * -----------------------------------------
+ * Backed by the FTS5 tables `memos_fts` (slug, content, headers, summary) and
+ * `fragments_fts` (slug, content, metadata) from migration 8. Both are
+ * external-content tables kept in sync by triggers, so nothing here has to
+ * write to them.
+ *
+ * User input is never passed to MATCH verbatim: `toFtsQuery` turns it into a
+ * query built only from quoted terms, so stray quotes/operators can't cause
+ * syntax errors. Supported syntax:
+ *  - `foo bar`      both terms (or either, with match: "any")
+ *  - `"foo bar"`    exact phrase
+ *  - `foo*`         prefix
+ *  - `foo OR bar`   either term
+ */
+import type { Chat } from "./server";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type FtsOptions = {
+  limit?: number;
+  offset?: number;
+  // Restrict matching to these columns (default: all)
+  columns?: string[];
+  // How bare terms combine (default: "all")
+  match?: "all" | "any";
+};
+
+export type FtsHit = {
+  score: number; // BM25, higher is better
+  snippet: string; // best-matching excerpt, hits wrapped in <mark></mark>
+};
+
+export const SNIPPET_OPEN = "<mark>";
+export const SNIPPET_CLOSE = "</mark>";
+
+// ---------------------------------------------------------------------------
+// Query building
+// ---------------------------------------------------------------------------
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Convert free-form search input into a safe FTS5 MATCH expression, or null
+ * when it contains nothing searchable.
+ */
+export function toFtsQuery(
+  input: string,
+  { columns, match = "all" }: Pick<FtsOptions, "columns" | "match"> = {}
+): string | null {
+  const parts: string[] = [];
+  const tokenRe = /"([^"]*)"(\*?)|(\S+)/g;
+  let pendingOr = false;
+
+  for (const m of input.matchAll(tokenRe)) {
+    const [, phrase, phrasePrefix, bare] = m;
+
+    if (bare === "OR") {
+      pendingOr = parts.length > 0;
+      continue;
+    }
+
+    const words = (phrase ?? bare).match(WORD);
+    if (!words) continue;
+
+    const prefix =
+      phrase !== undefined ? phrasePrefix === "*" : bare.endsWith("*");
+    const term = `"${words.join(" ")}"${prefix ? "*" : ""}`;
+
+    if (parts.length > 0) {
+      parts.push(pendingOr || match === "any" ? "OR" : "AND");
+    }
+    parts.push(term);
+    pendingOr = false;
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const expr = parts.join(" ");
+  return columns?.length ? `{${columns.join(" ")}} : (${expr})` : expr;
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+/**
+ * BM25-ranked memo search. Slug matches weigh most, then headers/summary,
+ * then body text.
+ */
+export async function searchMemosFts<T = Record<string, unknown>>(
+  agent: Chat,
+  query: string,
+  { limit = 10, offset = 0, columns, match }: FtsOptions = {}
+): Promise<(T & FtsHit)[]> {
+  const ftsQuery = toFtsQuery(query, { columns, match });
+  if (!ftsQuery) return [];
+
+  return agent.sql<T & FtsHit>`
+    SELECT
+      m.*,
+      -bm25(memos_fts, 10.0, 1.0, 2.0, 2.0) AS score,
+      snippet(memos_fts, -1, ${SNIPPET_OPEN}, ${SNIPPET_CLOSE}, '…', 16) AS snippet
+    FROM memos_fts
+    JOIN memos m ON m.rowid = memos_fts.rowid
+    WHERE memos_fts MATCH ${ftsQuery}
+    ORDER BY bm25(memos_fts, 10.0, 1.0, 2.0, 2.0)
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+}
+
+/**
+ * BM25-ranked fragment search, with the number of links each hit has.
+ */
+export async function searchFragmentsFts<T = Record<string, unknown>>(
+  agent: Chat,
+  query: string,
+  { limit = 10, offset = 0, columns, match }: FtsOptions = {}
+): Promise<(T & FtsHit & { link_count: number })[]> {
+  const ftsQuery = toFtsQuery(query, { columns, match });
+  if (!ftsQuery) return [];
+
+  return agent.sql<T & FtsHit & { link_count: number }>`
+    SELECT
+      f.*,
+      (
+        SELECT COUNT(*) FROM fragment_edges fe
+        WHERE fe.from_id = f.id OR fe.to_id = f.id
+      ) AS link_count,
+      -bm25(fragments_fts, 10.0, 1.0, 0.5) AS score,
+      snippet(fragments_fts, -1, ${SNIPPET_OPEN}, ${SNIPPET_CLOSE}, '…', 16) AS snippet
+    FROM fragments_fts
+    JOIN fragments f ON f.rowid = fragments_fts.rowid
+    WHERE fragments_fts MATCH ${ftsQuery}
+    ORDER BY bm25(fragments_fts, 10.0, 1.0, 0.5)
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+}
+
+/**
+ * Total number of fragments matching `query` (for pagination).
+ */
+export async function countFragmentsFts(
+  agent: Chat,
+  query: string,
+  { columns, match }: Pick<FtsOptions, "columns" | "match"> = {}
+): Promise<number> {
+  const ftsQuery = toFtsQuery(query, { columns, match });
+  if (!ftsQuery) return 0;
+
+  const rows = await agent.sql<{ count: number }>`
+    SELECT COUNT(*) AS count FROM fragments_fts WHERE fragments_fts MATCH ${ftsQuery}
+  `;
+  return rows[0]?.count ?? 0;
+}
+
+/**
+ * Total number of memos matching `query` (for pagination).
+ */
+export async function countMemosFts(
+  agent: Chat,
+  query: string,
+  { columns, match }: Pick<FtsOptions, "columns" | "match"> = {}
+): Promise<number> {
+  const ftsQuery = toFtsQuery(query, { columns, match });
+  if (!ftsQuery) return 0;
+
+  const rows = await agent.sql<{ count: number }>`
+    SELECT COUNT(*) AS count FROM memos_fts WHERE memos_fts MATCH ${ftsQuery}
+  `;
+  return rows[0]?.count ?? 0;
+}
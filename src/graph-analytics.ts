@@ -0,0 +1,431 @@
+/**
+ * Fragment graph analytics
+ * ------------------------
+ * Whole-graph measures of the fragment graph:
+ *
+ *  - centrality   degree and weighted PageRank (symmetric verbs count in
+ *                 both directions)
+ *  - components   connected components, ignoring direction
+ *  - communities  label propagation, so densely linked groups share a label
+ *  - orphans      fragments with no links
+ *  - bridges      articulation points: fragments whose removal splits their
+ *                 component
+ *
+ * Computing them reads every fragment and edge, so the result is cached in
+ * `graph_analytics`. Triggers mark the cache dirty whenever fragments, edges
+ * or relation symmetry change; the next read returns the cached result
+ * flagged `stale` and schedules `Chat.refreshGraphAnalytics` to recompute
+ * it in the background.
+ *
+ * Tables (created in migrations.ts)
+ *  - graph_analytics  (a single row: cached result, dirty/scheduled flags)
+ */
+import type { Chat } from "./server";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type AnalyticsEdge = {
+  from: string;
+  to: string;
+  weight: number;
+  symmetric: boolean;
+};
+
+export type NodeAnalytics = {
+  id: string;
+  slug: string;
+  degree: number;
+  in_degree: number;
+  out_degree: number;
+  pagerank: number; // sums to 1 over the graph
+  component: number; // 0 = largest
+  community: number; // 0 = largest
+  orphan: boolean;
+  bridge: boolean;
+};
+
+export type GraphAnalytics = {
+  computed_at: string; // ISO
+  fragment_count: number;
+  edge_count: number;
+  nodes: NodeAnalytics[]; // by PageRank, highest first
+  components: { id: number; size: number }[];
+  communities: { id: number; size: number; top: string[] }[]; // top slugs
+  orphans: string[]; // slugs
+  bridges: string[]; // slugs
+};
+
+const DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-8;
+const PROPAGATION_ITERATIONS = 30;
+
+// Slugs listed per community
+const COMMUNITY_TOP = 5;
+
+// ---------------------------------------------------------------------------
+// Algorithms
+// ---------------------------------------------------------------------------
+
+/**
+ * Undirected neighbour lists (with edge weights), self-loops dropped.
+ */
+function undirected(
+  ids: string[],
+  edges: AnalyticsEdge[]
+): Map<string, { id: string; weight: number }[]> {
+  const neighbours = new Map(
+    ids.map((id) => [id, [] as { id: string; weight: number }[]])
+  );
+  for (const { from, to, weight } of edges) {
+    if (from === to) continue;
+    neighbours.get(from)?.push({ id: to, weight });
+    neighbours.get(to)?.push({ id: from, weight });
+  }
+  return neighbours;
+}
+
+/**
+ * Weighted PageRank. Dangling fragments share their rank with every
+ * fragment; symmetric edges pass rank both ways. Edges weighted zero or
+ * below carry no rank.
+ */
+export function pageRank(
+  ids: string[],
+  edges: AnalyticsEdge[]
+): Map<string, number> {
+  const n = ids.length;
+  if (!n) return new Map();
+
+  const outgoing = new Map(
+    ids.map((id) => [id, [] as { to: string; weight: number }[]])
+  );
+  for (const edge of edges) {
+    const { from, to, symmetric } = edge;
+    const weight = Math.max(edge.weight, 0);
+    if (!weight) continue;
+    outgoing.get(from)?.push({ to, weight });
+    if (symmetric && from !== to) outgoing.get(to)?.push({ to: from, weight });
+  }
+  const totals = new Map(
+    ids.map((id) => [
+      id,
+      outgoing.get(id)!.reduce((sum, e) => sum + e.weight, 0),
+    ])
+  );
+
+  let rank = new Map(ids.map((id) => [id, 1 / n]));
+  for (let i = 0; i < PAGERANK_ITERATIONS; i++) {
+    let dangling = 0;
+    for (const id of ids) {
+      if (!totals.get(id)) dangling += rank.get(id)!;
+    }
+
+    const base = (1 - DAMPING) / n + (DAMPING * dangling) / n;
+    const next = new Map(ids.map((id) => [id, base]));
+    for (const id of ids) {
+      const total = totals.get(id)!;
+      if (!total) continue;
+      const share = (DAMPING * rank.get(id)!) / total;
+      for (const { to, weight } of outgoing.get(id)!) {
+        next.set(to, next.get(to)! + share * weight);
+      }
+    }
+
+    let delta = 0;
+    for (const id of ids) delta += Math.abs(next.get(id)! - rank.get(id)!);
+    rank = next;
+    if (delta < PAGERANK_TOLERANCE) break;
+  }
+  return rank;
+}
+
+/**
+ * Connected components ignoring direction, numbered largest first.
+ */
+export function connectedComponents(
+  ids: string[],
+  edges: AnalyticsEdge[]
+): Map<string, number> {
+  const neighbours = undirected(ids, edges);
+  const groups: string[][] = [];
+  const seen = new Set<string>();
+
+  for (const start of ids) {
+    if (seen.has(start)) continue;
+    const group = [start];
+    seen.add(start);
+    for (let i = 0; i < group.length; i++) {
+      for (const { id } of neighbours.get(group[i])!) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          group.push(id);
+        }
+      }
+    }
+    groups.push(group);
+  }
+  return numberBySize(groups);
+}
+
+/**
+ * Communities by label propagation: each fragment repeatedly takes the label
+ * carrying the most link weight among its neighbours. Fragments are visited
+ * in a fixed order and ties go to the current, then the smallest, label, so
+ * the result is deterministic. Numbered largest first.
+ */
+export function labelPropagation(
+  ids: string[],
+  edges: AnalyticsEdge[]
+): Map<string, number> {
+  const neighbours = undirected(ids, edges);
+  const order = [...ids].sort();
+  const label = new Map(order.map((id, i) => [id, i]));
+
+  for (let i = 0; i < PROPAGATION_ITERATIONS; i++) {
+    let changed = false;
+    for (const id of order) {
+      const weights = new Map<number, number>();
+      for (const n of neighbours.get(id)!) {
+        const l = label.get(n.id)!;
+        weights.set(l, (weights.get(l) ?? 0) + n.weight);
+      }
+      if (!weights.size) continue;
+
+      const best = Math.max(...weights.values());
+      const current = label.get(id)!;
+      if (weights.get(current) === best) continue;
+      const chosen = Math.min(
+        ...[...weights].filter(([, w]) => w === best).map(([l]) => l)
+      );
+      label.set(id, chosen);
+      changed = true;
+    }
+    if (!changed) break;
+  }
+
+  const groups = new Map<number, string[]>();
+  for (const id of order) {
+    const l = label.get(id)!;
+    const group = groups.get(l);
+    if (group) group.push(id);
+    else groups.set(l, [id]);
+  }
+  return numberBySize([...groups.values()]);
+}
+
+/**
+ * Articulation points (ignoring direction): fragments whose removal would
+ * disconnect part of their component. Iterative Tarjan, so deep chains
+ * don't overflow the stack.
+ */
+export function articulationPoints(
+  ids: string[],
+  edges: AnalyticsEdge[]
+): Set<string> {
+  const neighbours = undirected(ids, edges);
+  const order = new Map<string, number>();
+  const low = new Map<string, number>();
+  const points = new Set<string>();
+  let counter = 0;
+
+  for (const root of ids) {
+    if (order.has(root)) continue;
+    order.set(root, counter);
+    low.set(root, counter++);
+    let rootChildren = 0;
+
+    const stack = [{ id: root, parent: null as string | null, next: 0 }];
+    while (stack.length) {
+      const frame = stack[stack.length - 1];
+      const list = neighbours.get(frame.id)!;
+
+      if (frame.next < list.length) {
+        const { id: child } = list[frame.next++];
+        if (child === frame.parent) continue;
+        if (order.has(child)) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, order.get(child)!));
+        } else {
+          order.set(child, counter);
+          low.set(child, counter++);
+          if (frame.id === root) rootChildren++;
+          stack.push({ id: child, parent: frame.id, next: 0 });
+        }
+        continue;
+      }
+
+      stack.pop();
+      const parent = frame.parent;
+      if (parent !== null) {
+        low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+        if (parent !== root && low.get(frame.id)! >= order.get(parent)!) {
+          points.add(parent);
+        }
+      }
+    }
+    if (rootChildren > 1) points.add(root);
+  }
+  return points;
+}
+
+function numberBySize(groups: string[][]): Map<string, number> {
+  const numbered = new Map<string, number>();
+  [...groups]
+    .sort((a, b) => b.length - a.length || (a[0] < b[0] ? -1 : 1))
+    .forEach((group, i) => {
+      for (const id of group) numbered.set(id, i);
+    });
+  return numbered;
+}
+
+/**
+ * Every measure for a graph, as cached and served.
+ */
+export function analyzeGraph(
+  nodes: { id: string; slug: string }[],
+  edges: AnalyticsEdge[]
+): GraphAnalytics {
+  const ids = nodes.map((n) => n.id);
+  const known = new Set(ids);
+  const graphEdges = edges.filter((e) => known.has(e.from) && known.has(e.to));
+
+  const rank = pageRank(ids, graphEdges);
+  const component = connectedComponents(ids, graphEdges);
+  const community = labelPropagation(ids, graphEdges);
+  const bridges = articulationPoints(ids, graphEdges);
+
+  const inDegree = new Map<string, number>();
+  const outDegree = new Map<string, number>();
+  for (const { from, to } of graphEdges) {
+    outDegree.set(from, (outDegree.get(from) ?? 0) + 1);
+    inDegree.set(to, (inDegree.get(to) ?? 0) + 1);
+  }
+
+  const results: NodeAnalytics[] = nodes
+    .map(({ id, slug }) => {
+      const in_degree = inDegree.get(id) ?? 0;
+      const out_degree = outDegree.get(id) ?? 0;
+      return {
+        id,
+        slug,
+        degree: in_degree + out_degree,
+        in_degree,
+        out_degree,
+        pagerank: rank.get(id) ?? 0,
+        component: component.get(id) ?? 0,
+        community: community.get(id) ?? 0,
+        orphan: in_degree + out_degree === 0,
+        bridge: bridges.has(id),
+      };
+    })
+    .sort((a, b) => b.pagerank - a.pagerank || (a.slug < b.slug ? -1 : 1));
+
+  const summarize = (key: "component" | "community") => {
+    const groups = new Map<number, NodeAnalytics[]>();
+    for (const node of results) {
+      const group = groups.get(node[key]);
+      if (group) group.push(node);
+      else groups.set(node[key], [node]);
+    }
+    return [...groups]
+      .sort(([a], [b]) => a - b)
+      .map(([id, members]) => ({ id, members }));
+  };
+
+  return {
+    computed_at: new Date().toISOString(),
+    fragment_count: nodes.length,
+    edge_count: graphEdges.length,
+    nodes: results,
+    components: summarize("component").map(({ id, members }) => ({
+      id,
+      size: members.length,
+    })),
+    communities: summarize("community").map(({ id, members }) => ({
+      id,
+      size: members.length,
+      top: members.slice(0, COMMUNITY_TOP).map((n) => n.slug),
+    })),
+    orphans: results.filter((n) => n.orphan).map((n) => n.slug),
+    bridges: results.filter((n) => n.bridge).map((n) => n.slug),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+type CacheRow = {
+  result: string | null;
+  computed_at: string | null;
+  dirty: number;
+  scheduled: number;
+};
+
+/**
+ * Recompute the analytics from the current graph and cache them. Called
+ * from the Chat.refreshGraphAnalytics schedule callback, or directly when
+ * nothing has been cached yet.
+ */
+export async function computeGraphAnalytics(
+  agent: Chat
+): Promise<GraphAnalytics> {
+  // Cleared first: changes made while computing mark it dirty again
+  await agent.sql`
+    UPDATE graph_analytics SET dirty = 0, scheduled = 0 WHERE id = 1
+  `;
+
+  const nodes = await agent.sql<{ id: string; slug: string }>`
+    SELECT id, slug FROM fragments
+  `;
+  const edges = await agent.sql<{
+    from_id: string;
+    to_id: string;
+    weight: number | null;
+    symmetric: number | null;
+  }>`
+    SELECT fe.from_id, fe.to_id, fe.weight, rt.symmetric
+    FROM fragment_edges fe
+    LEFT JOIN relation_types rt ON rt.name = fe.rel
+  `;
+
+  const analytics = analyzeGraph(
+    nodes,
+    edges.map((e) => ({
+      from: e.from_id,
+      to: e.to_id,
+      weight: e.weight ?? 1,
+      symmetric: Boolean(e.symmetric),
+    }))
+  );
+
+  await agent.sql`
+    UPDATE graph_analytics
+    SET result = ${JSON.stringify(analytics)}, computed_at = ${analytics.computed_at}
+    WHERE id = 1
+  `;
+  return analytics;
+}
+
+/**
+ * The cached analytics. When the graph has changed since they were computed
+ * they come back `stale` and a background refresh is scheduled; the first
+ * call computes them in place.
+ */
+export async function getGraphAnalytics(
+  agent: Chat
+): Promise<{ analytics: GraphAnalytics; stale: boolean }> {
+  const [row] = await agent.sql<CacheRow>`
+    SELECT result, computed_at, dirty, scheduled FROM graph_analytics WHERE id = 1
+  `;
+
+  if (!row?.result) {
+    return { analytics: await computeGraphAnalytics(agent), stale: false };
+  }
+
+  if (row.dirty && !row.scheduled) {
+    await agent.sql`UPDATE graph_analytics SET scheduled = 1 WHERE id = 1`;
+    await agent.schedule(0, "refreshGraphAnalytics");
+  }
+  return { analytics: JSON.parse(row.result), stale: Boolean(row.dirty) };
+}
@@ -0,0 +1,451 @@
+/**
+ * List pagination
+ * ---------------
+ * One contract for every list endpoint and list tool (memos, fragments,
+ * threads, replies):
+ *
+ *   request   limit, cursor, and any of the filters below
+ *   response  { items, total, next_cursor }
+ *
+ * `total` counts everything the filters match, not just the page, and
+ * `next_cursor` is null on the last page, so a caller can always tell
+ * whether it has seen everything. Cursors are opaque: keyset positions
+ * (the last item's sort value and id) for sorted lists, so rows written
+ * between requests neither repeat nor skip items, and offsets for ranked
+ * full-text results.
+ *
+ * Filters
+ *  - author      memo author / fragment speaker; `assistant` includes personas
+ *  - since/until ISO bounds on `created` (inclusive)
+ *  - type        `type` in memo headers / fragment metadata
+ *  - has_vector  whether the item has been embedded
+ *  - parent      memo id or slug: replies to that memo, or fragments
+ *                extracted from it; `none` for root memos / fragments with no
+ *                source memo
+ */
+import { z } from "zod";
+
+import type { Chat } from "./server";
+import type { Fragment, FragmentOpResult } from "./fragment-tools";
+import type { Memo } from "./memo-tools";
+import { countFragmentsFts, searchFragmentsFts } from "./fts";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type ListFilters = {
+  author?: string;
+  since?: string; // ISO
+  until?: string; // ISO
+  type?: string;
+  has_vector?: boolean;
+  parent?: string; // memo id or slug, or "none"
+};
+
+export type SortField = "created" | "modified" | "slug";
+
+export type ListOptions = ListFilters & {
+  cursor?: string | null;
+  limit?: number;
+  sortBy?: SortField;
+  sortOrder?: "asc" | "desc";
+};
+
+export type ListPage<T> = {
+  items: T[];
+  total: number; // items matching the filters, across all pages
+  next_cursor: string | null; // null on the last page
+};
+
+export type FragmentListItem = Fragment & {
+  link_count: number;
+  snippet?: string; // with ?q=
+};
+
+type Counted<T> = T & { sort_key: string; total: number };
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+// The list tools' default: smaller pages keep tool results short
+export const DEFAULT_TOOL_PAGE_SIZE = 20;
+
+// ---------------------------------------------------------------------------
+// Cursors
+// ---------------------------------------------------------------------------
+
+/**
+ * An opaque cursor for a position in a list: its JSON as UTF-8, in URL-safe
+ * base64, since sort keys (slugs) may be any text.
+ */
+export function encodeCursor(position: (string | number)[]): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(JSON.stringify(position))) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * The position a cursor holds, or null if it isn't one of ours.
+ */
+export function decodeCursor(cursor: string): (string | number)[] | null {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const value = JSON.parse(
+      new TextDecoder("utf-8", { fatal: true }).decode(bytes)
+    );
+    if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every(
+        (part) => typeof part === "string" || typeof part === "number"
+      )
+    ) {
+      return value;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/**
+ * A keyset cursor (sort value, id), or null if `cursor` isn't one.
+ */
+export function decodeKeysetCursor(
+  cursor: string
+): { key: string; id: string } | null {
+  const value = decodeCursor(cursor);
+  if (
+    value?.length === 2 &&
+    typeof value[0] === "string" &&
+    typeof value[1] === "string"
+  ) {
+    return { key: value[0], id: value[1] };
+  }
+  return null;
+}
+
+export function pageSize(limit: number | undefined): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(Math.floor(limit), MAX_PAGE_SIZE);
+}
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+/**
+ * List options from query parameters (`limit`, `cursor`, `sortBy`,
+ * `sortOrder` and the filters). Unknown sort values fall back to the default.
+ */
+export function parseListParams(params: URLSearchParams): ListOptions {
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const hasVector = params.get("has_vector");
+  const sortBy = params.get("sortBy");
+  return {
+    cursor: text("cursor"),
+    limit: Number.parseInt(params.get("limit") || "", 10),
+    sortBy:
+      sortBy === "created" || sortBy === "slug" || sortBy === "modified"
+        ? sortBy
+        : undefined,
+    sortOrder: params.get("sortOrder") === "asc" ? "asc" : undefined,
+    author: text("author"),
+    since: text("since"),
+    until: text("until"),
+    type: text("type"),
+    has_vector:
+      hasVector === "true" ? true : hasVector === "false" ? false : undefined,
+    parent: text("parent"),
+  };
+}
+
+/**
+ * The same options as tool parameters, for the list tools.
+ */
+export const listToolParameters = z.object({
+  limit: z
+    .number()
+    .optional()
+    .describe(
+      `Items per page (default ${DEFAULT_TOOL_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe("next_cursor from the previous page, to get the next one"),
+  sortBy: z
+    .enum(["created", "modified", "slug"])
+    .optional()
+    .describe("Field to sort by (default: modified)"),
+  sortOrder: z
+    .enum(["asc", "desc"])
+    .optional()
+    .describe("Sort order (default: desc)"),
+  author: z
+    .string()
+    .optional()
+    .describe("Only items by this author; 'assistant' includes personas"),
+  since: z
+    .string()
+    .optional()
+    .describe("Only items created at or after this ISO date"),
+  until: z
+    .string()
+    .optional()
+    .describe("Only items created at or before this ISO date"),
+  type: z.string().optional().describe("Only items with this `type` header"),
+  has_vector: z
+    .boolean()
+    .optional()
+    .describe("Only items that have (true) or haven't (false) been embedded"),
+  parent: z
+    .string()
+    .optional()
+    .describe(
+      "Memo id or slug: its replies, or fragments extracted from it; 'none' for roots"
+    ),
+});
+
+export function hasFilters(options: ListFilters): boolean {
+  return (
+    options.author !== undefined ||
+    options.since !== undefined ||
+    options.until !== undefined ||
+    options.type !== undefined ||
+    options.has_vector !== undefined ||
+    options.parent !== undefined
+  );
+}
+
+/**
+ * The memo a `parent` filter names: null for none/no filter, or an error
+ * if there's no such memo.
+ */
+async function resolveParent(
+  agent: Chat,
+  parent: string | undefined
+): Promise<FragmentOpResult<{ id: string; slug: string } | null>> {
+  if (parent === undefined || parent === "none") {
+    return { ok: true, value: null };
+  }
+  const rows = await agent.sql<{ id: string; slug: string }>`
+    SELECT id, slug FROM memos WHERE id = ${parent} OR slug = ${parent} LIMIT 1`;
+  if (!rows.length) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No memo found with id or slug '${parent}'.`,
+    };
+  }
+  return { ok: true, value: rows[0] };
+}
+
+/**
+ * Strip the bookkeeping columns and work out the next cursor.
+ */
+function toPage<T>(
+  rows: Counted<T>[],
+  size: number,
+  total: number
+): ListPage<T> {
+  const page = rows.slice(0, size);
+  const last = page[page.length - 1] as Counted<T & { id: string }> | undefined;
+  const items = page.map(
+    ({ sort_key: _key, total: _total, ...item }) => item as unknown as T
+  );
+  return {
+    items,
+    total,
+    next_cursor:
+      rows.length > size && last
+        ? encodeCursor([last.sort_key, last.id])
+        : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Memos
+// ---------------------------------------------------------------------------
+
+/**
+ * One page of memos (replies included unless filtered by parent), sorted
+ * by `sortBy` (default modified) in `sortOrder` (default desc).
+ */
+export async function listMemosPage(
+  agent: Chat,
+  options: ListOptions = {}
+): Promise<FragmentOpResult<ListPage<Memo>>> {
+  const after = options.cursor ? decodeKeysetCursor(options.cursor) : null;
+  if (options.cursor && !after) {
+    return { ok: false, status: 400, error: "Invalid cursor." };
+  }
+  const parent = await resolveParent(agent, options.parent);
+  if (!parent.ok) return parent;
+
+  const size = pageSize(options.limit);
+  const sortBy = options.sortBy ?? "modified";
+  const desc = options.sortOrder === "asc" ? 0 : 1;
+  const roots = options.parent === "none" ? 1 : 0;
+  const hasVector =
+    options.has_vector === undefined ? null : options.has_vector ? 1 : 0;
+
+  const rows = await agent.sql<Counted<Memo>>`
+    WITH filtered AS (
+      SELECT m.*,
+        CASE ${sortBy} WHEN 'created' THEN m.created WHEN 'slug' THEN m.slug
+          ELSE m.modified END AS sort_key
+      FROM memos m
+      WHERE (${options.author ?? null} IS NULL
+             OR m.author = ${options.author ?? null}
+             OR substr(m.author, 1, length(${options.author ?? null}) + 1)
+                = ${options.author ?? null} || ':')
+        AND (${options.since ?? null} IS NULL OR m.created >= ${options.since ?? null})
+        AND (${options.until ?? null} IS NULL OR m.created <= ${options.until ?? null})
+        AND (${options.type ?? null} IS NULL
+             OR (json_valid(m.headers)
+                 AND json_extract(m.headers, '$.type') = ${options.type ?? null}))
+        AND (${hasVector} IS NULL OR (m.vector_id IS NOT NULL) = ${hasVector})
+        AND (${roots} = 0 OR m.parent_id IS NULL)
+        AND (${parent.value?.id ?? null} IS NULL
+             OR m.parent_id = ${parent.value?.id ?? null})
+    )
+    SELECT f.*, (SELECT COUNT(*) FROM filtered) AS total
+    FROM filtered f
+    WHERE ${after?.key ?? null} IS NULL
+       OR (${desc} = 1 AND (f.sort_key < ${after?.key ?? null}
+           OR (f.sort_key = ${after?.key ?? null} AND f.id < ${after?.id ?? null})))
+       OR (${desc} = 0 AND (f.sort_key > ${after?.key ?? null}
+           OR (f.sort_key = ${after?.key ?? null} AND f.id > ${after?.id ?? null})))
+    ORDER BY
+      CASE WHEN ${desc} = 1 THEN f.sort_key END DESC,
+      CASE WHEN ${desc} = 1 THEN f.id END DESC,
+      f.sort_key ASC,
+      f.id ASC
+    LIMIT ${size + 1}`;
+
+  // A cursor past the end gets no rows to carry the total
+  let total = rows[0]?.total ?? 0;
+  if (!rows.length && after) {
+    const first = await listMemosPage(agent, { ...options, cursor: null });
+    total = first.ok ? first.value.total : 0;
+  }
+  return { ok: true, value: toPage(rows, size, total) };
+}
+
+// ---------------------------------------------------------------------------
+// Fragments
+// ---------------------------------------------------------------------------
+
+/**
+ * One page of fragments with their link counts, sorted like memos. With
+ * `q` the page is BM25-ranked full-text hits instead, which take no
+ * filters or sort.
+ */
+export async function listFragmentsPage(
+  agent: Chat,
+  options: ListOptions & { q?: string } = {}
+): Promise<FragmentOpResult<ListPage<FragmentListItem>>> {
+  const size = pageSize(options.limit);
+
+  if (options.q) {
+    if (hasFilters(options)) {
+      return {
+        ok: false,
+        status: 400,
+        error: "Filters can't be combined with a full-text query.",
+      };
+    }
+    const position = options.cursor ? decodeCursor(options.cursor) : [0];
+    const offset = position?.length === 1 ? position[0] : null;
+    if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+      return { ok: false, status: 400, error: "Invalid cursor." };
+    }
+    const total = await countFragmentsFts(agent, options.q);
+    const items = await searchFragmentsFts<FragmentListItem>(agent, options.q, {
+      limit: size,
+      offset,
+    });
+    return {
+      ok: true,
+      value: {
+        items,
+        total,
+        next_cursor:
+          offset + items.length < total
+            ? encodeCursor([offset + items.length])
+            : null,
+      },
+    };
+  }
+
+  const after = options.cursor ? decodeKeysetCursor(options.cursor) : null;
+  if (options.cursor && !after) {
+    return { ok: false, status: 400, error: "Invalid cursor." };
+  }
+  const parent = await resolveParent(agent, options.parent);
+  if (!parent.ok) return parent;
+
+  const sortBy = options.sortBy ?? "modified";
+  const desc = options.sortOrder === "asc" ? 0 : 1;
+  const orphans = options.parent === "none" ? 1 : 0;
+  const hasVector =
+    options.has_vector === undefined ? null : options.has_vector ? 1 : 0;
+
+  const rows = await agent.sql<Counted<FragmentListItem>>`
+    WITH filtered AS (
+      SELECT f.*,
+        CASE ${sortBy} WHEN 'created' THEN f.created WHEN 'slug' THEN f.slug
+          ELSE f.modified END AS sort_key
+      FROM fragments f
+      WHERE (${options.author ?? null} IS NULL
+             OR f.speaker = ${options.author ?? null}
+             OR substr(f.speaker, 1, length(${options.author ?? null}) + 1)
+                = ${options.author ?? null} || ':')
+        AND (${options.since ?? null} IS NULL OR f.created >= ${options.since ?? null})
+        AND (${options.until ?? null} IS NULL OR f.created <= ${options.until ?? null})
+        AND (${options.type ?? null} IS NULL
+             OR (json_valid(f.metadata)
+                 AND json_extract(f.metadata, '$.type') = ${options.type ?? null}))
+        AND (${hasVector} IS NULL OR (f.vector_id IS NOT NULL) = ${hasVector})
+        AND (${orphans} = 0
+             OR NOT json_valid(f.metadata)
+             OR json_extract(f.metadata, '$.source_memo') IS NULL)
+        AND (${parent.value?.slug ?? null} IS NULL
+             OR (json_valid(f.metadata)
+                 AND json_extract(f.metadata, '$.source_memo') = ${parent.value?.slug ?? null}))
+    )
+    SELECT f.*,
+      (
+        SELECT COUNT(*) FROM fragment_edges fe
+        WHERE fe.from_id = f.id OR fe.to_id = f.id
+      ) AS link_count,
+      (SELECT COUNT(*) FROM filtered) AS total
+    FROM filtered f
+    WHERE ${after?.key ?? null} IS NULL
+       OR (${desc} = 1 AND (f.sort_key < ${after?.key ?? null}
+           OR (f.sort_key = ${after?.key ?? null} AND f.id < ${after?.id ?? null})))
+       OR (${desc} = 0 AND (f.sort_key > ${after?.key ?? null}
+           OR (f.sort_key = ${after?.key ?? null} AND f.id > ${after?.id ?? null})))
+    ORDER BY
+      CASE WHEN ${desc} = 1 THEN f.sort_key END DESC,
+      CASE WHEN ${desc} = 1 THEN f.id END DESC,
+      f.sort_key ASC,
+      f.id ASC
+    LIMIT ${size + 1}`;
+
+  let total = rows[0]?.total ?? 0;
+  if (!rows.length && after) {
+    const first = await listFragmentsPage(agent, { ...options, cursor: null });
+    total = first.ok ? first.value.total : 0;
+  }
+  return { ok: true, value: toPage(rows, size, total) };
+}
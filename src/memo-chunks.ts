@@ -0,0 +1,404 @@
+/**
+ * Memo passages
+ * -------------
+ * Memos are embedded as passages rather than as one vector per memo. A memo
+ * is split at its Markdown headings, then into runs of whole paragraphs of
+ * up to MAX_CHUNK_CHARS (longer paragraphs are cut at sentence ends). Code
+ * fences are never split. Each passage remembers the heading it sits under
+ * and its character offsets in the memo.
+ *
+ * Passage vectors are stored in the memo namespace as `<vector_id>#<n>`,
+ * where `vector_id` is the memo's `memo-<id>`; their metadata names the memo,
+ * so memo-level lookups (`vectorRefIds`) keep working and simply see the
+ * memo's best passage first.
+ *
+ * Tables (created in migrations.ts)
+ *  - memo_chunks  (one row per passage, keyed by its vector id)
+ */
+import type { Chat } from "./server";
+import { memoVectorMetadata, vectorRef } from "./vector-metadata";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type MemoChunk = {
+  index: number;
+  section: string; // text of the heading above, "" before the first heading
+  start: number; // offsets into the memo content
+  end: number;
+  text: string; // content.slice(start, end)
+};
+
+export type MemoPassage = {
+  id: string; // the memo's id
+  slug: string;
+  parent_id: string | null;
+  section: string;
+  start: number;
+  end: number;
+  content: string; // the passage, not the whole memo
+  citation: string; // [[slug#section]]
+  similarity: number;
+};
+
+type Block = { start: number; end: number; heading: string | null };
+
+const MAX_CHUNK_CHARS = 1200;
+
+// Texts per embedding request
+const EMBED_BATCH = 50;
+
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
+/**
+ * Headings and paragraphs (runs of non-blank lines, or whole code fences)
+ * with their offsets.
+ */
+function memoBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let block: Block | null = null;
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of content.split("\n")) {
+    const start = offset;
+    const end = offset + line.length;
+    offset = end + 1;
+
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence && block) {
+      // Blank lines and headings inside a fence belong to it
+      block.end = end;
+      if (
+        fenceMatch?.[1][0] === fence[0] &&
+        fenceMatch[1].length >= fence.length
+      ) {
+        fence = null;
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      block = null;
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*?)[\s#]*$/);
+    if (heading) {
+      blocks.push({ start, end, heading: heading[1] });
+      block = null;
+      continue;
+    }
+
+    if (block) {
+      block.end = end;
+    } else {
+      block = { start, end, heading: null };
+      blocks.push(block);
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Cut [start, end) into pieces of at most `max` chars, preferring sentence
+ * and line ends, then spaces.
+ */
+function splitLong(
+  content: string,
+  blockStart: number,
+  end: number,
+  max: number
+): [number, number][] {
+  // Fenced code is kept whole
+  if (/^\s*(```|~~~)/.test(content.slice(blockStart, blockStart + 8))) {
+    return [[blockStart, end]];
+  }
+
+  const pieces: [number, number][] = [];
+  let start = blockStart;
+  while (end - start > max) {
+    const window = content.slice(start, start + max);
+    let cut = Math.max(
+      window.lastIndexOf(". "),
+      window.lastIndexOf("? "),
+      window.lastIndexOf("! "),
+      window.lastIndexOf("\n")
+    );
+    if (cut < max / 2) cut = window.lastIndexOf(" ");
+    if (cut < max / 2) cut = max - 1;
+
+    pieces.push([start, start + cut + 1]);
+    start += cut + 1;
+    while (start < end && /\s/.test(content[start])) start++;
+  }
+  pieces.push([start, end]);
+  return pieces;
+}
+
+/**
+ * Split memo content into heading- and paragraph-aware passages.
+ */
+export function chunkMemo(
+  content: string,
+  maxChars = MAX_CHUNK_CHARS
+): MemoChunk[] {
+  const chunks: MemoChunk[] = [];
+  let section = "";
+  let current: { start: number; end: number; headingOnly: boolean } | null =
+    null;
+
+  const flush = () => {
+    // A heading with no body of its own isn't worth a vector
+    if (current && !current.headingOnly) {
+      const raw = content.slice(current.start, current.end);
+      const start = current.start + (raw.length - raw.trimStart().length);
+      const end = current.end - (raw.length - raw.trimEnd().length);
+      chunks.push({
+        index: chunks.length,
+        section,
+        start,
+        end,
+        text: content.slice(start, end),
+      });
+    }
+    current = null;
+  };
+
+  for (const block of memoBlocks(content)) {
+    if (block.heading !== null) {
+      flush();
+      section = block.heading;
+      current = { start: block.start, end: block.end, headingOnly: true };
+      continue;
+    }
+
+    for (const [start, end] of splitLong(
+      content,
+      block.start,
+      block.end,
+      maxChars
+    )) {
+      // A heading always stays with the first paragraph under it
+      if (current && !current.headingOnly && end - current.start > maxChars) {
+        flush();
+      }
+      if (current) {
+        current.end = end;
+        current.headingOnly = false;
+      } else {
+        current = { start, end, headingOnly: false };
+      }
+    }
+  }
+  flush();
+
+  // Only headings (or nothing): embed whatever text there is as one passage
+  if (!chunks.length && content.trim()) {
+    const start = content.length - content.trimStart().length;
+    const text = content.trim();
+    chunks.push({
+      index: 0,
+      section: "",
+      start,
+      end: start + text.length,
+      text,
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * `[[slug#section]]`, or `[[slug]]` for text before the first heading.
+ */
+export function passageCitation(slug: string, section: string): string {
+  // Characters that would end the link early
+  const anchor = section.replace(/[[\]|#]/g, "").trim();
+  return anchor ? `[[${slug}#${anchor}]]` : `[[${slug}]]`;
+}
+
+/**
+ * What gets embedded for a chunk: later chunks of a section are prefixed
+ * with its heading so they keep that context.
+ */
+function embeddingText(chunk: MemoChunk): string {
+  return chunk.section && !chunk.text.startsWith("#")
+    ? `${chunk.section}\n\n${chunk.text}`
+    : chunk.text;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Embed `memo` passage by passage, replacing any vectors it had before.
+ * Returns the memo's vector_id, or null when there is nothing to embed.
+ * Throws if embedding fails, leaving the previous passages in place.
+ */
+export async function embedMemoChunks(
+  agent: Chat,
+  memo: { id: string; slug: string; content: string }
+): Promise<string | null> {
+  const vector_id = `memo-${memo.id}`;
+  const chunks = chunkMemo(memo.content);
+  if (!chunks.length) {
+    await deleteMemoChunks(agent, memo.id);
+    return null;
+  }
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+    const batch = chunks.slice(i, i + EMBED_BATCH).map(embeddingText);
+    embeddings.push(...(await agent.embeddings.embed(batch)));
+  }
+
+  const previous = await agent.sql<{ id: string }>`
+    SELECT id FROM memo_chunks WHERE memo_id = ${memo.id}
+  `;
+
+  const now = new Date().toISOString();
+  const ids: string[] = [];
+  for (const chunk of chunks) {
+    const id = `${vector_id}#${chunk.index}`;
+    ids.push(id);
+    await agent.storeVectorEmbedding(id, embeddings[chunk.index], {
+      ...memoVectorMetadata(memo),
+      chunk: chunk.index,
+      section: chunk.section,
+    });
+  }
+
+  await agent.sql`DELETE FROM memo_chunks WHERE memo_id = ${memo.id}`;
+  for (const chunk of chunks) {
+    await agent.sql`
+      INSERT INTO memo_chunks (id, memo_id, chunk_index, section, start_offset, end_offset, content, created)
+      VALUES (${ids[chunk.index]}, ${memo.id}, ${chunk.index}, ${chunk.section},
+              ${chunk.start}, ${chunk.end}, ${chunk.text}, ${now})
+    `;
+  }
+
+  // Passages the memo no longer has, and its pre-chunking whole-memo vector
+  for (const stale of [
+    vector_id,
+    ...previous.map((p) => p.id).filter((id) => !ids.includes(id)),
+  ]) {
+    await agent.deleteVectorEmbedding(stale);
+  }
+
+  return vector_id;
+}
+
+/**
+ * Remove every vector and passage row of a memo (before deleting it).
+ */
+export async function deleteMemoChunks(agent: Chat, memoId: string) {
+  const rows = await agent.sql<{ id: string }>`
+    SELECT id FROM memo_chunks WHERE memo_id = ${memoId}
+  `;
+  for (const id of [`memo-${memoId}`, ...rows.map((r) => r.id)]) {
+    await agent.deleteVectorEmbedding(id);
+  }
+  await agent.sql`DELETE FROM memo_chunks WHERE memo_id = ${memoId}`;
+}
+
+// ---------------------------------------------------------------------------
+// Retrieval
+// ---------------------------------------------------------------------------
+
+/**
+ * Passages most similar to `embedding`, best-first. Memos that still have a
+ * single whole-memo vector come back as one passage covering the memo.
+ */
+export async function findMemoPassages(
+  agent: Chat,
+  embedding: number[],
+  {
+    limit = 5,
+    threshold = 0,
+    exclude,
+  }: { limit?: number; threshold?: number; exclude?: string } = {}
+): Promise<MemoPassage[]> {
+  const search = await agent.searchSimilarVectors(
+    embedding,
+    limit,
+    threshold,
+    "memo"
+  );
+  const matches = search.matches.filter(
+    (m) => vectorRef(m)?.kind === "memo" && vectorRef(m)?.id !== exclude
+  );
+  if (!matches.length) return [];
+
+  const ids = JSON.stringify(matches.map((m) => m.id));
+  const memoIds = JSON.stringify(matches.map((m) => vectorRef(m)?.id));
+  const [chunkRows, memoRows] = await Promise.all([
+    agent.sql<{
+      id: string;
+      memo_id: string;
+      section: string;
+      start_offset: number;
+      end_offset: number;
+      content: string;
+      slug: string;
+      parent_id: string | null;
+    }>`
+      SELECT c.id, c.memo_id, c.section, c.start_offset, c.end_offset, c.content,
+             m.slug, m.parent_id
+      FROM memo_chunks c JOIN memos m ON m.id = c.memo_id
+      WHERE c.id IN (SELECT value FROM json_each(${ids}))
+    `,
+    agent.sql<{
+      id: string;
+      slug: string;
+      content: string;
+      parent_id: string | null;
+    }>`
+      SELECT id, slug, content, parent_id FROM memos
+      WHERE id IN (SELECT value FROM json_each(${memoIds}))
+    `,
+  ]);
+
+  const passages: MemoPassage[] = [];
+  for (const match of matches) {
+    const chunk = chunkRows.find((c) => c.id === match.id);
+    if (chunk) {
+      passages.push({
+        id: chunk.memo_id,
+        slug: chunk.slug,
+        parent_id: chunk.parent_id,
+        section: chunk.section,
+        start: chunk.start_offset,
+        end: chunk.end_offset,
+        content: chunk.content,
+        citation: passageCitation(chunk.slug, chunk.section),
+        similarity: match.score,
+      });
+      continue;
+    }
+
+    // Whole-memo vector from before chunking
+    const memo = memoRows.find((m) => m.id === vectorRef(match)?.id);
+    if (memo && !passages.some((p) => p.id === memo.id)) {
+      passages.push({
+        id: memo.id,
+        slug: memo.slug,
+        parent_id: memo.parent_id,
+        section: "",
+        start: 0,
+        end: memo.content.length,
+        content: memo.content,
+        citation: passageCitation(memo.slug, ""),
+        similarity: match.score,
+      });
+    }
+  }
+  return passages;
+}
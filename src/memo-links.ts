@@ -0,0 +1,425 @@
+/**
+ * Memo link index
+ * ---------------
+ * Every `[[slug]]`, `[[slug#section]]`, `[[slug|text]]` and `![[slug]]`
+ * reference in memo content is a row of `memo_links`, rewritten whenever a
+ * memo's content is written (see `updateBacklinks`) and deleted with its
+ * memo by a trigger. Backlinks,
+ * forward links, unresolved links and link counts are indexed lookups on
+ * this table rather than scans of memo content.
+ *
+ * `target_kind` is what the slug currently resolves to: a memo (replies
+ * included), otherwise a fragment, otherwise "unresolved". Triggers on memos
+ * and fragments re-resolve it when a target is created, renamed or deleted,
+ * so a link written before its target existed resolves as soon as it does.
+ * The old slug of a renamed memo or fragment (see slug-rename.ts) still
+ * resolves to it.
+ *
+ * Links nothing answers to are reported by `getBrokenLinks`, and
+ * `createLinkStub` makes a placeholder memo or fragment for one.
+ *
+ * Tables (created in migrations.ts)
+ *  - memo_links
+ */
+import type { Chat } from "./server";
+import type { Fragment, FragmentOpResult } from "./fragment-tools";
+import { resolveSlugAlias, slugError } from "./slug-rename";
+import {
+  expandTransclusions,
+  findWikiLinks,
+  formatWikiLink,
+  splitWikiLinks,
+} from "./wiki-links";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type LinkTargetKind = "memo" | "fragment" | "unresolved";
+
+export type WikiLink = {
+  slug: string;
+  anchor: string; // section after '#', '' for the whole memo
+};
+
+export type MemoLink = {
+  source_id: string;
+  target_slug: string;
+  target_kind: LinkTargetKind;
+  anchor: string;
+};
+
+export type BrokenLinkReference = {
+  source_kind: "memo" | "fragment";
+  source_id: string;
+  source_slug: string;
+  anchor: string;
+};
+
+export type BrokenLink = {
+  target_slug: string;
+  references: BrokenLinkReference[];
+};
+
+export type LinkStub = {
+  kind: "memo" | "fragment";
+  id: string;
+  slug: string;
+};
+
+export type LinkCounts = {
+  outgoing: number;
+  incoming: number; // distinct memos linking here
+  unresolved: number; // outgoing links with no target
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * The distinct targets of the links in `content` (see wiki-links.ts for
+ * the syntax), in order of first appearance. Display text is dropped and
+ * transclusions count as links.
+ */
+export function parseWikiLinks(content: string): WikiLink[] {
+  const seen = new Set<string>();
+  const links: WikiLink[] = [];
+  for (const { slug, anchor } of findWikiLinks(content)) {
+    const key = `${slug}#${anchor}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    links.push({ slug, anchor });
+  }
+  return links;
+}
+
+/**
+ * `content` with every link to `oldSlug` pointed at `newSlug`. Other links,
+ * and the section, display text and `!` of a rewritten one, are kept.
+ */
+export function rewriteWikiLinks(
+  content: string,
+  oldSlug: string,
+  newSlug: string
+): string {
+  return splitWikiLinks(content)
+    .map((part) => {
+      if (typeof part === "string") return part;
+      if (part.slug !== oldSlug) return part.raw;
+      return formatWikiLink({ ...part, slug: newSlug });
+    })
+    .join("");
+}
+
+// ---------------------------------------------------------------------------
+// Indexing
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace a memo's rows in the index with the links in `content`.
+ * Synchronous, so it can run inside a transaction.
+ */
+export function indexMemoLinks(
+  agent: Chat,
+  memoId: string,
+  content: string
+): WikiLink[] {
+  const links = parseWikiLinks(content);
+
+  agent.sql`DELETE FROM memo_links WHERE source_id = ${memoId}`;
+  for (const link of links) {
+    agent.sql`
+      INSERT OR IGNORE INTO memo_links (source_id, target_slug, target_kind, anchor)
+      SELECT ${memoId}, ${link.slug},
+        CASE
+          WHEN EXISTS (SELECT 1 FROM memos WHERE slug = ${link.slug}) THEN 'memo'
+          WHEN EXISTS (SELECT 1 FROM fragments WHERE slug = ${link.slug}) THEN 'fragment'
+          WHEN EXISTS (SELECT 1 FROM slug_aliases
+                       WHERE old_slug = ${link.slug} AND kind = 'memo') THEN 'memo'
+          WHEN EXISTS (SELECT 1 FROM slug_aliases
+                       WHERE old_slug = ${link.slug}) THEN 'fragment'
+          ELSE 'unresolved'
+        END,
+        ${link.anchor}
+    `;
+  }
+  return links;
+}
+
+/**
+ * Re-index the links of the memo with `slug` from its new `content`, and
+ * return the distinct slugs it links to.
+ */
+export async function updateBacklinks(
+  agent: Chat,
+  slug: string,
+  content: string
+): Promise<string[]> {
+  const rows = await agent.sql<{ id: string }>`
+    SELECT id FROM memos WHERE slug = ${slug} LIMIT 1
+  `;
+  if (!rows[0]) {
+    return [];
+  }
+  const links = await indexMemoLinks(agent, rows[0].id, content);
+  return [...new Set(links.map((l) => l.slug))];
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Memos linking to `slug` (from any section), most recently modified first.
+ * Only id, slug and timestamps unless `includeContent` is set.
+ */
+export async function getBacklinks(
+  agent: Chat,
+  slug: string,
+  { includeContent = false }: { includeContent?: boolean } = {}
+) {
+  if (includeContent) {
+    return agent.sql`
+      SELECT m.* FROM memos m
+      WHERE m.id IN (SELECT source_id FROM memo_links WHERE target_slug = ${slug})
+      ORDER BY m.modified DESC
+    `;
+  }
+  return agent.sql<{
+    id: string;
+    slug: string;
+    created: string;
+    modified: string;
+  }>`
+    SELECT m.id, m.slug, m.created, m.modified FROM memos m
+    WHERE m.id IN (SELECT source_id FROM memo_links WHERE target_slug = ${slug})
+    ORDER BY m.modified DESC
+  `;
+}
+
+/**
+ * The links written in a memo, in target order.
+ */
+export async function getForwardLinks(
+  agent: Chat,
+  memoId: string
+): Promise<MemoLink[]> {
+  return agent.sql<MemoLink>`
+    SELECT source_id, target_slug, target_kind, anchor FROM memo_links
+    WHERE source_id = ${memoId}
+    ORDER BY target_slug, anchor
+  `;
+}
+
+/**
+ * Links whose target doesn't exist, with the slug of the memo each is in.
+ */
+export async function getUnresolvedLinks(agent: Chat) {
+  return agent.sql<MemoLink & { source_slug: string }>`
+    SELECT ml.source_id, m.slug AS source_slug, ml.target_slug, ml.target_kind, ml.anchor
+    FROM memo_links ml
+    JOIN memos m ON m.id = ml.source_id
+    WHERE ml.target_kind = 'unresolved'
+    ORDER BY ml.target_slug, m.slug
+  `;
+}
+
+/**
+ * What each of `slugs` links to, resolved the way the index resolves it.
+ */
+export async function resolveLinkTargets(
+  agent: Chat,
+  slugs: string[]
+): Promise<Record<string, LinkTargetKind>> {
+  const kinds: Record<string, LinkTargetKind> = {};
+  for (const slug of new Set(slugs)) {
+    const rows = await agent.sql<{ kind: LinkTargetKind }>`
+      SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM memos WHERE slug = ${slug}) THEN 'memo'
+        WHEN EXISTS (SELECT 1 FROM fragments WHERE slug = ${slug}) THEN 'fragment'
+        WHEN EXISTS (SELECT 1 FROM slug_aliases
+                     WHERE old_slug = ${slug} AND kind = 'memo') THEN 'memo'
+        WHEN EXISTS (SELECT 1 FROM slug_aliases
+                     WHERE old_slug = ${slug}) THEN 'fragment'
+        ELSE 'unresolved'
+      END AS kind
+    `;
+    kinds[slug] = rows[0]?.kind ?? "unresolved";
+  }
+  return kinds;
+}
+
+/**
+ * Every link with no target, grouped by the slug it names: where it is
+ * written (memos through the index, fragments by parsing their content) and
+ * under which section. Targets referenced most come first.
+ */
+export async function getBrokenLinks(agent: Chat): Promise<BrokenLink[]> {
+  const bySlug = new Map<string, BrokenLinkReference[]>();
+  const add = (slug: string, ref: BrokenLinkReference) => {
+    const refs = bySlug.get(slug) ?? [];
+    refs.push(ref);
+    bySlug.set(slug, refs);
+  };
+
+  for (const link of await getUnresolvedLinks(agent)) {
+    add(link.target_slug, {
+      source_kind: "memo",
+      source_id: link.source_id,
+      source_slug: link.source_slug,
+      anchor: link.anchor,
+    });
+  }
+
+  // Fragments aren't in the index
+  const fragments = await agent.sql<Pick<Fragment, "id" | "slug" | "content">>`
+    SELECT id, slug, content FROM fragments WHERE instr(content, '[[') > 0`;
+  const fragmentLinks = fragments.map((f) => ({
+    fragment: f,
+    links: parseWikiLinks(f.content),
+  }));
+  const kinds = await resolveLinkTargets(
+    agent,
+    fragmentLinks.flatMap(({ links }) => links.map((l) => l.slug))
+  );
+  for (const { fragment, links } of fragmentLinks) {
+    for (const link of links) {
+      if (kinds[link.slug] !== "unresolved") continue;
+      add(link.slug, {
+        source_kind: "fragment",
+        source_id: fragment.id,
+        source_slug: fragment.slug,
+        anchor: link.anchor,
+      });
+    }
+  }
+
+  return [...bySlug]
+    .map(([target_slug, references]) => ({ target_slug, references }))
+    .sort(
+      (a, b) =>
+        b.references.length - a.references.length ||
+        a.target_slug.localeCompare(b.target_slug)
+    );
+}
+
+/**
+ * Outgoing, incoming and unresolved link counts of one memo.
+ */
+export async function getLinkCounts(
+  agent: Chat,
+  memo: { id: string; slug: string }
+): Promise<LinkCounts> {
+  const rows = await agent.sql<LinkCounts>`
+    SELECT
+      (SELECT COUNT(*) FROM memo_links WHERE source_id = ${memo.id}) AS outgoing,
+      (SELECT COUNT(DISTINCT source_id) FROM memo_links
+       WHERE target_slug = ${memo.slug}) AS incoming,
+      (SELECT COUNT(*) FROM memo_links
+       WHERE source_id = ${memo.id} AND target_kind = 'unresolved') AS unresolved
+  `;
+  return rows[0] ?? { outgoing: 0, incoming: 0, unresolved: 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Transclusion
+// ---------------------------------------------------------------------------
+
+/**
+ * The content of whatever `slug` resolves to, in the order the index
+ * resolves it: memo, fragment, then renamed memo or fragment.
+ */
+async function loadLinkTarget(
+  agent: Chat,
+  slug: string
+): Promise<string | null> {
+  const memoContent = async (memoSlug: string) =>
+    (
+      await agent.sql<{ content: string }>`
+        SELECT content FROM memos WHERE slug = ${memoSlug} LIMIT 1`
+    )[0]?.content ?? null;
+  const fragmentContent = async (fragmentSlug: string) =>
+    (
+      await agent.sql<{ content: string }>`
+        SELECT content FROM fragments WHERE slug = ${fragmentSlug} LIMIT 1`
+    )[0]?.content ?? null;
+
+  const direct = (await memoContent(slug)) ?? (await fragmentContent(slug));
+  if (direct !== null) return direct;
+
+  const renamedMemo = await resolveSlugAlias(agent, "memo", slug);
+  if (renamedMemo) return memoContent(renamedMemo);
+  const renamedFragment = await resolveSlugAlias(agent, "fragment", slug);
+  return renamedFragment ? fragmentContent(renamedFragment) : null;
+}
+
+/**
+ * `content` (of the memo or fragment `ownSlug`) with its `![[...]]`
+ * transclusions replaced by their targets' content, nested ones included.
+ */
+export async function expandMemoTransclusions(
+  agent: Chat,
+  content: string,
+  ownSlug: string
+): Promise<string> {
+  return expandTransclusions(content, (slug) => loadLinkTarget(agent, slug), {
+    ancestors: [ownSlug],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Stubs
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a placeholder memo (a heading) or fragment (the slug itself) for a
+ * link target that doesn't exist, marked `stub` in its headers or metadata.
+ * Links to the slug resolve to it through the index triggers. It is left
+ * unembedded until it has real content (or the re-index job picks it up).
+ */
+export async function createLinkStub(
+  agent: Chat,
+  slug: string,
+  kind: "memo" | "fragment" = "memo"
+): Promise<FragmentOpResult<LinkStub>> {
+  const target = slug.trim();
+  const invalid = slugError(target);
+  if (invalid) {
+    return { ok: false, status: 400, error: invalid };
+  }
+
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const marker = JSON.stringify({ stub: true });
+
+  if (kind === "memo") {
+    const taken = await agent.sql<{ id: string }>`
+      SELECT id FROM memos WHERE slug = ${target} LIMIT 1`;
+    if (taken.length) {
+      return {
+        ok: false,
+        status: 409,
+        error: `A memo with slug '${target}' already exists.`,
+      };
+    }
+    const heading = `# ${target}\n`;
+    await agent.sql`
+      INSERT INTO memos (id, slug, content, headers, created, modified)
+      VALUES (${id}, ${target}, ${heading}, ${marker}, ${now}, ${now})`;
+  } else {
+    const taken = await agent.sql<{ id: string }>`
+      SELECT id FROM fragments WHERE slug = ${target} LIMIT 1`;
+    if (taken.length) {
+      return {
+        ok: false,
+        status: 409,
+        error: `A fragment with slug '${target}' already exists.`,
+      };
+    }
+    await agent.sql`
+      INSERT INTO fragments (id, slug, content, speaker, ts, convo_id, metadata, created, modified)
+      VALUES (${id}, ${target}, ${target}, 'system', ${now}, null, ${marker}, ${now}, ${now})`;
+  }
+
+  return { ok: true, value: { kind, id, slug: target } };
+}
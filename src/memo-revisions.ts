@@ -0,0 +1,214 @@
+/**
+ * Memo revision history
+ * ---------------------
+ * Every edit to a memo's content or headers appends a row to
+ * `memo_revisions`, so an overwrite (by the user, the assistant or a persona)
+ * can always be inspected and undone.
+ *
+ * Memos created before revisions existed have no history; the first time one
+ * of them is edited we record its pre-edit state as revision 1 before writing
+ * the edit itself.
+ */
+import type { Chat } from "./server";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type MemoRevision = {
+  id: string;
+  memo_id: string;
+  revision: number;
+  content: string;
+  headers: string; // JSON string
+  author: string; // "user" | "assistant" | "assistant:<emoji>:<name>"
+  created: string; // ISO
+};
+
+export type DiffLine = {
+  type: "equal" | "add" | "remove";
+  text: string;
+  old_line: number | null; // 1-based line in the "from" text
+  new_line: number | null; // 1-based line in the "to" text
+};
+
+type MemoSnapshot = {
+  id: string;
+  content: string;
+  headers: string;
+  author?: string | null;
+  modified?: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Record an edit of `memo` (its state *before* the edit) to `next`.
+ * Returns the new revision number, or the current one if nothing changed.
+ * Synchronous, so it can run inside a transaction.
+ */
+export function recordMemoRevision(
+  agent: Chat,
+  memo: MemoSnapshot,
+  next: { content: string; headers: string },
+  author: string
+): number {
+  const latestRes = agent.sql<{ revision: number | null }>`
+    SELECT MAX(revision) AS revision FROM memo_revisions WHERE memo_id = ${memo.id}`;
+  let revision = latestRes[0]?.revision ?? 0;
+
+  // Seed history with the pre-edit state for memos that predate revisions
+  if (revision === 0) {
+    revision = 1;
+    agent.sql`
+      INSERT INTO memo_revisions (id, memo_id, revision, content, headers, author, created)
+      VALUES (${crypto.randomUUID()}, ${memo.id}, ${revision}, ${memo.content}, ${memo.headers}, ${memo.author || "user"}, ${memo.modified || new Date().toISOString()})`;
+  }
+
+  if (next.content === memo.content && next.headers === memo.headers) {
+    return revision;
+  }
+
+  revision += 1;
+  agent.sql`
+    INSERT INTO memo_revisions (id, memo_id, revision, content, headers, author, created)
+    VALUES (${crypto.randomUUID()}, ${memo.id}, ${revision}, ${next.content}, ${next.headers}, ${author}, ${new Date().toISOString()})`;
+
+  return revision;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+export async function listMemoRevisions(
+  agent: Chat,
+  memoId: string
+): Promise<Omit<MemoRevision, "content" | "headers">[]> {
+  return agent.sql<Omit<MemoRevision, "content" | "headers">>`
+    SELECT id, memo_id, revision, author, created
+    FROM memo_revisions
+    WHERE memo_id = ${memoId}
+    ORDER BY revision DESC`;
+}
+
+export async function getMemoRevision(
+  agent: Chat,
+  memoId: string,
+  revision: number
+): Promise<MemoRevision | null> {
+  const rows = await agent.sql<MemoRevision>`
+    SELECT * FROM memo_revisions
+    WHERE memo_id = ${memoId} AND revision = ${revision}
+    LIMIT 1`;
+  return rows[0] ?? null;
+}
+
+export async function deleteMemoRevisions(agent: Chat, memoId: string) {
+  await agent.sql`DELETE FROM memo_revisions WHERE memo_id = ${memoId}`;
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+// Largest changed region (lines × lines) diffed line by line: the LCS table
+// takes 4 bytes a cell, so this keeps it to 16 MB
+export const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff of `from` → `to` using a longest-common-subsequence table.
+ * Common leading/trailing lines are trimmed first so typical edits (a few
+ * lines changed in a longer memo) only pay for the changed region. A changed
+ * region over MAX_DIFF_CELLS is shown as removed, then added, as a whole.
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split("\n");
+  const b = to.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const tooLarge = n * m > MAX_DIFF_CELLS;
+
+  // lcs[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+  const lcs: Int32Array[] = [];
+  if (!tooLarge) {
+    for (let i = 0; i <= n; i++) lcs.push(new Int32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] =
+          a[start + i] === b[start + j]
+            ? lcs[i + 1][j + 1] + 1
+            : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    lines.push({ type: "equal", text: a[k], old_line: k + 1, new_line: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  // Without a table, everything changed is removed, then added
+  while (tooLarge && i < n) {
+    lines.push({
+      type: "remove",
+      text: a[start + i],
+      old_line: start + i + 1,
+      new_line: null,
+    });
+    i++;
+  }
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      lines.push({
+        type: "equal",
+        text: a[start + i],
+        old_line: start + i + 1,
+        new_line: start + j + 1,
+      });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push({
+        type: "add",
+        text: b[start + j],
+        old_line: null,
+        new_line: start + j + 1,
+      });
+      j++;
+    } else {
+      lines.push({
+        type: "remove",
+        text: a[start + i],
+        old_line: start + i + 1,
+        new_line: null,
+      });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    lines.push({
+      type: "equal",
+      text: a[endA + k],
+      old_line: endA + k + 1,
+      new_line: endB + k + 1,
+    });
+  }
+
+  return lines;
+}
@@ -0,0 +1,437 @@
+/**
+ * Thread listing
+ * --------------
+ * A thread is a root memo (no parent, or a parent that no longer exists)
+ * and every reply below it. `listThreads` pages through the roots and
+ * `listReplies` through the direct replies of one memo; both sort by the
+ * latest activity anywhere in each item's subtree, newest first, and carry
+ * the subtree's reply counts and participants, all in one query per page.
+ *
+ * Pages follow the list contract in list-pages.ts (`total`, opaque cursors
+ * over the last item's activity time and id); the author, date range, type
+ * and has-vector filters apply to the listed memos themselves.
+ *
+ * `loadThread` fetches one thread as a tree for reading and for assistant
+ * context: the ancestors of the memo asked for, the root's subtree down to a
+ * depth limit, and the memo's own subtree down to the same limit below it.
+ * Nodes cut off by the limit say how many replies they hide;
+ * `loadSubtree` fetches the rest from there. Each is one recursive query
+ * plus one for reactions, whatever the size of the thread.
+ */
+import type { Chat } from "./server";
+import type { FragmentOpResult } from "./fragment-tools";
+import type { Memo } from "./memo-tools";
+import {
+  decodeKeysetCursor,
+  encodeCursor,
+  type ListFilters,
+  type ListPage,
+  pageSize,
+} from "./list-pages";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type ThreadItem = Memo & {
+  summary: string | null;
+  reply_count: number; // direct replies
+  descendant_count: number; // replies at any depth
+  last_activity: string; // ISO, latest created/modified in the subtree
+  participants: string[]; // distinct authors in the subtree, root's first
+  reactions: { [emoji: string]: string[] }; // emoji -> user ids
+};
+
+export type ThreadPage = ListPage<ThreadItem>;
+
+type ThreadRow = Omit<ThreadItem, "participants" | "reactions"> & {
+  participants: string; // JSON array
+  total: number;
+};
+
+type PageOptions = Omit<ListFilters, "parent"> & {
+  cursor?: string | null;
+  limit?: number;
+};
+
+export type ThreadNode = Memo & {
+  summary: string | null;
+  replyCount: number; // direct replies, loaded or not
+  unloaded_replies: number; // direct replies past the depth limit
+  reactions: { [emoji: string]: string[] };
+  replies: ThreadNode[]; // loaded direct replies, oldest first
+};
+
+export type Thread = {
+  root: ThreadMemoRow;
+  tree: ThreadNode; // the root with its loaded subtree
+  memos: ThreadMemoRow[]; // every loaded memo, breadth first
+  total: number; // loaded memos
+  focusedMemo: ThreadNode; // the memo asked for
+  depth: number; // the depth limit applied
+  truncated: boolean; // whether any replies were left unloaded
+};
+
+export type Subtree = Omit<Thread, "root" | "focusedMemo">;
+
+type ThreadMemoRow = Memo & {
+  summary: string | null;
+  reply_count: number; // direct replies, loaded or not
+};
+
+// Levels of replies loadThread / loadSubtree load below a memo by default
+export const DEFAULT_THREAD_DEPTH = 16;
+
+// Replies nested deeper than this don't count towards a subtree and can't be
+// loaded; it also keeps a parent_id cycle from recursing forever
+export const MAX_THREAD_DEPTH = 256;
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * One page of the memos under `parentId` (roots when null) that pass the
+ * filters, with their subtree statistics and the filtered total.
+ */
+async function queryPage(
+  agent: Chat,
+  parentId: string | null,
+  after: { key: string; id: string } | null,
+  limit: number,
+  filters: PageOptions
+): Promise<ThreadRow[]> {
+  const afterActivity = after?.key ?? null;
+  const afterId = after?.id ?? "";
+  const author = filters.author ?? null;
+  const since = filters.since ?? null;
+  const until = filters.until ?? null;
+  const type = filters.type ?? null;
+  const hasVector =
+    filters.has_vector === undefined ? null : filters.has_vector ? 1 : 0;
+  return agent.sql<ThreadRow>`
+    WITH RECURSIVE
+      tops AS (
+        SELECT id FROM memos m
+        WHERE ((${parentId} IS NULL AND (
+                 m.parent_id IS NULL
+                 OR NOT EXISTS (SELECT 1 FROM memos p WHERE p.id = m.parent_id)))
+               OR m.parent_id = ${parentId})
+          AND (${author} IS NULL OR m.author = ${author}
+               OR substr(m.author, 1, length(${author}) + 1) = ${author} || ':')
+          AND (${since} IS NULL OR m.created >= ${since})
+          AND (${until} IS NULL OR m.created <= ${until})
+          AND (${type} IS NULL
+               OR (json_valid(m.headers)
+                   AND json_extract(m.headers, '$.type') = ${type}))
+          AND (${hasVector} IS NULL OR (m.vector_id IS NOT NULL) = ${hasVector})
+      ),
+      subtree(top_id, id, depth) AS (
+        SELECT id, id, 0 FROM tops
+        UNION ALL
+        SELECT s.top_id, m.id, s.depth + 1
+        FROM subtree s JOIN memos m ON m.parent_id = s.id
+        WHERE s.depth < ${MAX_THREAD_DEPTH}
+      ),
+      stats AS (
+        SELECT
+          s.top_id,
+          MAX(MAX(m.created, m.modified)) AS last_activity,
+          SUM(s.depth = 1) AS reply_count,
+          COUNT(*) - 1 AS descendant_count,
+          json_group_array(DISTINCT COALESCE(m.author, 'user')) AS participants
+        FROM subtree s JOIN memos m ON m.id = s.id
+        GROUP BY s.top_id
+      )
+    SELECT t.*, st.last_activity, st.reply_count, st.descendant_count,
+           st.participants, (SELECT COUNT(*) FROM tops) AS total
+    FROM memos t JOIN stats st ON st.top_id = t.id
+    WHERE ${afterActivity} IS NULL
+       OR st.last_activity < ${afterActivity}
+       OR (st.last_activity = ${afterActivity} AND t.id < ${afterId})
+    ORDER BY st.last_activity DESC, t.id DESC
+    LIMIT ${limit + 1}`;
+}
+
+/**
+ * Reactions on `ids`, grouped by memo and emoji, in one query.
+ */
+export async function getReactionsByMemo(
+  agent: Chat,
+  ids: string[]
+): Promise<Record<string, { [emoji: string]: string[] }>> {
+  const byMemo: Record<string, { [emoji: string]: string[] }> = {};
+  if (!ids.length) return byMemo;
+
+  const rows = await agent.sql<{
+    memo_id: string;
+    emoji: string;
+    user_id: string;
+  }>`
+    SELECT memo_id, emoji, user_id FROM reactions
+    WHERE memo_id IN (SELECT value FROM json_each(${JSON.stringify(ids)}))`;
+  for (const { memo_id, emoji, user_id } of rows) {
+    byMemo[memo_id] ??= {};
+    byMemo[memo_id][emoji] ??= [];
+    byMemo[memo_id][emoji].push(user_id);
+  }
+  return byMemo;
+}
+
+async function buildPage(
+  agent: Chat,
+  parentId: string | null,
+  { cursor, limit, ...filters }: PageOptions
+): Promise<FragmentOpResult<ThreadPage>> {
+  const after = cursor ? decodeKeysetCursor(cursor) : null;
+  if (cursor && !after) {
+    return { ok: false, status: 400, error: "Invalid cursor." };
+  }
+
+  const size = pageSize(limit);
+  const rows = await queryPage(agent, parentId, after, size, filters);
+  const page = rows.slice(0, size);
+  const reactions = await getReactionsByMemo(
+    agent,
+    page.map((row) => row.id)
+  );
+
+  const items = page.map(({ total: _, ...row }): ThreadItem => {
+    const authors = JSON.parse(row.participants) as string[];
+    const own = row.author || "user";
+    return {
+      ...row,
+      participants: [own, ...authors.filter((a) => a !== own).sort()],
+      reactions: reactions[row.id] ?? {},
+    };
+  });
+
+  // A cursor past the end gets no rows to carry the total
+  let total = rows[0]?.total ?? 0;
+  if (!rows.length && after) {
+    const first = await buildPage(agent, parentId, { ...filters, limit: 1 });
+    total = first.ok ? first.value.total : 0;
+  }
+
+  const last = items[items.length - 1];
+  return {
+    ok: true,
+    value: {
+      items,
+      total,
+      next_cursor:
+        rows.length > size && last
+          ? encodeCursor([last.last_activity, last.id])
+          : null,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+/**
+ * One page of threads, most recently active first.
+ */
+export async function listThreads(
+  agent: Chat,
+  options: PageOptions = {}
+): Promise<FragmentOpResult<ThreadPage>> {
+  return buildPage(agent, null, options);
+}
+
+/**
+ * One page of the direct replies to the memo with id or slug `parent`, most
+ * recently active first.
+ */
+export async function listReplies(
+  agent: Chat,
+  parent: string,
+  options: PageOptions = {}
+): Promise<FragmentOpResult<ThreadPage & { parent_id: string }>> {
+  const rows = await agent.sql<{ id: string }>`
+    SELECT id FROM memos WHERE id = ${parent} OR slug = ${parent} LIMIT 1`;
+  if (!rows.length) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No memo found with id or slug '${parent}'.`,
+    };
+  }
+
+  const result = await buildPage(agent, rows[0].id, options);
+  if (!result.ok) return result;
+  return { ok: true, value: { ...result.value, parent_id: rows[0].id } };
+}
+
+// ---------------------------------------------------------------------------
+// Whole threads
+// ---------------------------------------------------------------------------
+
+function depthLimit(depth: number | undefined): number {
+  if (depth === undefined || !Number.isFinite(depth) || depth < 0) {
+    return DEFAULT_THREAD_DEPTH;
+  }
+  return Math.min(Math.floor(depth), MAX_THREAD_DEPTH);
+}
+
+/**
+ * Link loaded rows into a tree under `rootId`, oldest reply first. Rows the
+ * tree doesn't reach (a parent_id cycle) are left out.
+ */
+async function buildTree(
+  agent: Chat,
+  rows: ThreadMemoRow[],
+  rootId: string
+): Promise<{ nodes: Map<string, ThreadNode>; memos: ThreadMemoRow[] } | null> {
+  const reactions = await getReactionsByMemo(
+    agent,
+    rows.map((row) => row.id)
+  );
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const nodes = new Map<string, ThreadNode>();
+  for (const { reply_count, ...memo } of rows) {
+    nodes.set(memo.id, {
+      ...memo,
+      replyCount: reply_count,
+      unloaded_replies: reply_count,
+      reactions: reactions[memo.id] ?? {},
+      replies: [],
+    });
+  }
+  // Rows come oldest first, so replies are pushed in order
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent && node.id !== rootId) {
+      parent.replies.push(node);
+      parent.unloaded_replies -= 1;
+    }
+  }
+
+  const root = nodes.get(rootId);
+  if (!root) return null;
+
+  // Breadth first, as the flat list always was
+  const memos: ThreadMemoRow[] = [];
+  const seen = new Set<string>();
+  const queue = [root];
+  while (queue.length) {
+    const node = queue.shift() as ThreadNode;
+    if (seen.has(node.id)) continue;
+    seen.add(node.id);
+    memos.push(byId.get(node.id) as ThreadMemoRow);
+    queue.push(...node.replies);
+  }
+  return { nodes, memos };
+}
+
+/**
+ * The thread containing the memo `slug`: its ancestors, the root's replies
+ * down to `depth` levels and the memo's own replies down to `depth` levels
+ * below it. Null if there is no such memo.
+ */
+export async function loadThread(
+  agent: Chat,
+  slug: string,
+  { depth }: { depth?: number } = {}
+): Promise<Thread | null> {
+  const limit = depthLimit(depth);
+  const rows = await agent.sql<ThreadMemoRow>`
+    WITH RECURSIVE
+      up(id, parent_id, steps) AS (
+        SELECT id, parent_id, 0 FROM memos WHERE slug = ${slug}
+        UNION ALL
+        SELECT m.id, m.parent_id, up.steps + 1
+        FROM up JOIN memos m ON m.id = up.parent_id
+        WHERE up.steps < ${MAX_THREAD_DEPTH}
+      ),
+      down(id, depth) AS (
+        SELECT id, 0 FROM (SELECT id FROM up ORDER BY steps DESC LIMIT 1)
+        UNION ALL
+        SELECT m.id, down.depth + 1
+        FROM down JOIN memos m ON m.parent_id = down.id
+        WHERE down.depth < ${limit}
+      ),
+      below(id, depth) AS (
+        SELECT id, 0 FROM up WHERE steps = 0
+        UNION ALL
+        SELECT m.id, below.depth + 1
+        FROM below JOIN memos m ON m.parent_id = below.id
+        WHERE below.depth < ${limit}
+      ),
+      loaded AS (
+        SELECT id FROM up UNION SELECT id FROM down UNION SELECT id FROM below
+      )
+    SELECT m.*,
+      (SELECT COUNT(*) FROM memos c WHERE c.parent_id = m.id) AS reply_count
+    FROM memos m
+    WHERE m.id IN (SELECT id FROM loaded)
+    ORDER BY m.created ASC, m.id ASC`;
+
+  const focusRow = rows.find((row) => row.slug === slug);
+  if (!focusRow) return null;
+  // The one loaded memo whose parent isn't loaded; a parent_id cycle has
+  // none, so the memo asked for stands in
+  const ids = new Set(rows.map((row) => row.id));
+  const rootRow =
+    rows.find((row) => !row.parent_id || !ids.has(row.parent_id)) ?? focusRow;
+
+  const built = await buildTree(agent, rows, rootRow.id);
+  if (!built) return null;
+  const tree = built.nodes.get(rootRow.id) as ThreadNode;
+
+  return {
+    root: built.memos[0],
+    tree,
+    memos: built.memos,
+    total: built.memos.length,
+    focusedMemo: built.nodes.get(focusRow.id) ?? tree,
+    depth: limit,
+    truncated: built.memos.some(
+      (memo) => (built.nodes.get(memo.id)?.unloaded_replies ?? 0) > 0
+    ),
+  };
+}
+
+/**
+ * The memo `slug` and its replies down to `depth` levels below it – the
+ * "load more" for a node `loadThread` cut off. Null if there is no such memo.
+ */
+export async function loadSubtree(
+  agent: Chat,
+  slug: string,
+  { depth }: { depth?: number } = {}
+): Promise<Subtree | null> {
+  const limit = depthLimit(depth);
+  const rows = await agent.sql<ThreadMemoRow>`
+    WITH RECURSIVE
+      below(id, depth) AS (
+        SELECT id, 0 FROM memos WHERE slug = ${slug}
+        UNION ALL
+        SELECT m.id, below.depth + 1
+        FROM below JOIN memos m ON m.parent_id = below.id
+        WHERE below.depth < ${limit}
+      )
+    SELECT m.*,
+      (SELECT COUNT(*) FROM memos c WHERE c.parent_id = m.id) AS reply_count
+    FROM memos m
+    WHERE m.id IN (SELECT id FROM below)
+    ORDER BY m.created ASC, m.id ASC`;
+
+  const topRow = rows.find((row) => row.slug === slug);
+  if (!topRow) return null;
+
+  const built = await buildTree(agent, rows, topRow.id);
+  if (!built) return null;
+
+  return {
+    tree: built.nodes.get(topRow.id) as ThreadNode,
+    memos: built.memos,
+    total: built.memos.length,
+    depth: limit,
+    truncated: built.memos.some(
+      (memo) => (built.nodes.get(memo.id)?.unloaded_replies ?? 0) > 0
+    ),
+  };
+}
@@ -11,6 +11,27 @@ import type { Chat } from "./server";
 import { semanticSearchMemos } from "./semantic-search";
 // Import fragment tools for auto-fragment creation
 import { fragmentTools } from "./fragment-tools";
+import { deleteMemoRevisions, recordMemoRevision } from "./memo-revisions";
+import { searchMemosFts } from "./fts";
+import { deleteMemoChunks, embedMemoChunks } from "./memo-chunks";
+import {
+  DEFAULT_TOOL_PAGE_SIZE,
+  listMemosPage,
+  listToolParameters,
+} from "./list-pages";
+import {
+  createLinkStub,
+  expandMemoTransclusions,
+  getBacklinks,
+  getBrokenLinks,
+  getForwardLinks,
+  getLinkCounts,
+  updateBacklinks,
+} from "./memo-links";
+import {
+  renameMemo as renameMemoBySlug,
+  resolveSlugAlias,
+} from "./slug-rename";
 
 // Define memo schema
 export type Memo = {
@@ -18,7 +39,6 @@ export type Memo = {
   slug: string;
   content: string;
   headers: string; // JSON string for headers
-  links: string; // JSON string for links
   created: string; // ISO datetime string
   modified: string; // ISO datetime string
   vector_id?: string; // Reference to vector embedding
@@ -33,91 +53,6 @@ interface EmbeddingResponse {
   data: number[][];
 }
 
-/**
- * Initializes the memos database table if it doesn't exist
- */
-export async function initMemosTable() {
-  const agent = agentContext.getStore();
-  if (!agent) {
-    throw new Error("No agent found");
-  }
-
-  return initMemosTableWithAgent(agent);
-}
-
-/**
- * Initializes the memos database table if it doesn't exist (with agent parameter)
- */
-export async function initMemosTableWithAgent(agent: any) {
-  try {
-    // Create the memos table if it doesn't exist
-    await agent.sql`
-      CREATE TABLE IF NOT EXISTS memos (
-        id TEXT PRIMARY KEY,
-        slug TEXT UNIQUE NOT NULL,
-        content TEXT NOT NULL,
-        headers TEXT NOT NULL,
-        links TEXT NOT NULL,
-        created TEXT NOT NULL,
-        modified TEXT NOT NULL
-      )
-    `;
-
-    // Check if vector_id column exists, add it if it doesn't
-    try {
-      // First try to query using vector_id to see if it exists
-      await agent.sql`SELECT vector_id FROM memos LIMIT 1`;
-      console.log("vector_id column already exists");
-    } catch (error) {
-      // If error occurs, the column doesn't exist yet, so add it
-      console.log("Adding vector_id column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN vector_id TEXT`;
-    }
-
-    // Check if parent_id column exists, add it if it doesn't
-    try {
-      await agent.sql`SELECT parent_id FROM memos LIMIT 1`;
-      console.log("parent_id column already exists");
-    } catch (error) {
-      console.log("Adding parent_id column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN parent_id TEXT`;
-    }
-
-    // Check if author column exists, add it if it doesn't
-    try {
-      await agent.sql`SELECT author FROM memos LIMIT 1`;
-      console.log("author column already exists");
-    } catch (error) {
-      console.log("Adding author column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN author TEXT DEFAULT 'user'`;
-    }
-
-    // Ensure the summary column exists
-    try {
-      await agent.sql`SELECT summary FROM memos LIMIT 1`;
-      console.log("summary column already exists");
-    } catch (error) {
-      console.log("Adding summary column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN summary TEXT`;
-    }
-
-    // Create an index on the slug for faster lookups
-    await agent.sql`
-      CREATE INDEX IF NOT EXISTS idx_memos_slug ON memos(slug)
-    `;
-
-    // Create an index on parent_id for thread lookups
-    await agent.sql`
-      CREATE INDEX IF NOT EXISTS idx_memos_parent ON memos(parent_id)
-    `;
-
-    return true;
-  } catch (error) {
-    console.error("Error initializing memos table:", error);
-    throw error;
-  }
-}
-
 /**
  * Generate a unique ID for a memo
  */
@@ -125,128 +60,6 @@ function generateMemoId() {
   return crypto.randomUUID();
 }
 
-/**
- * Extract backlinks from memo content
- * Finds all occurrences of [[slug]] pattern and returns unique slugs
- */
-function extractBacklinks(content: string): string[] {
-  const backlinksRegex = /\[\[(.*?)\]\]/g;
-  const matches = content.match(backlinksRegex) || [];
-
-  // Extract unique slugs from the matches
-  const links = matches
-    .map((match) => match.slice(2, -2).trim()) // Remove [[ and ]]
-    .filter((slug, index, self) => slug && self.indexOf(slug) === index); // Unique non-empty slugs
-
-  return links;
-}
-
-/**
- * Update backlinks in the database
- * This function manages the links column for memos
- */
-async function updateBacklinks(agent: any, slug: string, content: string) {
-  // Extract backlinks from the content
-  const backlinks = extractBacklinks(content);
-
-  // Get the current memo's links first to preserve any incoming links
-  const currentLinksResult = await agent.sql`
-    SELECT links FROM memos WHERE slug = ${slug}
-  `;
-
-  let linksObj = { incoming: [], outgoing: backlinks };
-
-  // If the memo already has links, preserve its incoming links
-  if (currentLinksResult && currentLinksResult.length > 0) {
-    try {
-      const currentLinks = currentLinksResult[0]?.links;
-      if (currentLinks && typeof currentLinks === "string") {
-        const existingLinks = JSON.parse(currentLinks);
-        linksObj.incoming = existingLinks.incoming || [];
-      }
-    } catch (e) {
-      // If parsing fails, use the default empty array
-    }
-  }
-
-  // Update the current memo's links
-  if (slug && typeof slug === "string") {
-    const updatedLinksJson = JSON.stringify(linksObj);
-    // @ts-ignore - Type safety is manually verified above
-    await agent.sql`
-      UPDATE memos
-      SET links = ${updatedLinksJson}
-      WHERE slug = ${slug}
-    `;
-  }
-
-  // For each extracted backlink, update the target memo's incoming links
-  for (const targetSlug of backlinks) {
-    // Check if the target memo exists
-    const targetExistsResult = await agent.sql`
-      SELECT COUNT(*) as count FROM memos WHERE slug = ${targetSlug}
-    `;
-
-    const targetCount = targetExistsResult[0]?.count;
-    if (targetCount && typeof targetCount === "number" && targetCount > 0) {
-      // Get the current links of the target memo
-      const targetLinksResult = await agent.sql`
-        SELECT links FROM memos WHERE slug = ${targetSlug}
-      `;
-
-      // Define typed structure for links object
-      interface LinksObject {
-        incoming: string[];
-        outgoing: string[];
-      }
-
-      let targetLinksObj: LinksObject = { incoming: [], outgoing: [] };
-
-      try {
-        // Get links from the result
-        const targetLinksStr = targetLinksResult[0]?.links;
-        if (targetLinksStr && typeof targetLinksStr === "string") {
-          const parsedLinks = JSON.parse(targetLinksStr);
-          targetLinksObj = {
-            incoming: Array.isArray(parsedLinks.incoming)
-              ? (parsedLinks.incoming as string[])
-              : [],
-            outgoing: Array.isArray(parsedLinks.outgoing)
-              ? (parsedLinks.outgoing as string[])
-              : [],
-          };
-        }
-      } catch (e) {
-        // If any error, use default structure
-        console.error("Error parsing links:", e);
-      }
-
-      // Add the current slug to incoming links if not already there
-      if (typeof slug === "string" && !targetLinksObj.incoming.includes(slug)) {
-        targetLinksObj.incoming.push(slug);
-
-        // Update the target memo's links
-        // Create a safe JSON string for SQL
-        const targetLinksJsonString = JSON.stringify(targetLinksObj);
-
-        // Update the database - Use a safer approach to avoid type issues
-        if (targetSlug && typeof targetSlug === "string") {
-          // Use @ts-ignore to bypass the type checker for this one statement
-          // since we've already validated the types above
-          // @ts-ignore
-          await agent.sql`
-            UPDATE memos
-            SET links = ${targetLinksJsonString}
-            WHERE slug = ${targetSlug}
-          `;
-        }
-      }
-    }
-  }
-
-  return backlinks;
-}
-
 /**
  * Tool to create a new memo
  * This executes automatically without requiring human confirmation
@@ -262,10 +75,6 @@ const createMemo = tool({
       .string()
       .optional()
       .describe("Optional JSON string of headers metadata"),
-    links: z
-      .string()
-      .optional()
-      .describe("Optional JSON string of related links"),
     parent_id: z
       .string()
       .optional()
@@ -279,7 +88,6 @@ const createMemo = tool({
     slug,
     content,
     headers = "{}",
-    links = "{}",
     parent_id = null,
     author = "user",
   }) => {
@@ -287,7 +95,6 @@ const createMemo = tool({
       slug,
       content: content.substring(0, 50) + "...",
       headers,
-      links,
       parent_id,
       author,
     });
@@ -298,9 +105,6 @@ const createMemo = tool({
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       // Check if a memo with this slug already exists
       const existingMemoResult = await agent.sql`
         SELECT COUNT(*) as count FROM memos WHERE slug = ${slug}
@@ -318,24 +122,13 @@ const createMemo = tool({
 
       console.log("Creating memo with:", { id, slug, parent_id, author, now });
 
-      // Initialize with empty links - we'll update after insert
-      const initialLinks = JSON.stringify({ incoming: [], outgoing: [] });
-
       // Generate vector embeddings for the content to enable semantic search
       let vector_id = null;
       try {
-        // Generate embeddings using the Chat class method
-        const embeddings = await agent.createEmbeddings(content);
-
-        // Store the vector embedding
-        vector_id = `memo-${id}`;
-        const metadata = {
-          memo_id: id,
-          slug: slug,
-        };
-        await agent.storeVectorEmbedding(vector_id, embeddings, metadata);
-
-        console.log(`Created vector embedding with ID: ${vector_id}`);
+        // Embed the content passage by passage
+        vector_id = await embedMemoChunks(agent, { id, slug, content });
+
+        console.log(`Created passage embeddings for: ${vector_id}`);
       } catch (error) {
         console.error("Error generating vector embeddings:", error);
         // Continue even if embedding fails - we'll still create the memo
@@ -346,20 +139,20 @@ const createMemo = tool({
       if (vector_id) {
         // @ts-ignore - Type safety is manually verified above
         await agent.sql`
-          INSERT INTO memos (id, slug, content, headers, links, created, modified, vector_id, parent_id, author)
-          VALUES (${id}, ${slug}, ${content}, ${headers}, ${initialLinks}, ${now}, ${now}, ${vector_id}, ${parent_id}, ${author})
+          INSERT INTO memos (id, slug, content, headers, created, modified, vector_id, embedding_model, embedding_dimensions, embedded_at, parent_id, author)
+          VALUES (${id}, ${slug}, ${content}, ${headers}, ${now}, ${now}, ${vector_id}, ${agent.embeddings.model}, ${agent.embeddings.dimensions}, ${now}, ${parent_id}, ${author})
         `;
       } else {
         // @ts-ignore - Type safety is manually verified above
         await agent.sql`
-          INSERT INTO memos (id, slug, content, headers, links, created, modified, parent_id, author)
-          VALUES (${id}, ${slug}, ${content}, ${headers}, ${initialLinks}, ${now}, ${now}, ${parent_id}, ${author})
+          INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author)
+          VALUES (${id}, ${slug}, ${content}, ${headers}, ${now}, ${now}, ${parent_id}, ${author})
         `;
       }
       console.log("Memo inserted successfully");
 
-      // Process and update backlinks
-      const backlinks = await updateBacklinks(agent, slug, content);
+      // Index the memo's [[links]]
+      await updateBacklinks(agent, slug, content);
 
       // Auto-create a fragment from this memo if content is substantial
       if (content.trim().length >= 20) {
@@ -431,9 +224,6 @@ const createReply = tool({
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       // Check if the parent memo exists
       const parentMemoResult = await agent.sql`
         SELECT id FROM memos WHERE slug = ${parent_slug}
@@ -478,19 +268,16 @@ const createReply = tool({
       // Create the reply memo
       const now = new Date().toISOString();
       const id = generateMemoId();
-      const initialLinks = JSON.stringify({ incoming: [], outgoing: [] });
 
       // Generate vector embeddings for the content
       let vector_id = null;
       try {
-        const embeddings = await agent.createEmbeddings(content);
-        vector_id = `memo-${id}`;
-        const metadata = {
-          memo_id: id,
+        vector_id = await embedMemoChunks(agent, {
+          id,
           slug: replySlug,
-        };
-        await agent.storeVectorEmbedding(vector_id, embeddings, metadata);
-        console.log(`Created vector embedding with ID: ${vector_id}`);
+          content,
+        });
+        console.log(`Created passage embeddings for: ${vector_id}`);
       } catch (error) {
         console.error("Error generating vector embeddings:", error);
       }
@@ -500,20 +287,20 @@ const createReply = tool({
 
       if (vector_id) {
         await agent.sql`
-          INSERT INTO memos (id, slug, content, headers, links, created, modified, vector_id, parent_id, author)
-          VALUES (${id}, ${replySlug}, ${content}, ${headers}, ${initialLinks}, ${now}, ${now}, ${vector_id}, ${parentId}, ${author})
+          INSERT INTO memos (id, slug, content, headers, created, modified, vector_id, embedding_model, embedding_dimensions, embedded_at, parent_id, author)
+          VALUES (${id}, ${replySlug}, ${content}, ${headers}, ${now}, ${now}, ${vector_id}, ${agent.embeddings.model}, ${agent.embeddings.dimensions}, ${now}, ${parentId}, ${author})
         `;
       } else {
         await agent.sql`
-          INSERT INTO memos (id, slug, content, headers, links, created, modified, parent_id, author)
-          VALUES (${id}, ${replySlug}, ${content}, ${headers}, ${initialLinks}, ${now}, ${now}, ${parentId}, ${author})
+          INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author)
+          VALUES (${id}, ${replySlug}, ${content}, ${headers}, ${now}, ${now}, ${parentId}, ${author})
         `;
       }
 
       console.log("Reply memo inserted successfully");
 
-      // Process and update backlinks
-      const backlinks = await updateBacklinks(agent, replySlug, content);
+      // Index the reply's [[links]]
+      await updateBacklinks(agent, replySlug, content);
 
       // Auto-create a fragment from this reply if content is substantial
       if (content.trim().length >= 20) {
@@ -565,21 +352,20 @@ const editMemo = tool({
       .string()
       .optional()
       .describe("Optional JSON string of headers metadata"),
-    links: z
+    author: z
       .string()
       .optional()
-      .describe("Optional JSON string of related links"),
+      .describe(
+        "Who is making the edit, recorded in the memo's revision history (default: 'assistant')"
+      ),
   }),
-  execute: async ({ slug, content, headers, links }) => {
+  execute: async ({ slug, content, headers, author }) => {
     const agent = agentContext.getStore() as Chat | null;
     if (!agent) {
       throw new Error("No agent found");
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       // Check if the memo exists
       const existingMemoResult = await agent.sql`
         SELECT * FROM memos WHERE slug = ${slug}
@@ -595,40 +381,39 @@ const editMemo = tool({
       // Only update fields that were provided
       const updatedContent = content !== undefined ? content : memo.content;
       const updatedHeaders = headers !== undefined ? headers : memo.headers;
-      const updatedLinks = links !== undefined ? links : memo.links;
+
+      await recordMemoRevision(
+        agent,
+        {
+          id: String(memo.id),
+          content: String(memo.content),
+          headers: String(memo.headers),
+          author: memo.author ? String(memo.author) : null,
+          modified: memo.modified ? String(memo.modified) : null,
+        },
+        { content: String(updatedContent), headers: String(updatedHeaders) },
+        author || "assistant"
+      );
 
       // Update the vector embedding if content was updated
       if (content !== undefined) {
         try {
-          // Get existing vector_id or create a new one
           const memoId = memo.id && typeof memo.id === "string" ? memo.id : "";
-          let vector_id =
-            memo.vector_id && typeof memo.vector_id === "string"
-              ? memo.vector_id
-              : `memo-${memoId}`;
 
-          // Generate new embeddings for the updated content
+          // Re-embed the updated content passage by passage
           // Ensure content is a string
           const contentToEmbed =
             typeof updatedContent === "string"
               ? updatedContent
               : String(updatedContent);
-          const embeddings = await agent.createEmbeddings(contentToEmbed);
-
-          // Store the updated vector embedding
-          const memoMetadata = {
-            memo_id: typeof memo.id === "string" ? memo.id : "",
+          const vector_id = await embedMemoChunks(agent, {
+            id: memoId,
             slug: typeof slug === "string" ? slug : "",
-          };
-          await agent.storeVectorEmbedding(vector_id, embeddings, memoMetadata);
-
-          // Update memo with content and vector_id
-          if (
-            vector_id &&
-            typeof vector_id === "string" &&
-            slug &&
-            typeof slug === "string"
-          ) {
+            content: contentToEmbed,
+          });
+
+          // Update memo with content and vector_id (null once it has no text)
+          if (slug && typeof slug === "string") {
             // @ts-ignore - Type safety is manually verified above
             await agent.sql`
               UPDATE memos
@@ -640,7 +425,7 @@ const editMemo = tool({
             `;
           }
 
-          console.log(`Updated vector embedding with ID: ${vector_id}`);
+          console.log(`Updated passage embeddings for: ${vector_id}`);
         } catch (error) {
           console.error("Error updating vector embeddings:", error);
 
@@ -657,14 +442,8 @@ const editMemo = tool({
           }
         }
 
-        // Process and update backlinks when content changes
-        // Ensure slug and content are strings
-        const slugStr = typeof slug === "string" ? slug : "";
-        const contentStr =
-          typeof updatedContent === "string"
-            ? updatedContent
-            : String(updatedContent);
-        const backlinks = await updateBacklinks(agent, slugStr, contentStr);
+        // Re-index links when content changes
+        await updateBacklinks(agent, slug, String(updatedContent));
       } else {
         // If content wasn't updated, just update the other fields
         if (slug && typeof slug === "string") {
@@ -694,26 +473,49 @@ const getMemo = tool({
   description: "Get a memo by its slug",
   parameters: z.object({
     slug: z.string().describe("The slug of the memo to retrieve"),
+    expand_transclusions: z
+      .boolean()
+      .optional()
+      .describe(
+        "Replace ![[slug]] / ![[slug#Heading]] transclusions with the content they embed"
+      ),
   }),
-  execute: async ({ slug }) => {
+  execute: async ({ slug, expand_transclusions }) => {
     const agent = agentContext.getStore();
     if (!agent) {
       throw new Error("No agent found");
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       const memo = await agent.sql<Memo>`
         SELECT * FROM memos WHERE slug = ${slug}
       `;
 
-      if (!memo.length) {
-        return `No memo found with the slug '${slug}'.`;
+      const expand = async (found: Memo) =>
+        expand_transclusions
+          ? {
+              ...found,
+              content: await expandMemoTransclusions(
+                agent,
+                found.content,
+                found.slug
+              ),
+            }
+          : found;
+
+      if (memo.length) {
+        return expand(memo[0]);
       }
 
-      return memo[0];
+      // Follow a renamed memo's old slug
+      const current = await resolveSlugAlias(agent, "memo", slug);
+      const renamed = current
+        ? await agent.sql<Memo>`SELECT * FROM memos WHERE slug = ${current}`
+        : [];
+      if (!renamed.length) {
+        return `No memo found with the slug '${slug}'.`;
+      }
+      return { ...(await expand(renamed[0])), redirected_from: slug };
     } catch (error) {
       console.error("Error retrieving memo:", error);
       return `Error retrieving memo: ${error}`;
@@ -737,9 +539,6 @@ const deleteMemo = tool({
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       // Get the memo to check if it exists and to get its vector_id
       const memoResult = await agent.sql`
         SELECT id, vector_id FROM memos WHERE slug = ${slug}
@@ -749,12 +548,12 @@ const deleteMemo = tool({
         return `Error: No memo found with the slug '${slug}'.`;
       }
 
-      // Delete the associated vector embedding if it exists
+      // Delete the associated passage embeddings if it has any
       const vectorId = memoResult[0]?.vector_id;
       if (vectorId && typeof vectorId === "string") {
         try {
-          await agent.deleteVectorEmbedding(vectorId);
-          console.log(`Deleted vector embedding with ID: ${vectorId}`);
+          await deleteMemoChunks(agent, String(memoResult[0].id));
+          console.log(`Deleted passage embeddings for: ${vectorId}`);
         } catch (error) {
           console.error(
             `Error deleting vector embedding for memo ${slug}:`,
@@ -764,7 +563,8 @@ const deleteMemo = tool({
         }
       }
 
-      // Delete the memo from the database
+      // Delete the memo and its revision history from the database
+      await deleteMemoRevisions(agent, String(memoResult[0].id));
       await agent.sql`
         DELETE FROM memos WHERE slug = ${slug}
       `;
@@ -782,7 +582,8 @@ const deleteMemo = tool({
  * This executes automatically without requiring human confirmation
  */
 const searchMemos = tool({
-  description: "Search for memos containing specific text in their content",
+  description:
+    'Full-text search over memos, ranked by relevance. Supports "exact phrases", prefix* terms and OR',
   parameters: z.object({
     query: z.string().describe("The text to search for in memo content"),
     limit: z
@@ -790,9 +591,11 @@ const searchMemos = tool({
       .optional()
       .describe("Maximum number of results to return (default: 10)"),
     field: z
-      .enum(["content", "slug", "headers", "links", "all"])
+      .enum(["content", "slug", "headers", "summary", "links", "all"])
       .optional()
-      .describe("Field to search in (default: content)"),
+      .describe(
+        "Field to search in (default: content); 'links' matches the slugs a memo links to, 'all' covers everything but links"
+      ),
   }),
   execute: async ({ query, limit = 10, field = "content" }) => {
     const agent = agentContext.getStore();
@@ -801,53 +604,25 @@ const searchMemos = tool({
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
-      // Sanitize the search pattern to prevent SQL injection
-      const searchPattern =
-        "%" + query.replace(/[%_]/g, (char) => `\\${char}`) + "%";
-
       let memos;
-      if (field === "all") {
-        memos = await agent.sql<Memo>`
-          SELECT * FROM memos
-          WHERE content LIKE ${searchPattern}
-             OR slug LIKE ${searchPattern}
-             OR headers LIKE ${searchPattern}
-             OR links LIKE ${searchPattern}
-          ORDER BY modified DESC
-          LIMIT ${limit}
-        `;
-      } else if (field === "content") {
-        memos = await agent.sql<Memo>`
-          SELECT * FROM memos
-          WHERE content LIKE ${searchPattern}
-          ORDER BY modified DESC
-          LIMIT ${limit}
-        `;
-      } else if (field === "slug") {
+      if (field === "links") {
+        // Link targets live in memo_links, outside the FTS index
+        const searchPattern =
+          "%" + query.replace(/[%_\\]/g, (char) => `\\${char}`) + "%";
         memos = await agent.sql<Memo>`
           SELECT * FROM memos
-          WHERE slug LIKE ${searchPattern}
-          ORDER BY modified DESC
-          LIMIT ${limit}
-        `;
-      } else if (field === "headers") {
-        memos = await agent.sql<Memo>`
-          SELECT * FROM memos
-          WHERE headers LIKE ${searchPattern}
+          WHERE id IN (
+            SELECT source_id FROM memo_links
+            WHERE target_slug LIKE ${searchPattern} ESCAPE '\\'
+          )
           ORDER BY modified DESC
           LIMIT ${limit}
         `;
       } else {
-        // links
-        memos = await agent.sql<Memo>`
-          SELECT * FROM memos
-          WHERE links LIKE ${searchPattern}
-          ORDER BY modified DESC
-          LIMIT ${limit}
-        `;
+        memos = await searchMemosFts<Memo>(agent, query, {
+          limit,
+          columns: field === "all" ? undefined : [field],
+        });
       }
 
       if (!memos.length) {
@@ -863,69 +638,29 @@ const searchMemos = tool({
 });
 
 /**
- * Tool to list all memos
+ * Tool to list memos a page at a time, with optional sorting and filters
  * This executes automatically without requiring human confirmation
  */
 const listMemos = tool({
-  description: "List all memos, optionally limited and sorted",
-  parameters: z.object({
-    limit: z
-      .number()
-      .optional()
-      .describe("Maximum number of memos to return (default: 20)"),
-    sortBy: z
-      .enum(["created", "modified", "slug"])
-      .optional()
-      .describe("Field to sort by (default: modified)"),
-    sortOrder: z
-      .enum(["asc", "desc"])
-      .optional()
-      .describe("Sort order (default: desc)"),
-  }),
-  execute: async ({ limit = 20, sortBy = "modified", sortOrder = "desc" }) => {
+  description:
+    "List memos a page at a time, optionally sorted and filtered. Returns { items, total, next_cursor }; pass next_cursor back to get the next page",
+  parameters: listToolParameters,
+  execute: async ({ limit = DEFAULT_TOOL_PAGE_SIZE, ...options }) => {
     const agent = agentContext.getStore();
     if (!agent) {
       throw new Error("No agent found");
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
-      // Execute the query with a simple ORDER BY clause using template literals
-      let memos;
-      if (sortBy === "created") {
-        if (sortOrder === "asc") {
-          memos =
-            await agent.sql<Memo>`SELECT * FROM memos ORDER BY created ASC LIMIT ${limit}`;
-        } else {
-          memos =
-            await agent.sql<Memo>`SELECT * FROM memos ORDER BY created DESC LIMIT ${limit}`;
-        }
-      } else if (sortBy === "slug") {
-        if (sortOrder === "asc") {
-          memos =
-            await agent.sql<Memo>`SELECT * FROM memos ORDER BY slug ASC LIMIT ${limit}`;
-        } else {
-          memos =
-            await agent.sql<Memo>`SELECT * FROM memos ORDER BY slug DESC LIMIT ${limit}`;
-        }
-      } else {
-        // Default to 'modified'
-        if (sortOrder === "asc") {
-          memos =
-            await agent.sql<Memo>`SELECT * FROM memos ORDER BY modified ASC LIMIT ${limit}`;
-        } else {
-          memos =
-            await agent.sql<Memo>`SELECT * FROM memos ORDER BY modified DESC LIMIT ${limit}`;
-        }
+      const result = await listMemosPage(agent, { ...options, limit });
+      if (!result.ok) {
+        return `Error: ${result.error}`;
       }
-
-      if (!memos.length) {
+      if (!result.value.total) {
         return "No memos found.";
       }
 
-      return memos;
+      return result.value;
     } catch (error) {
       console.error("Error listing memos:", error);
       return `Error listing memos: ${error}`;
@@ -951,9 +686,6 @@ const queryMemos = tool({
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       // Simple security check to only allow SELECT queries
       const trimmedQuery = query.trim().toLowerCase();
       if (!trimmedQuery.startsWith("select")) {
@@ -993,15 +725,12 @@ const findBacklinks = tool({
       ),
   }),
   execute: async ({ slug, includeContent = false }) => {
-    const agent = agentContext.getStore();
+    const agent = agentContext.getStore() as Chat | null;
     if (!agent) {
       throw new Error("No agent found");
     }
 
     try {
-      // Ensure the table exists
-      await initMemosTable();
-
       // Check if the memo exists
       const memoExists = await agent.sql<{ count: number }>`
         SELECT COUNT(*) as count FROM memos WHERE slug = ${slug}
@@ -1011,54 +740,156 @@ const findBacklinks = tool({
         return `Error: No memo found with the slug '${slug}'.`;
       }
 
-      // Get all memos that might link to this one
-      // First approach: Check for explicit links column references
-      let linkedMemos;
-      if (includeContent) {
-        linkedMemos = await agent.sql<Memo>`
-          SELECT * FROM memos
-          WHERE links LIKE ${'%"outgoing":%"' + slug + '"%'}
-        `;
-      } else {
-        linkedMemos = await agent.sql<Memo>`
-          SELECT id, slug, created, modified FROM memos
-          WHERE links LIKE ${'%"outgoing":%"' + slug + '"%'}
-        `;
+      const linkedMemos = await getBacklinks(agent, slug, { includeContent });
+      if (linkedMemos.length === 0) {
+        return `No memos found that link to '${slug}'.`;
       }
 
-      // Second approach: Check for [[slug]] pattern in content
-      let contentLinkedMemos;
-      if (includeContent) {
-        contentLinkedMemos = await agent.sql<Memo>`
-          SELECT * FROM memos
-          WHERE content LIKE ${"%[[" + slug + "]]%"}
-        `;
-      } else {
-        contentLinkedMemos = await agent.sql<Memo>`
-          SELECT id, slug, created, modified FROM memos
-          WHERE content LIKE ${"%[[" + slug + "]]%"}
-        `;
+      return linkedMemos;
+    } catch (error) {
+      console.error("Error finding backlinks:", error);
+      return `Error finding backlinks: ${error}`;
+    }
+  },
+});
+
+/**
+ * Tool to list the links written in a memo
+ * This executes automatically without requiring human confirmation
+ */
+const getMemoLinks = tool({
+  description:
+    "List the [[links]] a memo makes, what each resolves to (memo, fragment or unresolved), and its link counts",
+  parameters: z.object({
+    slug: z.string().describe("The slug of the memo"),
+  }),
+  execute: async ({ slug }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    try {
+      const memo = await agent.sql<{ id: string; slug: string }>`
+        SELECT id, slug FROM memos WHERE slug = ${slug}
+      `;
+      if (!memo.length) {
+        return `Error: No memo found with the slug '${slug}'.`;
       }
 
-      // Combine results and remove duplicates
-      const allMemos = [...linkedMemos];
-      const existingSlugs = new Set(allMemos.map((memo) => memo.slug));
+      const links = await getForwardLinks(agent, memo[0].id);
+      return {
+        slug,
+        counts: await getLinkCounts(agent, memo[0]),
+        links: links.map(({ target_slug, target_kind, anchor }) => ({
+          target_slug,
+          target_kind,
+          anchor,
+        })),
+      };
+    } catch (error) {
+      console.error("Error listing memo links:", error);
+      return `Error listing memo links: ${error}`;
+    }
+  },
+});
 
-      for (const memo of contentLinkedMemos) {
-        if (!existingSlugs.has(memo.slug)) {
-          allMemos.push(memo);
-          existingSlugs.add(memo.slug);
-        }
+/**
+ * Tool to rename a memo
+ * This executes automatically without requiring human confirmation
+ */
+const renameMemo = tool({
+  description:
+    "Rename a memo (change its slug). Every [[link]] to it is rewritten to the new slug and the old slug keeps working as an alias",
+  parameters: z.object({
+    slug: z.string().describe("The current slug of the memo"),
+    new_slug: z.string().describe("The new slug"),
+  }),
+  execute: async ({ slug, new_slug }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    try {
+      const result = await renameMemoBySlug(agent, slug, new_slug, {
+        author: "assistant",
+      });
+      if (!result.ok) {
+        return `Error: ${result.error}`;
       }
+      const { old_slug, new_slug: renamed, rewritten_memos } = result.value;
+      return `Renamed '${old_slug}' to '${renamed}'; rewrote links in ${rewritten_memos.length} memo(s).`;
+    } catch (error) {
+      console.error("Error renaming memo:", error);
+      return `Error renaming memo: ${error}`;
+    }
+  },
+});
 
-      if (allMemos.length === 0) {
-        return `No memos found that link to '${slug}'.`;
+/**
+ * Tool to list links whose target doesn't exist
+ * This executes automatically without requiring human confirmation
+ */
+const findBrokenLinks = tool({
+  description:
+    "List every [[link]] in memos and fragments that points at a slug with no memo or fragment, grouped by target, with where each appears",
+  parameters: z.object({}),
+  execute: async () => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    try {
+      const targets = await getBrokenLinks(agent);
+      if (!targets.length) {
+        return "No broken links.";
       }
+      return targets.map(({ target_slug, references }) => ({
+        target_slug,
+        found_in: references.map((r) =>
+          r.anchor
+            ? `${r.source_kind} '${r.source_slug}' (#${r.anchor})`
+            : `${r.source_kind} '${r.source_slug}'`
+        ),
+      }));
+    } catch (error) {
+      console.error("Error listing broken links:", error);
+      return `Error listing broken links: ${error}`;
+    }
+  },
+});
+
+/**
+ * Tool to create a placeholder for a missing link target
+ * This executes automatically without requiring human confirmation
+ */
+const createStub = tool({
+  description:
+    "Create a placeholder memo (default) or fragment for a [[link]] target that doesn't exist yet, so the link resolves",
+  parameters: z.object({
+    slug: z.string().describe("The missing slug"),
+    kind: z
+      .enum(["memo", "fragment"])
+      .optional()
+      .describe("What to create (default: memo)"),
+  }),
+  execute: async ({ slug, kind }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
 
-      return allMemos;
+    try {
+      const result = await createLinkStub(agent, slug, kind);
+      if (!result.ok) {
+        return `Error: ${result.error}`;
+      }
+      return `Created stub ${result.value.kind} '${result.value.slug}'.`;
     } catch (error) {
-      console.error("Error finding backlinks:", error);
-      return `Error finding backlinks: ${error}`;
+      console.error("Error creating stub:", error);
+      return `Error creating stub: ${error}`;
     }
   },
 });
@@ -1080,7 +911,9 @@ export const memoTools = {
   listMemos,
   queryMemos,
   findBacklinks,
+  getMemoLinks,
+  renameMemo,
+  findBrokenLinks,
+  createStub,
   semanticSearchMemos, // This is imported from semantic-search.ts
-  initMemosTable,
-  initMemosTableWithAgent,
 };
@@ -1,7 +1,36 @@
 /**
  * API handlers for memo functionality
  */
-import { create } from "domain";
+import {
+  deleteMemoRevisions,
+  diffLines,
+  getMemoRevision,
+  listMemoRevisions,
+  recordMemoRevision,
+} from "./memo-revisions";
+import { countMemosFts, searchMemosFts } from "./fts";
+import {
+  deleteMemoChunks,
+  embedMemoChunks,
+  findMemoPassages,
+} from "./memo-chunks";
+import {
+  createLinkStub,
+  expandMemoTransclusions,
+  getBacklinks,
+  getBrokenLinks,
+  getForwardLinks,
+  getLinkCounts,
+  indexMemoLinks,
+  resolveLinkTargets,
+} from "./memo-links";
+import { getReactionsByMemo, listReplies, listThreads } from "./memo-threads";
+import { listMemosPage, parseListParams } from "./list-pages";
+import {
+  renameMemo as renameMemoBySlug,
+  resolveSlugAlias,
+} from "./slug-rename";
+import { importVault as importVaultZip } from "./vault-import";
 import type { Chat } from "./server";
 
 interface Memo {
@@ -9,10 +38,10 @@ interface Memo {
   slug: string;
   content: string;
   headers: string;
-  links: string;
   created: string;
   modified: string;
   vector_id?: string;
+  author?: string;
 }
 
 interface EmbeddingResponse {
@@ -52,182 +81,699 @@ interface EditMemoData {
   slug: string;
   content: string;
   headers?: string;
-  links?: string;
+  author?: string;
+}
+
+interface RestoreRevisionData {
+  slug: string;
+  revision: number;
+  author?: string;
 }
 
 /**
- * Initialize the memos table in the database
+ * One page of memos, with optional sorting and filters (see list-pages.ts)
  */
-export async function initMemosTable(agent: Chat): Promise<boolean> {
+export async function listMemos(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
   try {
-    // Create the memos table if it doesn't exist
-    await agent.sql`
-      CREATE TABLE IF NOT EXISTS memos (
-        id TEXT PRIMARY KEY,
-        slug TEXT UNIQUE NOT NULL,
-        content TEXT NOT NULL,
-        headers TEXT NOT NULL,
-        links TEXT NOT NULL,
-        created TEXT NOT NULL,
-        modified TEXT NOT NULL,
-        summary TEXT
-      )
-    `;
+    const url = new URL(request.url);
+    const result = await listMemosPage(
+      agent,
+      parseListParams(url.searchParams)
+    );
+    if (!result.ok) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    const memos = result.value.items;
 
-    // Check if vector_id column exists, add it if it doesn't
+    // Fetch reactions for all memos in one query
+    let reactionsByMemo: { [memoId: string]: { [emoji: string]: string[] } } =
+      {};
     try {
-      // First try to query using vector_id to see if it exists
-      await agent.sql`SELECT vector_id FROM memos LIMIT 1`;
-      console.log("vector_id column already exists");
+      reactionsByMemo = await getReactionsByMemo(
+        agent,
+        memos.map((memo: any) => memo.id)
+      );
     } catch (error) {
-      // If error occurs, the column doesn't exist yet, so add it
-      console.log("Adding vector_id column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN vector_id TEXT`;
+      console.error("Error fetching reactions:", error);
+      // Continue without reactions if there's an error
     }
 
-    // Check if parent_id column exists, add it if it doesn't
-    try {
-      await agent.sql`SELECT parent_id FROM memos LIMIT 1`;
-      console.log("parent_id column already exists");
-    } catch (error) {
-      console.log("Adding parent_id column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN parent_id TEXT`;
+    // Add reactions to each memo
+    const memosWithReactions = memos.map((memo: any) => ({
+      ...memo,
+      reactions: reactionsByMemo[memo.id] || {},
+    }));
+
+    return Response.json(
+      { ...result.value, items: memosWithReactions },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error("Error fetching memos:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to retrieve memos", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * One page of threads (root memos) by latest activity in each thread, with
+ * reply counts, participants and summaries
+ */
+export async function listThreadsPage(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const result = await listThreads(agent, parseListParams(url.searchParams));
+    if (!result.ok) {
+      return Response.json({ error: result.error }, { status: result.status });
     }
 
-    // Check if author column exists, add it if it doesn't
-    try {
-      await agent.sql`SELECT author FROM memos LIMIT 1`;
-      console.log("author column already exists");
-    } catch (error) {
-      console.log("Adding author column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN author TEXT DEFAULT 'user'`;
+    return Response.json(result.value, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error listing threads:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to list threads", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * One page of the direct replies to a memo (`parent` = id or slug), by
+ * latest activity below each reply
+ */
+export async function listRepliesPage(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const parent = url.searchParams.get("parent");
+    if (!parent) {
+      return Response.json(
+        { error: "Missing parent parameter" },
+        { status: 400 }
+      );
     }
 
-    // Ensure the summary column exists
-    try {
-      await agent.sql`SELECT summary FROM memos LIMIT 1`;
-      console.log("summary column already exists");
-    } catch (error) {
-      console.log("Adding summary column to memos table");
-      await agent.sql`ALTER TABLE memos ADD COLUMN summary TEXT`;
+    const result = await listReplies(
+      agent,
+      parent,
+      parseListParams(url.searchParams)
+    );
+    if (!result.ok) {
+      return Response.json({ error: result.error }, { status: result.status });
     }
 
-    // Create an index on the slug for faster lookups
-    await agent.sql`
-      CREATE INDEX IF NOT EXISTS idx_memos_slug ON memos(slug)
-    `;
+    return Response.json(result.value, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error listing replies:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to list replies", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
 
-    // Create an index on parent_id for thread lookups
-    await agent.sql`
-      CREATE INDEX IF NOT EXISTS idx_memos_parent ON memos(parent_id)
-    `;
+/**
+ * Find backlinks for a specific memo
+ */
+export async function findBacklinks(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const params = new URLSearchParams(url.search);
+    const slug = params.get("slug");
 
-    return true;
-  } catch (error) {
-    console.error("Error initializing memos table:", error);
-    return false;
+    if (!slug) {
+      return Response.json(
+        { error: "Slug parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    // Memos whose content links here, from the link index
+    const backlinks = await getBacklinks(agent, slug, {
+      includeContent: params.get("includeContent") !== "false",
+    });
+
+    return Response.json(backlinks, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching backlinks:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to retrieve backlinks", message: errorMessage },
+      { status: 500 }
+    );
   }
 }
 
 /**
- * Get a list of all memos, with optional sorting
+ * Links written in a memo, the memos linking to it, and link counts
  */
-export async function listMemos(
+export async function memoLinks(
   agent: Chat,
   request: Request
 ): Promise<Response> {
   try {
-    // Parse query parameters for pagination and sorting
     const url = new URL(request.url);
-    const params = new URLSearchParams(url.search);
-    const limit = parseInt(params.get("limit") || "50", 10);
-    const sortBy = params.get("sortBy") || "modified";
-    const sortOrder = params.get("sortOrder") || "desc";
-
-    // Execute the query using template literals for SQL
-    let memos;
-    if (sortBy === "created") {
-      if (sortOrder === "asc") {
-        memos =
-          await agent.sql`SELECT * FROM memos ORDER BY created ASC LIMIT ${limit}`;
-      } else {
-        memos =
-          await agent.sql`SELECT * FROM memos ORDER BY created DESC LIMIT ${limit}`;
+    const slug = url.searchParams.get("slug");
+
+    if (!slug) {
+      return Response.json(
+        { error: "Slug parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const memo = await agent.sql<{ id: string; slug: string }>`
+      SELECT id, slug FROM memos WHERE slug = ${slug}`;
+    if (memo.length === 0) {
+      return Response.json(
+        { error: `Memo with slug '${slug}' not found` },
+        { status: 404 }
+      );
+    }
+
+    const [outgoing, incoming, counts] = await Promise.all([
+      getForwardLinks(agent, memo[0].id),
+      getBacklinks(agent, slug),
+      getLinkCounts(agent, memo[0]),
+    ]);
+
+    return Response.json(
+      {
+        slug,
+        counts,
+        outgoing: outgoing.map(({ target_slug, target_kind, anchor }) => ({
+          target_slug,
+          target_kind,
+          anchor,
+        })),
+        incoming,
+      },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
       }
-    } else if (sortBy === "slug") {
-      if (sortOrder === "asc") {
-        memos =
-          await agent.sql`SELECT * FROM memos ORDER BY slug ASC LIMIT ${limit}`;
-      } else {
-        memos =
-          await agent.sql`SELECT * FROM memos ORDER BY slug DESC LIMIT ${limit}`;
+    );
+  } catch (error: unknown) {
+    console.error("Error fetching memo links:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to retrieve memo links", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Every unresolved [[link]], grouped by target, with where it is written
+ */
+export async function brokenLinks(
+  agent: Chat,
+  _request: Request
+): Promise<Response> {
+  try {
+    const targets = await getBrokenLinks(agent);
+    return Response.json(
+      {
+        targets,
+        total_targets: targets.length,
+        total_references: targets.reduce(
+          (sum, t) => sum + t.references.length,
+          0
+        ),
+      },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
       }
-    } else {
-      // Default to 'modified'
-      if (sortOrder === "asc") {
-        memos =
-          await agent.sql`SELECT * FROM memos ORDER BY modified ASC LIMIT ${limit}`;
-      } else {
-        memos =
-          await agent.sql`SELECT * FROM memos ORDER BY modified DESC LIMIT ${limit}`;
+    );
+  } catch (error: unknown) {
+    console.error("Error listing broken links:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to list broken links", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * What each `slug` parameter resolves to (memo, fragment or unresolved)
+ */
+export async function resolveLinks(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const slugs = url.searchParams
+      .getAll("slug")
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .slice(0, 200);
+
+    return Response.json(
+      { kinds: await resolveLinkTargets(agent, slugs) },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
       }
+    );
+  } catch (error: unknown) {
+    console.error("Error resolving links:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to resolve links", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a placeholder memo or fragment for a missing link target
+ */
+export async function createStub(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const { slug, kind } = (await request.json()) as {
+      slug?: string;
+      kind?: string;
+    };
+
+    if (!slug) {
+      return Response.json(
+        { error: "Missing required field (slug)" },
+        { status: 400 }
+      );
+    }
+    if (kind && kind !== "memo" && kind !== "fragment") {
+      return Response.json(
+        { error: "kind must be 'memo' or 'fragment'" },
+        { status: 400 }
+      );
     }
 
-    // Fetch reactions for all memos
-    const memoIds = memos.map((memo: any) => memo.id);
-    let reactions = [];
+    const result = await createLinkStub(
+      agent,
+      slug,
+      kind === "fragment" ? "fragment" : "memo"
+    );
+    if (!result.ok) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
 
-    if (memoIds.length > 0) {
-      try {
-        // Create reactions table if it doesn't exist
-        await agent.sql`
-          CREATE TABLE IF NOT EXISTS reactions (
-            id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-            memo_id TEXT NOT NULL,
-            emoji TEXT NOT NULL,
-            user_id TEXT NOT NULL,
-            created TEXT DEFAULT CURRENT_TIMESTAMP,
-            UNIQUE(memo_id, emoji, user_id),
-            FOREIGN KEY (memo_id) REFERENCES memos (id) ON DELETE CASCADE
-          )
-        `;
-
-        // Fetch reactions for these memos
-        for (const memoId of memoIds) {
-          const memoReactions = await agent.sql`
-            SELECT memo_id, emoji, user_id
-            FROM reactions
-            WHERE memo_id = ${memoId}
-          `;
-          reactions.push(...memoReactions);
-        }
-      } catch (error) {
-        console.error("Error fetching reactions:", error);
-        // Continue without reactions if there's an error
+    return Response.json(result.value, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error creating stub:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to create stub", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Get a single memo by slug
+ */
+export async function getMemo(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const params = new URLSearchParams(url.search);
+    const slug = params.get("slug");
+
+    if (!slug) {
+      return Response.json(
+        { error: "Slug parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    let memo = await agent.sql`SELECT * FROM memos WHERE slug = ${slug}`;
+    let redirect: { redirected_from?: string } = {};
+
+    // Follow a renamed memo's old slug
+    if (!memo.length) {
+      const current = await resolveSlugAlias(agent, "memo", slug);
+      if (current) {
+        memo = await agent.sql`SELECT * FROM memos WHERE slug = ${current}`;
+        redirect = { redirected_from: slug };
       }
     }
 
-    // Group reactions by memo_id and emoji
-    const reactionsByMemo: { [memoId: string]: { [emoji: string]: string[] } } =
-      {};
+    if (!memo || memo.length === 0) {
+      return Response.json(
+        { error: `Memo with slug '${slug}' not found` },
+        { status: 404 }
+      );
+    }
+
+    // ?expand=true adds the content with its ![[transclusions]] filled in
+    const expanded =
+      params.get("expand") === "true"
+        ? {
+            expanded_content: await expandMemoTransclusions(
+              agent,
+              String(memo[0].content),
+              String(memo[0].slug)
+            ),
+          }
+        : {};
+
+    return Response.json(
+      { ...memo[0], ...redirect, ...expanded },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error("Error fetching memo:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to retrieve memo", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a new memo
+ */
+export async function createMemo(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    // Parse and cast request data
+    const requestData = await request.json();
+    const memoData = requestData as CreateMemoData;
+
+    if (!memoData.slug || !memoData.content) {
+      return Response.json(
+        { error: "Missing required fields (slug, content)" },
+        { status: 400 }
+      );
+    }
+
+    // Check if a memo with this slug already exists
+    const existingMemo =
+      await agent.sql`SELECT COUNT(*) as count FROM memos WHERE slug = ${memoData.slug}`;
+    const count = existingMemo[0]?.count;
+    if (count && typeof count === "number" && count > 0) {
+      return Response.json(
+        { error: `A memo with slug '${memoData.slug}' already exists` },
+        { status: 409 }
+      );
+    }
+
+    // Generate a unique ID and set timestamps
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    // Properly handle headers - may already be a JSON string
+    let headers = "{}";
+    if (memoData.headers) {
+      headers =
+        typeof memoData.headers === "string"
+          ? memoData.headers
+          : JSON.stringify(memoData.headers);
+    }
+
+    // Generate vector embeddings for the content
+    let vector_id = null;
+    try {
+      // Embed the content passage by passage
+      vector_id = await embedMemoChunks(agent, {
+        id,
+        slug: memoData.slug,
+        content: memoData.content,
+      });
+    } catch (error) {
+      console.error("Error generating embeddings:", error);
+      vector_id = null;
+      // Continue even if embedding fails - we'll still create the memo
+    }
+
+    // Create the new memo, including the vector_id if available
+    if (vector_id) {
+      await agent.sql`
+        INSERT INTO memos (id, slug, content, headers, created, modified, vector_id, embedding_model, embedding_dimensions, embedded_at)
+        VALUES (${id}, ${memoData.slug}, ${memoData.content}, ${headers}, ${now}, ${now}, ${vector_id}, ${agent.embeddings.model}, ${agent.embeddings.dimensions}, ${now})
+      `;
+    } else {
+      await agent.sql`
+        INSERT INTO memos (id, slug, content, headers, created, modified)
+        VALUES (${id}, ${memoData.slug}, ${memoData.content}, ${headers}, ${now}, ${now})
+      `;
+    }
+
+    // Index the memo's [[links]]
+    await indexMemoLinks(agent, id, memoData.content);
+
+    // Return the newly created memo
+    const created = await agent.sql`SELECT * FROM memos WHERE id = ${id}`;
+    const createdMemo = created.length > 0 ? created[0] : null;
+
+    return Response.json(createdMemo, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error creating memo:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to create memo", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Write new content/headers to an existing memo: re-embed it, record a
+ * revision, update the row and re-index its links. Returns the updated memo.
+ */
+async function applyMemoEdit(
+  agent: Chat,
+  existing: Memo,
+  changes: { slug: string; content: string; headers: string },
+  author: string
+): Promise<Memo | null> {
+  const now = new Date().toISOString();
+
+  // Re-embed the updated content passage by passage
+  // Ensure vector_id is a string
+  let vector_id = existing.vector_id ? String(existing.vector_id) : null;
+  try {
+    vector_id = await embedMemoChunks(agent, {
+      id: existing.id,
+      slug: changes.slug,
+      content: changes.content,
+    });
+  } catch (error) {
+    console.error("Error updating embeddings:", error);
+    // Continue even if embedding fails - we'll still update the memo
+  }
+
+  await recordMemoRevision(agent, existing, changes, author);
+
+  // Build SQL query based on whether we have a vector_id or not
+  if (vector_id) {
+    const vector_id_str = String(vector_id);
+    await agent.sql`
+      UPDATE memos
+      SET
+        content = ${changes.content},
+        headers = ${changes.headers},
+        modified = ${now},
+        vector_id = ${vector_id_str}
+      WHERE id = ${existing.id}
+    `;
+  } else {
+    await agent.sql`
+      UPDATE memos
+      SET
+        content = ${changes.content},
+        headers = ${changes.headers},
+        modified = ${now}
+      WHERE id = ${existing.id}
+    `;
+  }
+  await indexMemoLinks(agent, existing.id, changes.content);
+
+  const updated =
+    await agent.sql<Memo>`SELECT * FROM memos WHERE id = ${existing.id}`;
+  return updated.length > 0 ? updated[0] : null;
+}
+
+/**
+ * Edit an existing memo
+ */
+export async function editMemo(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const requestData = await request.json();
+    const memoData = requestData as EditMemoData;
+
+    if (!memoData.id || !memoData.slug || !memoData.content) {
+      return Response.json(
+        { error: "Missing required fields (id, slug, content)" },
+        { status: 400 }
+      );
+    }
+
+    // Get the current memo to check if it exists and get its vector_id if any
+    const existingMemo =
+      await agent.sql`SELECT * FROM memos WHERE id = ${memoData.id}`;
+
+    if (!existingMemo || existingMemo.length === 0) {
+      return Response.json(
+        { error: `Memo with ID '${memoData.id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    // Omitted headers keep their current values (the checkbox autosave only
+    // sends content)
+    let headers = String(existingMemo[0].headers ?? "{}");
+    if (memoData.headers) {
+      headers =
+        typeof memoData.headers === "string"
+          ? memoData.headers
+          : JSON.stringify(memoData.headers);
+    }
+
+    const updatedMemo = await applyMemoEdit(
+      agent,
+      existingMemo[0] as unknown as Memo,
+      { slug: memoData.slug, content: memoData.content, headers },
+      memoData.author || "user"
+    );
+
+    return Response.json(updatedMemo, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error editing memo:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to edit memo", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rename a memo, rewriting the [[links]] to it. The old slug stays an alias.
+ */
+export async function renameMemo(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  try {
+    const { slug, new_slug, author } = (await request.json()) as {
+      slug?: string;
+      new_slug?: string;
+      author?: string;
+    };
+
+    if (!slug || !new_slug) {
+      return Response.json(
+        { error: "Missing required fields (slug, new_slug)" },
+        { status: 400 }
+      );
+    }
 
-    reactions.forEach((reaction: any) => {
-      if (!reactionsByMemo[reaction.memo_id]) {
-        reactionsByMemo[reaction.memo_id] = {};
-      }
-      if (!reactionsByMemo[reaction.memo_id][reaction.emoji]) {
-        reactionsByMemo[reaction.memo_id][reaction.emoji] = [];
-      }
-      reactionsByMemo[reaction.memo_id][reaction.emoji].push(reaction.user_id);
+    const result = await renameMemoBySlug(agent, slug, new_slug, {
+      author: author || "user",
     });
+    if (!result.ok) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
 
-    // Add reactions to each memo
-    const memosWithReactions = memos.map((memo: any) => ({
-      ...memo,
-      reactions: reactionsByMemo[memo.id] || {},
-    }));
-
-    return Response.json(memosWithReactions, {
+    return Response.json(result.value, {
       headers: {
         "Content-Type": "application/json",
         "Access-Control-Allow-Origin": "*",
@@ -235,44 +781,57 @@ export async function listMemos(
       },
     });
   } catch (error: unknown) {
-    console.error("Error fetching memos:", error);
+    console.error("Error renaming memo:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return Response.json(
-      { error: "Failed to retrieve memos", message: errorMessage },
+      { error: "Failed to rename memo", message: errorMessage },
       { status: 500 }
     );
   }
 }
 
 /**
- * Find backlinks for a specific memo
+ * Import a zipped markdown vault (Obsidian, Logseq) as memos. The zip is the
+ * request body, or the `file` field of a form upload.
  */
-export async function findBacklinks(
+export async function importVault(
   agent: Chat,
   request: Request
 ): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const params = new URLSearchParams(url.search);
-    const slug = params.get("slug");
-
-    if (!slug) {
+    const onConflict = url.searchParams.get("on_conflict") ?? "rename";
+    if (onConflict !== "rename" && onConflict !== "skip") {
       return Response.json(
-        { error: "Slug parameter is required" },
+        { error: "on_conflict must be 'rename' or 'skip'" },
         { status: 400 }
       );
     }
 
-    // Find backlinks by searching for [[slug]] pattern in content
-    const pattern = `%[[${slug}]]%`;
-    const backlinks = await agent.sql`
-      SELECT * FROM memos
-      WHERE content LIKE ${pattern}
-      ORDER BY modified DESC
-    `;
+    let zip: ArrayBuffer;
+    const contentType = request.headers.get("Content-Type") ?? "";
+    if (contentType.startsWith("multipart/form-data")) {
+      const file = (await request.formData()).get("file");
+      if (!file || typeof file === "string") {
+        return Response.json(
+          { error: "Missing required field (file)" },
+          { status: 400 }
+        );
+      }
+      zip = await file.arrayBuffer();
+    } else {
+      zip = await request.arrayBuffer();
+    }
 
-    return Response.json(backlinks, {
+    const result = await importVaultZip(agent, zip, {
+      on_conflict: onConflict,
+    });
+    if (!result.ok) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+
+    return Response.json(result.value, {
       headers: {
         "Content-Type": "application/json",
         "Access-Control-Allow-Origin": "*",
@@ -280,27 +839,26 @@ export async function findBacklinks(
       },
     });
   } catch (error: unknown) {
-    console.error("Error fetching backlinks:", error);
+    console.error("Error importing vault:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return Response.json(
-      { error: "Failed to retrieve backlinks", message: errorMessage },
+      { error: "Failed to import vault", message: errorMessage },
       { status: 500 }
     );
   }
 }
 
 /**
- * Get a single memo by slug
+ * List the revision history of a memo (newest first)
  */
-export async function getMemo(
+export async function listRevisions(
   agent: Chat,
   request: Request
 ): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const params = new URLSearchParams(url.search);
-    const slug = params.get("slug");
+    const slug = url.searchParams.get("slug");
 
     if (!slug) {
       return Response.json(
@@ -309,290 +867,169 @@ export async function getMemo(
       );
     }
 
-    const memo = await agent.sql`SELECT * FROM memos WHERE slug = ${slug}`;
-
-    if (!memo || memo.length === 0) {
+    const memo =
+      await agent.sql<Memo>`SELECT * FROM memos WHERE slug = ${slug}`;
+    if (memo.length === 0) {
       return Response.json(
         { error: `Memo with slug '${slug}' not found` },
         { status: 404 }
       );
     }
 
-    return Response.json(memo[0], {
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*",
-        "Cache-Control": "no-cache",
-      },
-    });
+    const revisions = await listMemoRevisions(agent, memo[0].id);
+
+    return Response.json(
+      { memo_id: memo[0].id, slug, revisions },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
+      }
+    );
   } catch (error: unknown) {
-    console.error("Error fetching memo:", error);
+    console.error("Error fetching memo revisions:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return Response.json(
-      { error: "Failed to retrieve memo", message: errorMessage },
+      { error: "Failed to retrieve memo revisions", message: errorMessage },
       { status: 500 }
     );
   }
 }
 
 /**
- * Create a new memo
+ * Line diff between two revisions of a memo. `to` defaults to the memo's
+ * current content.
  */
-export async function createMemo(
+export async function diffRevisions(
   agent: Chat,
   request: Request
 ): Promise<Response> {
   try {
-    // Parse and cast request data
-    const requestData = await request.json();
-    const memoData = requestData as CreateMemoData;
+    const url = new URL(request.url);
+    const slug = url.searchParams.get("slug");
+    const from = Number.parseInt(url.searchParams.get("from") || "", 10);
+    const toParam = url.searchParams.get("to");
 
-    if (!memoData.slug || !memoData.content) {
+    if (!slug || Number.isNaN(from)) {
       return Response.json(
-        { error: "Missing required fields (slug, content)" },
+        { error: "slug and from parameters are required" },
         { status: 400 }
       );
     }
 
-    // Check if a memo with this slug already exists
-    const existingMemo =
-      await agent.sql`SELECT COUNT(*) as count FROM memos WHERE slug = ${memoData.slug}`;
-    const count = existingMemo[0]?.count;
-    if (count && typeof count === "number" && count > 0) {
+    const memo =
+      await agent.sql<Memo>`SELECT * FROM memos WHERE slug = ${slug}`;
+    if (memo.length === 0) {
       return Response.json(
-        { error: `A memo with slug '${memoData.slug}' already exists` },
-        { status: 409 }
+        { error: `Memo with slug '${slug}' not found` },
+        { status: 404 }
       );
     }
 
-    // Generate a unique ID and set timestamps
-    const id = crypto.randomUUID();
-    const now = new Date().toISOString();
-
-    // Properly handle headers - may already be a JSON string
-    let headers = "{}";
-    if (memoData.headers) {
-      headers =
-        typeof memoData.headers === "string"
-          ? memoData.headers
-          : JSON.stringify(memoData.headers);
-    }
-
-    // Initialize with empty links structure
-    const links = JSON.stringify({ incoming: [], outgoing: [] });
-
-    // Generate vector embeddings for the content
-    let vector_id = null;
-    try {
-      // Create a vector ID based on the memo ID
-      vector_id = `memo-${id}`;
-
-      // Generate embeddings using the Chat class method
-      const embeddings = await agent.createEmbeddings(memoData.content);
-
-      // Store the vector embedding
-      await agent.storeVectorEmbedding(vector_id, embeddings, {
-        memo_id: id,
-        slug: memoData.slug,
-      });
-    } catch (error) {
-      console.error("Error generating embeddings:", error);
-      vector_id = null;
-      // Continue even if embedding fails - we'll still create the memo
-    }
-
-    // Create the new memo, including the vector_id if available
-    if (vector_id) {
-      await agent.sql`
-        INSERT INTO memos (id, slug, content, headers, links, created, modified, vector_id)
-        VALUES (${id}, ${memoData.slug}, ${memoData.content}, ${headers}, ${links}, ${now}, ${now}, ${vector_id})
-      `;
-    } else {
-      await agent.sql`
-        INSERT INTO memos (id, slug, content, headers, links, created, modified)
-        VALUES (${id}, ${memoData.slug}, ${memoData.content}, ${headers}, ${links}, ${now}, ${now})
-      `;
+    const fromRevision = await getMemoRevision(agent, memo[0].id, from);
+    if (!fromRevision) {
+      return Response.json(
+        { error: `Revision ${from} of '${slug}' not found` },
+        { status: 404 }
+      );
     }
 
-    // Process backlinks
-    // Extract backlinks from content (all [[slug]] occurrences)
-    const backlinkPattern = /\[\[(.*?)\]\]/g;
-    const matches = memoData.content.match(backlinkPattern) || [];
-    const outgoingLinks = [
-      ...new Set(matches.map((match: string) => match.slice(2, -2))),
-    ];
-
-    if (outgoingLinks.length > 0) {
-      // Update this memo's outgoing links
-      const outgoingLinksObj = JSON.stringify({
-        incoming: [],
-        outgoing: outgoingLinks,
-      });
-      await agent.sql`
-        UPDATE memos
-        SET links = ${outgoingLinksObj}
-        WHERE id = ${id}
-      `;
-
-      // Update incoming links for each referenced memo
-      for (const targetSlug of outgoingLinks) {
-        // Check if target memo exists
-        const targetExists =
-          await agent.sql`SELECT id, links FROM memos WHERE slug = ${targetSlug}`;
-
-        if (targetExists.length > 0) {
-          const targetId = targetExists[0].id;
-          let targetLinks: { incoming: string[]; outgoing: string[] };
-
-          try {
-            const linksStr = targetExists[0].links as string;
-            targetLinks = JSON.parse(linksStr);
-          } catch {
-            targetLinks = { incoming: [], outgoing: [] };
-          }
-
-          // Add this memo's slug to target's incoming links if not already there
-          if (!targetLinks.incoming.includes(memoData.slug)) {
-            targetLinks.incoming.push(memoData.slug);
-
-            // Update the target memo's links
-            const updatedLinksJson = JSON.stringify(targetLinks);
-            await agent.sql`
-              UPDATE memos
-              SET links = ${updatedLinksJson}
-              WHERE id = ${targetId}
-            `;
-          }
-        }
+    let toContent = memo[0].content;
+    let to: number | "current" = "current";
+    if (toParam) {
+      const toRevision = await getMemoRevision(
+        agent,
+        memo[0].id,
+        Number.parseInt(toParam, 10)
+      );
+      if (!toRevision) {
+        return Response.json(
+          { error: `Revision ${toParam} of '${slug}' not found` },
+          { status: 404 }
+        );
       }
+      toContent = toRevision.content;
+      to = toRevision.revision;
     }
 
-    // Return the newly created memo
-    const created = await agent.sql`SELECT * FROM memos WHERE id = ${id}`;
-    const createdMemo = created.length > 0 ? created[0] : null;
+    const lines = diffLines(fromRevision.content, toContent);
 
-    return Response.json(createdMemo, {
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*",
-        "Cache-Control": "no-cache",
+    return Response.json(
+      {
+        slug,
+        from,
+        to,
+        added: lines.filter((l) => l.type === "add").length,
+        removed: lines.filter((l) => l.type === "remove").length,
+        lines,
       },
-    });
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
+      }
+    );
   } catch (error: unknown) {
-    console.error("Error creating memo:", error);
+    console.error("Error diffing memo revisions:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return Response.json(
-      { error: "Failed to create memo", message: errorMessage },
+      { error: "Failed to diff memo revisions", message: errorMessage },
       { status: 500 }
     );
   }
 }
 
 /**
- * Edit an existing memo
+ * Restore a memo to an earlier revision. The restore is itself recorded as a
+ * new revision, so it can be undone the same way.
  */
-export async function editMemo(
+export async function restoreRevision(
   agent: Chat,
   request: Request
 ): Promise<Response> {
   try {
-    const requestData = await request.json();
-    const memoData = requestData as EditMemoData;
+    const data = (await request.json()) as RestoreRevisionData;
 
-    if (!memoData.id || !memoData.slug || !memoData.content) {
+    if (!data.slug || typeof data.revision !== "number") {
       return Response.json(
-        { error: "Missing required fields (id, slug, content)" },
+        { error: "Missing required fields (slug, revision)" },
         { status: 400 }
       );
     }
 
-    // Get the current memo to check if it exists and get its vector_id if any
-    const existingMemo =
-      await agent.sql`SELECT * FROM memos WHERE id = ${memoData.id}`;
-
-    if (!existingMemo || existingMemo.length === 0) {
+    const memo =
+      await agent.sql<Memo>`SELECT * FROM memos WHERE slug = ${data.slug}`;
+    if (memo.length === 0) {
       return Response.json(
-        { error: `Memo with ID '${memoData.id}' not found` },
+        { error: `Memo with slug '${data.slug}' not found` },
         { status: 404 }
       );
     }
 
-    // Update the memo in the database
-    const now = new Date().toISOString();
-
-    // Properly handle headers - may already be a JSON string
-    let headers = "{}";
-    if (memoData.headers) {
-      headers =
-        typeof memoData.headers === "string"
-          ? memoData.headers
-          : JSON.stringify(memoData.headers);
-    }
-
-    // Handle links similarly
-    let links = "{}";
-    if (memoData.links) {
-      links =
-        typeof memoData.links === "string"
-          ? memoData.links
-          : JSON.stringify(memoData.links);
-    }
-
-    // Generate updated vector embeddings for the content
-    // Ensure vector_id is a string
-    let vector_id = existingMemo[0].vector_id
-      ? String(existingMemo[0].vector_id)
-      : null;
-    try {
-      // Use existing vector_id or create a new one if none exists
-      if (!vector_id) {
-        vector_id = `memo-${memoData.id}`;
-      }
-
-      // Generate embeddings using the Chat class method
-      const embeddings = await agent.createEmbeddings(memoData.content);
-
-      // Update the vector embedding
-      await agent.storeVectorEmbedding(vector_id, embeddings, {
-        memo_id: memoData.id,
-        slug: memoData.slug,
-      });
-    } catch (error) {
-      console.error("Error updating embeddings:", error);
-      // Continue even if embedding fails - we'll still update the memo
-    }
-
-    // Build SQL query based on whether we have a vector_id or not
-    if (vector_id) {
-      const vector_id_str = String(vector_id);
-      await agent.sql`
-        UPDATE memos
-        SET
-          content = ${memoData.content},
-          headers = ${headers},
-          links = ${links},
-          modified = ${now},
-          vector_id = ${vector_id_str}
-        WHERE id = ${memoData.id}
-      `;
-    } else {
-      await agent.sql`
-        UPDATE memos
-        SET
-          content = ${memoData.content},
-          headers = ${headers},
-          links = ${links},
-          modified = ${now}
-        WHERE id = ${memoData.id}
-      `;
+    const revision = await getMemoRevision(agent, memo[0].id, data.revision);
+    if (!revision) {
+      return Response.json(
+        { error: `Revision ${data.revision} of '${data.slug}' not found` },
+        { status: 404 }
+      );
     }
 
-    // Return the updated memo
-    const updated =
-      await agent.sql`SELECT * FROM memos WHERE id = ${memoData.id}`;
-    const updatedMemo = updated.length > 0 ? updated[0] : null;
+    const updatedMemo = await applyMemoEdit(
+      agent,
+      memo[0],
+      {
+        slug: memo[0].slug,
+        content: revision.content,
+        headers: revision.headers,
+      },
+      data.author || "user"
+    );
 
     return Response.json(updatedMemo, {
       headers: {
@@ -602,11 +1039,11 @@ export async function editMemo(
       },
     });
   } catch (error: unknown) {
-    console.error("Error editing memo:", error);
+    console.error("Error restoring memo revision:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return Response.json(
-      { error: "Failed to edit memo", message: errorMessage },
+      { error: "Failed to restore memo revision", message: errorMessage },
       { status: 500 }
     );
   }
@@ -641,21 +1078,22 @@ export async function deleteMemo(
       );
     }
 
-    // If the memo has a vector_id, delete it from Vectorize
+    // If the memo has a vector_id, delete its passages from the vector store
     const vectorId =
       typeof memo[0].vector_id === "string"
         ? memo[0].vector_id
         : String(memo[0].vector_id);
     if (vectorId) {
       try {
-        await agent.deleteVectorEmbedding(vectorId);
+        await deleteMemoChunks(agent, id);
       } catch (error) {
         console.error(`Error deleting vector embedding for memo ${id}:`, error);
         // Continue with deletion even if vector deletion fails
       }
     }
 
-    // Delete the memo
+    // Delete the memo and its history
+    await deleteMemoRevisions(agent, id);
     await agent.sql`DELETE FROM memos WHERE id = ${id}`;
 
     return Response.json(
@@ -679,6 +1117,56 @@ export async function deleteMemo(
   }
 }
 
+/**
+ * Full-text search over memos, BM25-ranked with highlighted snippets
+ */
+export async function searchMemos(
+  agent: Chat,
+  request: Request
+): Promise<Response> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams(url.search);
+  const query = (params.get("q") || "").trim();
+  const limit = Number.parseInt(params.get("limit") || "20", 10);
+  const offset = Number.parseInt(params.get("offset") || "0", 10);
+  const field = params.get("field");
+
+  if (!query) {
+    return Response.json({ error: "q parameter is required" }, { status: 400 });
+  }
+
+  const columns =
+    field && ["slug", "content", "headers", "summary"].includes(field)
+      ? [field]
+      : undefined;
+
+  try {
+    const [total, items] = await Promise.all([
+      countMemosFts(agent, query, { columns }),
+      searchMemosFts<Memo>(agent, query, { limit, offset, columns }),
+    ]);
+
+    return Response.json(
+      { total, items },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "no-cache",
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error("Error in full-text search:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return Response.json(
+      { error: "Failed to search memos", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * Search for memos by semantic similarity using vector embeddings
  */
@@ -702,46 +1190,10 @@ export async function searchMemosByVector(
     // Generate embeddings for the search query
     const embeddings = await agent.createEmbeddings(query);
 
-    // Query Vectorize for similar vectors
-    const vectorResults = await agent.searchSimilarVectors(embeddings, limit);
-
-    if (
-      !vectorResults ||
-      !vectorResults.matches ||
-      vectorResults.matches.length === 0
-    ) {
-      return Response.json(
-        {
-          count: 0,
-          matches: [],
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*",
-            "Cache-Control": "no-cache",
-          },
-        }
-      );
-    }
-
-    // Extract memo IDs from the vector results
-    const memoIds = vectorResults.matches
-      .filter(
-        (match: any) =>
-          match.metadata &&
-          typeof match.metadata === "object" &&
-          "memo_id" in match.metadata
-      )
-      .map((match: any) =>
-        match.metadata &&
-        typeof match.metadata === "object" &&
-        "memo_id" in match.metadata
-          ? match.metadata.memo_id
-          : ""
-      );
+    // Find the best matching passages
+    const passages = await findMemoPassages(agent, embeddings, { limit });
 
-    if (memoIds.length === 0) {
+    if (passages.length === 0) {
       return Response.json(
         {
           count: 0,
@@ -757,12 +1209,11 @@ export async function searchMemosByVector(
       );
     }
 
-    // Fetch the actual memos
-    // Convert the array to a PostgreSQL-compatible format for IN clause
-    const memoIdsStr = memoIds.map((id: string) => `'${id}'`).join(",");
+    // Fetch the actual memos (ids are bound as one JSON array)
+    const memoIds = [...new Set(passages.map((p) => p.id))];
     const memos = await agent.sql`
       SELECT * FROM memos
-      WHERE id IN (${memoIdsStr})
+      WHERE id IN (SELECT value FROM json_each(${JSON.stringify(memoIds)}))
     `;
 
     // Create a map of memo id to memo object for quick lookup
@@ -771,27 +1222,30 @@ export async function searchMemosByVector(
       memoMap[memo.id] = memo;
     });
 
-    // Enhance vector results with memo content
-    const enhancedMatches = vectorResults.matches.map((match: any) => {
-      const memoId = match.metadata?.memo_id;
-      const memo = memoMap[memoId];
-
-      if (memo) {
-        return {
-          ...match,
-          memo: {
-            id: memo.id,
-            title: memo.title,
-            content: memo.content,
-            created: memo.created,
-            modified: memo.modified,
-            is_pinned: memo.is_pinned,
-            visibility: memo.visibility,
-          },
-        };
-      }
-
-      return match;
+    // Each match is a passage plus the memo it belongs to
+    const enhancedMatches = passages.map((passage) => {
+      const memo = memoMap[passage.id];
+
+      return {
+        id: passage.id,
+        score: passage.similarity,
+        passage: {
+          section: passage.section,
+          start: passage.start,
+          end: passage.end,
+          content: passage.content,
+          citation: passage.citation,
+        },
+        memo: memo && {
+          id: memo.id,
+          title: memo.title,
+          content: memo.content,
+          created: memo.created,
+          modified: memo.modified,
+          is_pinned: memo.is_pinned,
+          visibility: memo.visibility,
+        },
+      };
     });
 
     // Return the enhanced results
@@ -958,14 +1412,26 @@ export async function handleMemosApi(
 ): Promise<Response | null> {
   const url = new URL(request.url);
 
-  // Ensure the memos table exists
-  await initMemosTable(agent);
-
   // Route to the appropriate handler based on the URL path
   if (url.pathname.includes("list-memos")) {
     return listMemos(agent, request);
+  } else if (url.pathname.endsWith("/threads")) {
+    return listThreadsPage(agent, request);
+  } else if (url.pathname.endsWith("/replies")) {
+    return listRepliesPage(agent, request);
   } else if (url.pathname.includes("find-backlinks")) {
     return findBacklinks(agent, request);
+  } else if (url.pathname.includes("memo-links")) {
+    return memoLinks(agent, request);
+  } else if (url.pathname.includes("broken-links")) {
+    return brokenLinks(agent, request);
+  } else if (url.pathname.includes("resolve-links")) {
+    return resolveLinks(agent, request);
+  } else if (
+    url.pathname.includes("create-stub") &&
+    request.method === "POST"
+  ) {
+    return createStub(agent, request);
   } else if (url.pathname.includes("get-memo")) {
     return getMemo(agent, request);
   } else if (
@@ -975,13 +1441,34 @@ export async function handleMemosApi(
     return createMemo(agent, request);
   } else if (url.pathname.includes("edit-memo") && request.method === "POST") {
     return editMemo(agent, request);
+  } else if (
+    url.pathname.includes("rename-memo") &&
+    request.method === "POST"
+  ) {
+    return renameMemo(agent, request);
+  } else if (
+    url.pathname.includes("import-vault") &&
+    request.method === "POST"
+  ) {
+    return importVault(agent, request);
   } else if (
     url.pathname.includes("delete-memo") &&
     (request.method === "DELETE" || request.method === "GET")
   ) {
     return deleteMemo(agent, request);
+  } else if (url.pathname.includes("memo-revisions")) {
+    return listRevisions(agent, request);
+  } else if (url.pathname.includes("memo-revision-diff")) {
+    return diffRevisions(agent, request);
+  } else if (
+    url.pathname.includes("restore-memo-revision") &&
+    request.method === "POST"
+  ) {
+    return restoreRevision(agent, request);
   } else if (url.pathname.includes("search-memos-vector")) {
     return searchMemosByVector(agent, request);
+  } else if (url.pathname.endsWith("search-memos")) {
+    return searchMemos(agent, request);
   } else if (url.pathname.includes("realtime-token")) {
     return createRealtimeSession(agent, request);
   } else if (url.pathname.includes("dump-all-memos")) {
@@ -0,0 +1,715 @@
+/**
+ * Versioned schema migrations for the Chat Durable Object
+ * -------------------------------------------------------
+ * Every table the agent owns is created and evolved here, in order, exactly
+ * once per Durable Object. `runMigrations` is called from `Chat.onStart`, so
+ * by the time any request handler or tool runs the schema is up to date and
+ * no code path needs its own `CREATE TABLE IF NOT EXISTS`.
+ *
+ * Rules for adding a migration:
+ *  - append it to MIGRATIONS with the next version number
+ *  - never edit or reorder a migration that has already shipped
+ *  - keep `up` idempotent: older instances may already have some of these
+ *    tables/columns from before the migration system existed
+ */
+import type { Chat } from "./server";
+import { parseWikiLinks } from "./memo-links";
+import { startEmbeddingJob } from "./reindex";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type Migration = {
+  version: number;
+  name: string;
+  up: (agent: Chat) => void | Promise<void>;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  applied_at: string; // ISO
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+function columnExists(agent: Chat, table: string, column: string): boolean {
+  const rows = agent.sql<{ count: number }>`
+    SELECT COUNT(*) AS count FROM pragma_table_info(${table}) WHERE name = ${column}`;
+  return (rows[0]?.count ?? 0) > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_memos",
+    up: (agent) => {
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS memos (
+          id       TEXT PRIMARY KEY,
+          slug     TEXT UNIQUE NOT NULL,
+          content  TEXT NOT NULL,
+          headers  TEXT NOT NULL,
+          links    TEXT NOT NULL,
+          created  TEXT NOT NULL,
+          modified TEXT NOT NULL
+        )`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_memos_slug ON memos(slug)`;
+    },
+  },
+  {
+    version: 2,
+    name: "memos_threading_columns",
+    up: (agent) => {
+      if (!columnExists(agent, "memos", "vector_id")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN vector_id TEXT`;
+      }
+      if (!columnExists(agent, "memos", "parent_id")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN parent_id TEXT`;
+      }
+      if (!columnExists(agent, "memos", "author")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN author TEXT DEFAULT 'user'`;
+      }
+      if (!columnExists(agent, "memos", "summary")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN summary TEXT`;
+      }
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_memos_parent ON memos(parent_id)`;
+    },
+  },
+  {
+    version: 3,
+    name: "create_fragments",
+    up: (agent) => {
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS fragments (
+          id        TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+          slug      TEXT UNIQUE NOT NULL,
+          content   TEXT NOT NULL,
+          speaker   TEXT,
+          ts        TEXT NOT NULL,
+          convo_id  TEXT,
+          metadata  TEXT NOT NULL,
+          vector_id TEXT,
+          created   TEXT NOT NULL,
+          modified  TEXT NOT NULL
+        )`;
+      // Tables created by the old list/graph endpoints had no vector_id
+      if (!columnExists(agent, "fragments", "vector_id")) {
+        agent.sql`ALTER TABLE fragments ADD COLUMN vector_id TEXT`;
+      }
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_fragments_convo  ON fragments(convo_id)`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_fragments_vector ON fragments(vector_id)`;
+
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS fragment_edges (
+          id       TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+          from_id  TEXT NOT NULL,
+          to_id    TEXT NOT NULL,
+          rel      TEXT NOT NULL,
+          weight   REAL,
+          metadata TEXT NOT NULL,
+          created  TEXT NOT NULL
+        )`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_edges_from ON fragment_edges(from_id)`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_edges_to   ON fragment_edges(to_id)`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_edges_rel  ON fragment_edges(rel)`;
+    },
+  },
+  {
+    version: 4,
+    name: "create_reactions",
+    up: (agent) => {
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS reactions (
+          id      TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+          memo_id TEXT NOT NULL,
+          emoji   TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(memo_id, emoji, user_id),
+          FOREIGN KEY (memo_id) REFERENCES memos (id) ON DELETE CASCADE
+        )`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_reactions_memo ON reactions(memo_id)`;
+    },
+  },
+  {
+    version: 5,
+    name: "create_emoji_personas",
+    up: (agent) => {
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS emoji_personas (
+          id               TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+          emoji            TEXT NOT NULL UNIQUE,
+          name             TEXT NOT NULL,
+          description      TEXT NOT NULL,
+          instructions     TEXT NOT NULL,
+          model_preference TEXT,
+          created          TEXT DEFAULT CURRENT_TIMESTAMP,
+          modified         TEXT DEFAULT CURRENT_TIMESTAMP
+        )`;
+    },
+  },
+  {
+    version: 6,
+    name: "create_memo_revisions",
+    up: (agent) => {
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS memo_revisions (
+          id       TEXT PRIMARY KEY,
+          memo_id  TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          content  TEXT NOT NULL,
+          headers  TEXT NOT NULL,
+          author   TEXT NOT NULL,
+          created  TEXT NOT NULL,
+          UNIQUE(memo_id, revision),
+          FOREIGN KEY (memo_id) REFERENCES memos (id) ON DELETE CASCADE
+        )`;
+      agent.sql`CREATE INDEX IF NOT EXISTS idx_memo_revisions_memo ON memo_revisions(memo_id)`;
+    },
+  },
+  {
+    version: 7,
+    name: "unique_fragment_edges",
+    up: (agent) => {
+      // Collapse duplicates that piled up before the rule, keeping the oldest
+      agent.sql`
+        DELETE FROM fragment_edges
+        WHERE id NOT IN (
+          SELECT id FROM (
+            SELECT id, ROW_NUMBER() OVER (
+              PARTITION BY from_id, to_id, rel ORDER BY created ASC, id ASC
+            ) AS rn
+            FROM fragment_edges
+          ) WHERE rn = 1
+        )`;
+      agent.sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_edges_unique
+        ON fragment_edges(from_id, to_id, rel)`;
+    },
+  },
+  {
+    version: 8,
+    name: "full_text_search",
+    up: (agent) => {
+      // External-content FTS5 indexes; see fts.ts for querying
+      agent.sql`
+        CREATE VIRTUAL TABLE IF NOT EXISTS memos_fts USING fts5(
+          slug, content, headers, summary,
+          content='memos', tokenize='porter unicode61'
+        )`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_fts_insert AFTER INSERT ON memos BEGIN
+          INSERT INTO memos_fts (rowid, slug, content, headers, summary)
+          VALUES (new.rowid, new.slug, new.content, new.headers, new.summary);
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_fts_delete AFTER DELETE ON memos BEGIN
+          INSERT INTO memos_fts (memos_fts, rowid, slug, content, headers, summary)
+          VALUES ('delete', old.rowid, old.slug, old.content, old.headers, old.summary);
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_fts_update
+        AFTER UPDATE OF slug, content, headers, summary ON memos BEGIN
+          INSERT INTO memos_fts (memos_fts, rowid, slug, content, headers, summary)
+          VALUES ('delete', old.rowid, old.slug, old.content, old.headers, old.summary);
+          INSERT INTO memos_fts (rowid, slug, content, headers, summary)
+          VALUES (new.rowid, new.slug, new.content, new.headers, new.summary);
+        END`;
+      agent.sql`INSERT INTO memos_fts (memos_fts) VALUES ('rebuild')`;
+
+      agent.sql`
+        CREATE VIRTUAL TABLE IF NOT EXISTS fragments_fts USING fts5(
+          slug, content, metadata,
+          content='fragments', tokenize='porter unicode61'
+        )`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_fts_insert AFTER INSERT ON fragments BEGIN
+          INSERT INTO fragments_fts (rowid, slug, content, metadata)
+          VALUES (new.rowid, new.slug, new.content, new.metadata);
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_fts_delete AFTER DELETE ON fragments BEGIN
+          INSERT INTO fragments_fts (fragments_fts, rowid, slug, content, metadata)
+          VALUES ('delete', old.rowid, old.slug, old.content, old.metadata);
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_fts_update
+        AFTER UPDATE OF slug, content, metadata ON fragments BEGIN
+          INSERT INTO fragments_fts (fragments_fts, rowid, slug, content, metadata)
+          VALUES ('delete', old.rowid, old.slug, old.content, old.metadata);
+          INSERT INTO fragments_fts (rowid, slug, content, metadata)
+          VALUES (new.rowid, new.slug, new.content, new.metadata);
+        END`;
+      agent.sql`INSERT INTO fragments_fts (fragments_fts) VALUES ('rebuild')`;
+    },
+  },
+  {
+    version: 9,
+    name: "embedding_jobs",
+    up: (agent) => {
+      // Which model produced each row's vector; NULL means unknown (embedded
+      // before this was tracked) and is treated as stale by the re-index job
+      if (!columnExists(agent, "memos", "embedding_model")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN embedding_model TEXT`;
+      }
+      if (!columnExists(agent, "memos", "embedded_at")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN embedded_at TEXT`;
+      }
+      if (!columnExists(agent, "fragments", "embedding_model")) {
+        agent.sql`ALTER TABLE fragments ADD COLUMN embedding_model TEXT`;
+      }
+      if (!columnExists(agent, "fragments", "embedded_at")) {
+        agent.sql`ALTER TABLE fragments ADD COLUMN embedded_at TEXT`;
+      }
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS embedding_jobs (
+          id         TEXT PRIMARY KEY,
+          status     TEXT NOT NULL,               -- running | completed | cancelled
+          model      TEXT NOT NULL,
+          force      INTEGER NOT NULL DEFAULT 0,  -- re-embed everything
+          kind       TEXT NOT NULL,               -- entity kind being processed
+          cursor     TEXT NOT NULL DEFAULT '',    -- last id processed in kind
+          processed  INTEGER NOT NULL DEFAULT 0,
+          failed     INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created    TEXT NOT NULL,
+          updated    TEXT NOT NULL,
+          finished   TEXT
+        )`;
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS embedding_failures (
+          job_id    TEXT NOT NULL,
+          kind      TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          slug      TEXT NOT NULL,
+          error     TEXT NOT NULL,
+          created   TEXT NOT NULL,
+          PRIMARY KEY (job_id, kind, entity_id)
+        )`;
+    },
+  },
+  {
+    version: 10,
+    name: "embedding_dimensions",
+    up: (agent) => {
+      // NULL means the vector predates this column, when every vector was 768-d
+      if (!columnExists(agent, "memos", "embedding_dimensions")) {
+        agent.sql`ALTER TABLE memos ADD COLUMN embedding_dimensions INTEGER`;
+      }
+      if (!columnExists(agent, "fragments", "embedding_dimensions")) {
+        agent.sql`ALTER TABLE fragments ADD COLUMN embedding_dimensions INTEGER`;
+      }
+    },
+  },
+  {
+    version: 11,
+    name: "sqlite_vector_store",
+    up: (agent) => {
+      // Backs the SQLite VectorStore (see vector-store.ts); embedding is float32
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS vectors (
+          id         TEXT PRIMARY KEY,
+          namespace  TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          embedding  BLOB NOT NULL,
+          metadata   TEXT,
+          updated    TEXT NOT NULL
+        )`;
+      agent.sql`
+        CREATE INDEX IF NOT EXISTS idx_vectors_namespace
+        ON vectors(namespace, dimensions)`;
+    },
+  },
+  {
+    version: 12,
+    name: "memo_chunks",
+    up: (agent) => {
+      // Passages of a memo and their offsets (see memo-chunks.ts)
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS memo_chunks (
+          id           TEXT PRIMARY KEY,
+          memo_id      TEXT NOT NULL,
+          chunk_index  INTEGER NOT NULL,
+          section      TEXT NOT NULL DEFAULT '',
+          start_offset INTEGER NOT NULL,
+          end_offset   INTEGER NOT NULL,
+          content      TEXT NOT NULL,
+          created      TEXT NOT NULL
+        )`;
+      agent.sql`
+        CREATE INDEX IF NOT EXISTS idx_memo_chunks_memo
+        ON memo_chunks(memo_id, chunk_index)`;
+
+      // Existing whole-memo vectors count as stale so a re-index chunks them
+      agent.sql`
+        UPDATE memos SET embedding_model = NULL
+        WHERE vector_id IS NOT NULL
+          AND id NOT IN (SELECT memo_id FROM memo_chunks)`;
+    },
+  },
+  {
+    version: 13,
+    name: "embedding_cache",
+    up: (agent) => {
+      // Content-hash keyed vectors, see embedding-cache.ts
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS embedding_cache (
+          model      TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          hash       TEXT NOT NULL,
+          embedding  BLOB NOT NULL,
+          created    TEXT NOT NULL,
+          PRIMARY KEY (model, dimensions, hash)
+        )`;
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS embedding_cache_stats (
+          name  TEXT PRIMARY KEY,
+          value INTEGER NOT NULL DEFAULT 0
+        )`;
+    },
+  },
+  {
+    version: 14,
+    name: "relation_types",
+    up: (agent) => {
+      // Registry of edge verbs, see relation-types.ts
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS relation_types (
+          name        TEXT PRIMARY KEY,
+          inverse     TEXT UNIQUE,
+          symmetric   INTEGER NOT NULL DEFAULT 0,
+          description TEXT NOT NULL DEFAULT '',
+          color       TEXT,
+          created     TEXT NOT NULL,
+          modified    TEXT NOT NULL
+        )`;
+
+      const now = new Date().toISOString();
+      const seeds: [string, string | null, string, string][] = [
+        [
+          "example_of",
+          "has_example",
+          "Concrete instance of an abstract concept",
+          "#3b82f6",
+        ],
+        [
+          "abstracts",
+          "abstracted_from",
+          "General principle drawn from a specific case",
+          "#8b5cf6",
+        ],
+        [
+          "generalizes_to",
+          "generalized_from",
+          "Broader application of an idea",
+          "#6366f1",
+        ],
+        ["metaphor_for", "has_metaphor", "Analogical connection", "#ec4899"],
+        ["requires", "required_by", "Dependency", "#f59e0b"],
+        ["supports", "supported_by", "Supporting evidence", "#22c55e"],
+        ["part_of", "has_part", "Component of a larger whole", "#14b8a6"],
+        ["contradicts", null, "Opposing ideas", "#ef4444"],
+        ["related_to", null, "General association", "#9ca3af"],
+      ];
+      for (const [name, inverse, description, color] of seeds) {
+        agent.sql`
+          INSERT OR IGNORE INTO relation_types (name, inverse, symmetric, description, color, created, modified)
+          VALUES (${name}, ${inverse}, ${inverse ? 0 : 1}, ${description}, ${color}, ${now}, ${now})`;
+      }
+    },
+  },
+  {
+    version: 15,
+    name: "graph_analytics",
+    up: (agent) => {
+      // Cached analytics over the fragment graph, see graph-analytics.ts
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS graph_analytics (
+          id          INTEGER PRIMARY KEY CHECK (id = 1),
+          result      TEXT,
+          computed_at TEXT,
+          dirty       INTEGER NOT NULL DEFAULT 1,
+          scheduled   INTEGER NOT NULL DEFAULT 0
+        )`;
+      agent.sql`INSERT OR IGNORE INTO graph_analytics (id) VALUES (1)`;
+
+      // Any change to the graph makes the cached result stale
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_graph_insert AFTER INSERT ON fragments BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_graph_delete AFTER DELETE ON fragments BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_graph_update AFTER UPDATE OF slug ON fragments BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS edges_graph_insert AFTER INSERT ON fragment_edges BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS edges_graph_delete AFTER DELETE ON fragment_edges BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS edges_graph_update AFTER UPDATE ON fragment_edges BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS relation_types_graph_update
+        AFTER UPDATE OF symmetric ON relation_types BEGIN
+          UPDATE graph_analytics SET dirty = 1 WHERE id = 1;
+        END`;
+    },
+  },
+  {
+    version: 16,
+    name: "typed_link_endpoints",
+    up: (agent) => {
+      // Either end of an edge may be a memo, reply or fragment
+      if (!columnExists(agent, "fragment_edges", "from_kind")) {
+        agent.sql`
+          ALTER TABLE fragment_edges ADD COLUMN from_kind TEXT NOT NULL DEFAULT 'fragment'`;
+      }
+      if (!columnExists(agent, "fragment_edges", "to_kind")) {
+        agent.sql`
+          ALTER TABLE fragment_edges ADD COLUMN to_kind TEXT NOT NULL DEFAULT 'fragment'`;
+      }
+
+      // /link-fragments has been storing memo ids as from_id
+      agent.sql`
+        UPDATE fragment_edges
+        SET from_kind = (
+          SELECT CASE WHEN parent_id IS NULL THEN 'memo' ELSE 'reply' END
+          FROM memos WHERE memos.id = fragment_edges.from_id
+        )
+        WHERE from_id IN (SELECT id FROM memos)
+          AND from_id NOT IN (SELECT id FROM fragments)`;
+      agent.sql`
+        UPDATE fragment_edges
+        SET to_kind = (
+          SELECT CASE WHEN parent_id IS NULL THEN 'memo' ELSE 'reply' END
+          FROM memos WHERE memos.id = fragment_edges.to_id
+        )
+        WHERE to_id IN (SELECT id FROM memos)
+          AND to_id NOT IN (SELECT id FROM fragments)`;
+
+      // Memos are deleted from several places; their links go with them
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_edges_delete AFTER DELETE ON memos BEGIN
+          DELETE FROM fragment_edges WHERE from_id = old.id OR to_id = old.id;
+        END`;
+    },
+  },
+  {
+    version: 17,
+    name: "memo_links",
+    up: (agent) => {
+      // Index of [[slug#anchor]] references, see memo-links.ts
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS memo_links (
+          source_id   TEXT NOT NULL,
+          target_slug TEXT NOT NULL,
+          target_kind TEXT NOT NULL,          -- memo | fragment | unresolved
+          anchor      TEXT NOT NULL DEFAULT '',
+          PRIMARY KEY (source_id, target_slug, anchor)
+        )`;
+      agent.sql`
+        CREATE INDEX IF NOT EXISTS idx_memo_links_target
+        ON memo_links(target_slug, source_id)`;
+      agent.sql`
+        CREATE INDEX IF NOT EXISTS idx_memo_links_kind
+        ON memo_links(target_kind)`;
+
+      // A memo's links go with it; links to it fall back to a fragment
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_links_insert AFTER INSERT ON memos BEGIN
+          UPDATE memo_links SET target_kind = 'memo' WHERE target_slug = new.slug;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_links_delete AFTER DELETE ON memos BEGIN
+          DELETE FROM memo_links WHERE source_id = old.id;
+          UPDATE memo_links
+          SET target_kind = CASE
+            WHEN EXISTS (SELECT 1 FROM fragments WHERE slug = old.slug) THEN 'fragment'
+            ELSE 'unresolved' END
+          WHERE target_slug = old.slug;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_links_slug AFTER UPDATE OF slug ON memos BEGIN
+          UPDATE memo_links
+          SET target_kind = CASE
+            WHEN EXISTS (SELECT 1 FROM fragments WHERE slug = old.slug) THEN 'fragment'
+            ELSE 'unresolved' END
+          WHERE target_slug = old.slug;
+          UPDATE memo_links SET target_kind = 'memo' WHERE target_slug = new.slug;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_links_insert AFTER INSERT ON fragments BEGIN
+          UPDATE memo_links SET target_kind = 'fragment'
+          WHERE target_slug = new.slug AND target_kind = 'unresolved';
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_links_delete AFTER DELETE ON fragments BEGIN
+          UPDATE memo_links SET target_kind = 'unresolved'
+          WHERE target_slug = old.slug AND target_kind = 'fragment';
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_links_slug AFTER UPDATE OF slug ON fragments BEGIN
+          UPDATE memo_links SET target_kind = 'unresolved'
+          WHERE target_slug = old.slug AND target_kind = 'fragment';
+          UPDATE memo_links SET target_kind = 'fragment'
+          WHERE target_slug = new.slug AND target_kind = 'unresolved';
+        END`;
+
+      // Index existing content, then drop the JSON column it replaces
+      const memos = agent.sql<{ id: string; content: string }>`
+        SELECT id, content FROM memos`;
+      for (const memo of memos) {
+        for (const link of parseWikiLinks(memo.content)) {
+          agent.sql`
+            INSERT OR IGNORE INTO memo_links (source_id, target_slug, target_kind, anchor)
+            SELECT ${memo.id}, ${link.slug},
+              CASE
+                WHEN EXISTS (SELECT 1 FROM memos WHERE slug = ${link.slug}) THEN 'memo'
+                WHEN EXISTS (SELECT 1 FROM fragments WHERE slug = ${link.slug}) THEN 'fragment'
+                ELSE 'unresolved'
+              END,
+              ${link.anchor}`;
+        }
+      }
+      if (columnExists(agent, "memos", "links")) {
+        agent.sql`ALTER TABLE memos DROP COLUMN links`;
+      }
+    },
+  },
+  {
+    version: 18,
+    name: "slug_aliases",
+    up: (agent) => {
+      // Old slugs of renamed memos and fragments, see slug-rename.ts
+      agent.sql`
+        CREATE TABLE IF NOT EXISTS slug_aliases (
+          kind      TEXT NOT NULL,            -- memo | fragment
+          old_slug  TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          created   TEXT NOT NULL,
+          PRIMARY KEY (kind, old_slug)
+        )`;
+      agent.sql`
+        CREATE INDEX IF NOT EXISTS idx_slug_aliases_target
+        ON slug_aliases(target_id)`;
+
+      // Aliases go with their memo or fragment
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS memos_aliases_delete AFTER DELETE ON memos BEGIN
+          DELETE FROM slug_aliases WHERE kind = 'memo' AND target_id = old.id;
+        END`;
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS fragments_aliases_delete AFTER DELETE ON fragments BEGIN
+          DELETE FROM slug_aliases WHERE kind = 'fragment' AND target_id = old.id;
+        END`;
+
+      // Links that resolved through a dropped alias resolve afresh
+      agent.sql`
+        CREATE TRIGGER IF NOT EXISTS slug_aliases_links_delete AFTER DELETE ON slug_aliases BEGIN
+          UPDATE memo_links
+          SET target_kind = CASE
+            WHEN EXISTS (SELECT 1 FROM memos WHERE slug = old.old_slug) THEN 'memo'
+            WHEN EXISTS (SELECT 1 FROM fragments WHERE slug = old.old_slug) THEN 'fragment'
+            WHEN EXISTS (SELECT 1 FROM slug_aliases WHERE old_slug = old.old_slug AND kind = 'memo') THEN 'memo'
+            WHEN EXISTS (SELECT 1 FROM slug_aliases WHERE old_slug = old.old_slug) THEN 'fragment'
+            ELSE 'unresolved' END
+          WHERE target_slug = old.old_slug;
+        END`;
+    },
+  },
+  {
+    version: 19,
+    name: "namespaced_vectors_backfill",
+    up: async (agent) => {
+      // Vectors written before kind namespaces have none, so the per-kind
+      // queries can't find them. Their rows predate embedding_model (or were
+      // marked stale since), so an embedding job re-embeds them in place.
+      const rows = agent.sql<{ count: number }>`
+        SELECT (SELECT COUNT(*) FROM memos WHERE embedding_model IS NULL)
+             + (SELECT COUNT(*) FROM fragments WHERE embedding_model IS NULL) AS count`;
+      if (rows[0]?.count) {
+        await startEmbeddingJob(agent);
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION =
+  MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+function ensureMigrationsTable(agent: Chat) {
+  agent.sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`;
+}
+
+/**
+ * List the migrations that have been applied to this Durable Object.
+ */
+export function getAppliedMigrations(agent: Chat): AppliedMigration[] {
+  ensureMigrationsTable(agent);
+  return agent.sql<AppliedMigration>`
+    SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC`;
+}
+
+/**
+ * Current schema version (0 when nothing has been applied yet).
+ */
+export function getSchemaVersion(agent: Chat): number {
+  ensureMigrationsTable(agent);
+  const rows = agent.sql<{ version: number | null }>`
+    SELECT MAX(version) AS version FROM schema_migrations`;
+  return rows[0]?.version ?? 0;
+}
+
+/**
+ * Apply every pending migration in version order. Each migration is recorded
+ * as soon as it succeeds, so a failure part-way leaves earlier versions
+ * applied and the failing one is retried on the next start.
+ */
+export async function runMigrations(agent: Chat): Promise<number> {
+  const current = getSchemaVersion(agent);
+  const pending = MIGRATIONS.filter((m) => m.version > current).sort(
+    (a, b) => a.version - b.version
+  );
+
+  for (const migration of pending) {
+    try {
+      await migration.up(agent);
+      const now = new Date().toISOString();
+      agent.sql`
+        INSERT INTO schema_migrations (version, name, applied_at)
+        VALUES (${migration.version}, ${migration.name}, ${now})`;
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    } catch (error) {
+      console.error(
+        `Migration ${migration.version} (${migration.name}) failed:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  return getSchemaVersion(agent);
+}
@@ -0,0 +1,1122 @@
+/**
+ * Notebook archives
+ * -----------------
+ * A versioned JSON export of everything a notebook owns, and the import that
+ * restores one into this or another instance (`/export-notebook`,
+ * `/import-notebook`):
+ *
+ *   memos, fragments, fragment_edges, reactions, emoji_personas,
+ *   relation_types  rows, without their embedding bookkeeping
+ *   schedules       scheduled tasks (`executeTask`); internal callbacks such
+ *                   as embedding batches are not exported
+ *   settings        the selected model
+ *   embeddings      optional: the embedding cache for the current model, so
+ *                   re-embedding an import costs no provider calls
+ *
+ * Derived data (FTS indexes, memo_links, passages, vectors, graph analytics)
+ * is rebuilt rather than exported: imported memos have their links indexed
+ * and an embedding job embeds everything imported. Memo revisions and slug
+ * aliases are not part of an archive.
+ *
+ * Import modes
+ *  - replace  delete the notebook's items (and their vectors) first, then
+ *             insert the archive as it is, settings included
+ *  - merge    match archive items to local ones by natural key (slug, emoji,
+ *             verb name, edge endpoints and verb, reaction memo/emoji/user).
+ *             Identical items are left alone; differing ones are conflicts,
+ *             kept local (`on_conflict=skip`) or overwritten with the
+ *             archive's version (`overwrite`). Archive ids already used by
+ *             another local item get fresh ids, and references (parent_id,
+ *             edge endpoints, reaction memo_id) follow remapped and matched
+ *             items.
+ *
+ * An archive with two rows for one key (say two memos with the same slug)
+ * is rejected whole: its duplicates are reported as conflicts and nothing
+ * is written. The rows themselves are written in one transaction, so a
+ * failed import leaves the notebook as it was.
+ *
+ * A dry run plans the import and returns the same report without writing.
+ */
+import type { Chat } from "./server";
+import type { FragmentOpResult } from "./fragment-tools";
+import type { EmbeddingCacheStore } from "./embedding-cache";
+import type { RelationType } from "./relation-types";
+import { LATEST_SCHEMA_VERSION } from "./migrations";
+import { indexMemoLinks } from "./memo-links";
+import { recordMemoRevision } from "./memo-revisions";
+import { startEmbeddingJob } from "./reindex";
+import { decodeVector, encodeVector } from "./vector-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export const ARCHIVE_FORMAT = "samantabhadra-notebook";
+export const ARCHIVE_VERSION = 1;
+
+// The schedule callback of user tasks (see tools.ts scheduleTask)
+const TASK_CALLBACK = "executeTask";
+
+// Vectorize takes at most this many ids per delete
+const VECTOR_DELETE_BATCH = 100;
+
+export type ArchiveMemo = {
+  id: string;
+  slug: string;
+  content: string;
+  headers: string; // JSON string
+  created: string;
+  modified: string;
+  parent_id: string | null;
+  author: string | null;
+  summary: string | null;
+};
+
+export type ArchiveFragment = {
+  id: string;
+  slug: string;
+  content: string;
+  speaker: string | null;
+  ts: string;
+  convo_id: string | null;
+  metadata: string; // JSON string
+  created: string;
+  modified: string;
+};
+
+export type ArchiveEdge = {
+  id: string;
+  from_id: string;
+  from_kind: string; // memo | reply | fragment
+  to_id: string;
+  to_kind: string;
+  rel: string;
+  weight: number | null;
+  metadata: string; // JSON string
+  created: string;
+};
+
+export type ArchiveReaction = {
+  id: string;
+  memo_id: string;
+  emoji: string;
+  user_id: string;
+  created: string | null;
+};
+
+export type ArchivePersona = {
+  id: string;
+  emoji: string;
+  name: string;
+  description: string;
+  instructions: string;
+  model_preference: string | null;
+  created: string | null;
+  modified: string | null;
+};
+
+export type ArchiveSchedule = {
+  callback: string;
+  payload: string;
+  type: "scheduled" | "delayed" | "cron";
+  time: number; // unix seconds of the next run
+  cron?: string;
+};
+
+export type NotebookSettings = {
+  currentModelName?: string;
+};
+
+export type ArchiveEmbeddings = {
+  model: string;
+  dimensions: number;
+  entries: { hash: string; vector: string }[]; // base64 float32
+};
+
+export type NotebookItems = {
+  memos: ArchiveMemo[];
+  fragments: ArchiveFragment[];
+  fragment_edges: ArchiveEdge[];
+  reactions: ArchiveReaction[];
+  emoji_personas: ArchivePersona[];
+  relation_types: RelationType[];
+  schedules: ArchiveSchedule[];
+};
+
+export type ArchiveSection = keyof NotebookItems;
+
+export type NotebookArchive = NotebookItems & {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  schema_version: number; // of the exporting instance, for reference
+  exported_at: string; // ISO
+  settings: NotebookSettings;
+  embeddings?: ArchiveEmbeddings;
+};
+
+export type ImportOptions = {
+  mode?: "merge" | "replace";
+  on_conflict?: "skip" | "overwrite";
+  dry_run?: boolean;
+};
+
+export type SectionCounts = {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+};
+
+export type ImportConflict = {
+  section: ArchiveSection;
+  key: string; // slug, emoji, verb name, ...
+  local_id: string; // for a duplicate, the earlier archive row's id
+  fields: string[]; // fields that differ
+  resolution: "kept_local" | "overwritten" | "rejected";
+};
+
+export type ImportReport = {
+  mode: "merge" | "replace";
+  dry_run: boolean;
+  counts: Record<ArchiveSection, SectionCounts>;
+  remapped: { section: ArchiveSection; from: string; to: string }[];
+  conflicts: ImportConflict[];
+  skipped: { section: ArchiveSection; id: string; reason: string }[];
+  settings: string[]; // settings changed
+  embeddings: number; // cache entries restored
+  embedding_job: string | null; // job embedding the imported items
+};
+
+type SectionOps = {
+  [S in ArchiveSection]: { insert: NotebookItems[S]; update: NotebookItems[S] };
+};
+
+export type ImportPlan = {
+  report: ImportReport;
+  ops: SectionOps;
+};
+
+const SECTIONS: ArchiveSection[] = [
+  "memos",
+  "fragments",
+  "fragment_edges",
+  "reactions",
+  "emoji_personas",
+  "relation_types",
+  "schedules",
+];
+
+// Fields every row of a section must have as strings
+const REQUIRED_FIELDS: Record<ArchiveSection, string[]> = {
+  memos: ["id", "slug", "content", "headers", "created", "modified"],
+  fragments: ["id", "slug", "content", "ts", "metadata", "created", "modified"],
+  fragment_edges: ["id", "from_id", "from_kind", "to_id", "to_kind", "rel"],
+  reactions: ["id", "memo_id", "emoji", "user_id"],
+  emoji_personas: ["id", "emoji", "name", "description", "instructions"],
+  relation_types: ["name", "description", "created", "modified"],
+  schedules: ["callback", "payload", "type"],
+};
+
+// ---------------------------------------------------------------------------
+// Embeddings
+// ---------------------------------------------------------------------------
+
+/**
+ * A vector as base64 little-endian float32, for JSON.
+ */
+export function encodeEmbedding(values: ArrayLike<number>): string {
+  const bytes = new Uint8Array(encodeVector(Array.from(values)));
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function decodeEmbedding(text: string): number[] {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return Array.from(decodeVector(bytes));
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Every item of the notebook, in archive shape.
+ */
+async function readItems(agent: Chat): Promise<NotebookItems> {
+  const memos = await agent.sql<ArchiveMemo>`
+    SELECT id, slug, content, headers, created, modified, parent_id, author, summary
+    FROM memos ORDER BY created ASC, id ASC`;
+  const fragments = await agent.sql<ArchiveFragment>`
+    SELECT id, slug, content, speaker, ts, convo_id, metadata, created, modified
+    FROM fragments ORDER BY created ASC, id ASC`;
+  const fragment_edges = await agent.sql<ArchiveEdge>`
+    SELECT id, from_id, from_kind, to_id, to_kind, rel, weight, metadata, created
+    FROM fragment_edges ORDER BY created ASC, id ASC`;
+  const reactions = await agent.sql<ArchiveReaction>`
+    SELECT id, memo_id, emoji, user_id, created
+    FROM reactions ORDER BY created ASC, id ASC`;
+  const emoji_personas = await agent.sql<ArchivePersona>`
+    SELECT id, emoji, name, description, instructions, model_preference, created, modified
+    FROM emoji_personas ORDER BY created ASC, id ASC`;
+  const relation_types = await agent.sql<RelationType>`
+    SELECT name, inverse, symmetric, description, color, created, modified
+    FROM relation_types ORDER BY name ASC`;
+  const schedules = agent
+    .getSchedules()
+    .filter((schedule) => schedule.callback === TASK_CALLBACK)
+    .map((schedule) => ({
+      callback: schedule.callback,
+      payload: String(schedule.payload),
+      type: schedule.type,
+      time: schedule.time,
+      ...(schedule.type === "cron" ? { cron: schedule.cron } : {}),
+    }));
+
+  return {
+    memos,
+    fragments,
+    fragment_edges,
+    reactions,
+    emoji_personas,
+    relation_types,
+    schedules,
+  };
+}
+
+/**
+ * The notebook as an archive; with `embeddings`, the embedding cache entries
+ * for the current model come along.
+ */
+export async function exportNotebook(
+  agent: Chat,
+  { embeddings = false }: { embeddings?: boolean } = {}
+): Promise<NotebookArchive> {
+  const archive: NotebookArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schema_version: LATEST_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    ...(await readItems(agent)),
+    settings: { currentModelName: agent.state?.currentModelName },
+  };
+
+  if (embeddings) {
+    const { model, dimensions } = agent.embeddings;
+    const rows = await agent.sql<{ hash: string; embedding: ArrayBuffer }>`
+      SELECT hash, embedding FROM embedding_cache
+      WHERE model = ${model} AND dimensions = ${dimensions}`;
+    archive.embeddings = {
+      model,
+      dimensions,
+      entries: rows.map((row) => ({
+        hash: row.hash,
+        vector: encodeEmbedding(decodeVector(row.embedding)),
+      })),
+    };
+  }
+
+  return archive;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Check that `input` is an archive this version can import.
+ */
+export function parseArchive(
+  input: unknown
+): FragmentOpResult<NotebookArchive> {
+  const invalid = (error: string) =>
+    ({ ok: false, status: 400, error }) as const;
+
+  if (!input || typeof input !== "object") {
+    return invalid("Archive must be a JSON object.");
+  }
+  const archive = input as Partial<NotebookArchive>;
+  if (archive.format !== ARCHIVE_FORMAT) {
+    return invalid(
+      `Not a notebook archive (format must be '${ARCHIVE_FORMAT}').`
+    );
+  }
+  if (typeof archive.version !== "number" || archive.version < 1) {
+    return invalid("Archive has no version.");
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    return invalid(
+      `Archive version ${archive.version} is newer than this notebook supports (${ARCHIVE_VERSION}).`
+    );
+  }
+
+  for (const section of SECTIONS) {
+    const rows = archive[section];
+    if (!Array.isArray(rows)) {
+      return invalid(`Archive has no '${section}' list.`);
+    }
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i] as unknown as Record<string, unknown> | null;
+      const missing = REQUIRED_FIELDS[section].find(
+        (field) => typeof row?.[field] !== "string"
+      );
+      if (missing) {
+        return invalid(`${section}[${i}] has no '${missing}'.`);
+      }
+    }
+  }
+
+  const embeddings = archive.embeddings;
+  if (
+    embeddings !== undefined &&
+    (typeof embeddings?.model !== "string" ||
+      typeof embeddings.dimensions !== "number" ||
+      !Array.isArray(embeddings.entries))
+  ) {
+    return invalid("Archive embeddings need a model, dimensions and entries.");
+  }
+
+  return {
+    ok: true,
+    value: { ...archive, settings: archive.settings ?? {} } as NotebookArchive,
+  };
+}
+
+/**
+ * Import options from query parameters (`mode`, `on_conflict`, `dry_run`).
+ */
+export function parseImportOptions(
+  params: URLSearchParams
+): FragmentOpResult<ImportOptions> {
+  const mode = params.get("mode") ?? "merge";
+  const onConflict = params.get("on_conflict") ?? "skip";
+  if (mode !== "merge" && mode !== "replace") {
+    return { ok: false, status: 400, error: "mode must be merge or replace." };
+  }
+  if (onConflict !== "skip" && onConflict !== "overwrite") {
+    return {
+      ok: false,
+      status: 400,
+      error: "on_conflict must be skip or overwrite.",
+    };
+  }
+  return {
+    ok: true,
+    value: {
+      mode,
+      on_conflict: onConflict,
+      dry_run: params.get("dry_run") === "true",
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/**
+ * How rows of one section are identified and compared.
+ */
+type SectionSpec<T> = {
+  section: ArchiveSection;
+  id: (row: T) => string;
+  key: (row: T) => string; // natural key, matched against local rows
+  fields: (keyof T & string)[]; // compared to tell a conflict
+  withId: (row: T, id: string) => T;
+};
+
+type PlanContext = {
+  report: ImportReport;
+  ops: SectionOps;
+  overwrite: boolean;
+  newId: () => string;
+};
+
+const memoSpec: SectionSpec<ArchiveMemo> = {
+  section: "memos",
+  id: (row) => row.id,
+  key: (row) => row.slug,
+  fields: ["content", "headers", "parent_id", "author", "summary"],
+  withId: (row, id) => ({ ...row, id }),
+};
+
+const fragmentSpec: SectionSpec<ArchiveFragment> = {
+  section: "fragments",
+  id: (row) => row.id,
+  key: (row) => row.slug,
+  fields: ["content", "speaker", "metadata"],
+  withId: (row, id) => ({ ...row, id }),
+};
+
+const edgeSpec: SectionSpec<ArchiveEdge> = {
+  section: "fragment_edges",
+  id: (row) => row.id,
+  key: (row) => `${row.from_id} ${row.rel} ${row.to_id}`,
+  fields: ["from_kind", "to_kind", "weight", "metadata"],
+  withId: (row, id) => ({ ...row, id }),
+};
+
+const reactionSpec: SectionSpec<ArchiveReaction> = {
+  section: "reactions",
+  id: (row) => row.id,
+  key: (row) => `${row.memo_id} ${row.emoji} ${row.user_id}`,
+  fields: [],
+  withId: (row, id) => ({ ...row, id }),
+};
+
+const personaSpec: SectionSpec<ArchivePersona> = {
+  section: "emoji_personas",
+  id: (row) => row.id,
+  key: (row) => row.emoji,
+  fields: ["name", "description", "instructions", "model_preference"],
+  withId: (row, id) => ({ ...row, id }),
+};
+
+const relationTypeSpec: SectionSpec<RelationType> = {
+  section: "relation_types",
+  id: (row) => row.name,
+  key: (row) => row.name,
+  fields: ["inverse", "symmetric", "description", "color"],
+  withId: (row) => row,
+};
+
+const scheduleSpec: SectionSpec<ArchiveSchedule> = {
+  section: "schedules",
+  id: (row) => scheduleSpec.key(row),
+  key: (row) =>
+    `${row.type} ${row.type === "cron" ? row.cron : row.time} ${row.payload}`,
+  fields: [],
+  withId: (row) => row,
+};
+
+/**
+ * The id each archive row will have: its local match's, its own, or a fresh
+ * one when another local row already has it.
+ */
+function assignIds<T>(
+  spec: SectionSpec<T>,
+  rows: T[],
+  local: T[],
+  ctx: PlanContext
+): Map<string, string> {
+  const localByKey = new Map(local.map((row) => [spec.key(row), row]));
+  const taken = new Set(local.map(spec.id));
+  const ids = new Map<string, string>();
+
+  for (const row of rows) {
+    const id = spec.id(row);
+    const match = localByKey.get(spec.key(row));
+    let assigned = match ? spec.id(match) : id;
+    if (!match && taken.has(id)) {
+      assigned = ctx.newId();
+    }
+    taken.add(assigned);
+    ids.set(id, assigned);
+    if (assigned !== id) {
+      ctx.report.remapped.push({
+        section: spec.section,
+        from: id,
+        to: assigned,
+      });
+    }
+  }
+  return ids;
+}
+
+/**
+ * Sort rows (already carrying their assigned ids) into inserts, updates,
+ * unchanged rows and conflicts.
+ */
+function diffRows<T>(
+  spec: SectionSpec<T>,
+  rows: T[],
+  local: T[],
+  ctx: PlanContext
+) {
+  const localByKey = new Map(local.map((row) => [spec.key(row), row]));
+  const counts = ctx.report.counts[spec.section];
+  const ops = ctx.ops[spec.section] as unknown as { insert: T[]; update: T[] };
+
+  for (const row of rows) {
+    const match = localByKey.get(spec.key(row));
+    if (!match) {
+      ops.insert.push(row);
+      counts.inserted++;
+      continue;
+    }
+
+    const fields = spec.fields.filter(
+      (field) => (row[field] ?? null) !== (match[field] ?? null)
+    );
+    if (!fields.length) {
+      counts.unchanged++;
+      continue;
+    }
+
+    ctx.report.conflicts.push({
+      section: spec.section,
+      key: spec.key(row),
+      local_id: spec.id(match),
+      fields,
+      resolution: ctx.overwrite ? "overwritten" : "kept_local",
+    });
+    if (ctx.overwrite) {
+      ops.update.push(spec.withId(row, spec.id(match)));
+      counts.updated++;
+    } else {
+      counts.skipped++;
+    }
+  }
+}
+
+/**
+ * Report archive rows whose key an earlier row already has; they would
+ * break a unique index, so the import is rejected.
+ */
+function rejectDuplicates<T>(
+  ctx: PlanContext,
+  section: ArchiveSection,
+  rows: T[],
+  id: (row: T) => string,
+  key: (row: T) => string | null | undefined
+) {
+  const first = new Map<string, string>();
+  for (const row of rows) {
+    const value = key(row);
+    if (value === null || value === undefined) continue;
+    const earlier = first.get(value);
+    if (earlier === undefined) {
+      first.set(value, id(row));
+      continue;
+    }
+    ctx.report.conflicts.push({
+      section,
+      key: value,
+      local_id: earlier,
+      fields: [],
+      resolution: "rejected",
+    });
+  }
+}
+
+/**
+ * Whether the plan found duplicates in the archive, in which case nothing
+ * is imported.
+ */
+export function isRejected(report: ImportReport): boolean {
+  return report.conflicts.some(
+    (conflict) => conflict.resolution === "rejected"
+  );
+}
+
+function skip(
+  ctx: PlanContext,
+  section: ArchiveSection,
+  id: string,
+  reason: string
+) {
+  ctx.report.skipped.push({ section, id, reason });
+  ctx.report.counts[section].skipped++;
+}
+
+function emptyItems(): NotebookItems {
+  return {
+    memos: [],
+    fragments: [],
+    fragment_edges: [],
+    reactions: [],
+    emoji_personas: [],
+    relation_types: [],
+    schedules: [],
+  };
+}
+
+/**
+ * Work out what importing `archive` into a notebook holding `local` would
+ * do, without touching it. In replace mode `local` is ignored, since the
+ * notebook is emptied first. Duplicates within the archive are reported
+ * as rejected conflicts (see `isRejected`).
+ */
+export function planImport(
+  archive: NotebookArchive,
+  local: NotebookItems,
+  options: ImportOptions = {},
+  {
+    now = Date.now(),
+    newId = () => crypto.randomUUID(),
+  }: { now?: number; newId?: () => string } = {}
+): ImportPlan {
+  const mode = options.mode ?? "merge";
+  const base = mode === "replace" ? emptyItems() : local;
+
+  const counts = Object.fromEntries(
+    SECTIONS.map((section) => [
+      section,
+      { inserted: 0, updated: 0, unchanged: 0, skipped: 0 },
+    ])
+  ) as Record<ArchiveSection, SectionCounts>;
+  const ops = Object.fromEntries(
+    SECTIONS.map((section) => [section, { insert: [], update: [] }])
+  ) as unknown as SectionOps;
+  const ctx: PlanContext = {
+    report: {
+      mode,
+      dry_run: options.dry_run === true,
+      counts,
+      remapped: [],
+      conflicts: [],
+      skipped: [],
+      settings: [],
+      embeddings: 0,
+      embedding_job: null,
+    },
+    ops,
+    overwrite: options.on_conflict === "overwrite",
+    newId,
+  };
+
+  rejectDuplicates(ctx, "memos", archive.memos, memoSpec.id, memoSpec.key);
+  rejectDuplicates(
+    ctx,
+    "fragments",
+    archive.fragments,
+    fragmentSpec.id,
+    fragmentSpec.key
+  );
+  rejectDuplicates(
+    ctx,
+    "emoji_personas",
+    archive.emoji_personas,
+    personaSpec.id,
+    personaSpec.key
+  );
+  rejectDuplicates(
+    ctx,
+    "relation_types",
+    archive.relation_types,
+    relationTypeSpec.id,
+    relationTypeSpec.key
+  );
+  rejectDuplicates(
+    ctx,
+    "relation_types",
+    archive.relation_types,
+    relationTypeSpec.id,
+    (type) => type.inverse
+  );
+
+  // Memos and fragments, then what points at them
+  const memoIds = assignIds(memoSpec, archive.memos, base.memos, ctx);
+  const memos = archive.memos.map((memo) => ({
+    ...memo,
+    id: memoIds.get(memo.id) ?? memo.id,
+    parent_id: memo.parent_id
+      ? (memoIds.get(memo.parent_id) ?? memo.parent_id)
+      : null,
+  }));
+  diffRows(memoSpec, memos, base.memos, ctx);
+
+  const fragmentIds = assignIds(
+    fragmentSpec,
+    archive.fragments,
+    base.fragments,
+    ctx
+  );
+  diffRows(
+    fragmentSpec,
+    archive.fragments.map((f) => ({ ...f, id: fragmentIds.get(f.id) ?? f.id })),
+    base.fragments,
+    ctx
+  );
+
+  const knownMemos = new Set([
+    ...memoIds.values(),
+    ...base.memos.map((m) => m.id),
+  ]);
+  const knownFragments = new Set([
+    ...fragmentIds.values(),
+    ...base.fragments.map((f) => f.id),
+  ]);
+  const endpoint = (id: string, kind: string): string | null => {
+    if (kind === "fragment") {
+      const mapped = fragmentIds.get(id) ?? id;
+      return knownFragments.has(mapped) ? mapped : null;
+    }
+    const mapped = memoIds.get(id) ?? id;
+    return knownMemos.has(mapped) ? mapped : null;
+  };
+
+  const edges: ArchiveEdge[] = [];
+  for (const edge of archive.fragment_edges) {
+    const from_id = endpoint(edge.from_id, edge.from_kind);
+    const to_id = endpoint(edge.to_id, edge.to_kind);
+    if (!from_id || !to_id) {
+      skip(
+        ctx,
+        "fragment_edges",
+        edge.id,
+        "endpoint not in archive or notebook"
+      );
+      continue;
+    }
+    edges.push({ ...edge, from_id, to_id });
+  }
+  rejectDuplicates(ctx, "fragment_edges", edges, edgeSpec.id, edgeSpec.key);
+  const edgeIds = assignIds(edgeSpec, edges, base.fragment_edges, ctx);
+  diffRows(
+    edgeSpec,
+    edges.map((e) => ({ ...e, id: edgeIds.get(e.id) ?? e.id })),
+    base.fragment_edges,
+    ctx
+  );
+
+  const reactions: ArchiveReaction[] = [];
+  for (const reaction of archive.reactions) {
+    const memo_id = memoIds.get(reaction.memo_id) ?? reaction.memo_id;
+    if (!knownMemos.has(memo_id)) {
+      skip(ctx, "reactions", reaction.id, "memo not in archive or notebook");
+      continue;
+    }
+    reactions.push({ ...reaction, memo_id });
+  }
+  rejectDuplicates(
+    ctx,
+    "reactions",
+    reactions,
+    reactionSpec.id,
+    reactionSpec.key
+  );
+  const reactionIds = assignIds(reactionSpec, reactions, base.reactions, ctx);
+  diffRows(
+    reactionSpec,
+    reactions.map((r) => ({ ...r, id: reactionIds.get(r.id) ?? r.id })),
+    base.reactions,
+    ctx
+  );
+
+  // Personas and verbs, matched by emoji and name
+  const personaIds = assignIds(
+    personaSpec,
+    archive.emoji_personas,
+    base.emoji_personas,
+    ctx
+  );
+  diffRows(
+    personaSpec,
+    archive.emoji_personas.map((p) => ({
+      ...p,
+      id: personaIds.get(p.id) ?? p.id,
+    })),
+    base.emoji_personas,
+    ctx
+  );
+
+  // A verb's inverse name can't already belong to another local verb
+  const verbOwners = new Map<string, string>();
+  for (const type of base.relation_types) {
+    verbOwners.set(type.name, type.name);
+    if (type.inverse) verbOwners.set(type.inverse, type.name);
+  }
+  const relationTypes = archive.relation_types.filter((type) => {
+    const owner = type.inverse ? verbOwners.get(type.inverse) : undefined;
+    if (owner && owner !== type.name) {
+      skip(
+        ctx,
+        "relation_types",
+        type.name,
+        `inverse '${type.inverse}' belongs to '${owner}'`
+      );
+      return false;
+    }
+    return true;
+  });
+  diffRows(relationTypeSpec, relationTypes, base.relation_types, ctx);
+
+  // One-off tasks whose time has passed would fire at once
+  const schedules = archive.schedules.filter((schedule) => {
+    if (schedule.callback !== TASK_CALLBACK) {
+      skip(ctx, "schedules", scheduleSpec.id(schedule), "not a scheduled task");
+      return false;
+    }
+    if (schedule.type !== "cron" && schedule.time * 1000 <= now) {
+      skip(ctx, "schedules", scheduleSpec.id(schedule), "already due");
+      return false;
+    }
+    return true;
+  });
+  diffRows(scheduleSpec, schedules, base.schedules, ctx);
+
+  if (mode === "replace") {
+    ctx.report.settings = Object.keys(archive.settings).filter(
+      (name) => archive.settings[name as keyof NotebookSettings] !== undefined
+    );
+  }
+
+  return { report: ctx.report, ops };
+}
+
+// ---------------------------------------------------------------------------
+// Applying
+// ---------------------------------------------------------------------------
+
+/**
+ * Vector ids of the notebook's memos, passages and fragments.
+ */
+function notebookVectors(agent: Chat): string[] {
+  const rows = agent.sql<{ id: string }>`
+    SELECT id FROM memo_chunks
+    UNION SELECT 'memo-' || id FROM memos WHERE vector_id IS NOT NULL
+    UNION SELECT vector_id FROM fragments WHERE vector_id IS NOT NULL`;
+  return rows.map((row) => row.id);
+}
+
+async function deleteVectors(agent: Chat, ids: string[]) {
+  for (let i = 0; i < ids.length; i += VECTOR_DELETE_BATCH) {
+    try {
+      await agent.vectors.delete(ids.slice(i, i + VECTOR_DELETE_BATCH));
+    } catch (error) {
+      // Search ignores vectors whose item is gone, so carry on
+      console.error("Error deleting replaced vectors:", error);
+    }
+  }
+}
+
+/**
+ * Delete every item row of the notebook, ahead of a replace. Runs inside
+ * the import's transaction, so it has to stay synchronous.
+ */
+function clearRows(agent: Chat) {
+  agent.sql`DELETE FROM memo_chunks`;
+  agent.sql`DELETE FROM reactions`;
+  agent.sql`DELETE FROM fragment_edges`;
+  agent.sql`DELETE FROM memos`;
+  agent.sql`DELETE FROM fragments`;
+  agent.sql`DELETE FROM emoji_personas`;
+  agent.sql`DELETE FROM relation_types`;
+}
+
+type MemoSnapshot = {
+  id: string;
+  content: string;
+  headers: string;
+  author: string | null;
+  modified: string;
+};
+
+/**
+ * Insert and update the planned rows. Runs inside the import's
+ * transaction; returns the overwritten memos as they were, for their
+ * revision history.
+ */
+function writeRows(agent: Chat, ops: SectionOps): MemoSnapshot[] {
+  for (const type of ops.relation_types.insert) {
+    agent.sql`
+      INSERT INTO relation_types (name, inverse, symmetric, description, color, created, modified)
+      VALUES (${type.name}, ${type.inverse ?? null}, ${type.symmetric ? 1 : 0}, ${type.description},
+              ${type.color ?? null}, ${type.created}, ${type.modified})`;
+  }
+  for (const type of ops.relation_types.update) {
+    agent.sql`
+      UPDATE relation_types
+      SET inverse = ${type.inverse ?? null}, symmetric = ${type.symmetric ? 1 : 0},
+          description = ${type.description}, color = ${type.color ?? null},
+          modified = ${type.modified}
+      WHERE name = ${type.name}`;
+  }
+
+  for (const persona of ops.emoji_personas.insert) {
+    agent.sql`
+      INSERT INTO emoji_personas (id, emoji, name, description, instructions, model_preference, created, modified)
+      VALUES (${persona.id}, ${persona.emoji}, ${persona.name}, ${persona.description},
+              ${persona.instructions}, ${persona.model_preference ?? null},
+              ${persona.created ?? new Date().toISOString()}, ${persona.modified ?? new Date().toISOString()})`;
+  }
+  for (const persona of ops.emoji_personas.update) {
+    agent.sql`
+      UPDATE emoji_personas
+      SET name = ${persona.name}, description = ${persona.description},
+          instructions = ${persona.instructions},
+          model_preference = ${persona.model_preference ?? null},
+          modified = ${persona.modified ?? new Date().toISOString()}
+      WHERE id = ${persona.id}`;
+  }
+
+  for (const memo of ops.memos.insert) {
+    agent.sql`
+      INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author, summary)
+      VALUES (${memo.id}, ${memo.slug}, ${memo.content}, ${memo.headers}, ${memo.created},
+              ${memo.modified}, ${memo.parent_id ?? null}, ${memo.author ?? "user"}, ${memo.summary ?? null})`;
+  }
+  const overwritten: MemoSnapshot[] = [];
+  for (const memo of ops.memos.update) {
+    overwritten.push(
+      ...agent.sql<MemoSnapshot>`
+        SELECT id, content, headers, author, modified FROM memos WHERE id = ${memo.id}`
+    );
+    agent.sql`
+      UPDATE memos
+      SET content = ${memo.content}, headers = ${memo.headers}, modified = ${memo.modified},
+          parent_id = ${memo.parent_id ?? null}, author = ${memo.author ?? "user"},
+          summary = ${memo.summary ?? null}, embedding_model = NULL
+      WHERE id = ${memo.id}`;
+  }
+
+  for (const fragment of ops.fragments.insert) {
+    agent.sql`
+      INSERT INTO fragments (id, slug, content, speaker, ts, convo_id, metadata, created, modified)
+      VALUES (${fragment.id}, ${fragment.slug}, ${fragment.content}, ${fragment.speaker ?? null},
+              ${fragment.ts}, ${fragment.convo_id ?? null}, ${fragment.metadata},
+              ${fragment.created}, ${fragment.modified})`;
+  }
+  for (const fragment of ops.fragments.update) {
+    agent.sql`
+      UPDATE fragments
+      SET content = ${fragment.content}, speaker = ${fragment.speaker ?? null},
+          metadata = ${fragment.metadata}, modified = ${fragment.modified},
+          embedding_model = NULL
+      WHERE id = ${fragment.id}`;
+  }
+
+  for (const edge of ops.fragment_edges.insert) {
+    agent.sql`
+      INSERT INTO fragment_edges (id, from_id, from_kind, to_id, to_kind, rel, weight, metadata, created)
+      VALUES (${edge.id}, ${edge.from_id}, ${edge.from_kind}, ${edge.to_id}, ${edge.to_kind},
+              ${edge.rel}, ${edge.weight ?? null}, ${edge.metadata ?? "{}"},
+              ${edge.created ?? new Date().toISOString()})`;
+  }
+  for (const edge of ops.fragment_edges.update) {
+    agent.sql`
+      UPDATE fragment_edges
+      SET from_kind = ${edge.from_kind}, to_kind = ${edge.to_kind},
+          weight = ${edge.weight ?? null}, metadata = ${edge.metadata ?? "{}"}
+      WHERE id = ${edge.id}`;
+  }
+
+  for (const reaction of ops.reactions.insert) {
+    agent.sql`
+      INSERT INTO reactions (id, memo_id, emoji, user_id, created)
+      VALUES (${reaction.id}, ${reaction.memo_id}, ${reaction.emoji}, ${reaction.user_id},
+              ${reaction.created ?? new Date().toISOString()})`;
+  }
+
+  return overwritten;
+}
+
+/**
+ * Write a planned import. The rows go in one transaction (after the
+ * notebook's are deleted, in replace mode); vectors, revisions, links and
+ * schedules follow once it has committed. Imported memos and fragments are
+ * left without vectors (or marked stale) for the embedding job to pick up.
+ */
+async function applyImport(
+  agent: Chat,
+  archive: NotebookArchive,
+  { report, ops }: ImportPlan,
+  cache?: EmbeddingCacheStore
+) {
+  const replace = report.mode === "replace";
+  const replacedVectors = replace ? notebookVectors(agent) : [];
+
+  const overwritten = agent.transaction(() => {
+    if (replace) {
+      clearRows(agent);
+    }
+    const previous = writeRows(agent, ops);
+    if (replace) {
+      // History of memos the archive doesn't have
+      agent.sql`
+        DELETE FROM memo_revisions WHERE memo_id NOT IN (SELECT id FROM memos)`;
+    }
+    return previous;
+  });
+
+  if (replace) {
+    await deleteVectors(agent, replacedVectors);
+    for (const schedule of agent.getSchedules()) {
+      if (schedule.callback === TASK_CALLBACK) {
+        await agent.cancelSchedule(schedule.id);
+      }
+    }
+  }
+
+  for (const previous of overwritten) {
+    const memo = ops.memos.update.find((m) => m.id === previous.id);
+    if (memo) {
+      await recordMemoRevision(agent, previous, memo, "user");
+    }
+  }
+
+  // Links are indexed once every memo and fragment is in place
+  for (const memo of [...ops.memos.insert, ...ops.memos.update]) {
+    await indexMemoLinks(agent, memo.id, memo.content);
+  }
+
+  for (const schedule of ops.schedules.insert) {
+    const when =
+      schedule.type === "cron" && schedule.cron
+        ? schedule.cron
+        : new Date(schedule.time * 1000);
+    await agent.schedule(when, TASK_CALLBACK, schedule.payload);
+  }
+
+  if (replace && archive.settings.currentModelName) {
+    agent.setState({
+      ...agent.state,
+      currentModelName: archive.settings.currentModelName,
+    });
+  }
+
+  if (archive.embeddings && cache) {
+    const { model, dimensions, entries } = archive.embeddings;
+    cache.put(
+      model,
+      dimensions,
+      entries.map((entry) => ({
+        hash: entry.hash,
+        values: decodeEmbedding(entry.vector),
+      }))
+    );
+    report.embeddings = entries.length;
+  }
+
+  const imported =
+    ops.memos.insert.length +
+    ops.memos.update.length +
+    ops.fragments.insert.length +
+    ops.fragments.update.length;
+  if (imported) {
+    const { job } = await startEmbeddingJob(agent);
+    report.embedding_job = job.id;
+  }
+}
+
+/**
+ * Import `archive` (see the header for modes). `cache` receives the
+ * archive's embeddings, if it has any. A rejected archive (see
+ * `isRejected`) is reported but not written.
+ */
+export async function importNotebook(
+  agent: Chat,
+  archive: NotebookArchive,
+  options: ImportOptions & { cache?: EmbeddingCacheStore } = {}
+): Promise<ImportReport> {
+  const local =
+    options.mode === "replace" ? emptyItems() : await readItems(agent);
+  const plan = planImport(archive, local, options);
+
+  if (isRejected(plan.report)) {
+    return plan.report;
+  }
+  if (plan.report.dry_run) {
+    plan.report.embeddings = archive.embeddings?.entries.length ?? 0;
+    return plan.report;
+  }
+
+  await applyImport(agent, archive, plan, options.cache);
+  return plan.report;
+}
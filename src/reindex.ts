@@ -0,0 +1,335 @@
+/**
+ * Embedding backfill / re-index job
+ * ---------------------------------
+ * Finds memos (including replies) and fragments whose vector is missing or
+ * was produced by a different model or dimension than the configured
+ * embedding provider (see embeddings.ts), and embeds them in small batches.
+ * Each batch runs as a scheduled callback
+ * (`Chat.runEmbeddingBatch`) that schedules the next one, so a job survives
+ * Durable Object restarts and carries on from its cursor.
+ *
+ * Rows that fail to embed are recorded in `embedding_failures` and skipped;
+ * a later job picks them up again since they are still missing or stale.
+ *
+ * Tables (created in migrations.ts)
+ *  - embedding_jobs      (one row per run, with progress and cursor)
+ *  - embedding_failures  (rows a job could not embed, and why)
+ */
+import type { Chat } from "./server";
+import { storeFragmentEmbedding, type Fragment } from "./fragment-tools";
+import { DEFAULT_DIMENSIONS } from "./embeddings";
+import { embedMemoChunks } from "./memo-chunks";
+import type { VectorKind } from "./vector-metadata";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type EmbeddingJob = {
+  id: string;
+  status: "running" | "completed" | "cancelled";
+  model: string;
+  force: number; // 1 = re-embed everything, not just missing/stale rows
+  kind: VectorKind;
+  cursor: string;
+  processed: number;
+  failed: number;
+  last_error: string | null;
+  created: string;
+  updated: string;
+  finished: string | null;
+};
+
+export type EmbeddingFailure = {
+  kind: VectorKind;
+  entity_id: string;
+  slug: string;
+  error: string;
+  created: string;
+};
+
+export type EmbeddingCoverage = {
+  total: number;
+  embedded: number; // has a vector
+  current: number; // has a vector from the current provider
+  missing: number;
+  stale: number;
+  coverage: number; // current / total, 1 when empty
+};
+
+type CoverageType = "memos" | "replies" | "fragments";
+
+// Kinds are processed in this order
+const JOB_KINDS: VectorKind[] = ["memo", "fragment"];
+
+const BATCH_SIZE = 20;
+
+// Seconds between batches, to leave room for other requests
+const BATCH_DELAY = 1;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+async function getJob(agent: Chat, id: string): Promise<EmbeddingJob | null> {
+  const rows = await agent.sql<EmbeddingJob>`
+    SELECT * FROM embedding_jobs WHERE id = ${id}
+  `;
+  return rows[0] ?? null;
+}
+
+async function getRunningJob(agent: Chat): Promise<EmbeddingJob | null> {
+  const rows = await agent.sql<EmbeddingJob>`
+    SELECT * FROM embedding_jobs WHERE status = 'running'
+    ORDER BY created DESC LIMIT 1
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Next batch of rows of `kind` after `cursor` that need embedding.
+ */
+async function pendingRows(agent: Chat, job: EmbeddingJob) {
+  // Rows embedded before dimensions were recorded are all DEFAULT_DIMENSIONS
+  const { dimensions } = agent.embeddings;
+  if (job.kind === "memo") {
+    return agent.sql<{
+      id: string;
+      slug: string;
+      content: string;
+      vector_id: string | null;
+    }>`
+      SELECT id, slug, content, vector_id FROM memos
+      WHERE id > ${job.cursor}
+        AND (${job.force} = 1 OR vector_id IS NULL
+             OR embedding_model IS NULL OR embedding_model <> ${job.model}
+             OR COALESCE(embedding_dimensions, ${DEFAULT_DIMENSIONS}) <> ${dimensions})
+      ORDER BY id
+      LIMIT ${BATCH_SIZE}
+    `;
+  }
+  return agent.sql<Fragment>`
+    SELECT * FROM fragments
+    WHERE id > ${job.cursor}
+      AND (${job.force} = 1 OR vector_id IS NULL
+           OR embedding_model IS NULL OR embedding_model <> ${job.model}
+           OR COALESCE(embedding_dimensions, ${DEFAULT_DIMENSIONS}) <> ${dimensions})
+    ORDER BY id
+    LIMIT ${BATCH_SIZE}
+  `;
+}
+
+async function embedMemo(
+  agent: Chat,
+  memo: { id: string; slug: string; content: string }
+) {
+  const vector_id = await embedMemoChunks(agent, memo);
+  await agent.sql`
+    UPDATE memos SET vector_id = ${vector_id} WHERE id = ${memo.id}
+  `;
+}
+
+// ---------------------------------------------------------------------------
+// Job control
+// ---------------------------------------------------------------------------
+
+/**
+ * Start a job, or return the one already running. With `force`, every row is
+ * re-embedded rather than only missing/stale ones.
+ */
+export async function startEmbeddingJob(
+  agent: Chat,
+  { force = false }: { force?: boolean } = {}
+): Promise<{ job: EmbeddingJob; started: boolean }> {
+  const running = await getRunningJob(agent);
+  if (running) {
+    return { job: running, started: false };
+  }
+
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  await agent.sql`
+    INSERT INTO embedding_jobs (id, status, model, force, kind, cursor, created, updated)
+    VALUES (${id}, 'running', ${agent.embeddings.model}, ${force ? 1 : 0}, ${JOB_KINDS[0]}, '', ${now}, ${now})
+  `;
+  await agent.schedule(0, "runEmbeddingBatch", id);
+
+  const job = await getJob(agent, id);
+  if (!job) {
+    throw new Error("Failed to create embedding job");
+  }
+  return { job, started: true };
+}
+
+/**
+ * Stop the running job after its current batch. Returns null when no job is
+ * running.
+ */
+export async function cancelEmbeddingJob(
+  agent: Chat
+): Promise<EmbeddingJob | null> {
+  const running = await getRunningJob(agent);
+  if (!running) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  await agent.sql`
+    UPDATE embedding_jobs
+    SET status = 'cancelled', updated = ${now}, finished = ${now}
+    WHERE id = ${running.id}
+  `;
+  return getJob(agent, running.id);
+}
+
+/**
+ * Embed one batch for `jobId` and schedule the next, until every kind has
+ * been walked. Called from the Chat.runEmbeddingBatch schedule callback.
+ */
+export async function processEmbeddingBatch(agent: Chat, jobId: string) {
+  const job = await getJob(agent, jobId);
+  if (!job || job.status !== "running") {
+    return;
+  }
+
+  const rows = await pendingRows(agent, job);
+  let { processed, failed, last_error } = job;
+
+  for (const row of rows) {
+    try {
+      if (job.kind === "memo") {
+        await embedMemo(agent, row);
+      } else {
+        await storeFragmentEmbedding(agent, row as Fragment);
+      }
+      processed++;
+    } catch (error) {
+      failed++;
+      last_error = error instanceof Error ? error.message : String(error);
+      await agent.sql`
+        INSERT OR REPLACE INTO embedding_failures (job_id, kind, entity_id, slug, error, created)
+        VALUES (${job.id}, ${job.kind}, ${row.id}, ${row.slug}, ${last_error}, ${new Date().toISOString()})
+      `;
+    }
+  }
+
+  // A short batch means this kind is done; move on to the next
+  let { kind, cursor } = job;
+  let status: EmbeddingJob["status"] = "running";
+  if (rows.length === BATCH_SIZE) {
+    cursor = rows[rows.length - 1].id;
+  } else {
+    const next = JOB_KINDS[JOB_KINDS.indexOf(kind) + 1];
+    if (next) {
+      kind = next;
+      cursor = "";
+    } else {
+      status = "completed";
+    }
+  }
+
+  const now = new Date().toISOString();
+  const finished = status === "completed" ? now : null;
+  // Don't overwrite a cancel that landed while this batch was running
+  await agent.sql`
+    UPDATE embedding_jobs
+    SET status = ${status}, kind = ${kind}, cursor = ${cursor},
+        processed = ${processed}, failed = ${failed}, last_error = ${last_error},
+        updated = ${now}, finished = ${finished}
+    WHERE id = ${job.id} AND status = 'running'
+  `;
+
+  if (status === "running") {
+    await agent.schedule(BATCH_DELAY, "runEmbeddingBatch", job.id);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+const toCoverage = (
+  total: number,
+  embedded: number,
+  current: number
+): EmbeddingCoverage => ({
+  total,
+  embedded,
+  current,
+  missing: total - embedded,
+  stale: embedded - current,
+  coverage: total ? current / total : 1,
+});
+
+/**
+ * Vector coverage per entity type against the current embedding provider.
+ */
+export async function getEmbeddingCoverage(
+  agent: Chat
+): Promise<Record<CoverageType, EmbeddingCoverage>> {
+  const { model, dimensions } = agent.embeddings;
+  const rows = await agent.sql<{
+    type: CoverageType;
+    total: number;
+    embedded: number;
+    current: number;
+  }>`
+    SELECT
+      CASE WHEN parent_id IS NULL THEN 'memos' ELSE 'replies' END AS type,
+      COUNT(*) AS total,
+      SUM(vector_id IS NOT NULL) AS embedded,
+      SUM(
+        vector_id IS NOT NULL AND embedding_model = ${model}
+        AND COALESCE(embedding_dimensions, ${DEFAULT_DIMENSIONS}) = ${dimensions}
+      ) AS current
+    FROM memos
+    GROUP BY type
+    UNION ALL
+    SELECT
+      'fragments' AS type,
+      COUNT(*) AS total,
+      SUM(vector_id IS NOT NULL) AS embedded,
+      SUM(
+        vector_id IS NOT NULL AND embedding_model = ${model}
+        AND COALESCE(embedding_dimensions, ${DEFAULT_DIMENSIONS}) = ${dimensions}
+      ) AS current
+    FROM fragments
+  `;
+
+  const coverage = {
+    memos: toCoverage(0, 0, 0),
+    replies: toCoverage(0, 0, 0),
+    fragments: toCoverage(0, 0, 0),
+  };
+  for (const row of rows) {
+    coverage[row.type] = toCoverage(
+      row.total,
+      row.embedded ?? 0,
+      row.current ?? 0
+    );
+  }
+  return coverage;
+}
+
+/**
+ * Coverage, the most recent job and what it failed on.
+ */
+export async function getEmbeddingStatus(agent: Chat) {
+  const jobs = await agent.sql<EmbeddingJob>`
+    SELECT * FROM embedding_jobs ORDER BY created DESC LIMIT 1
+  `;
+  const job = jobs[0] ?? null;
+  const failures = job
+    ? await agent.sql<EmbeddingFailure>`
+        SELECT kind, entity_id, slug, error, created FROM embedding_failures
+        WHERE job_id = ${job.id}
+        ORDER BY created DESC
+        LIMIT 50
+      `
+    : [];
+
+  return {
+    model: agent.embeddings.model,
+    dimensions: agent.embeddings.dimensions,
+    coverage: await getEmbeddingCoverage(agent),
+    job,
+    failures,
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Relation types
+ * --------------
+ * The vocabulary of verbs fragment edges may use. Each verb has a name
+ * (`example_of`), the name it reads as from the other end (`has_example`),
+ * or is symmetric (`contradicts` reads the same both ways), plus a
+ * description and a colour for the UI.
+ *
+ * Links name their verb loosely ("Example of", "has-example") and are
+ * normalised against the registry: an inverse name is stored as the
+ * canonical verb with the endpoints swapped, so every edge is kept in one
+ * direction only. Verbs not in the registry are rejected; add them with
+ * `createRelationType` first.
+ *
+ * Tables (created in migrations.ts)
+ *  - relation_types  (seeded with the verbs FEATURES.md describes)
+ */
+import type { Chat } from "./server";
+import type { FragmentOpResult } from "./fragment-tools";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type RelationType = {
+  name: string;
+  inverse: string | null; // null when symmetric
+  symmetric: number; // 1 = reads the same in both directions
+  description: string;
+  color: string | null; // #rrggbb
+  created: string; // ISO
+  modified: string; // ISO
+};
+
+export type RelationTypeInput = {
+  name: string;
+  inverse?: string | null;
+  symmetric?: boolean;
+  description?: string;
+  color?: string | null;
+};
+
+/**
+ * A verb as written, resolved against the registry. `reversed` means it was
+ * the inverse name, so the edge should be stored with from/to swapped.
+ */
+export type RelationMatch = { type: RelationType; reversed: boolean };
+
+// Used for relationships that don't name a known verb (see /link-fragments)
+export const FALLBACK_RELATION = "related_to";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Canonical spelling of a verb: lower-case words joined by underscores.
+ */
+export function normalizeRelName(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Resolve `raw` to a registered verb by name or inverse name, or null.
+ */
+export function matchRelation(
+  types: RelationType[],
+  raw: string
+): RelationMatch | null {
+  const name = normalizeRelName(raw);
+  if (!name) return null;
+
+  const direct = types.find((t) => t.name === name);
+  if (direct) return { type: direct, reversed: false };
+
+  const inverse = types.find((t) => t.inverse === name);
+  return inverse ? { type: inverse, reversed: true } : null;
+}
+
+/**
+ * How an edge of `type` reads from its target: the inverse name, or the
+ * verb itself when symmetric.
+ */
+export function incomingLabel(
+  type: Pick<RelationType, "name" | "inverse" | "symmetric">
+): string {
+  return type.symmetric || !type.inverse ? type.name : type.inverse;
+}
+
+/**
+ * Check and normalise a new or edited relation type against the others in
+ * the registry (excluding the one being edited).
+ */
+export function validateRelationType(
+  input: RelationTypeInput,
+  others: RelationType[]
+): FragmentOpResult<RelationTypeInput & { inverse: string | null }> {
+  const name = normalizeRelName(input.name);
+  if (!/^[a-z]/.test(name)) {
+    return {
+      ok: false,
+      status: 400,
+      error: "name must start with a letter.",
+    };
+  }
+
+  const symmetric = input.symmetric ?? false;
+  const inverse =
+    symmetric || !input.inverse ? null : normalizeRelName(input.inverse);
+  if (!symmetric && !inverse) {
+    return {
+      ok: false,
+      status: 400,
+      error: "A relation type needs an inverse name unless it is symmetric.",
+    };
+  }
+  if (inverse === name) {
+    return {
+      ok: false,
+      status: 400,
+      error:
+        "The inverse name must differ from the name; mark it symmetric instead.",
+    };
+  }
+
+  for (const word of [name, inverse]) {
+    const taken = word && matchRelation(others, word);
+    if (taken) {
+      return {
+        ok: false,
+        status: 409,
+        error: `'${word}' is already used by relation type '${taken.type.name}'.`,
+      };
+    }
+  }
+
+  if (input.color && !/^#[0-9a-f]{6}$/i.test(input.color)) {
+    return {
+      ok: false,
+      status: 400,
+      error: "color must be a hex colour like #3b82f6.",
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name,
+      inverse,
+      symmetric,
+      description: input.description?.trim() ?? "",
+      color: input.color?.toLowerCase() ?? null,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+export async function getRelationTypes(agent: Chat): Promise<RelationType[]> {
+  return agent.sql<RelationType>`
+    SELECT * FROM relation_types ORDER BY name
+  `;
+}
+
+/**
+ * Resolve a verb as written against the registry, or null when unknown.
+ */
+export async function resolveRelation(
+  agent: Chat,
+  raw: string
+): Promise<RelationMatch | null> {
+  return matchRelation(await getRelationTypes(agent), raw);
+}
+
+/**
+ * Error text for a verb the registry doesn't know, listing the ones it does.
+ */
+export async function unknownRelationError(
+  agent: Chat,
+  raw: string
+): Promise<string> {
+  const names = (await getRelationTypes(agent)).map((t) => t.name);
+  return `Unknown relationship '${raw}'. Use one of: ${names.join(", ")} (or their inverses), or add a new relation type first.`;
+}
+
+export async function createRelationType(
+  agent: Chat,
+  input: RelationTypeInput
+): Promise<FragmentOpResult<RelationType>> {
+  const valid = validateRelationType(input, await getRelationTypes(agent));
+  if (!valid.ok) return valid;
+
+  const { name, inverse, symmetric, description, color } = valid.value;
+  const now = new Date().toISOString();
+  await agent.sql`
+    INSERT INTO relation_types (name, inverse, symmetric, description, color, created, modified)
+    VALUES (${name}, ${inverse}, ${symmetric ? 1 : 0}, ${description ?? ""}, ${color ?? null}, ${now}, ${now})
+  `;
+  const [created] = await agent.sql<RelationType>`
+    SELECT * FROM relation_types WHERE name = ${name}
+  `;
+  return { ok: true, value: created };
+}
+
+/**
+ * Edit a relation type's inverse, symmetry, description or colour. The name
+ * itself is fixed since edges refer to it.
+ */
+export async function updateRelationType(
+  agent: Chat,
+  name: string,
+  changes: Omit<RelationTypeInput, "name">
+): Promise<FragmentOpResult<RelationType>> {
+  const types = await getRelationTypes(agent);
+  const current = types.find((t) => t.name === normalizeRelName(name));
+  if (!current) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No relation type named '${name}'.`,
+    };
+  }
+
+  const valid = validateRelationType(
+    {
+      name: current.name,
+      inverse:
+        changes.inverse !== undefined ? changes.inverse : current.inverse,
+      symmetric: changes.symmetric ?? Boolean(current.symmetric),
+      description: changes.description ?? current.description,
+      color: changes.color !== undefined ? changes.color : current.color,
+    },
+    types.filter((t) => t !== current)
+  );
+  if (!valid.ok) return valid;
+
+  const { inverse, symmetric, description, color } = valid.value;
+  const now = new Date().toISOString();
+  await agent.sql`
+    UPDATE relation_types
+    SET inverse = ${inverse}, symmetric = ${symmetric ? 1 : 0},
+        description = ${description ?? ""}, color = ${color ?? null},
+        modified = ${now}
+    WHERE name = ${current.name}
+  `;
+  const [updated] = await agent.sql<RelationType>`
+    SELECT * FROM relation_types WHERE name = ${current.name}
+  `;
+  return { ok: true, value: updated };
+}
+
+/**
+ * Remove a relation type. Refused while any edge still uses it.
+ */
+export async function deleteRelationType(
+  agent: Chat,
+  name: string
+): Promise<FragmentOpResult<RelationType>> {
+  const [current] = await agent.sql<RelationType>`
+    SELECT * FROM relation_types WHERE name = ${normalizeRelName(name)}
+  `;
+  if (!current) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No relation type named '${name}'.`,
+    };
+  }
+
+  const [usage] = await agent.sql<{ count: number }>`
+    SELECT COUNT(*) AS count FROM fragment_edges WHERE rel = ${current.name}
+  `;
+  if ((usage?.count ?? 0) > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: `'${current.name}' is used by ${usage.count} link(s); re-label them first.`,
+    };
+  }
+
+  await agent.sql`DELETE FROM relation_types WHERE name = ${current.name}`;
+  return { ok: true, value: current };
+}
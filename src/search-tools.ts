@@ -0,0 +1,46 @@
+/**
+ * Unified search tool for the AI chat agent
+ * -----------------------------------------
+ * One entry point over memos, replies and fragments; see search.ts for how
+ * lexical and vector results are fused.
+ */
+import { tool } from "ai";
+import { z } from "zod";
+
+import { agentContext } from "./server";
+import type { Chat } from "./server";
+import { hybridSearch, SEARCH_KINDS } from "./search";
+
+const search = tool({
+  description:
+    'Search everything (memos, thread replies and fragments) by keywords and meaning at once. Prefer this over the type-specific search tools when you don\'t know where something was written down. Supports "exact phrases", prefix* and OR.',
+  parameters: z.object({
+    query: z.string(),
+    kinds: z
+      .array(z.enum(["memo", "reply", "fragment"]))
+      .optional()
+      .describe("Restrict to these kinds (default: all)"),
+    limit: z.number().optional().describe("Maximum hits (default: 10)"),
+  }),
+  execute: async ({ query, kinds = SEARCH_KINDS, limit = 10 }) => {
+    const agent = agentContext.getStore() as Chat | null;
+    if (!agent) {
+      throw new Error("No agent found");
+    }
+
+    try {
+      const { hits } = await hybridSearch(agent, query, { kinds, limit });
+      return hits.length ? hits : `Nothing found for '${query}'.`;
+    } catch (error) {
+      console.error("Error in search:", error);
+      return `Error searching: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Export bundle
+// ---------------------------------------------------------------------------
+export const searchTools = {
+  search,
+};
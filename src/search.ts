@@ -0,0 +1,358 @@
+/**
+ * Hybrid search across memos, replies and fragments
+ * -------------------------------------------------
+ * Runs a lexical (FTS5/BM25) and a vector (Vectorize) search in parallel and
+ * merges the two rankings with reciprocal-rank fusion, so a hit that ranks
+ * well in either list surfaces and one that ranks well in both rises to the
+ * top. Used by the `/search` endpoint and the `search` tool.
+ *
+ * Replies are memos with a parent_id; they are searched together with memos
+ * and only told apart once their rows are loaded.
+ */
+import type { Chat } from "./server";
+import { searchFragmentsFts, searchMemosFts } from "./fts";
+import { vectorRef } from "./vector-metadata";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type SearchKind = "memo" | "reply" | "fragment";
+
+export const SEARCH_KINDS: SearchKind[] = ["memo", "reply", "fragment"];
+
+export type RankScore = {
+  rank: number; // 1-based position in that list
+  score: number; // BM25 (lexical) or cosine similarity (vector)
+};
+
+export type SearchHit = {
+  kind: SearchKind;
+  id: string;
+  slug: string;
+  // Highlighted excerpt for lexical hits, leading text otherwise
+  snippet: string;
+  // Memo author or fragment speaker
+  author: string | null;
+  parent_id: string | null;
+  link_count?: number; // fragments only
+  created: string;
+  modified: string;
+  score: number; // fused score, higher is better
+  scores: {
+    lexical: RankScore | null;
+    vector: RankScore | null;
+  };
+};
+
+export type SearchOptions = {
+  kinds?: SearchKind[];
+  limit?: number;
+};
+
+export type SearchResult = {
+  query: string;
+  hits: SearchHit[];
+  // False when embeddings/Vectorize were unavailable and only lexical ran
+  vector: boolean;
+};
+
+// "memo:<id>" or "fragment:<id>" - the table a hit lives in
+type HitKey = string;
+
+const parseKey = (key: HitKey) => {
+  const i = key.indexOf(":");
+  return { table: key.slice(0, i), id: key.slice(i + 1) };
+};
+
+type MemoRow = {
+  id: string;
+  slug: string;
+  content: string;
+  author: string | null;
+  parent_id: string | null;
+  created: string;
+  modified: string;
+  snippet?: string;
+};
+
+type FragmentRow = {
+  id: string;
+  slug: string;
+  content: string;
+  speaker: string | null;
+  link_count: number;
+  created: string;
+  modified: string;
+  snippet?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Rank fusion
+// ---------------------------------------------------------------------------
+export const RRF_K = 60;
+
+/**
+ * Reciprocal-rank fusion: each list contributes 1 / (k + rank) for every key
+ * it contains. Returns keys best-first.
+ */
+export function fuseRanks(
+  lists: string[][],
+  k = RRF_K
+): { key: string; score: number }[] {
+  const scores = new Map<string, number>();
+  for (const list of lists) {
+    list.forEach((key, i) => {
+      scores.set(key, (scores.get(key) ?? 0) + 1 / (k + i + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([key, score]) => ({ key, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+const excerpt = (content: string, length = 160) =>
+  content.length > length ? `${content.slice(0, length).trimEnd()}…` : content;
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+/**
+ * Lexical candidates, best-first. Memos (including replies) and fragments are
+ * ranked separately by BM25, so the two lists are interleaved by rank.
+ */
+async function lexicalCandidates(
+  agent: Chat,
+  query: string,
+  limit: number,
+  { memos, fragments }: { memos: boolean; fragments: boolean }
+) {
+  const [memoRows, fragmentRows] = await Promise.all([
+    memos ? searchMemosFts<MemoRow>(agent, query, { limit }) : [],
+    fragments ? searchFragmentsFts<FragmentRow>(agent, query, { limit }) : [],
+  ]);
+
+  const ranked: { key: HitKey; score: number }[] = [];
+  for (let i = 0; i < Math.max(memoRows.length, fragmentRows.length); i++) {
+    if (memoRows[i]) {
+      ranked.push({ key: `memo:${memoRows[i].id}`, score: memoRows[i].score });
+    }
+    if (fragmentRows[i]) {
+      ranked.push({
+        key: `fragment:${fragmentRows[i].id}`,
+        score: fragmentRows[i].score,
+      });
+    }
+  }
+
+  return { ranked, memoRows, fragmentRows };
+}
+
+// Errors meaning embeddings or the vector index aren't set up here
+const UNAVAILABLE = [
+  "Authentication error",
+  "AI service not available",
+  "No API key configured for embeddings",
+  "Vectorize service not available",
+];
+
+function isUnavailable(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    UNAVAILABLE.some((message) => error.message.includes(message))
+  );
+}
+
+/**
+ * Vector candidates, best-first. Each kind is queried in its own namespace so
+ * both get a full top-K, then interleaved by rank like the lexical lists.
+ * Returns null when embeddings or Vectorize are unavailable (e.g. local dev
+ * without credentials); any other failure is thrown.
+ */
+async function vectorCandidates(
+  agent: Chat,
+  query: string,
+  limit: number,
+  { memos, fragments }: { memos: boolean; fragments: boolean }
+): Promise<{ key: HitKey; score: number }[] | null> {
+  type Matches = {
+    matches?: {
+      id: string;
+      score: number;
+      metadata?: Record<string, unknown>;
+    }[];
+  };
+  let memoResults: Matches;
+  let fragmentResults: Matches;
+  try {
+    const embedding = await agent.createEmbeddings(query);
+    [memoResults, fragmentResults] = await Promise.all([
+      memos ? agent.searchSimilarVectors(embedding, limit, 0, "memo") : {},
+      fragments
+        ? agent.searchSimilarVectors(embedding, limit, 0, "fragment")
+        : {},
+    ]);
+  } catch (error) {
+    if (!isUnavailable(error)) {
+      throw error;
+    }
+    console.warn("Vector search unavailable, using lexical results only");
+    return null;
+  }
+
+  const toRanked = (results: Matches) => {
+    const ranked: { key: HitKey; score: number }[] = [];
+    for (const match of results.matches ?? []) {
+      const ref = vectorRef(match);
+      const key = ref && `${ref.kind}:${ref.id}`;
+      if (key && !ranked.some((c) => c.key === key)) {
+        ranked.push({ key, score: match.score });
+      }
+    }
+    return ranked;
+  };
+  const memoRanked = toRanked(memoResults);
+  const fragmentRanked = toRanked(fragmentResults);
+
+  const ranked: { key: HitKey; score: number }[] = [];
+  for (let i = 0; i < Math.max(memoRanked.length, fragmentRanked.length); i++) {
+    if (memoRanked[i]) ranked.push(memoRanked[i]);
+    if (fragmentRanked[i]) ranked.push(fragmentRanked[i]);
+  }
+  return ranked;
+}
+
+/**
+ * Load rows for hits that only came back from the vector side (lexical hits
+ * already carry their row).
+ */
+async function loadRows(agent: Chat, memoIds: string[], fragmentIds: string[]) {
+  const [memoRows, fragmentRows] = await Promise.all([
+    memoIds.length
+      ? agent.sql<MemoRow>`
+          SELECT id, slug, content, author, parent_id, created, modified
+          FROM memos
+          WHERE id IN (SELECT value FROM json_each(${JSON.stringify(memoIds)}))
+        `
+      : [],
+    fragmentIds.length
+      ? agent.sql<FragmentRow>`
+          SELECT
+            f.id, f.slug, f.content, f.speaker, f.created, f.modified,
+            (
+              SELECT COUNT(*) FROM fragment_edges fe
+              WHERE fe.from_id = f.id OR fe.to_id = f.id
+            ) AS link_count
+          FROM fragments f
+          WHERE f.id IN (SELECT value FROM json_each(${JSON.stringify(fragmentIds)}))
+        `
+      : [],
+  ]);
+  return { memoRows, fragmentRows };
+}
+
+/**
+ * Hybrid lexical + vector search. Hits are typed, fused with RRF and carry
+ * the rank/score each side gave them.
+ */
+export async function hybridSearch(
+  agent: Chat,
+  query: string,
+  { kinds = SEARCH_KINDS, limit = 20 }: SearchOptions = {}
+): Promise<SearchResult> {
+  const wantMemos = kinds.includes("memo") || kinds.includes("reply");
+  const wantFragments = kinds.includes("fragment");
+
+  // Over-fetch: some candidates get dropped by the kind filter
+  const candidates = Math.max(limit * 3, 30);
+
+  const [lexical, vector] = await Promise.all([
+    lexicalCandidates(agent, query, candidates, {
+      memos: wantMemos,
+      fragments: wantFragments,
+    }),
+    vectorCandidates(agent, query, candidates, {
+      memos: wantMemos,
+      fragments: wantFragments,
+    }),
+  ]);
+
+  const vectorRanked = vector ?? [];
+
+  const lexicalScores = new Map(
+    lexical.ranked.map((c, i) => [c.key, { rank: i + 1, score: c.score }])
+  );
+  const vectorScores = new Map(
+    vectorRanked.map((c, i) => [c.key, { rank: i + 1, score: c.score }])
+  );
+
+  // Rows we already have from FTS, plus whatever the vector side added
+  const memos = new Map<string, MemoRow>(
+    lexical.memoRows.map((row) => [row.id, row])
+  );
+  const fragments = new Map<string, FragmentRow>(
+    lexical.fragmentRows.map((row) => [row.id, row])
+  );
+  const missingMemos: string[] = [];
+  const missingFragments: string[] = [];
+  for (const { key } of vectorRanked) {
+    const { table, id } = parseKey(key);
+    if (table === "memo" && !memos.has(id)) missingMemos.push(id);
+    if (table === "fragment" && !fragments.has(id)) missingFragments.push(id);
+  }
+  const loaded = await loadRows(agent, missingMemos, missingFragments);
+  for (const row of loaded.memoRows) memos.set(row.id, row);
+  for (const row of loaded.fragmentRows) fragments.set(row.id, row);
+
+  const hits: SearchHit[] = [];
+  for (const { key, score } of fuseRanks([
+    lexical.ranked.map((c) => c.key),
+    vectorRanked.map((c) => c.key),
+  ])) {
+    const { table, id } = parseKey(key);
+    const scores = {
+      lexical: lexicalScores.get(key) ?? null,
+      vector: vectorScores.get(key) ?? null,
+    };
+
+    if (table === "memo") {
+      // Vectors can outlive their memo; skip anything no longer in the table
+      const row = memos.get(id);
+      if (!row) continue;
+      const kind: SearchKind = row.parent_id ? "reply" : "memo";
+      if (!kinds.includes(kind)) continue;
+      hits.push({
+        kind,
+        id: row.id,
+        slug: row.slug,
+        snippet: row.snippet ?? excerpt(row.content),
+        author: row.author ?? null,
+        parent_id: row.parent_id ?? null,
+        created: row.created,
+        modified: row.modified,
+        score,
+        scores,
+      });
+    } else {
+      const row = fragments.get(id);
+      if (!row) continue;
+      hits.push({
+        kind: "fragment",
+        id: row.id,
+        slug: row.slug,
+        snippet: row.snippet ?? excerpt(row.content),
+        author: row.speaker ?? null,
+        parent_id: null,
+        link_count: row.link_count,
+        created: row.created,
+        modified: row.modified,
+        score,
+        scores,
+      });
+    }
+
+    if (hits.length >= limit) break;
+  }
+
+  return { query, hits, vector: vector !== null };
+}
@@ -5,6 +5,8 @@ import { tool } from "ai";
 import { z } from "zod";
 import { agentContext } from "./server";
 import type { Chat } from "./server";
+import { searchMemosFts } from "./fts";
+import { findMemoPassages, type MemoPassage } from "./memo-chunks";
 
 /**
  * Memo interface used in semantic search
@@ -27,7 +29,7 @@ export interface Memo {
  */
 export const semanticSearchMemos = tool({
   description:
-    "Find memos that are semantically similar to the provided query using vector embeddings",
+    "Find memos that are semantically similar to the provided query using vector embeddings. Semantic hits are the best matching passage of each memo, with a [[slug#section]] citation",
   parameters: z.object({
     query: z
       .string()
@@ -51,58 +53,19 @@ export const semanticSearchMemos = tool({
 
     try {
       console.log(`Semantic search for: "${query}" with limit: ${limit}`);
-      const results: Memo[] = [];
+      const results: (Memo | MemoPassage)[] = [];
 
-      // If includeExactMatches is true, check for exact matches first
+      // If includeExactMatches is true, check for full-text matches on
+      // every query term first
       if (includeExactMatches) {
         try {
-          // Split the query into words and search for each word separately
-          // with a LIMIT on each subquery to avoid pattern complexity
-          const words = query.split(/\s+/).filter((w) => w.length > 2); // Filter out short words
+          const exactMatches = await searchMemosFts<Memo>(agent, query, {
+            limit,
+          });
 
-          if (words.length > 0) {
-            // Take just the first few significant words to simplify the query
-            const significantWords = words.slice(0, 3);
-            let exactMatches: Memo[] = [];
-
-            for (const word of significantWords) {
-              // Escape special characters for SQL LIKE
-              const safeWord = word.replace(/[%_'\"]/g, (char) => `\\${char}`);
-
-              try {
-                // @ts-ignore - SQL template type issues
-                const wordMatches = (await agent.sql`
-                  SELECT * FROM memos 
-                  WHERE content LIKE ${`%${safeWord}%`}
-                  LIMIT ${Math.ceil(limit / significantWords.length)}
-                `) as any as Memo[];
-
-                if (wordMatches && wordMatches.length > 0) {
-                  // Add unique results
-                  for (const match of wordMatches) {
-                    if (!exactMatches.some((m) => m.id === match.id)) {
-                      exactMatches.push(match);
-                    }
-                  }
-                }
-              } catch (wordError) {
-                console.error(
-                  `Error in word match search for '${word}':`,
-                  wordError
-                );
-                // Continue with other words
-              }
-
-              // If we have enough results, break early
-              if (exactMatches.length >= limit) {
-                break;
-              }
-            }
-
-            if (exactMatches.length > 0) {
-              console.log(`Found ${exactMatches.length} exact text matches`);
-              results.push(...exactMatches.slice(0, limit));
-            }
+          if (exactMatches.length > 0) {
+            console.log(`Found ${exactMatches.length} exact text matches`);
+            results.push(...exactMatches);
           }
         } catch (error) {
           console.error("Error in exact match search:", error);
@@ -117,45 +80,16 @@ export const semanticSearchMemos = tool({
         try {
           const embeddings = await agent.createEmbeddings(query);
 
-          // Search for semantically similar vectors
-          const vectorResults = await agent.searchSimilarVectors(
-            embeddings,
-            limit
-          );
-
-          if (vectorResults?.matches?.length > 0) {
-            console.log(`Found ${vectorResults.matches.length} vector matches`);
-
-            // Process vector results by fetching the actual memos
-            const validMemoIds: string[] = [];
-            for (const match of vectorResults.matches) {
-              if (
-                match?.metadata?.memo_id &&
-                typeof match.metadata.memo_id === "string"
-              ) {
-                validMemoIds.push(match.metadata.memo_id);
-              }
-            }
-
-            if (validMemoIds.length > 0) {
-              // Fetch each memo individually to avoid SQL IN issues
-              for (const memoId of validMemoIds) {
-                try {
-                  // @ts-ignore - SQL template type issues
-                  const memoResult = (await agent.sql`
-                    SELECT * FROM memos WHERE id = ${memoId}
-                  `) as any as Memo[];
+          // Search for the best matching passages rather than whole memos
+          const passages = await findMemoPassages(agent, embeddings, {
+            limit,
+          });
+          console.log(`Found ${passages.length} matching passages`);
 
-                  if (memoResult && memoResult.length > 0) {
-                    // Check if we already have this memo from exact match search
-                    if (!results.some((m) => m.id === memoId)) {
-                      results.push(memoResult[0]);
-                    }
-                  }
-                } catch (err) {
-                  console.error(`Error fetching memo ${memoId}:`, err);
-                }
-              }
+          for (const passage of passages) {
+            // Check if we already have this memo from exact match search
+            if (!results.some((m) => m.id === passage.id)) {
+              results.push(passage);
             }
           }
         } catch (embeddingError) {
@@ -180,59 +114,18 @@ export const semanticSearchMemos = tool({
         return results.slice(0, limit);
       }
 
-      // Fallback: Basic keyword search if no results were found
+      // Fallback: full-text search matching any of the query terms
       try {
-        // Use a simpler approach for the fallback search to avoid complex patterns
-        // Take only the first 2-3 words to reduce complexity
-        const searchWords = query
-          .split(/\s+/)
-          .filter((w) => w.length > 2)
-          .slice(0, 2);
-
-        if (searchWords.length > 0) {
-          let keywordResults: Memo[] = [];
-
-          for (const word of searchWords) {
-            // Escape special characters for SQL LIKE
-            const safeWord = word.replace(/[%_'\"]/g, (char) => `\\${char}`);
-
-            try {
-              // @ts-ignore - SQL template type issues
-              const wordResults = (await agent.sql`
-                SELECT * FROM memos 
-                WHERE content LIKE ${`%${safeWord}%`}
-                OR slug LIKE ${`%${safeWord}%`}
-                LIMIT ${Math.ceil(limit / searchWords.length)}
-              `) as any as Memo[];
-
-              if (wordResults && wordResults.length > 0) {
-                // Add unique results
-                for (const match of wordResults) {
-                  if (!keywordResults.some((m) => m.id === match.id)) {
-                    keywordResults.push(match);
-                  }
-                }
-              }
-            } catch (wordError) {
-              console.error(
-                `Error in fallback word search for '${word}':`,
-                wordError
-              );
-              // Continue with other words
-            }
-
-            // If we have enough results, break early
-            if (keywordResults.length >= limit) {
-              break;
-            }
-          }
-
-          if (keywordResults.length > 0) {
-            console.log(
-              `Found ${keywordResults.length} keyword matches as fallback`
-            );
-            return keywordResults.slice(0, limit);
-          }
+        const keywordResults = await searchMemosFts<Memo>(agent, query, {
+          limit,
+          match: "any",
+        });
+
+        if (keywordResults.length > 0) {
+          console.log(
+            `Found ${keywordResults.length} keyword matches as fallback`
+          );
+          return keywordResults;
         }
       } catch (error) {
         console.error("Error in fallback keyword search:", error);
@@ -15,7 +15,20 @@ import { openai } from "@ai-sdk/openai";
 import { anthropic } from "@ai-sdk/anthropic";
 import { processToolCalls } from "./utils";
 import { tools, executions } from "./tools";
-import { fragmentTools } from "./fragment-tools";
+import {
+  createLink,
+  deleteFragmentBySlug,
+  deleteFragmentEdge,
+  embedFragment,
+  fragmentTools,
+  getLinksOfFragment,
+  mergeFragmentsBySlug,
+  updateFragmentBySlug,
+  updateFragmentEdge,
+  type Fragment,
+  type FragmentEdgeRef,
+  type LinkEndpointRef,
+} from "./fragment-tools";
 import { AsyncLocalStorage } from "node:async_hooks";
 import type {
   Tool,
@@ -23,8 +36,73 @@ import type {
   Resource,
 } from "@modelcontextprotocol/sdk/types.js";
 import { handleMemosApi } from "./memos-api";
+import { renameFragment, resolveSlugAlias } from "./slug-rename";
+import { recordMemoRevision } from "./memo-revisions";
+import { indexMemoLinks } from "./memo-links";
+import { loadSubtree, loadThread, type Thread } from "./memo-threads";
+import { listFragmentsPage, parseListParams } from "./list-pages";
+import {
+  exportNotebook,
+  importNotebook,
+  isRejected,
+  parseArchive,
+  parseImportOptions,
+} from "./notebook-archive";
+import { hybridSearch, SEARCH_KINDS, type SearchKind } from "./search";
+import { findMemoPassages } from "./memo-chunks";
+import { computeGraphAnalytics, getGraphAnalytics } from "./graph-analytics";
+import {
+  fragmentNeighborhood,
+  fragmentPaths,
+  loadGraph,
+  parseTraversalParams,
+} from "./fragment-graph";
+import {
+  createRelationType,
+  deleteRelationType,
+  getRelationTypes,
+  updateRelationType,
+  type RelationTypeInput,
+} from "./relation-types";
+import {
+  cancelEmbeddingJob,
+  getEmbeddingStatus,
+  processEmbeddingBatch,
+  startEmbeddingJob,
+} from "./reindex";
+import {
+  vectorRef,
+  vectorRefIds,
+  type VectorKind,
+  type StoredVectorMetadata,
+  type VectorMetadata,
+} from "./vector-metadata";
+import {
+  createEmbeddingProvider,
+  type EmbeddingEnv,
+  type EmbeddingProvider,
+} from "./embeddings";
+import {
+  cachedEmbeddingProvider,
+  clearEmbeddingCache,
+  getEmbeddingCacheStats,
+  sqliteEmbeddingCache,
+} from "./embedding-cache";
+import {
+  createVectorStore,
+  type VectorFilter,
+  type VectorQueryResult,
+  type VectorStore,
+  type VectorStoreEnv,
+} from "./vector-store";
 import type { Ai, Vectorize } from "@cloudflare/workers-types/experimental";
 import { SYSTEM_PROMPT } from "./prompt";
+import {
+  LATEST_SCHEMA_VERSION,
+  getAppliedMigrations,
+  getSchemaVersion,
+  runMigrations,
+} from "./migrations";
 // import { env } from "cloudflare:workers";
 
 // Models configuration
@@ -53,14 +131,15 @@ function setCurrentModel(modelName: string) {
 //   baseURL: env.GATEWAY_BASE_URL,
 // });
 
-type Env = {
-  Chat: AgentNamespace<Chat>;
-  HOST: string;
-  OPENAI_API_KEY: string;
-  ANTHROPIC_API_KEY: string;
-  VECTORIZE: Vectorize;
-  AI: Ai;
-};
+type Env = EmbeddingEnv &
+  VectorStoreEnv & {
+    Chat: AgentNamespace<Chat>;
+    HOST: string;
+    OPENAI_API_KEY: string;
+    ANTHROPIC_API_KEY: string;
+    VECTORIZE: Vectorize;
+    AI: Ai;
+  };
 
 export type Server = {
   url: string;
@@ -169,19 +248,33 @@ export class Chat extends AIChatAgent<Env, State> {
   };
 
   /**
-   * Creates embeddings for text using the AI service
+   * Bring the SQLite schema up to date before any request is handled
    */
-  async createEmbeddings(text: string): Promise<number[]> {
-    try {
-      if (!this.env.AI) {
-        throw new Error("AI service not available");
-      }
+  async onStart() {
+    await runMigrations(this);
+  }
 
-      const embedding = await this.env.AI.run("@cf/baai/bge-base-en-v1.5", {
-        text: text,
-      });
+  private embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * The embedding provider configured for this instance (see embeddings.ts),
+   * behind the content-hash cache (see embedding-cache.ts)
+   */
+  get embeddings(): EmbeddingProvider {
+    this.embeddingProvider ??= cachedEmbeddingProvider(
+      createEmbeddingProvider(this.env),
+      sqliteEmbeddingCache(this.ctx.storage.sql)
+    );
+    return this.embeddingProvider;
+  }
 
-      return embedding.data[0];
+  /**
+   * Creates embeddings for text using the configured provider
+   */
+  async createEmbeddings(text: string): Promise<number[]> {
+    try {
+      const [embedding] = await this.embeddings.embed([text]);
+      return embedding;
     } catch (error) {
       // Only log in development if it's not an authentication error
       if (
@@ -200,20 +293,53 @@ export class Chat extends AIChatAgent<Env, State> {
     }
   }
 
+  private vectorStore?: VectorStore;
+
+  /**
+   * The vector store configured for this instance (see vector-store.ts)
+   */
+  get vectors(): VectorStore {
+    this.vectorStore ??= createVectorStore(this.env, this.ctx.storage.sql);
+    return this.vectorStore;
+  }
+
   /**
-   * Store vector embeddings in Vectorize
+   * Run `closure` in a storage transaction: its `sql` calls commit together
+   * or, if it throws, not at all. The closure must be synchronous.
+   */
+  transaction<T>(closure: () => T): T {
+    return this.ctx.storage.transactionSync(closure);
+  }
+
+  /**
+   * Store a vector embedding in the namespace of its kind, tagged with the
+   * model and dimensions that produced it
    */
   async storeVectorEmbedding(
     id: string,
     values: number[],
-    metadata: Record<string, any> = {}
+    metadata: VectorMetadata
   ): Promise<void> {
     try {
-      if (!this.env.VECTORIZE) {
-        throw new Error("Vectorize service not available");
+      const { model, dimensions } = this.embeddings;
+      const stored: StoredVectorMetadata = { ...metadata, model, dimensions };
+      await this.vectors.upsert([
+        { id, values, namespace: metadata.kind, metadata: stored },
+      ]);
+
+      // Record which model produced the row's vector
+      const now = new Date().toISOString();
+      if (metadata.kind === "memo") {
+        await this.sql`
+          UPDATE memos
+          SET embedding_model = ${model}, embedding_dimensions = ${dimensions}, embedded_at = ${now}
+          WHERE id = ${metadata.memo_id}`;
+      } else {
+        await this.sql`
+          UPDATE fragments
+          SET embedding_model = ${model}, embedding_dimensions = ${dimensions}, embedded_at = ${now}
+          WHERE id = ${metadata.fragment_id}`;
       }
-
-      await this.env.VECTORIZE.upsert([{ id, values, metadata }]);
     } catch (error) {
       console.error("Error storing vector embedding:", error);
       throw error;
@@ -221,33 +347,11 @@ export class Chat extends AIChatAgent<Env, State> {
   }
 
   /**
-   * Delete vector embeddings from Vectorize
+   * Delete a vector embedding from the vector store
    */
   async deleteVectorEmbedding(id: string): Promise<void> {
     try {
-      if (!this.env.VECTORIZE) {
-        throw new Error("Vectorize service not available");
-      }
-
-      // For Cloudflare Vectorize, we'll need to use the available API
-      // Since the exact API varies, we'll try different approaches
-      try {
-        // The standard Vectorize API use 'delete' with an array of IDs
-        // @ts-ignore - handle type errors, as the API may vary
-        await this.env.VECTORIZE.delete([id]);
-      } catch (e) {
-        try {
-          // Some versions might use 'deleteOne' instead
-          // @ts-ignore - handle type errors, as the API may vary
-          await this.env.VECTORIZE.deleteOne(id);
-        } catch (e2) {
-          // If both methods fail, log it but don't fail the operation
-          console.warn(
-            "Vector deletion not fully implemented, skipping deletion of:",
-            id
-          );
-        }
-      }
+      await this.vectors.delete([id]);
     } catch (error) {
       console.error(`Error deleting vector embedding ${id}:`, error);
       // Don't throw the error, as this is a non-critical operation
@@ -255,28 +359,29 @@ export class Chat extends AIChatAgent<Env, State> {
   }
 
   /**
-   * Search for similar vectors in Vectorize
+   * Search for similar vectors, optionally only of one kind or only those
+   * whose metadata matches `filter`
    */
   async searchSimilarVectors(
     queryVector: number[],
     limit: number = 5,
-    threshold: number = 0
-  ): Promise<any> {
+    threshold: number = 0,
+    kind?: VectorKind,
+    filter?: VectorFilter
+  ): Promise<VectorQueryResult> {
     try {
-      if (!this.env.VECTORIZE) {
-        throw new Error("Vectorize service not available");
-      }
-
-      console.log(`Searching for similar vectors with limit: ${limit}`);
-      const results = await this.env.VECTORIZE.query(queryVector, {
+      console.log(
+        `Searching for similar vectors (${this.vectors.backend}) with limit: ${limit}`
+      );
+      const results = await this.vectors.query(queryVector, {
         topK: limit,
-        returnMetadata: true,
-        // Only apply threshold if it's greater than 0
-        ...(threshold > 0 ? { threshold } : {}),
+        namespace: kind,
+        threshold,
+        filter,
       });
 
-      console.log(`Found ${results?.matches?.length || 0} vector matches`);
-      if (results?.matches?.length > 0) {
+      console.log(`Found ${results.matches.length} vector matches`);
+      if (results.matches.length > 0) {
         console.log(`First match score: ${results.matches[0].score}`);
         if (results.matches[0].metadata) {
           console.log(
@@ -417,14 +522,31 @@ export class Chat extends AIChatAgent<Env, State> {
     ]);
   }
 
+  /**
+   * Scheduled callback: embed the next batch of an embedding job
+   */
+  async runEmbeddingBatch(jobId: string) {
+    await processEmbeddingBatch(this, jobId);
+  }
+
+  /**
+   * Scheduled callback: recompute the cached fragment graph analytics
+   */
+  async refreshGraphAnalytics() {
+    await computeGraphAnalytics(this);
+  }
+
   /** Build context from up to 3 semantically-related fragments */
   private async buildContextFromFragments(text: string): Promise<string> {
     try {
       const embed = await this.createEmbeddings(text);
-      const search = await this.searchSimilarVectors(embed, 3, 0.75);
-      const ids = (search.matches ?? [])
-        .map((m: any) => m.metadata?.fragment_id)
-        .filter(Boolean);
+      const search = await this.searchSimilarVectors(
+        embed,
+        3,
+        0.75,
+        "fragment"
+      );
+      const ids = vectorRefIds(search.matches ?? [], "fragment");
       if (!ids.length) return "";
 
       const rows: { slug: string; content: string }[] = [];
@@ -443,25 +565,17 @@ export class Chat extends AIChatAgent<Env, State> {
     }
   }
 
-  /** Build context from up to 3 semantically-related memos */
+  /** Build context from up to 3 semantically-related memo passages */
   private async buildContextFromMemos(text: string): Promise<string> {
     try {
       const embed = await this.createEmbeddings(text);
-      const search = await this.searchSimilarVectors(embed, 3, 0.75);
-      const ids = (search.matches ?? [])
-        .map((m: any) => m.metadata?.memo_id)
-        .filter(Boolean);
-      if (!ids.length) return "";
-
-      const rows: { slug: string; content: string }[] = [];
-      for (const memoId of ids) {
-        const res = await this.sql`
-          SELECT slug, content FROM memos WHERE id = ${memoId} LIMIT 1`;
-        if (res[0]) rows.push(res[0]);
-      }
+      const passages = await findMemoPassages(this, embed, {
+        limit: 3,
+        threshold: 0.75,
+      });
 
-      return rows
-        .map((r: any, i: number) => `#${i + 1} [[${r.slug}]]\n${r.content}`)
+      return passages
+        .map((p, i) => `#${i + 1} ${p.citation}\n${p.content}`)
         .join("\n\n");
     } catch (err) {
       console.warn("context-memo lookup failed", err);
@@ -473,92 +587,29 @@ export class Chat extends AIChatAgent<Env, State> {
    * Handles API requests for memos
    */
   /**
-   * Handles API requests for fragments (read-only for now)
+   * Handles API requests for fragments
    */
   async handleFragmentsApi(request: Request): Promise<Response | null> {
     const url = new URL(request.url);
 
-    // GET /agents/chat/<id>/list-fragments?limit=50&offset=0&q=foo
+    // GET /agents/chat/<id>/list-fragments?limit=50&cursor=...&q=foo
     if (url.pathname.endsWith("list-fragments") && request.method === "GET") {
       try {
-        const limit = Number(url.searchParams.get("limit") || "50");
-        const offset = Number(url.searchParams.get("offset") || "0");
         const q = (url.searchParams.get("q") || "").trim();
 
-        // Ensure fragments & edges tables exist (no-op if they already do)
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragments (
-            id        TEXT PRIMARY KEY,
-            slug      TEXT UNIQUE NOT NULL,
-            content   TEXT NOT NULL,
-            speaker   TEXT,
-            ts        TEXT NOT NULL,
-            convo_id  TEXT,
-            metadata  TEXT NOT NULL,
-            created   TEXT NOT NULL,
-            modified  TEXT NOT NULL
-          );`;
+        // With ?q= results are BM25-ranked FTS hits carrying a snippet
+        const result = await listFragmentsPage(this, {
+          ...parseListParams(url.searchParams),
+          q,
+        });
+        if (!result.ok) {
+          return Response.json(
+            { error: result.error },
+            { status: result.status }
+          );
+        }
 
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragment_edges (
-            id       TEXT PRIMARY KEY,
-            from_id  TEXT NOT NULL,
-            to_id    TEXT NOT NULL,
-            rel      TEXT NOT NULL,
-            weight   REAL,
-            metadata TEXT NOT NULL,
-            created  TEXT NOT NULL
-          );`;
-
-        // ------ Build queries --------------
-        let totalRes;
-        let rowsRes;
-        if (q) {
-          const likeParam = "%" + q + "%";
-          totalRes = await this.sql`
-            SELECT COUNT(*) AS count FROM fragments f
-            WHERE lower(f.slug) LIKE lower(${likeParam}) OR lower(f.content) LIKE lower(${likeParam});`;
-
-          rowsRes = await this.sql`
-            SELECT
-              f.id,
-              f.slug,
-              f.content,
-              f.speaker,
-              f.created,
-              f.modified,
-              (
-                SELECT COUNT(*) FROM fragment_edges fe
-                WHERE fe.from_id = f.id OR fe.to_id = f.id
-              ) AS link_count
-            FROM fragments f
-            WHERE lower(f.slug) LIKE lower(${likeParam}) OR lower(f.content) LIKE lower(${likeParam})
-            ORDER BY f.modified DESC
-            LIMIT ${limit} OFFSET ${offset};`;
-        } else {
-          totalRes = await this.sql`SELECT COUNT(*) AS count FROM fragments;`;
-
-          rowsRes = await this.sql`
-            SELECT
-              f.id,
-              f.slug,
-              f.content,
-              f.speaker,
-              f.created,
-              f.modified,
-              (
-                SELECT COUNT(*) FROM fragment_edges fe
-                WHERE fe.from_id = f.id OR fe.to_id = f.id
-              ) AS link_count
-            FROM fragments f
-            ORDER BY f.modified DESC
-            LIMIT ${limit} OFFSET ${offset};`;
-        }
-
-        const total = totalRes[0].count as number;
-        const rows = rowsRes;
-
-        return Response.json({ total, items: rows });
+        return Response.json(result.value);
       } catch (err) {
         console.error("Error listing fragments", err);
         return new Response("Error listing fragments", { status: 500 });
@@ -570,54 +621,8 @@ export class Chat extends AIChatAgent<Env, State> {
       try {
         const limit = Number(url.searchParams.get("limit") || "1000");
 
-        // ensure tables
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragments (
-            id        TEXT PRIMARY KEY,
-            slug      TEXT UNIQUE NOT NULL,
-            content   TEXT NOT NULL,
-            speaker   TEXT,
-            ts        TEXT NOT NULL,
-            convo_id  TEXT,
-            metadata  TEXT NOT NULL,
-            created   TEXT NOT NULL,
-            modified  TEXT NOT NULL
-          );`;
-
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragment_edges (
-            id       TEXT PRIMARY KEY,
-            from_id  TEXT NOT NULL,
-            to_id    TEXT NOT NULL,
-            rel      TEXT NOT NULL,
-            weight   REAL,
-            metadata TEXT NOT NULL,
-            created  TEXT NOT NULL
-          );`;
-
-        // Nodes – most connected first (limit)
-        const nodes = await this.sql`
-          SELECT
-            f.id,
-            f.slug,
-            (
-              SELECT COUNT(*) FROM fragment_edges fe
-              WHERE fe.from_id = f.id OR fe.to_id = f.id
-            ) AS link_count
-          FROM fragments f
-          ORDER BY link_count DESC
-          LIMIT ${limit};`;
-
-        // Links – all edges between any two fragments
-        const links = await this.sql`
-          SELECT
-            f1.slug AS source,
-            f2.slug AS target,
-            fe.rel  AS type,
-            COALESCE(fe.weight, 1) AS weight
-          FROM fragment_edges fe
-          JOIN fragments f1 ON fe.from_id = f1.id
-          JOIN fragments f2 ON fe.to_id = f2.id;`;
+        // Fragments and linked memos, most connected first
+        const { nodes, links } = await loadGraph(this, limit);
 
         return Response.json({ nodes, links });
       } catch (err) {
@@ -626,6 +631,109 @@ export class Chat extends AIChatAgent<Env, State> {
       }
     }
 
+    // GET /agents/chat/<id>/graph-analytics
+    if (url.pathname.endsWith("graph-analytics") && request.method === "GET") {
+      try {
+        const { analytics, stale } = await getGraphAnalytics(this);
+        return Response.json({ success: true, stale, ...analytics });
+      } catch (error) {
+        console.error("Error computing graph analytics:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // GET /agents/chat/<id>/fragment-neighborhood?slug=<slug>&depth=1&direction=both&rels=part_of,requires
+    if (
+      url.pathname.endsWith("fragment-neighborhood") &&
+      request.method === "GET"
+    ) {
+      try {
+        const slug = url.searchParams.get("slug");
+        if (!slug) {
+          return new Response("Missing slug parameter", { status: 400 });
+        }
+        const traversal = parseTraversalParams(url.searchParams);
+        if (!traversal) {
+          return new Response("direction must be out, in or both", {
+            status: 400,
+          });
+        }
+
+        const result = await fragmentNeighborhood(this, slug, {
+          ...traversal,
+          depth: Number(url.searchParams.get("depth") || "1"),
+        });
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, ...result.value });
+      } catch (error) {
+        console.error("Error loading fragment neighborhood:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // GET /agents/chat/<id>/fragment-paths?from=<slug>&to=<slug>&max_depth=4&all=1&limit=10&direction=both&rels=...
+    if (url.pathname.endsWith("fragment-paths") && request.method === "GET") {
+      try {
+        const from = url.searchParams.get("from");
+        const to = url.searchParams.get("to");
+        if (!from || !to) {
+          return new Response("Missing from or to parameter", { status: 400 });
+        }
+        const traversal = parseTraversalParams(url.searchParams);
+        if (!traversal) {
+          return new Response("direction must be out, in or both", {
+            status: 400,
+          });
+        }
+
+        const all = url.searchParams.get("all");
+        const result = await fragmentPaths(this, from, to, {
+          ...traversal,
+          maxDepth: Number(url.searchParams.get("max_depth") || "4"),
+          all: all === "1" || all === "true",
+          limit: Number(url.searchParams.get("limit") || "10"),
+        });
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, ...result.value });
+      } catch (error) {
+        console.error("Error finding fragment paths:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
     // GET /agents/chat/<id>/fragment?slug=<slug>
     if (url.pathname.endsWith("fragment") && request.method === "GET") {
       try {
@@ -634,54 +742,35 @@ export class Chat extends AIChatAgent<Env, State> {
           return new Response("Missing slug parameter", { status: 400 });
         }
 
-        // Ensure tables exist
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragments (
-            id        TEXT PRIMARY KEY,
-            slug      TEXT UNIQUE NOT NULL,
-            content   TEXT NOT NULL,
-            speaker   TEXT,
-            ts        TEXT NOT NULL,
-            convo_id  TEXT,
-            metadata  TEXT NOT NULL,
-            created   TEXT NOT NULL,
-            modified  TEXT NOT NULL
-          );`;
-
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragment_edges (
-            id       TEXT PRIMARY KEY,
-            from_id  TEXT NOT NULL,
-            to_id    TEXT NOT NULL,
-            rel      TEXT NOT NULL,
-            weight   REAL,
-            metadata TEXT NOT NULL,
-            created  TEXT NOT NULL
-          );`;
-
-        // 1. Get the main fragment
-        const frag = await this.sql`
+        // 1. Get the main fragment, following a renamed fragment's old slug
+        let frag = await this.sql`
           SELECT * FROM fragments WHERE slug = ${slug} LIMIT 1`;
+        let redirect: { redirected_from?: string } = {};
+        if (!frag.length) {
+          const current = await resolveSlugAlias(this, "fragment", slug);
+          if (current) {
+            frag = await this.sql`
+              SELECT * FROM fragments WHERE slug = ${current} LIMIT 1`;
+            redirect = { redirected_from: slug };
+          }
+        }
 
         if (!frag.length) {
           return new Response("Fragment not found", { status: 404 });
         }
 
-        // 2. Get outgoing links
-        const outgoing = await this.sql`
-          SELECT fe.rel, fe.to_id, f2.slug AS to_slug
-          FROM fragment_edges fe
-          JOIN fragments f2 ON fe.to_id = f2.id
-          WHERE fe.from_id = ${frag[0].id}`;
-
-        // 3. Get incoming links
-        const incoming = await this.sql`
-          SELECT fe.rel, fe.from_id, f2.slug AS from_slug
-          FROM fragment_edges fe
-          JOIN fragments f2 ON fe.from_id = f2.id
-          WHERE fe.to_id = ${frag[0].id}`;
+        // 2. Get links, labelled as they read from this fragment
+        const { outgoing, incoming } = await getLinksOfFragment(
+          this,
+          frag[0].id as string
+        );
 
-        return Response.json({ fragment: frag[0], outgoing, incoming });
+        return Response.json({
+          fragment: frag[0],
+          outgoing,
+          incoming,
+          ...redirect,
+        });
       } catch (err) {
         console.error("Error fetching fragment", err);
         return new Response("Error fetching fragment", { status: 500 });
@@ -722,20 +811,6 @@ export class Chat extends AIChatAgent<Env, State> {
           return new Response("Missing required fields", { status: 400 });
         }
 
-        // Ensure fragments table exists
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragments (
-            id        TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-            slug      TEXT UNIQUE NOT NULL,
-            content   TEXT NOT NULL,
-            speaker   TEXT,
-            ts        TEXT NOT NULL,
-            convo_id  TEXT,
-            metadata  TEXT NOT NULL,
-            created   TEXT NOT NULL,
-            modified  TEXT NOT NULL
-          )`;
-
         const now = new Date().toISOString();
         const slug =
           title
@@ -751,50 +826,18 @@ export class Chat extends AIChatAgent<Env, State> {
           extracted_by: "auto",
         });
 
-        const result = await this.sql`
-          INSERT INTO fragments (slug, content, speaker, ts, convo_id, metadata, created, modified)
-          VALUES (${slug}, ${content}, 'system', ${now}, null, ${metadata}, ${now}, ${now})
-          RETURNING id
+        // Ids are generated here rather than by the column default, which
+        // fragments tables created before migrations existed don't have
+        const result = await this.sql<Fragment>`
+          INSERT INTO fragments (id, slug, content, speaker, ts, convo_id, metadata, created, modified)
+          VALUES (${crypto.randomUUID()}, ${slug}, ${content}, 'system', ${now}, null, ${metadata}, ${now}, ${now})
+          RETURNING *
         `;
 
         const fragmentId = result[0].id;
 
-        // Create vector embedding for the fragment
-        try {
-          const embedding = await this.env.AI.run("@cf/baai/bge-base-en-v1.5", {
-            text: content,
-          });
-
-          await this.env.VECTORIZE.upsert([
-            {
-              id: fragmentId,
-              values: embedding.data[0],
-              metadata: {
-                content: content,
-                type: "fragment",
-                slug: slug,
-              },
-            },
-          ]);
-        } catch (vectorError) {
-          if (
-            !(
-              vectorError instanceof Error &&
-              (vectorError.message.includes("Authentication error") ||
-                vectorError.message.includes("VECTOR_UPSERT_ERROR"))
-            )
-          ) {
-            console.error(
-              "Error creating vector embedding for fragment:",
-              vectorError
-            );
-          } else {
-            console.log(
-              "Fragment vector embedding unavailable in development mode"
-            );
-          }
-          // Continue without vector embedding
-        }
+        // Create vector embedding for the fragment (failures are logged, not fatal)
+        await embedFragment(this, result[0]);
 
         return Response.json({
           success: true,
@@ -803,7 +846,349 @@ export class Chat extends AIChatAgent<Env, State> {
           message: "Fragment created successfully",
         });
       } catch (error) {
-        console.error("Error creating fragment:", error);
+        console.error("Error creating fragment:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/rename-fragment
+    if (url.pathname.endsWith("rename-fragment") && request.method === "POST") {
+      try {
+        const { slug, new_slug } = (await request.json()) as {
+          slug?: string;
+          new_slug?: string;
+        };
+        if (!slug || !new_slug) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+
+        const result = await renameFragment(this, slug, new_slug);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, ...result.value });
+      } catch (error) {
+        console.error("Error renaming fragment:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/update-fragment
+    if (url.pathname.endsWith("update-fragment") && request.method === "POST") {
+      try {
+        const data = (await request.json()) as {
+          slug: string;
+          new_slug?: string;
+          content?: string;
+          speaker?: string | null;
+          metadata?: string;
+        };
+        const { slug, ...changes } = data;
+
+        if (!slug) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+
+        const result = await updateFragmentBySlug(this, slug, changes);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, fragment: result.value });
+      } catch (error) {
+        console.error("Error updating fragment:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // DELETE /agents/chat/<id>/delete-fragment?slug=<slug>
+    if (
+      url.pathname.endsWith("delete-fragment") &&
+      request.method === "DELETE"
+    ) {
+      try {
+        const slug = url.searchParams.get("slug");
+        if (!slug) {
+          return new Response("Missing slug parameter", { status: 400 });
+        }
+
+        const result = await deleteFragmentBySlug(this, slug);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, ...result.value });
+      } catch (error) {
+        console.error("Error deleting fragment:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/merge-fragments
+    if (url.pathname.endsWith("merge-fragments") && request.method === "POST") {
+      try {
+        const data = (await request.json()) as {
+          keep_slug: string;
+          merge_slug: string;
+          content?: string;
+        };
+        const { keep_slug, merge_slug, content } = data;
+
+        if (!keep_slug || !merge_slug) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+
+        const result = await mergeFragmentsBySlug(
+          this,
+          keep_slug,
+          merge_slug,
+          content
+        );
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, fragment: result.value });
+      } catch (error) {
+        console.error("Error merging fragments:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/delete-fragment-link
+    // Body: { edge_id } or { from_slug, to_slug, rel }
+    if (
+      url.pathname.endsWith("delete-fragment-link") &&
+      request.method === "POST"
+    ) {
+      try {
+        const ref = (await request.json()) as FragmentEdgeRef;
+        if (
+          !("edge_id" in ref && ref.edge_id) &&
+          !("from_slug" in ref && ref.from_slug && ref.to_slug && ref.rel)
+        ) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+
+        const result = await deleteFragmentEdge(this, ref);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, edge: result.value });
+      } catch (error) {
+        console.error("Error deleting fragment link:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/update-fragment-link
+    // Body: ({ edge_id } or { from_slug, to_slug, rel }) & { new_rel?, weight? }
+    if (
+      url.pathname.endsWith("update-fragment-link") &&
+      request.method === "POST"
+    ) {
+      try {
+        const data = (await request.json()) as FragmentEdgeRef & {
+          new_rel?: string;
+          weight?: number | null;
+        };
+        if (
+          !("edge_id" in data && data.edge_id) &&
+          !("from_slug" in data && data.from_slug && data.to_slug && data.rel)
+        ) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+        if (
+          data.weight !== undefined &&
+          data.weight !== null &&
+          !Number.isFinite(data.weight)
+        ) {
+          return new Response("weight must be a number", { status: 400 });
+        }
+
+        const result = await updateFragmentEdge(this, data, {
+          rel: data.new_rel,
+          weight: data.weight,
+        });
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, edge: result.value });
+      } catch (error) {
+        console.error("Error updating fragment link:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/link-fragments
+    // { from: {kind?, id? | slug?}, to: {...}, relationship, weight? }, or the
+    // older { from_memo_id, to_fragment_id, relationship } where either id
+    // may be a memo or a fragment
+    if (url.pathname.endsWith("link-fragments") && request.method === "POST") {
+      try {
+        const data = (await request.json()) as {
+          from?: LinkEndpointRef;
+          to?: LinkEndpointRef;
+          from_memo_id?: string;
+          to_fragment_id?: string;
+          relationship: string;
+          weight?: number;
+        };
+        const from =
+          data.from ?? (data.from_memo_id ? { id: data.from_memo_id } : null);
+        const to =
+          data.to ?? (data.to_fragment_id ? { id: data.to_fragment_id } : null);
+
+        if (!from || !to || !data.relationship) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+
+        // Unknown verbs are kept as generic links, with the original wording
+        const result = await createLink(this, from, to, data.relationship, {
+          weight: data.weight ?? 1,
+          fallback: true,
+        });
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        const { edge, created } = result.value;
+        return Response.json({
+          success: true,
+          id: edge.id,
+          from_kind: edge.from_kind,
+          to_kind: edge.to_kind,
+          message: created
+            ? "Fragment link created successfully"
+            : "Fragment link already exists",
+        });
+      } catch (error) {
+        console.error("Error creating fragment link:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // GET /agents/chat/<id>/relation-types
+    if (url.pathname.endsWith("/relation-types") && request.method === "GET") {
+      try {
+        const relationTypes = await getRelationTypes(this);
+        return Response.json({ success: true, relation_types: relationTypes });
+      } catch (error) {
+        console.error("Error listing relation types:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // POST /agents/chat/<id>/create-relation-type
+    // Body: { name, inverse?, symmetric?, description?, color? }
+    if (
+      url.pathname.endsWith("/create-relation-type") &&
+      request.method === "POST"
+    ) {
+      try {
+        const data = (await request.json()) as RelationTypeInput;
+        if (!data.name) {
+          return new Response("Missing required fields", { status: 400 });
+        }
+
+        const result = await createRelationType(this, data);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return Response.json({ success: true, relation_type: result.value });
+      } catch (error) {
+        console.error("Error creating relation type:", error);
         return Response.json(
           {
             success: false,
@@ -815,49 +1200,29 @@ export class Chat extends AIChatAgent<Env, State> {
       }
     }
 
-    // POST /agents/chat/<id>/link-fragments
-    if (url.pathname.endsWith("link-fragments") && request.method === "POST") {
+    // POST /agents/chat/<id>/update-relation-type
+    // Body: { name, inverse?, symmetric?, description?, color? } (the name can't change)
+    if (
+      url.pathname.endsWith("/update-relation-type") &&
+      request.method === "POST"
+    ) {
       try {
-        const data = (await request.json()) as {
-          from_memo_id: string;
-          to_fragment_id: string;
-          relationship: string;
-        };
-        const { from_memo_id, to_fragment_id, relationship } = data;
-
-        if (!from_memo_id || !to_fragment_id || !relationship) {
+        const data = (await request.json()) as RelationTypeInput;
+        if (!data.name) {
           return new Response("Missing required fields", { status: 400 });
         }
 
-        // Ensure fragment_edges table exists
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS fragment_edges (
-            id       TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-            from_id  TEXT NOT NULL,
-            to_id    TEXT NOT NULL,
-            rel      TEXT NOT NULL,
-            weight   REAL,
-            metadata TEXT NOT NULL,
-            created  TEXT NOT NULL
-          )`;
-
-        const now = new Date().toISOString();
-        const metadata = JSON.stringify({
-          from_memo_id: from_memo_id,
-          relationship_type: "memo_to_fragment",
-        });
-
-        await this.sql`
-          INSERT INTO fragment_edges (from_id, to_id, rel, weight, metadata, created)
-          VALUES (${from_memo_id}, ${to_fragment_id}, ${relationship}, 1.0, ${metadata}, ${now})
-        `;
+        const result = await updateRelationType(this, data.name, data);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
+        }
 
-        return Response.json({
-          success: true,
-          message: "Fragment link created successfully",
-        });
+        return Response.json({ success: true, relation_type: result.value });
       } catch (error) {
-        console.error("Error creating fragment link:", error);
+        console.error("Error updating relation type:", error);
         return Response.json(
           {
             success: false,
@@ -869,180 +1234,54 @@ export class Chat extends AIChatAgent<Env, State> {
       }
     }
 
-    return null;
-  }
-
-  /**
-   * Get an entire thread starting from a memo slug
-   * Returns the root memo and all descendants in tree structure
-   */
-  async getThread(slug: string): Promise<any> {
-    try {
-      console.log("Getting thread for slug:", slug);
-
-      // Initialize memos table to ensure parent_id and author columns exist
-      const { initMemosTableWithAgent } = await import("./memo-tools");
-      await initMemosTableWithAgent(this);
-
-      // First, get the memo by slug
-      const memoResult = await this.sql`
-        SELECT * FROM memos WHERE slug = ${slug}
-      `;
-
-      console.log("Initial memo result:", memoResult.length);
-
-      if (!memoResult.length) {
-        return null;
-      }
-
-      let currentMemo = memoResult[0];
-      console.log("Found memo:", {
-        id: currentMemo.id,
-        slug: currentMemo.slug,
-        parent_id: currentMemo.parent_id,
-      });
-
-      // Walk up to find the root of the thread
-      while (currentMemo.parent_id) {
-        console.log("Walking up to parent:", currentMemo.parent_id);
-        const parentResult = await this.sql`
-          SELECT * FROM memos WHERE id = ${currentMemo.parent_id}
-        `;
-
-        if (!parentResult.length) break;
-        currentMemo = parentResult[0];
-      }
-
-      const rootMemo = currentMemo;
-      console.log("Root memo found:", { id: rootMemo.id, slug: rootMemo.slug });
-
-      // Get ALL memos in this thread recursively
-      const allThreadMemos = [];
-      const processedIds = new Set();
-      const toProcess = [rootMemo.id];
-
-      // Add the root memo first
-      allThreadMemos.push(rootMemo);
-      processedIds.add(rootMemo.id);
-
-      // Recursively find all descendants
-      while (toProcess.length > 0) {
-        const currentId = toProcess.shift();
-        const children = await this.sql`
-          SELECT * FROM memos WHERE parent_id = ${currentId} ORDER BY created ASC
-        `;
-
-        for (const child of children) {
-          if (!processedIds.has(child.id)) {
-            allThreadMemos.push(child);
-            processedIds.add(child.id);
-            toProcess.push(child.id);
-          }
+    // POST /agents/chat/<id>/delete-relation-type
+    // Body: { name } — refused while links still use it
+    if (
+      url.pathname.endsWith("/delete-relation-type") &&
+      request.method === "POST"
+    ) {
+      try {
+        const { name } = (await request.json()) as { name?: string };
+        if (!name) {
+          return new Response("Missing required fields", { status: 400 });
         }
-      }
-
-      console.log("All thread memos found:", allThreadMemos.length);
-
-      // Fetch reactions for all memos in the thread
-      const memoIds = allThreadMemos.map((memo) => memo.id);
-      let reactions = [];
-
-      if (memoIds.length > 0) {
-        try {
-          // Create reactions table if it doesn't exist
-          await this.sql`
-            CREATE TABLE IF NOT EXISTS reactions (
-              id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-              memo_id TEXT NOT NULL,
-              emoji TEXT NOT NULL,
-              user_id TEXT NOT NULL,
-              created TEXT DEFAULT CURRENT_TIMESTAMP,
-              UNIQUE(memo_id, emoji, user_id),
-              FOREIGN KEY (memo_id) REFERENCES memos (id) ON DELETE CASCADE
-            )
-          `;
 
-          // Fetch reactions for these memos
-          for (const memoId of memoIds) {
-            const memoReactions = await this.sql`
-              SELECT memo_id, emoji, user_id
-              FROM reactions
-              WHERE memo_id = ${memoId}
-            `;
-            reactions.push(...memoReactions);
-          }
-        } catch (error) {
-          console.error("Error fetching reactions for thread:", error);
-          // Continue without reactions if there's an error
+        const result = await deleteRelationType(this, name);
+        if (!result.ok) {
+          return Response.json(
+            { success: false, error: result.error },
+            { status: result.status }
+          );
         }
-      }
-
-      // Group reactions by memo_id and emoji
-      const reactionsByMemo: {
-        [memoId: string]: { [emoji: string]: string[] };
-      } = {};
 
-      reactions.forEach((reaction: any) => {
-        if (!reactionsByMemo[reaction.memo_id]) {
-          reactionsByMemo[reaction.memo_id] = {};
-        }
-        if (!reactionsByMemo[reaction.memo_id][reaction.emoji]) {
-          reactionsByMemo[reaction.memo_id][reaction.emoji] = [];
-        }
-        reactionsByMemo[reaction.memo_id][reaction.emoji].push(
-          reaction.user_id
+        return Response.json({ success: true, relation_type: result.value });
+      } catch (error) {
+        console.error("Error deleting relation type:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
         );
-      });
-
-      // Build tree structure with reply counts
-      const memoMap = new Map();
-
-      // First pass: create memo objects with reply count, reactions, and empty replies array
-      for (const memo of allThreadMemos) {
-        const replyCount = allThreadMemos.filter(
-          (m) => m.parent_id === memo.id
-        ).length;
-        memoMap.set(memo.id, {
-          ...memo,
-          replies: [],
-          replyCount,
-          reactions: reactionsByMemo[memo.id] || {},
-        });
-      }
-
-      // Second pass: build parent-child relationships
-      for (const memo of allThreadMemos) {
-        const memoWithReplies = memoMap.get(memo.id);
-        if (memo.parent_id && memoMap.has(memo.parent_id)) {
-          const parent = memoMap.get(memo.parent_id);
-          parent.replies.push(memoWithReplies);
-        }
       }
+    }
 
-      // Get the root with full tree structure
-      const rootWithTree = memoMap.get(rootMemo.id);
-
-      // Get the focused memo with its replies
-      const focusedMemoWithReplies = memoMap.get(memoResult[0].id);
-
-      console.log(
-        "Tree structure built - root has",
-        rootWithTree?.replies?.length || 0,
-        "direct replies"
-      );
-      console.log(
-        "Focused memo has",
-        focusedMemoWithReplies?.replies?.length || 0,
-        "direct replies"
-      );
+    return null;
+  }
 
-      return {
-        root: rootMemo,
-        tree: rootWithTree, // The root with its complete tree structure
-        memos: allThreadMemos, // Flat list for compatibility
-        total: allThreadMemos.length,
-        focusedMemo: focusedMemoWithReplies, // The requested memo with its replies
-      };
+  /**
+   * Get the thread containing a memo slug
+   * Returns the root memo and its descendants in tree structure, down to
+   * `depth` levels below the root and below the memo (see memo-threads.ts)
+   */
+  async getThread(
+    slug: string,
+    options: { depth?: number } = {}
+  ): Promise<Thread | null> {
+    try {
+      return await loadThread(this, slug, options);
     } catch (error) {
       console.error("Error getting thread:", error);
       return null;
@@ -1074,6 +1313,15 @@ export class Chat extends AIChatAgent<Env, State> {
       );
     }
 
+    // Report the applied schema version
+    if (url.pathname.endsWith("/schema-version") && request.method === "GET") {
+      return Response.json({
+        version: getSchemaVersion(this),
+        latest: LATEST_SCHEMA_VERSION,
+        migrations: getAppliedMigrations(this),
+      });
+    }
+
     // Handle thread endpoints
     if (url.pathname.endsWith("/thread") && request.method === "GET") {
       const slug = url.searchParams.get("slug");
@@ -1083,7 +1331,14 @@ export class Chat extends AIChatAgent<Env, State> {
         return new Response("Missing slug parameter", { status: 400 });
       }
 
-      const thread = await this.getThread(slug);
+      // ?depth=N limits the levels of replies loaded; ?subtree=true loads
+      // only the memo and the replies below it ("load more replies")
+      const depthParam = url.searchParams.get("depth");
+      const depth = depthParam ? Number.parseInt(depthParam, 10) : undefined;
+      const thread =
+        url.searchParams.get("subtree") === "true"
+          ? await loadSubtree(this, slug, { depth })
+          : await this.getThread(slug, { depth });
       console.log(
         "Thread result:",
         thread ? `Found ${thread.total} memos` : "Not found"
@@ -1116,11 +1371,7 @@ export class Chat extends AIChatAgent<Env, State> {
           return new Response("Missing required fields", { status: 400 });
         }
 
-        // Initialize memos table to ensure parent_id and author columns exist
-        const { initMemosTableWithAgent, memoTools } = await import(
-          "./memo-tools"
-        );
-        await initMemosTableWithAgent(this);
+        const { memoTools } = await import("./memo-tools");
 
         // Use the createReply tool with agent context
         const result = await agentContext.run(this, async () => {
@@ -1165,10 +1416,6 @@ export class Chat extends AIChatAgent<Env, State> {
           return new Response("Missing memo_id parameter", { status: 400 });
         }
 
-        // Initialize memos table
-        const { initMemosTableWithAgent } = await import("./memo-tools");
-        await initMemosTableWithAgent(this);
-
         // Get the placeholder memo
         const placeholderResult = await this.sql`
           SELECT * FROM memos WHERE id = ${memo_id}
@@ -1212,20 +1459,6 @@ export class Chat extends AIChatAgent<Env, State> {
         let persona = null;
         let personaModel = null;
         if (persona_id || emoji) {
-          // Initialize emoji personas table first
-          await this.sql`
-            CREATE TABLE IF NOT EXISTS emoji_personas (
-              id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-              emoji TEXT NOT NULL UNIQUE,
-              name TEXT NOT NULL,
-              description TEXT NOT NULL,
-              instructions TEXT NOT NULL,
-              model_preference TEXT,
-              created TEXT DEFAULT CURRENT_TIMESTAMP,
-              modified TEXT DEFAULT CURRENT_TIMESTAMP
-            )
-          `;
-
           if (persona_id) {
             const personaResult = await this.sql`
               SELECT * FROM emoji_personas WHERE id = ${persona_id}
@@ -1299,11 +1532,27 @@ Please provide a helpful response to continue this conversation thread.`;
           authorField = `assistant:${persona.emoji}:${persona.name}`;
         }
 
+        await recordMemoRevision(
+          this,
+          {
+            id: String(placeholder.id),
+            content: String(placeholder.content),
+            headers: String(placeholder.headers),
+            author: placeholder.author ? String(placeholder.author) : null,
+            modified: placeholder.modified
+              ? String(placeholder.modified)
+              : null,
+          },
+          { content: response, headers: String(placeholder.headers) },
+          authorField
+        );
+
         await this.sql`
           UPDATE memos
           SET content = ${response}, modified = ${now}, author = ${authorField}
           WHERE id = ${memo_id}
         `;
+        await indexMemoLinks(this, memo_id, response);
 
         console.log("Generated response updated in memo:", memo_id);
         return Response.json({
@@ -1486,19 +1735,6 @@ Please provide a helpful response to continue this conversation thread.`;
           return new Response("Missing required fields", { status: 400 });
         }
 
-        // Initialize reactions table
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS reactions (
-            id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-            memo_id TEXT NOT NULL,
-            emoji TEXT NOT NULL,
-            user_id TEXT NOT NULL,
-            created TEXT DEFAULT CURRENT_TIMESTAMP,
-            UNIQUE(memo_id, emoji, user_id),
-            FOREIGN KEY (memo_id) REFERENCES memos (id) ON DELETE CASCADE
-          )
-        `;
-
         // Add reaction (INSERT OR IGNORE to handle duplicates)
         await this.sql`
           INSERT OR IGNORE INTO reactions (memo_id, emoji, user_id)
@@ -1583,16 +1819,16 @@ Please provide a helpful response to continue this conversation thread.`;
         console.log("Starting fragment extraction for memo:", memo_id);
 
         // Search for similar existing fragments using vector similarity
-        let vectorResults = { matches: [] };
+        let vectorResults: VectorQueryResult = { matches: [], count: 0 };
         try {
-          const embedding = await this.env.AI.run("@cf/baai/bge-base-en-v1.5", {
-            text: memo_content,
-          });
+          const embedding = await this.createEmbeddings(memo_content);
 
-          vectorResults = await this.env.VECTORIZE.query(embedding.data[0], {
-            topK: 5,
-            returnMetadata: true,
-          });
+          vectorResults = await this.searchSimilarVectors(
+            embedding,
+            5,
+            0,
+            "fragment"
+          );
         } catch (error) {
           if (
             !(
@@ -1607,13 +1843,26 @@ Please provide a helpful response to continue this conversation thread.`;
           // Continue with empty results
         }
 
-        const similarFragments = vectorResults.matches
-          .filter((match: any) => match.score > 0.7)
-          .map((match: any) => ({
-            id: match.id,
-            content: match.metadata?.content || "",
-            score: match.score,
-          }));
+        // Vector metadata only names the fragment; read its content from the table
+        const similarFragments: {
+          id: string;
+          content: string;
+          score: number;
+        }[] = [];
+        for (const match of vectorResults.matches) {
+          const ref = vectorRef(match);
+          if (match.score <= 0.7 || ref?.kind !== "fragment") continue;
+
+          const rows = await this.sql<{ content: string }>`
+            SELECT content FROM fragments WHERE id = ${ref.id} LIMIT 1`;
+          if (rows[0]) {
+            similarFragments.push({
+              id: ref.id,
+              content: rows[0].content,
+              score: match.score,
+            });
+          }
+        }
 
         // Build context for LLM
         const similarFragmentsContext =
@@ -1621,6 +1870,14 @@ Please provide a helpful response to continue this conversation thread.`;
             ? `\n\nSimilar existing fragments:\n${similarFragments.map((f) => `- ${f.content} (similarity: ${f.score.toFixed(2)})`).join("\n")}`
             : "";
 
+        // Links must use a registered verb; /link-fragments falls back otherwise
+        const relationVocabulary = (await getRelationTypes(this))
+          .map(
+            (t) =>
+              `- ${t.name}${t.inverse ? ` (inverse: ${t.inverse})` : ""}: ${t.description}`
+          )
+          .join("\n");
+
         const extractionPrompt = `You are analyzing a conversation thread to extract key concepts and insights as fragments for a knowledge base.
 
 Thread Context:
@@ -1636,6 +1893,9 @@ Please analyze this conversation and the new reply to identify:
 2. Connections to existing similar fragments (if any)
 3. Relationships between the newly extracted fragments
 
+Relationship verbs (use exactly one of these names for every link):
+${relationVocabulary}
+
 Output your analysis as valid JSON in this exact format:
 {
   "fragments": [
@@ -1648,14 +1908,14 @@ Output your analysis as valid JSON in this exact format:
   "links": [
     {
       "existing_fragment_id": "id_of_existing_fragment_to_link_to",
-      "relationship": "How this new content relates to the existing fragment"
+      "relationship": "Verb from the list, read from the new content to the existing fragment"
     }
   ],
   "internal_links": [
     {
       "from_fragment_index": 0,
       "to_fragment_index": 1,
-      "relationship": "How these two extracted fragments relate to each other"
+      "relationship": "Verb from the list, read from the first fragment to the second"
     }
   ]
 }
@@ -1932,6 +2192,184 @@ Return only the summary text, no additional formatting or explanation.`;
       }
     }
 
+    // Handle embedding coverage / re-index job status
+    if (
+      url.pathname.endsWith("/embedding-status") &&
+      request.method === "GET"
+    ) {
+      return Response.json({
+        success: true,
+        ...(await getEmbeddingStatus(this)),
+      });
+    }
+
+    // Embedding cache size and hit rate
+    if (
+      url.pathname.endsWith("/embedding-cache-stats") &&
+      request.method === "GET"
+    ) {
+      return Response.json({
+        success: true,
+        ...getEmbeddingCacheStats(this.ctx.storage.sql, this.embeddings),
+      });
+    }
+
+    // Empty the embedding cache, e.g. after a provider changes a model in place
+    if (
+      url.pathname.endsWith("/clear-embedding-cache") &&
+      request.method === "POST"
+    ) {
+      clearEmbeddingCache(this.ctx.storage.sql);
+      // Rebuilt on next use, which also drops the in-memory layer
+      this.embeddingProvider = undefined;
+      return Response.json({ success: true });
+    }
+
+    // Start a re-index job (or return the one already running)
+    if (
+      url.pathname.endsWith("/reindex-embeddings") &&
+      request.method === "POST"
+    ) {
+      try {
+        const data = (await request.json().catch(() => ({}))) as {
+          force?: boolean;
+        };
+        const { job, started } = await startEmbeddingJob(this, {
+          force: data.force === true,
+        });
+        return Response.json({ success: true, started, job });
+      } catch (error) {
+        console.error("Error starting embedding job:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Cancel the running re-index job
+    if (
+      url.pathname.endsWith("/cancel-reindex-embeddings") &&
+      request.method === "POST"
+    ) {
+      const job = await cancelEmbeddingJob(this);
+      if (!job) {
+        return Response.json(
+          { success: false, error: "No embedding job is running" },
+          { status: 404 }
+        );
+      }
+      return Response.json({ success: true, job });
+    }
+
+    // Versioned archive of the whole notebook (see notebook-archive.ts)
+    if (url.pathname.endsWith("/export-notebook") && request.method === "GET") {
+      try {
+        const archive = await exportNotebook(this, {
+          embeddings: url.searchParams.get("embeddings") === "true",
+        });
+        return Response.json(archive, {
+          headers: {
+            "Content-Disposition": `attachment; filename="notebook-${archive.exported_at.split("T")[0]}.json"`,
+          },
+        });
+      } catch (error) {
+        console.error("Error exporting notebook:", error);
+        return Response.json(
+          { success: false, error: "Failed to export notebook" },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Restore an archive: ?mode=merge|replace&on_conflict=skip|overwrite&dry_run=true
+    if (
+      url.pathname.endsWith("/import-notebook") &&
+      request.method === "POST"
+    ) {
+      try {
+        const options = parseImportOptions(url.searchParams);
+        if (!options.ok) {
+          return Response.json(
+            { success: false, error: options.error },
+            { status: options.status }
+          );
+        }
+        const archive = parseArchive(await request.json().catch(() => null));
+        if (!archive.ok) {
+          return Response.json(
+            { success: false, error: archive.error },
+            { status: archive.status }
+          );
+        }
+        const report = await importNotebook(this, archive.value, {
+          ...options.value,
+          cache: sqliteEmbeddingCache(this.ctx.storage.sql),
+        });
+        if (isRejected(report)) {
+          return Response.json(
+            {
+              success: false,
+              error: "Archive has duplicate items; nothing was imported.",
+              ...report,
+            },
+            { status: 409 }
+          );
+        }
+        return Response.json({ success: true, ...report });
+      } catch (error) {
+        console.error("Error importing notebook:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Handle unified search endpoint
+    if (url.pathname.endsWith("/search") && request.method === "GET") {
+      const q = url.searchParams.get("q")?.trim() ?? "";
+      if (!q) {
+        return new Response("Missing required fields", { status: 400 });
+      }
+
+      const kindsParam = url.searchParams.get("kinds");
+      const kinds = kindsParam
+        ? (kindsParam
+            .split(",")
+            .filter((k) =>
+              SEARCH_KINDS.includes(k as SearchKind)
+            ) as SearchKind[])
+        : SEARCH_KINDS;
+      const limit = Math.min(
+        Number.parseInt(url.searchParams.get("limit") ?? "20", 10) || 20,
+        100
+      );
+
+      try {
+        const result = await hybridSearch(this, q, { kinds, limit });
+        return Response.json({ success: true, ...result });
+      } catch (error) {
+        console.error("Error searching:", error);
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Internal server error",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
     // Handle find related content endpoint
     if (
       url.pathname.endsWith("/find-related-content") &&
@@ -1950,76 +2388,69 @@ Return only the summary text, no additional formatting or explanation.`;
 
         console.log("Finding related content for memo:", memo_id);
 
-        let relatedMemos = [];
+        let relatedMemos: Record<string, unknown>[] = [];
         let relatedFragments = [];
 
         try {
           // Generate embeddings for the content
-          const embedding = await this.env.AI.run("@cf/baai/bge-base-en-v1.5", {
-            text: content,
+          const embedding = await this.createEmbeddings(content);
+
+          // Search for similar memo passages, keeping each memo's best one
+          const passages = await findMemoPassages(this, embedding, {
+            limit: 10,
+            threshold: 0.7,
+            exclude: memo_id,
           });
 
-          // Search for similar memos
-          const memoVectorResults = await this.env.VECTORIZE.query(
-            embedding.data[0],
-            {
-              topK: 10,
-              returnMetadata: true,
-            }
-          );
+          // Fetch memo details for similar memos
+          for (const passage of passages) {
+            if (relatedMemos.some((m) => m.id === passage.id)) continue;
 
-          const similarMemoIds = memoVectorResults.matches
-            .filter(
-              (match: any) =>
-                match.score > 0.7 && match.metadata?.memo_id !== memo_id
-            )
-            .map((match: any) => ({
-              memo_id: match.metadata?.memo_id,
-              similarity: match.score,
-            }));
+            const memoResults = await this.sql`
+              SELECT id, slug, content, author, created, modified, parent_id, summary
+              FROM memos
+              WHERE id = ${passage.id}
+            `;
 
-          // Fetch memo details for similar memos
-          if (similarMemoIds.length > 0) {
-            for (const {
-              memo_id: similarMemoId,
-              similarity,
-            } of similarMemoIds) {
-              const memoResults = await this.sql`
-                SELECT id, slug, content, author, created, modified, parent_id, summary
-                FROM memos
-                WHERE id = ${similarMemoId}
-              `;
-
-              if (memoResults.length > 0) {
-                relatedMemos.push({
-                  ...memoResults[0],
-                  similarity,
-                });
-              }
+            if (memoResults.length > 0) {
+              relatedMemos.push({
+                ...memoResults[0],
+                passage: passage.content,
+                citation: passage.citation,
+                similarity: passage.similarity,
+              });
             }
           }
 
           // Search for similar fragments
-          const fragmentVectorResults = await this.env.VECTORIZE.query(
-            embedding.data[0],
-            {
-              topK: 5,
-              returnMetadata: true,
-            }
+          const fragmentVectorResults = await this.searchSimilarVectors(
+            embedding,
+            5,
+            0,
+            "fragment"
           );
 
-          const similarFragmentIds = fragmentVectorResults.matches
-            .filter(
-              (match: any) =>
-                match.score > 0.7 && match.metadata?.type === "fragment"
-            )
-            .map((match: any) => ({
-              fragment_id: match.id,
-              similarity: match.score,
-              content: match.metadata?.content || "",
-            }));
+          for (const match of fragmentVectorResults.matches) {
+            const ref = vectorRef(match);
+            if (match.score <= 0.7 || ref?.kind !== "fragment") continue;
 
-          relatedFragments = similarFragmentIds.slice(0, 5);
+            const fragmentResults = await this.sql<{
+              slug: string;
+              content: string;
+            }>`
+              SELECT slug, content FROM fragments WHERE id = ${ref.id}
+            `;
+
+            if (fragmentResults.length > 0) {
+              relatedFragments.push({
+                id: ref.id,
+                fragment_id: ref.id,
+                slug: fragmentResults[0].slug,
+                content: fragmentResults[0].content,
+                similarity: match.score,
+              });
+            }
+          }
         } catch (vectorError) {
           if (
             !(
@@ -2064,20 +2495,6 @@ Return only the summary text, no additional formatting or explanation.`;
     // Handle emoji personas endpoints
     if (url.pathname.endsWith("/emoji-personas") && request.method === "GET") {
       try {
-        // Initialize emoji personas table
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS emoji_personas (
-            id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-            emoji TEXT NOT NULL UNIQUE,
-            name TEXT NOT NULL,
-            description TEXT NOT NULL,
-            instructions TEXT NOT NULL,
-            model_preference TEXT,
-            created TEXT DEFAULT CURRENT_TIMESTAMP,
-            modified TEXT DEFAULT CURRENT_TIMESTAMP
-          )
-        `;
-
         const personas = await this.sql`
           SELECT * FROM emoji_personas ORDER BY created ASC
         `;
@@ -2112,20 +2529,6 @@ Return only the summary text, no additional formatting or explanation.`;
           return new Response("Missing required fields", { status: 400 });
         }
 
-        // Initialize emoji personas table
-        await this.sql`
-          CREATE TABLE IF NOT EXISTS emoji_personas (
-            id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-            emoji TEXT NOT NULL UNIQUE,
-            name TEXT NOT NULL,
-            description TEXT NOT NULL,
-            instructions TEXT NOT NULL,
-            model_preference TEXT,
-            created TEXT DEFAULT CURRENT_TIMESTAMP,
-            modified TEXT DEFAULT CURRENT_TIMESTAMP
-          )
-        `;
-
         const now = new Date().toISOString();
         await this.sql`
           INSERT INTO emoji_personas (emoji, name, description, instructions, model_preference, created, modified)
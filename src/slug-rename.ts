@@ -0,0 +1,357 @@
+/**
+ * Slug renames
+ * ------------
+ * Renaming a memo or fragment points every `[[old]]` reference at the new
+ * slug: memo and fragment content is rewritten (sections kept), each memo
+ * touched gets a revision and a re-indexed set of links, and everything
+ * rewritten is re-embedded so its vector metadata carries the new slug.
+ * The storage writes commit together in one transaction; only re-embedding
+ * runs after it.
+ *
+ * The old slug is kept in `slug_aliases` as a redirect, so links written
+ * elsewhere (chat history, exports, bookmarks) still reach the item. A real
+ * slug always wins over an alias. Renaming an item back to one of its old
+ * slugs drops that alias; deleting the item drops all of them.
+ *
+ * Tables (created in migrations.ts)
+ *  - slug_aliases
+ */
+import type { Chat } from "./server";
+import type { Memo } from "./memo-tools";
+import {
+  embedFragment,
+  type Fragment,
+  type FragmentOpResult,
+  getFragmentBySlug,
+} from "./fragment-tools";
+import { embedMemoChunks } from "./memo-chunks";
+import { indexMemoLinks, rewriteWikiLinks } from "./memo-links";
+import { recordMemoRevision } from "./memo-revisions";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type AliasKind = "memo" | "fragment";
+
+export type RenameResult = {
+  kind: AliasKind;
+  id: string;
+  old_slug: string;
+  new_slug: string;
+  rewritten_memos: string[]; // slugs of memos whose links were rewritten
+  rewritten_fragments: string[];
+};
+
+// ---------------------------------------------------------------------------
+// Aliases
+// ---------------------------------------------------------------------------
+
+/**
+ * Why `slug` can't be used as a slug, or null if it can. Characters that
+ * end or split a `[[link]]` are refused.
+ */
+export function slugError(slug: string): string | null {
+  if (!slug.trim()) {
+    return "The new slug must not be empty.";
+  }
+  if (/[[\]#|\n]/.test(slug)) {
+    return "Slugs cannot contain '[', ']', '#', '|' or line breaks.";
+  }
+  return null;
+}
+
+/**
+ * The current slug of the memo or fragment that used to be called `slug`,
+ * or null if it was never renamed from it.
+ */
+export async function resolveSlugAlias(
+  agent: Chat,
+  kind: AliasKind,
+  slug: string
+): Promise<string | null> {
+  const rows =
+    kind === "memo"
+      ? await agent.sql<{ slug: string }>`
+          SELECT m.slug FROM slug_aliases a JOIN memos m ON m.id = a.target_id
+          WHERE a.kind = 'memo' AND a.old_slug = ${slug} LIMIT 1`
+      : await agent.sql<{ slug: string }>`
+          SELECT f.slug FROM slug_aliases a JOIN fragments f ON f.id = a.target_id
+          WHERE a.kind = 'fragment' AND a.old_slug = ${slug} LIMIT 1`;
+  return rows[0]?.slug ?? null;
+}
+
+/**
+ * Old slugs of one memo or fragment, most recent first.
+ */
+export async function getSlugAliases(
+  agent: Chat,
+  kind: AliasKind,
+  id: string
+): Promise<string[]> {
+  const rows = await agent.sql<{ old_slug: string }>`
+    SELECT old_slug FROM slug_aliases
+    WHERE kind = ${kind} AND target_id = ${id}
+    ORDER BY created DESC`;
+  return rows.map((r) => r.old_slug);
+}
+
+/**
+ * Keep `oldSlug` as a redirect to the item now called `newSlug`, and
+ * resolve links to it that were left without a target. Synchronous, so it
+ * can run inside a transaction.
+ */
+export function recordSlugAlias(
+  agent: Chat,
+  kind: AliasKind,
+  id: string,
+  oldSlug: string,
+  newSlug: string
+) {
+  agent.sql`
+    DELETE FROM slug_aliases WHERE kind = ${kind} AND old_slug = ${newSlug}`;
+  agent.sql`
+    INSERT OR REPLACE INTO slug_aliases (kind, old_slug, target_id, created)
+    VALUES (${kind}, ${oldSlug}, ${id}, ${new Date().toISOString()})`;
+  agent.sql`
+    UPDATE memo_links SET target_kind = ${kind}
+    WHERE target_slug = ${oldSlug} AND target_kind = 'unresolved'`;
+}
+
+// ---------------------------------------------------------------------------
+// Reference rewriting
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-embed a memo's passages, logging rather than failing the rename.
+ */
+async function reembedMemo(agent: Chat, memo: Memo) {
+  try {
+    const vector_id = await embedMemoChunks(agent, memo);
+    await agent.sql`UPDATE memos SET vector_id = ${vector_id} WHERE id = ${memo.id}`;
+  } catch (error) {
+    console.error("Error re-embedding memo", memo.slug, error);
+  }
+}
+
+type RewrittenItems = { memos: Memo[]; fragments: Fragment[] };
+
+/**
+ * Point `[[oldSlug]]` references at `newSlug` once the item has been renamed.
+ * Only references that meant the renamed item are touched: a memo with the
+ * old slug shadows a fragment, so renaming a fragment leaves links alone
+ * while such a memo exists. Synchronous, so it runs inside the rename's
+ * transaction; returns the rewritten items for re-embedding once it commits.
+ */
+function rewriteSlugReferences(
+  agent: Chat,
+  oldSlug: string,
+  newSlug: string,
+  author: string
+): RewrittenItems {
+  const shadowed = agent.sql<{ id: string }>`
+    SELECT id FROM memos WHERE slug = ${oldSlug} LIMIT 1`;
+  if (shadowed.length) {
+    return { memos: [], fragments: [] };
+  }
+
+  // The rename has already re-resolved these away from the renamed item
+  const memos = agent.sql<Memo>`
+    SELECT * FROM memos
+    WHERE id IN (SELECT source_id FROM memo_links WHERE target_slug = ${oldSlug})`;
+  const rewrittenMemos: Memo[] = [];
+  for (const memo of memos) {
+    const content = rewriteWikiLinks(memo.content, oldSlug, newSlug);
+    if (content === memo.content) continue;
+
+    recordMemoRevision(agent, memo, { content, headers: memo.headers }, author);
+    agent.sql`
+      UPDATE memos SET content = ${content}, modified = ${new Date().toISOString()}
+      WHERE id = ${memo.id}`;
+    indexMemoLinks(agent, memo.id, content);
+    rewrittenMemos.push({ ...memo, content });
+  }
+
+  // Fragments aren't in the link index; narrow by substring, then parse
+  const fragments = agent.sql<Fragment>`
+    SELECT * FROM fragments
+    WHERE instr(content, '[[') > 0 AND instr(content, ${oldSlug}) > 0`;
+  const rewrittenFragments: Fragment[] = [];
+  for (const fragment of fragments) {
+    const content = rewriteWikiLinks(fragment.content, oldSlug, newSlug);
+    if (content === fragment.content) continue;
+
+    const modified = new Date().toISOString();
+    agent.sql`
+      UPDATE fragments SET content = ${content}, modified = ${modified}
+      WHERE id = ${fragment.id}`;
+    rewrittenFragments.push({ ...fragment, content, modified });
+  }
+
+  return { memos: rewrittenMemos, fragments: rewrittenFragments };
+}
+
+/**
+ * Re-embed what `rewriteSlugReferences` changed.
+ */
+async function reembedRewritten(
+  agent: Chat,
+  rewritten: RewrittenItems
+): Promise<Pick<RenameResult, "rewritten_memos" | "rewritten_fragments">> {
+  for (const memo of rewritten.memos) {
+    await reembedMemo(agent, memo);
+  }
+  for (const fragment of rewritten.fragments) {
+    await embedFragment(agent, fragment);
+  }
+  return {
+    rewritten_memos: rewritten.memos.map((m) => m.slug),
+    rewritten_fragments: rewritten.fragments.map((f) => f.slug),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Renames
+// ---------------------------------------------------------------------------
+
+/**
+ * Rename a memo (or reply), rewrite the links to it and keep its old slug as
+ * an alias. Fragments auto-created from the memo follow it.
+ */
+export async function renameMemo(
+  agent: Chat,
+  slug: string,
+  newSlug: string,
+  { author = "user" }: { author?: string } = {}
+): Promise<FragmentOpResult<RenameResult>> {
+  const target = newSlug.trim();
+  const invalid = slugError(target);
+  if (invalid) {
+    return { ok: false, status: 400, error: invalid };
+  }
+
+  const rows = await agent.sql<Memo>`
+    SELECT * FROM memos WHERE slug = ${slug} LIMIT 1`;
+  const memo = rows[0];
+  if (!memo) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No memo found with slug '${slug}'.`,
+    };
+  }
+  if (target === memo.slug) {
+    return {
+      ok: false,
+      status: 400,
+      error: "The new slug is the current slug.",
+    };
+  }
+  const taken = await agent.sql<{ id: string }>`
+    SELECT id FROM memos WHERE slug = ${target} LIMIT 1`;
+  if (taken.length) {
+    return {
+      ok: false,
+      status: 409,
+      error: `A memo with slug '${target}' already exists.`,
+    };
+  }
+
+  const items = agent.transaction(() => {
+    agent.sql`
+      UPDATE memos SET slug = ${target}, modified = ${new Date().toISOString()}
+      WHERE id = ${memo.id}`;
+    agent.sql`
+      UPDATE fragments
+      SET metadata = json_set(metadata, '$.source_memo', ${target})
+      WHERE json_valid(metadata)
+        AND json_extract(metadata, '$.source_memo') = ${memo.slug}`;
+    const items = rewriteSlugReferences(agent, memo.slug, target, author);
+    recordSlugAlias(agent, "memo", memo.id, memo.slug, target);
+    return items;
+  });
+
+  // Vectors live outside storage, so re-embedding follows the commit.
+  // Passages of the renamed memo carry its slug; a self-link is re-embedded
+  // along with the rewrite
+  const rewritten = await reembedRewritten(agent, items);
+  if (!rewritten.rewritten_memos.includes(target)) {
+    await reembedMemo(agent, { ...memo, slug: target });
+  }
+
+  return {
+    ok: true,
+    value: {
+      kind: "memo",
+      id: memo.id,
+      old_slug: memo.slug,
+      new_slug: target,
+      ...rewritten,
+    },
+  };
+}
+
+/**
+ * Rename a fragment, rewrite the links to it and keep its old slug as an
+ * alias.
+ */
+export async function renameFragment(
+  agent: Chat,
+  slug: string,
+  newSlug: string,
+  { author = "user" }: { author?: string } = {}
+): Promise<FragmentOpResult<RenameResult>> {
+  const target = newSlug.trim();
+  const invalid = slugError(target);
+  if (invalid) {
+    return { ok: false, status: 400, error: invalid };
+  }
+
+  const fragment = await getFragmentBySlug(agent, slug);
+  if (!fragment) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No fragment found with slug '${slug}'.`,
+    };
+  }
+  if (target === fragment.slug) {
+    return {
+      ok: false,
+      status: 400,
+      error: "The new slug is the current slug.",
+    };
+  }
+  if (await getFragmentBySlug(agent, target)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `A fragment with slug '${target}' already exists.`,
+    };
+  }
+
+  const modified = new Date().toISOString();
+  const items = agent.transaction(() => {
+    agent.sql`
+      UPDATE fragments SET slug = ${target}, modified = ${modified}
+      WHERE id = ${fragment.id}`;
+    const items = rewriteSlugReferences(agent, fragment.slug, target, author);
+    recordSlugAlias(agent, "fragment", fragment.id, fragment.slug, target);
+    return items;
+  });
+
+  const rewritten = await reembedRewritten(agent, items);
+  if (!rewritten.rewritten_fragments.includes(target)) {
+    await embedFragment(agent, { ...fragment, slug: target, modified });
+  }
+
+  return {
+    ok: true,
+    value: {
+      kind: "fragment",
+      id: fragment.id,
+      old_slug: fragment.slug,
+      new_slug: target,
+      ...rewritten,
+    },
+  };
+}
@@ -17,6 +17,9 @@ import { memoTools } from "./memo-tools";
 // Import the fragment tools
 import { fragmentTools } from "./fragment-tools";
 
+// Import the cross-entity search tool
+import { searchTools } from "./search-tools";
+
 /**
  * Weather information tool that requires human confirmation
  * When invoked, this will present a confirmation dialog to the user
@@ -188,6 +191,8 @@ export const tools = {
   ...memoTools,
   // Add fragment management tools
   ...fragmentTools,
+  // Add unified search
+  ...searchTools,
 };
 
 /**
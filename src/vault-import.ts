@@ -0,0 +1,448 @@
+/**
+ * Markdown vault import
+ * ---------------------
+ * Brings a folder of markdown notes (an Obsidian or Logseq vault, zipped)
+ * in as memos (`/import-vault`):
+ *
+ *  - every `.md` file becomes a root memo; other files (attachments) are
+ *    skipped, and hidden folders (`.obsidian`, `.trash`, ...) ignored
+ *  - YAML frontmatter, or Logseq's leading `key:: value` lines, become the
+ *    memo's headers, alongside `vault_path` and the original `title`
+ *  - the file name becomes the slug: lower-cased, spaces and underscores as
+ *    dashes, other punctuation dropped; a name used twice, or already taken
+ *    by a memo, gets a numeric suffix (or the note is skipped, with
+ *    `on_conflict=skip`)
+ *  - `[[links]]` to a note by name, path or frontmatter alias are rewritten
+ *    to its slug, keeping the name as display text, then indexed with
+ *    `updateBacklinks`
+ *
+ * Memos are embedded afterwards by an embedding job. The report lists every
+ * note whose slug differs from its file name and every link left
+ * unresolved.
+ *
+ * Only the subset of YAML that frontmatter uses in practice is read:
+ * scalars, quoted strings, inline `[a, b]` and `- item` lists, and `|`/`>`
+ * block text. Nested maps are skipped.
+ */
+import type { Chat } from "./server";
+import type { FragmentOpResult } from "./fragment-tools";
+import { updateBacklinks } from "./memo-links";
+import { startEmbeddingJob } from "./reindex";
+import { formatWikiLink, splitWikiLinks } from "./wiki-links";
+import { readZip } from "./zip";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type VaultFile = {
+  path: string;
+  text: string;
+  modified: Date;
+};
+
+export type VaultNote = {
+  path: string;
+  name: string; // file name without extension
+  slug: string;
+  content: string; // body, links rewritten
+  headers: Record<string, unknown>;
+  created: string; // ISO
+  modified: string; // ISO
+};
+
+export type RenamedNote = {
+  path: string;
+  name: string;
+  slug: string;
+  reason: "normalized" | "duplicate" | "taken";
+};
+
+export type SkippedFile = { path: string; reason: string };
+
+export type VaultPlan = {
+  notes: VaultNote[];
+  renamed: RenamedNote[];
+  skipped: SkippedFile[];
+};
+
+export type VaultImportOptions = {
+  on_conflict?: "rename" | "skip";
+};
+
+export type VaultImportReport = {
+  imported: { path: string; slug: string }[];
+  renamed: RenamedNote[];
+  unresolved: { slug: string; target: string }[]; // memo, link target
+  skipped: SkippedFile[];
+  embedding_job: string | null;
+};
+
+// Largest zip accepted, before inflating
+export const MAX_VAULT_BYTES = 32 * 1024 * 1024;
+
+// Largest note once inflated (a memo row can't be much bigger), and all of
+// them together; other files are never inflated
+export const MAX_NOTE_BYTES = 2 * 1024 * 1024;
+export const MAX_VAULT_NOTES_BYTES = 64 * 1024 * 1024;
+
+const MARKDOWN = /\.(md|markdown)$/i;
+
+/**
+ * Files in hidden folders (`.obsidian`, `.trash`, ...) and macOS zip
+ * metadata, which aren't part of the vault.
+ */
+function isHidden(path: string): boolean {
+  const segments = path.split("/");
+  return segments.some((s) => s.startsWith(".")) || segments[0] === "__MACOSX";
+}
+
+// ---------------------------------------------------------------------------
+// Frontmatter
+// ---------------------------------------------------------------------------
+
+function yamlScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value
+      .slice(1, -1)
+      .replace(/\\n/g, "\n")
+      .replace(/\\(["\\])/g, "$1");
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === "true" || value === "false") return value === "true";
+  if (value === "" || value === "~" || value === "null") return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function inlineList(raw: string): unknown[] {
+  const items = raw.match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) ?? [];
+  return items.map((item) => yamlScalar(item)).filter((item) => item !== null);
+}
+
+/**
+ * The frontmatter subset described above, as a plain object.
+ */
+function parseYaml(block: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const lines = block.split("\n");
+  let listKey: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      result[listKey] ??= [];
+      (result[listKey] as unknown[]).push(yamlScalar(item[1]));
+      continue;
+    }
+
+    const pair = /^([^\s:#-][^:]*):(?:\s+(.*))?$/.exec(line);
+    if (!pair) continue; // nested maps and the like
+    const key = pair[1].trim();
+    const value = (pair[2] ?? "").trim();
+    listKey = null;
+
+    if (value === "|" || value === ">" || value === "|-" || value === ">-") {
+      const text: string[] = [];
+      while (i + 1 < lines.length && /^(\s+|$)/.test(lines[i + 1])) {
+        text.push(lines[++i].trim());
+      }
+      result[key] = text.join(value.startsWith("|") ? "\n" : " ").trim();
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      result[key] = inlineList(value.slice(1, -1));
+    } else if (value) {
+      result[key] = yamlScalar(value);
+    } else {
+      // A list may follow
+      result[key] = null;
+      listKey = key;
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a note into its properties (YAML frontmatter, or Logseq `key::
+ * value` lines at the top) and the markdown body.
+ */
+export function parseFrontmatter(text: string): {
+  properties: Record<string, unknown>;
+  body: string;
+} {
+  const source = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+  const yaml = /^---\n(?:([\s\S]*?)\n)?---[ \t]*(?:\n|$)/.exec(source);
+  if (yaml) {
+    return {
+      properties: parseYaml(yaml[1] ?? ""),
+      body: source.slice(yaml[0].length),
+    };
+  }
+
+  const lines = source.split("\n");
+  const properties: Record<string, unknown> = {};
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const property = /^([A-Za-z][\w-]*):: ?(.*)$/.exec(lines[i]);
+    if (!property) break;
+    const [, key, value] = property;
+    // Logseq writes page references as [[...]] and lists with commas
+    properties[key] = ["tags", "alias", "aliases"].includes(key)
+      ? value
+          .split(",")
+          .map((tag) => tag.trim().replace(/^\[\[(.*)\]\]$/, "$1"))
+          .filter(Boolean)
+      : yamlScalar(value);
+  }
+  if (i && !lines[i]?.trim()) i++;
+  return { properties, body: lines.slice(i).join("\n") };
+}
+
+// ---------------------------------------------------------------------------
+// Slugs
+// ---------------------------------------------------------------------------
+
+/**
+ * The slug a note's name maps to.
+ */
+export function vaultSlug(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^\p{L}\p{N}\-/.]/gu, "")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-./]+|[-./]+$/g, "");
+}
+
+/**
+ * A note's name from its path: the file name without extension, with
+ * Logseq's namespace encoding (`a___b`, `a%2Fb`) undone.
+ */
+function noteName(path: string): string {
+  const file = path.split("/").pop() ?? path;
+  const name = file.replace(MARKDOWN, "").replace(/___/g, "/");
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function stringList(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  return [];
+}
+
+function isoDate(value: unknown): string | null {
+  if (typeof value !== "string" && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/**
+ * Work out the memos a vault's files become, given the slugs already
+ * `taken` by memos. Pure, so it can be checked without a notebook.
+ */
+export function planVault(
+  files: VaultFile[],
+  taken: Set<string>,
+  { on_conflict = "rename" }: VaultImportOptions = {}
+): VaultPlan {
+  const plan: VaultPlan = { notes: [], renamed: [], skipped: [] };
+  const used = new Set<string>();
+  const links = new Map<string, string>(); // lower-cased name/path -> slug
+  const pending: { file: VaultFile; body: string }[] = [];
+
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  for (const file of sorted) {
+    if (isHidden(file.path)) {
+      continue;
+    }
+    if (!MARKDOWN.test(file.path)) {
+      plan.skipped.push({ path: file.path, reason: "not markdown" });
+      continue;
+    }
+
+    const name = noteName(file.path);
+    const base = vaultSlug(name) || "note";
+    if (taken.has(base) && on_conflict === "skip") {
+      plan.skipped.push({
+        path: file.path,
+        reason: `memo '${base}' already exists`,
+      });
+      continue;
+    }
+
+    let slug = base;
+    for (let n = 2; used.has(slug) || taken.has(slug); n++) {
+      slug = `${base}-${n}`;
+    }
+    used.add(slug);
+    if (slug !== name) {
+      plan.renamed.push({
+        path: file.path,
+        name,
+        slug,
+        reason:
+          slug === base
+            ? "normalized"
+            : taken.has(base)
+              ? "taken"
+              : "duplicate",
+      });
+    }
+
+    const { properties, body } = parseFrontmatter(file.text);
+    const fallback = file.modified.toISOString();
+    const created =
+      isoDate(properties.created) ?? isoDate(properties.date) ?? fallback;
+    const modified =
+      isoDate(properties.modified) ?? isoDate(properties.updated) ?? created;
+    const headers: Record<string, unknown> = {
+      ...properties,
+      vault_path: file.path,
+    };
+    if (headers.title === undefined && slug !== name) {
+      headers.title = name;
+    }
+
+    // Earlier notes win a shared name; a full path is always unique
+    const keys = [
+      file.path.replace(MARKDOWN, ""),
+      name,
+      ...stringList(properties.aliases),
+      ...stringList(properties.alias),
+    ];
+    for (const key of keys) {
+      if (!links.has(key.toLowerCase())) links.set(key.toLowerCase(), slug);
+    }
+
+    plan.notes.push({
+      path: file.path,
+      name,
+      slug,
+      content: "",
+      headers,
+      created,
+      modified,
+    });
+    pending.push({ file, body });
+  }
+
+  // Point links at the slugs now that every note has one
+  pending.forEach(({ body }, i) => {
+    plan.notes[i].content = splitWikiLinks(body)
+      .map((part) => {
+        if (typeof part === "string") return part;
+        const slug = links.get(part.slug.replace(MARKDOWN, "").toLowerCase());
+        if (!slug || slug === part.slug) return part.raw;
+        return formatWikiLink({
+          ...part,
+          slug,
+          alias: part.alias || (part.embed ? "" : part.slug),
+        });
+      })
+      .join("");
+  });
+
+  return plan;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Import a zipped vault as memos (see the header).
+ */
+export async function importVault(
+  agent: Chat,
+  zip: ArrayBuffer,
+  options: VaultImportOptions = {}
+): Promise<FragmentOpResult<VaultImportReport>> {
+  if (zip.byteLength > MAX_VAULT_BYTES) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Vaults over ${MAX_VAULT_BYTES / 1024 / 1024} MB can't be imported.`,
+    };
+  }
+
+  let files: VaultFile[];
+  try {
+    const decoder = new TextDecoder();
+    const entries = await readZip(zip, {
+      include: (path) => MARKDOWN.test(path) && !isHidden(path),
+      maxEntryBytes: MAX_NOTE_BYTES,
+      maxTotalBytes: MAX_VAULT_NOTES_BYTES,
+    });
+    files = entries.map((entry) => ({
+      path: entry.path,
+      text: decoder.decode(entry.data),
+      modified: entry.modified,
+    }));
+  } catch (error) {
+    return {
+      ok: false,
+      status: 400,
+      error: error instanceof Error ? error.message : "Unreadable zip archive.",
+    };
+  }
+
+  const taken = await agent.sql<{ slug: string }>`SELECT slug FROM memos`;
+  const plan = planVault(files, new Set(taken.map((row) => row.slug)), options);
+
+  // All of the vault or none of it
+  const ids = plan.notes.map(() => crypto.randomUUID());
+  agent.transaction(() => {
+    for (const [i, note] of plan.notes.entries()) {
+      agent.sql`
+        INSERT INTO memos (id, slug, content, headers, created, modified, author)
+        VALUES (${ids[i]}, ${note.slug}, ${note.content}, ${JSON.stringify(note.headers)},
+                ${note.created}, ${note.modified}, 'user')`;
+    }
+  });
+
+  // Indexed once every note exists, so links between them resolve
+  for (const note of plan.notes) {
+    await updateBacklinks(agent, note.slug, note.content);
+  }
+
+  const unresolved = await agent.sql<{ slug: string; target: string }>`
+    SELECT m.slug, l.target_slug AS target
+    FROM memo_links l JOIN memos m ON m.id = l.source_id
+    WHERE l.target_kind = 'unresolved'
+      AND l.source_id IN (SELECT value FROM json_each(${JSON.stringify(ids)}))
+    ORDER BY m.slug, l.target_slug`;
+
+  let embeddingJob: string | null = null;
+  if (plan.notes.length) {
+    const { job } = await startEmbeddingJob(agent);
+    embeddingJob = job.id;
+  }
+
+  return {
+    ok: true,
+    value: {
+      imported: plan.notes.map(({ path, slug }) => ({ path, slug })),
+      renamed: plan.renamed,
+      unresolved,
+      skipped: plan.skipped,
+      embedding_job: embeddingJob,
+    },
+  };
+}
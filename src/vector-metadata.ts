@@ -0,0 +1,105 @@
+/**
+ * Vector metadata contract
+ * ------------------------
+ * Memos and fragments share one Vectorize index. Every vector is written to
+ * the namespace of its entity kind and carries typed metadata naming the row
+ * it embeds, so queries can be restricted to one kind and each gets its full
+ * top-K.
+ *
+ * Vectors written before this contract have no namespace, so per-kind
+ * queries miss them until they are re-embedded: migration 19 starts an
+ * embedding job for that on upgrade. Their metadata came in several shapes,
+ * which `vectorRef` still understands for unfiltered queries.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type VectorKind = "memo" | "fragment";
+
+export type MemoVectorMetadata = {
+  kind: "memo";
+  memo_id: string;
+  slug: string;
+  // Set on passage vectors (see memo-chunks.ts)
+  chunk?: number;
+  section?: string;
+};
+
+export type FragmentVectorMetadata = {
+  kind: "fragment";
+  fragment_id: string;
+  slug: string;
+};
+
+export type VectorMetadata = MemoVectorMetadata | FragmentVectorMetadata;
+
+// What is actually written: the entity plus the embedding that produced it
+export type StoredVectorMetadata = VectorMetadata & {
+  model: string;
+  dimensions: number;
+};
+
+// The entity a vector match points at
+export type VectorRef = { kind: VectorKind; id: string };
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+export const memoVectorMetadata = (memo: {
+  id: string;
+  slug: string;
+}): MemoVectorMetadata => ({ kind: "memo", memo_id: memo.id, slug: memo.slug });
+
+export const fragmentVectorMetadata = (fragment: {
+  id: string;
+  slug: string;
+}): FragmentVectorMetadata => ({
+  kind: "fragment",
+  fragment_id: fragment.id,
+  slug: fragment.slug,
+});
+
+// ---------------------------------------------------------------------------
+// Reading matches
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a Vectorize match to the memo or fragment it embeds, or null if the
+ * metadata is unrecognised.
+ */
+export function vectorRef(match: {
+  id: string;
+  metadata?: Record<string, unknown> | null;
+}): VectorRef | null {
+  const meta = match.metadata ?? {};
+
+  if (typeof meta.memo_id === "string" && meta.memo_id) {
+    return { kind: "memo", id: meta.memo_id };
+  }
+  if (typeof meta.fragment_id === "string" && meta.fragment_id) {
+    return { kind: "fragment", id: meta.fragment_id };
+  }
+  // Legacy /create-fragment vectors: stored under the bare fragment id
+  if (meta.type === "fragment") {
+    return { kind: "fragment", id: match.id };
+  }
+  return null;
+}
+
+/**
+ * Ids of the `kind` entities among `matches`, best-first and de-duplicated.
+ */
+export function vectorRefIds(
+  matches: { id: string; metadata?: Record<string, unknown> | null }[],
+  kind: VectorKind
+): string[] {
+  const ids: string[] = [];
+  for (const match of matches) {
+    const ref = vectorRef(match);
+    if (ref?.kind === kind && !ids.includes(ref.id)) {
+      ids.push(ref.id);
+    }
+  }
+  return ids;
+}
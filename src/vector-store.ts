@@ -0,0 +1,277 @@
+/**
+ * Vector stores
+ * -------------
+ * Every vector read and write goes through a `VectorStore`, picked once per
+ * Durable Object from the environment:
+ *
+ *  VECTOR_STORE  "vectorize" (default when the VECTORIZE binding exists)
+ *                | "sqlite"  (default otherwise)
+ *
+ * The Vectorize store is the production index. The SQLite store keeps
+ * float32 blobs in the Durable Object's own database and answers queries by
+ * brute-force cosine similarity, so the whole retrieval pipeline runs offline
+ * (pair it with `EMBEDDING_PROVIDER=local`). It scans every vector of the
+ * queried namespace, which is fine for a personal notebook but not for a
+ * large index.
+ *
+ * Both stores take the same namespaces (entity kinds) and metadata as
+ * vector-metadata.ts describes, and return matches in Vectorize's shape.
+ *
+ * Tables (created in migrations.ts)
+ *  - vectors  (SQLite store only)
+ */
+import type {
+  Vectorize,
+  VectorizeVectorMetadataFilter,
+} from "@cloudflare/workers-types/experimental";
+import type { StoredVectorMetadata } from "./vector-metadata";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  namespace: string;
+  metadata: StoredVectorMetadata;
+};
+
+export type VectorMatch = {
+  id: string;
+  score: number;
+  metadata?: Record<string, unknown> | null;
+};
+
+// Equality on a metadata field, or $eq / $ne / $in / $nin against it
+export type VectorFilter = VectorizeVectorMetadataFilter;
+
+export type VectorQueryOptions = {
+  topK: number;
+  namespace?: string;
+  threshold?: number; // drop matches scoring below this
+  filter?: VectorFilter;
+};
+
+export type VectorQueryResult = { matches: VectorMatch[]; count: number };
+
+export interface VectorStore {
+  readonly backend: "vectorize" | "sqlite";
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  query(
+    vector: number[],
+    options: VectorQueryOptions
+  ): Promise<VectorQueryResult>;
+}
+
+export type VectorStoreEnv = {
+  VECTORIZE?: Vectorize;
+  VECTOR_STORE?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Vector maths
+// ---------------------------------------------------------------------------
+
+/**
+ * Pack a vector as little-endian float32 for a BLOB column.
+ */
+export function encodeVector(values: number[]): ArrayBuffer {
+  return new Float32Array(values).buffer;
+}
+
+export function decodeVector(blob: ArrayBuffer | Uint8Array): Float32Array {
+  if (blob instanceof Uint8Array) {
+    // Copy so the float view is aligned regardless of the source offset
+    return new Float32Array(blob.slice().buffer);
+  }
+  return new Float32Array(blob);
+}
+
+export function cosineSimilarity(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>
+): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Whether `metadata` satisfies every condition in `filter`.
+ */
+export function matchesFilter(
+  metadata: Record<string, unknown>,
+  filter: VectorFilter = {}
+): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = metadata[field] ?? null;
+    if (condition === null || typeof condition !== "object") {
+      return value === condition;
+    }
+    if ("$eq" in condition && value !== condition.$eq) {
+      return false;
+    }
+    if ("$ne" in condition && value === condition.$ne) {
+      return false;
+    }
+    if (
+      "$in" in condition &&
+      !(condition.$in as unknown[]).includes(value as unknown)
+    ) {
+      return false;
+    }
+    if (
+      "$nin" in condition &&
+      (condition.$nin as unknown[]).includes(value as unknown)
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Score `candidates` against `vector` and keep the best `topK` that pass the
+ * filter and threshold.
+ */
+export function rankVectors(
+  vector: number[],
+  candidates: {
+    id: string;
+    values: ArrayLike<number>;
+    metadata: Record<string, unknown>;
+  }[],
+  { topK, threshold = 0, filter }: VectorQueryOptions
+): VectorMatch[] {
+  return candidates
+    .filter((c) => matchesFilter(c.metadata, filter))
+    .map((c) => ({
+      id: c.id,
+      score: cosineSimilarity(vector, c.values),
+      metadata: c.metadata,
+    }))
+    .filter((m) => m.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+// ---------------------------------------------------------------------------
+// Vectorize
+// ---------------------------------------------------------------------------
+
+// Vectorize refuses a larger topK when metadata is returned
+export const MAX_VECTORIZE_TOP_K = 50;
+
+export function vectorizeStore(index: Vectorize): VectorStore {
+  return {
+    backend: "vectorize",
+    async upsert(records) {
+      await index.upsert(records);
+    },
+    async delete(ids) {
+      await index.deleteByIds(ids);
+    },
+    async query(vector, { topK, namespace, threshold = 0, filter }) {
+      const results = await index.query(vector, {
+        topK: Math.min(topK, MAX_VECTORIZE_TOP_K),
+        returnMetadata: true,
+        ...(namespace ? { namespace } : {}),
+        ...(filter ? { filter } : {}),
+      });
+      const matches = (results?.matches ?? []).filter(
+        (m) => m.score >= threshold
+      );
+      return { matches, count: matches.length };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SQLite
+// ---------------------------------------------------------------------------
+export function sqliteVectorStore(sql: SqlStorage): VectorStore {
+  // Agent.sql can't bind BLOBs, so this talks to the storage API directly
+  return {
+    backend: "sqlite",
+    async upsert(records) {
+      const now = new Date().toISOString();
+      for (const record of records) {
+        sql.exec(
+          `INSERT OR REPLACE INTO vectors (id, namespace, dimensions, embedding, metadata, updated)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          record.id,
+          record.namespace,
+          record.values.length,
+          encodeVector(record.values),
+          JSON.stringify(record.metadata),
+          now
+        );
+      }
+    },
+    async delete(ids) {
+      sql.exec(
+        "DELETE FROM vectors WHERE id IN (SELECT value FROM json_each(?))",
+        JSON.stringify(ids)
+      );
+    },
+    async query(vector, options) {
+      // Vectors of another size can't be compared, so skip them in SQL
+      const namespace = options.namespace ?? null;
+      const rows = sql
+        .exec<{ id: string; embedding: ArrayBuffer; metadata: string | null }>(
+          `SELECT id, embedding, metadata FROM vectors
+           WHERE dimensions = ? AND (? IS NULL OR namespace = ?)`,
+          vector.length,
+          namespace,
+          namespace
+        )
+        .toArray();
+      const matches = rankVectors(
+        vector,
+        rows.map((row) => ({
+          id: row.id,
+          values: decodeVector(row.embedding),
+          metadata: row.metadata ? JSON.parse(row.metadata) : {},
+        })),
+        options
+      );
+      return { matches, count: matches.length };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the store configured by `env` (Vectorize when bound, else SQLite).
+ */
+export function createVectorStore(
+  env: VectorStoreEnv,
+  sql: SqlStorage
+): VectorStore {
+  const backend = env.VECTOR_STORE || (env.VECTORIZE ? "vectorize" : "sqlite");
+
+  switch (backend) {
+    case "vectorize":
+      if (!env.VECTORIZE) {
+        throw new Error("Vectorize service not available");
+      }
+      return vectorizeStore(env.VECTORIZE);
+    case "sqlite":
+      return sqliteVectorStore(sql);
+    default:
+      throw new Error(`Unknown VECTOR_STORE '${env.VECTOR_STORE}'`);
+  }
+}
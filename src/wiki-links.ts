@@ -0,0 +1,184 @@
+/**
+ * Wiki-link syntax
+ * ----------------
+ * One reading of `[[...]]` links for the server (link index, renames,
+ * transclusion) and the UI (BacklinkRenderer, MemoViewer):
+ *
+ *   [[slug]]                   link to a memo or fragment
+ *   [[slug#Heading]]           link to a section of a memo
+ *   [[slug|display text]]      link shown as "display text"
+ *   ![[slug]], ![[slug#H]]     transclusion: the target's content, embedded
+ *
+ * Anchors and display text combine as `[[slug#Heading|text]]`; the display
+ * text is split off first, so it may itself contain `#`.
+ *
+ * No imports – this file is bundled into the client as well.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type WikiLinkTarget = {
+  slug: string;
+  anchor: string; // section after '#', '' for the whole target
+  alias: string; // display text after '|', '' for none
+};
+
+export type WikiLinkToken = WikiLinkTarget & {
+  raw: string; // the whole match, '!' included
+  index: number; // offset of `raw` in the text
+  embed: boolean; // ![[...]]
+};
+
+// Nested transclusions deeper than this are left as links
+export const MAX_TRANSCLUSION_DEPTH = 3;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+const WIKI_LINK = /(!?)\[\[(.*?)\]\]/g;
+
+/**
+ * Split the inside of `[[...]]` into slug, anchor and display text.
+ */
+export function parseWikiLinkTarget(inner: string): WikiLinkTarget {
+  const pipe = inner.indexOf("|");
+  const target = pipe === -1 ? inner : inner.slice(0, pipe);
+  const alias = pipe === -1 ? "" : inner.slice(pipe + 1).trim();
+  const hash = target.indexOf("#");
+  return {
+    slug: (hash === -1 ? target : target.slice(0, hash)).trim(),
+    anchor: hash === -1 ? "" : target.slice(hash + 1).trim(),
+    alias,
+  };
+}
+
+/**
+ * Every link in `text`, in order. `[[]]` and `[[#x]]` name nothing and are
+ * skipped.
+ */
+export function findWikiLinks(text: string): WikiLinkToken[] {
+  const tokens: WikiLinkToken[] = [];
+  for (const match of text.matchAll(WIKI_LINK)) {
+    const target = parseWikiLinkTarget(match[2]);
+    if (!target.slug) continue;
+    tokens.push({
+      ...target,
+      raw: match[0],
+      index: match.index ?? 0,
+      embed: match[1] === "!",
+    });
+  }
+  return tokens;
+}
+
+/**
+ * `text` as alternating plain strings and links, for renderers.
+ */
+export function splitWikiLinks(text: string): (string | WikiLinkToken)[] {
+  const parts: (string | WikiLinkToken)[] = [];
+  let last = 0;
+  for (const token of findWikiLinks(text)) {
+    if (token.index > last) parts.push(text.slice(last, token.index));
+    parts.push(token);
+    last = token.index + token.raw.length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+/**
+ * What a link shows: its display text, else `slug#anchor`.
+ */
+export function wikiLinkLabel(link: WikiLinkTarget): string {
+  if (link.alias) return link.alias;
+  return link.anchor ? `${link.slug}#${link.anchor}` : link.slug;
+}
+
+/**
+ * Write a link back out in its canonical form.
+ */
+export function formatWikiLink(
+  link: WikiLinkTarget & { embed?: boolean }
+): string {
+  const anchor = link.anchor ? `#${link.anchor}` : "";
+  const alias = link.alias ? `|${link.alias}` : "";
+  return `${link.embed ? "!" : ""}[[${link.slug}${anchor}${alias}]]`;
+}
+
+// ---------------------------------------------------------------------------
+// Sections and transclusion
+// ---------------------------------------------------------------------------
+
+/**
+ * The section of Markdown `content` under the heading `anchor` (matched
+ * exactly, then ignoring case), up to the next heading of the same or a
+ * higher level. Null when there is no such heading.
+ */
+export function extractSection(content: string, anchor: string): string | null {
+  const lines = content.split("\n");
+  const headings = lines.flatMap((line, i) => {
+    const match = line.match(/^(#{1,6})\s+(.*?)[\s#]*$/);
+    return match ? [{ line: i, level: match[1].length, text: match[2] }] : [];
+  });
+
+  const wanted =
+    headings.find((h) => h.text === anchor) ??
+    headings.find((h) => h.text.toLowerCase() === anchor.toLowerCase());
+  if (!wanted) return null;
+
+  const next = headings.find(
+    (h) => h.line > wanted.line && h.level <= wanted.level
+  );
+  return lines
+    .slice(wanted.line, next ? next.line : lines.length)
+    .join("\n")
+    .trimEnd();
+}
+
+/**
+ * Replace each `![[slug]]` / `![[slug#Heading]]` in `content` with the
+ * target's content (or section), recursively up to `maxDepth` levels.
+ * `ancestors` are the slugs already being shown around `content` (pass the
+ * memo's own slug); transcluding one of them again – a cycle – or a missing
+ * target leaves a plain link instead. `load` returns the full content of a
+ * slug, or null when nothing has that slug.
+ */
+export async function expandTransclusions(
+  content: string,
+  load: (slug: string) => Promise<string | null>,
+  {
+    maxDepth = MAX_TRANSCLUSION_DEPTH,
+    ancestors = [],
+    depth = 0,
+  }: { maxDepth?: number; ancestors?: string[]; depth?: number } = {}
+): Promise<string> {
+  let out = "";
+  for (const part of splitWikiLinks(content)) {
+    if (typeof part === "string" || !part.embed) {
+      out += typeof part === "string" ? part : part.raw;
+      continue;
+    }
+
+    const asLink = formatWikiLink({ ...part, embed: false });
+    if (ancestors.includes(part.slug) || depth >= maxDepth) {
+      out += asLink;
+      continue;
+    }
+
+    const full = await load(part.slug);
+    const embedded =
+      full !== null && part.anchor ? extractSection(full, part.anchor) : full;
+    if (embedded === null) {
+      out += asLink;
+      continue;
+    }
+
+    out += await expandTransclusions(embedded, load, {
+      maxDepth,
+      ancestors: [...ancestors, part.slug],
+      depth: depth + 1,
+    });
+  }
+  return out;
+}
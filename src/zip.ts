@@ -0,0 +1,214 @@
+/**
+ * Zip reading
+ * -----------
+ * Just enough of the zip format to read an uploaded archive (see
+ * vault-import.ts): the central directory is walked for entries, which are
+ * either stored or deflated (inflated with the runtime's DecompressionStream).
+ * Encrypted entries, ZIP64 archives and archives split across disks are
+ * refused. Checksums are not verified.
+ *
+ * Only the entries a caller asks for are unpacked, within size limits: an
+ * entry's declared size is checked before it is inflated, and inflating
+ * stops as soon as the output passes the limit, whatever the header said.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type ZipEntry = {
+  path: string; // as stored, '/'-separated
+  data: Uint8Array; // empty for entries not included
+  modified: Date; // entry time, read as UTC
+};
+
+export type ReadZipOptions = {
+  include?: (path: string) => boolean; // entries to unpack; default all
+  maxEntryBytes?: number; // largest unpacked entry
+  maxTotalBytes?: number; // every unpacked entry together
+};
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+// End-of-directory record plus the longest comment it may carry
+const MAX_TAIL = 22 + 0xffff;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * DOS date and time fields as a Date.
+ */
+function dosDate(date: number, time: number): Date {
+  return new Date(
+    Date.UTC(
+      (date >> 9) + 1980,
+      ((date >> 5) & 0x0f) - 1,
+      date & 0x1f,
+      time >> 11,
+      (time >> 5) & 0x3f,
+      (time & 0x1f) * 2
+    )
+  );
+}
+
+function megabytes(bytes: number): string {
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+}
+
+/**
+ * Inflate `data`, or null once the output passes `limit` bytes (the rest is
+ * never inflated).
+ */
+async function inflateRaw(
+  data: Uint8Array<ArrayBuffer>,
+  limit: number
+): Promise<Uint8Array | null> {
+  const reader = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(size);
+  let at = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, at);
+    at += chunk.byteLength;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/**
+ * Every file in a zip archive, directories left out, with the `include`d
+ * ones unpacked. Throws on anything that isn't a zip this reader
+ * understands, and on entries past the size limits.
+ */
+export async function readZip(
+  buffer: ArrayBuffer,
+  {
+    include = () => true,
+    maxEntryBytes = Number.POSITIVE_INFINITY,
+    maxTotalBytes = Number.POSITIVE_INFINITY,
+  }: ReadZipOptions = {}
+): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let end = -1;
+  for (
+    let i = buffer.byteLength - 22;
+    i >= Math.max(0, buffer.byteLength - MAX_TAIL);
+    i--
+  ) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a zip archive.");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  if (view.getUint16(end + 4, true) !== view.getUint16(end + 6, true)) {
+    throw new Error("Split zip archives are not supported.");
+  }
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let total = 0; // bytes unpacked so far
+  let offset = directoryOffset;
+  for (let n = 0; n < count; n++) {
+    if (
+      offset + 46 > buffer.byteLength ||
+      view.getUint32(offset, true) !== DIRECTORY_ENTRY
+    ) {
+      throw new Error("Corrupt zip directory.");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) {
+      continue;
+    }
+    const modified = dosDate(date, time);
+    if (!include(path)) {
+      entries.push({ path, data: new Uint8Array(), modified });
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`'${path}' is encrypted.`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new Error(`Corrupt zip entry '${path}'.`);
+    }
+    const start =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(start, start + compressedSize);
+
+    // The declared size first, then what actually comes out
+    const limit = Math.min(maxEntryBytes, maxTotalBytes - total);
+    const tooLarge = () =>
+      new Error(
+        limit < maxEntryBytes
+          ? `Archive unpacks to more than ${megabytes(maxTotalBytes)}.`
+          : `'${path}' is larger than ${megabytes(maxEntryBytes)}.`
+      );
+    if (size > limit) {
+      throw tooLarge();
+    }
+
+    let data: Uint8Array | null;
+    if (method === 0) {
+      data = raw;
+    } else if (method === 8) {
+      data = await inflateRaw(raw, limit);
+    } else {
+      throw new Error(`'${path}' uses unsupported compression (${method}).`);
+    }
+    if (!data || data.byteLength > limit) {
+      throw tooLarge();
+    }
+    total += data.byteLength;
+    entries.push({ path, data, modified });
+  }
+
+  return entries;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  cachedEmbeddingProvider,
+  contentHash,
+  type EmbeddingCacheCounts,
+  type EmbeddingCacheStore,
+} from "../src/embedding-cache";
+import { localHashProvider } from "../src/embeddings";
+
+function memoryStore() {
+  const rows = new Map<string, number[]>();
+  const counts: EmbeddingCacheCounts = {
+    memory_hits: 0,
+    cache_hits: 0,
+    misses: 0,
+  };
+  const store: EmbeddingCacheStore = {
+    get(model, dimensions, hashes) {
+      const found = new Map<string, number[]>();
+      for (const hash of hashes) {
+        const values = rows.get(`${model}:${dimensions}:${hash}`);
+        if (values) found.set(hash, values);
+      }
+      return found;
+    },
+    put(model, dimensions, entries) {
+      for (const { hash, values } of entries) {
+        rows.set(`${model}:${dimensions}:${hash}`, values);
+      }
+    },
+    record(next) {
+      counts.memory_hits += next.memory_hits;
+      counts.cache_hits += next.cache_hits;
+      counts.misses += next.misses;
+    },
+  };
+  return { store, rows, counts };
+}
+
+function countingProvider() {
+  const base = localHashProvider(16);
+  const calls: string[][] = [];
+  return {
+    calls,
+    provider: {
+      ...base,
+      embed: (texts: string[]) => {
+        calls.push(texts);
+        return base.embed(texts);
+      },
+    },
+  };
+}
+
+describe("contentHash", () => {
+  it("is a stable SHA-256 hex digest", async () => {
+    expect(await contentHash("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("cachedEmbeddingProvider", () => {
+  it("embeds each distinct text once per call and across calls", async () => {
+    const { calls, provider } = countingProvider();
+    const { store, counts } = memoryStore();
+    const cached = cachedEmbeddingProvider(provider, store);
+
+    const [a, b, a2] = await cached.embed(["alpha", "beta", "alpha"]);
+    expect(a2).toEqual(a);
+    expect(b).not.toEqual(a);
+    expect(calls).toEqual([["alpha", "beta"]]);
+
+    await cached.embed(["alpha"]);
+    expect(calls).toHaveLength(1);
+    expect(counts).toEqual({ memory_hits: 2, cache_hits: 0, misses: 2 });
+  });
+
+  it("falls back to the persistent store when memory is cold", async () => {
+    const { store, counts } = memoryStore();
+    const first = countingProvider();
+    const [vector] = await cachedEmbeddingProvider(first.provider, store).embed(
+      ["gamma"]
+    );
+
+    // A fresh instance shares the store but not the memory layer
+    const second = countingProvider();
+    const [again] = await cachedEmbeddingProvider(second.provider, store).embed(
+      ["gamma"]
+    );
+    expect(second.calls).toEqual([]);
+    expect(again).toEqual(vector);
+    expect(counts.cache_hits).toBe(1);
+  });
+
+  it("shares an in-flight request between concurrent callers", async () => {
+    const { calls, provider } = countingProvider();
+    const cached = cachedEmbeddingProvider(provider, memoryStore().store);
+    const [[x], [y]] = await Promise.all([
+      cached.embed(["delta"]),
+      cached.embed(["delta"]),
+    ]);
+    expect(x).toEqual(y);
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  createEmbeddingProvider,
+  hashEmbedding,
+  localHashProvider,
+} from "../src/embeddings";
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe("local hash embeddings", () => {
+  it("is deterministic and unit length", async () => {
+    const provider = localHashProvider(64);
+    const [a] = await provider.embed(["the quick brown fox"]);
+    const [b] = await provider.embed(["the quick brown fox"]);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(64);
+    expect(cosine(a, a)).toBeCloseTo(1);
+  });
+
+  it("scores overlapping text above unrelated text", () => {
+    const query = hashEmbedding("knowledge graph of fragments", 768);
+    const related = hashEmbedding("a graph linking knowledge fragments", 768);
+    const unrelated = hashEmbedding("banana bread recipe", 768);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("returns a valid vector for empty input", () => {
+    const vector = hashEmbedding("  ", 8);
+    expect(cosine(vector, vector)).toBeCloseTo(1);
+  });
+});
+
+describe("createEmbeddingProvider", () => {
+  it("defaults to Workers AI at 768 dimensions", () => {
+    const provider = createEmbeddingProvider({});
+    expect(provider.provider).toBe("workers-ai");
+    expect(provider.model).toBe("@cf/baai/bge-base-en-v1.5");
+    expect(provider.dimensions).toBe(768);
+  });
+
+  it("reads provider, model and dimensions from env", () => {
+    const provider = createEmbeddingProvider({
+      EMBEDDING_PROVIDER: "openai",
+      EMBEDDING_MODEL: "text-embedding-3-large",
+      EMBEDDING_DIMENSIONS: "1024",
+    });
+    expect(provider).toMatchObject({
+      provider: "openai",
+      model: "text-embedding-3-large",
+      dimensions: 1024,
+    });
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => createEmbeddingProvider({ EMBEDDING_PROVIDER: "x" })).toThrow(
+      "Unknown EMBEDDING_PROVIDER"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  nodeKey,
+  parseTraversalParams,
+  shortestPath,
+  simplePaths,
+  type GraphEdge,
+} from "../src/fragment-graph";
+
+const edge = (from_id: string, to_id: string, rel = "part_of"): GraphEdge => ({
+  id: `${from_id}-${rel}-${to_id}`,
+  from_id,
+  to_id,
+  rel,
+  weight: 1,
+});
+
+// a → b → c → d, plus a shortcut a → c and a reversed link e → d
+const edges = [
+  edge("a", "b"),
+  edge("b", "c"),
+  edge("c", "d"),
+  edge("a", "c", "requires"),
+  edge("e", "d"),
+];
+
+describe("shortestPath", () => {
+  it("finds the fewest-hop path", () => {
+    const path = shortestPath(edges, "a", "d");
+    expect(path?.nodes).toEqual(["a", "c", "d"]);
+    expect(path?.reversed).toEqual([false, false]);
+  });
+
+  it("walks links backwards unless direction is out", () => {
+    const path = shortestPath(edges, "a", "e");
+    expect(path?.nodes).toEqual(["a", "c", "d", "e"]);
+    expect(path?.reversed).toEqual([false, false, true]);
+    expect(shortestPath(edges, "a", "e", { direction: "out" })).toBeNull();
+  });
+
+  it("respects the depth limit", () => {
+    expect(shortestPath(edges, "a", "d", { maxDepth: 1 })).toBeNull();
+  });
+});
+
+describe("simplePaths", () => {
+  it("returns every simple path, shortest first", () => {
+    const paths = simplePaths(edges, "a", "d", { direction: "out" });
+    expect(paths.map((p) => p.nodes)).toEqual([
+      ["a", "c", "d"],
+      ["a", "b", "c", "d"],
+    ]);
+  });
+
+  it("never revisits a node and honours the limit", () => {
+    const paths = simplePaths(edges, "b", "a", { limit: 1 });
+    expect(paths).toHaveLength(1);
+    expect(paths[0].nodes).toEqual(["b", "a"]);
+    for (const path of simplePaths(edges, "b", "e")) {
+      expect(new Set(path.nodes).size).toBe(path.nodes.length);
+    }
+  });
+});
+
+describe("parseTraversalParams", () => {
+  it("reads direction and a comma-separated relation filter", () => {
+    expect(
+      parseTraversalParams(
+        new URLSearchParams("direction=out&rels=part_of, requires,")
+      )
+    ).toEqual({ direction: "out", rels: ["part_of", "requires"] });
+    expect(parseTraversalParams(new URLSearchParams(""))).toEqual({
+      direction: "both",
+      rels: [],
+    });
+    expect(
+      parseTraversalParams(new URLSearchParams("direction=sideways"))
+    ).toBeNull();
+  });
+});
+
+describe("nodeKey", () => {
+  it("keeps fragment slugs bare and prefixes memos and replies", () => {
+    expect(nodeKey("fragment", "idea")).toBe("idea");
+    expect(nodeKey("memo", "idea")).toBe("memo:idea");
+    expect(nodeKey("reply", "idea")).toBe("reply:idea");
+  });
+});
@@ -0,0 +1,97 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { runMigrations } from "../src/migrations";
+import { indexMemoLinks } from "../src/memo-links";
+import { loadGraph } from "../src/fragment-graph";
+import {
+  createLink,
+  getLinksOfFragment,
+  mergeFragmentsBySlug,
+  updateFragmentEdge,
+} from "../src/fragment-tools";
+import { resolveSlugAlias } from "../src/slug-rename";
+
+/**
+ * Fragments a, b and c, edges a → b → c, and a memo linking to b.
+ */
+async function seed(agent: Chat) {
+  await runMigrations(agent);
+  for (const slug of ["a", "b", "c"]) {
+    agent.sql`
+      INSERT INTO fragments (id, slug, content, speaker, ts, metadata, created, modified)
+      VALUES (${`f-${slug}`}, ${slug}, ${`About ${slug}`}, 'user', '2025-01-01', '{}',
+              '2025-01-01', '2025-01-01')`;
+  }
+  agent.sql`
+    INSERT INTO fragment_edges (id, from_id, from_kind, to_id, to_kind, rel, metadata, created)
+    VALUES ('e1', 'f-a', 'fragment', 'f-b', 'fragment', 'supports', '{}', '2025-01-01'),
+           ('e2', 'f-b', 'fragment', 'f-c', 'fragment', 'supports', '{}', '2025-01-01')`;
+  agent.sql`
+    INSERT INTO memos (id, slug, content, headers, created, modified)
+    VALUES ('m1', 'notes', 'See [[b]]', '{}', '2025-01-01', '2025-01-01')`;
+  indexMemoLinks(agent, "m1", "See [[b]]");
+}
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (agent: Chat) => {
+    await seed(agent);
+    await test(agent);
+  });
+}
+
+describe("mergeFragmentsBySlug", () => {
+  it("re-points edges and keeps the merged slug as an alias", () =>
+    run("merge-fragments", async (agent) => {
+      const result = await mergeFragmentsBySlug(agent, "a", "b");
+      if (!result.ok) throw new Error(result.error);
+      expect(JSON.parse(result.value.metadata)).toEqual({ merged_from: ["b"] });
+
+      // a → b became a self-loop and is gone; b → c now starts at a
+      expect(
+        agent.sql`SELECT id, from_id, to_id FROM fragment_edges ORDER BY id`
+      ).toEqual([{ id: "e2", from_id: "f-a", to_id: "f-c" }]);
+      expect(agent.sql`SELECT id FROM fragments WHERE slug = 'b'`).toEqual([]);
+
+      expect(await resolveSlugAlias(agent, "fragment", "b")).toBe("a");
+      expect(
+        agent.sql`SELECT target_kind FROM memo_links WHERE source_id = 'm1'`
+      ).toEqual([{ target_kind: "fragment" }]);
+    }));
+});
+
+describe("updateFragmentEdge", () => {
+  it("swaps endpoint kinds when an inverse verb flips a memo link", () =>
+    run("relabel-memo-link", async (agent) => {
+      const link = await createLink(
+        agent,
+        { slug: "notes", kind: "memo" },
+        { slug: "a", kind: "fragment" },
+        "example_of"
+      );
+      if (!link.ok) throw new Error(link.error);
+
+      // Found by slugs, the memo end included
+      const result = await updateFragmentEdge(
+        agent,
+        { from_slug: "notes", to_slug: "a", rel: "example_of" },
+        { rel: "has_example" }
+      );
+      if (!result.ok) throw new Error(result.error);
+      expect(result.value).toMatchObject({
+        from_id: "f-a",
+        from_kind: "fragment",
+        to_id: "m1",
+        to_kind: "memo",
+        rel: "example_of",
+      });
+
+      const { outgoing } = await getLinksOfFragment(agent, "f-a");
+      expect(outgoing).toContainEqual(
+        expect.objectContaining({ to_slug: "notes", to_kind: "memo" })
+      );
+      const graph = await loadGraph(agent, 50);
+      expect(graph.links.map((l) => l.id)).toContain(link.value.edge.id);
+    }));
+});
@@ -0,0 +1,116 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { runMigrations } from "../src/migrations";
+import { searchFragmentsFts, searchMemosFts, toFtsQuery } from "../src/fts";
+
+describe("toFtsQuery", () => {
+  it("ANDs bare terms by default and ORs them in any-mode", () => {
+    expect(toFtsQuery("graph memory")).toBe('"graph" AND "memory"');
+    expect(toFtsQuery("graph memory", { match: "any" })).toBe(
+      '"graph" OR "memory"'
+    );
+  });
+
+  it("supports phrases, prefixes and explicit OR", () => {
+    expect(toFtsQuery('"vector search" embed*')).toBe(
+      '"vector search" AND "embed"*'
+    );
+    expect(toFtsQuery("cats OR dogs")).toBe('"cats" OR "dogs"');
+  });
+
+  it("strips FTS syntax from user input", () => {
+    expect(toFtsQuery("slug:foo (bar) -baz")).toBe(
+      '"slug foo" AND "bar" AND "baz"'
+    );
+    expect(toFtsQuery('"unterminated')).toBe('"unterminated"');
+  });
+
+  it("restricts to columns when given", () => {
+    expect(toFtsQuery("foo bar", { columns: ["slug"] })).toBe(
+      '{slug} : ("foo" AND "bar")'
+    );
+  });
+
+  it("returns null when nothing is searchable", () => {
+    expect(toFtsQuery("")).toBeNull();
+    expect(toFtsQuery("  ?! -- ")).toBeNull();
+    expect(toFtsQuery("OR")).toBeNull();
+  });
+});
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (agent: Chat) => {
+    await runMigrations(agent);
+    await test(agent);
+  });
+}
+
+describe("searchMemosFts", () => {
+  it("ranks slug matches first and follows inserts, updates and deletes", () =>
+    run("fts-memos", async (agent) => {
+      const memos = [
+        ["salad", "Lettuce, cucumber and tomatoes from the garden"],
+        ["tomatoes", "Red fruit"],
+        ["bread", "Flour and water"],
+      ];
+      for (const [slug, content] of memos) {
+        agent.sql`
+          INSERT INTO memos (id, slug, content, headers, created, modified)
+          VALUES (${slug}, ${slug}, ${content}, '{}', '2025-01-01', '2025-01-01')`;
+      }
+      const slugs = async (query: string) =>
+        (await searchMemosFts<{ slug: string }>(agent, query)).map(
+          (hit) => hit.slug
+        );
+
+      const hits = await searchMemosFts<{ slug: string }>(agent, "tomatoes");
+      expect(hits.map((hit) => hit.slug)).toEqual(["tomatoes", "salad"]);
+      expect(hits[0].score).toBeGreaterThan(hits[1].score);
+      expect(hits[1].snippet).toBe(
+        "Lettuce, cucumber and <mark>tomatoes</mark> from the garden"
+      );
+
+      agent.sql`UPDATE memos SET content = 'Lettuce only' WHERE slug = 'salad'`;
+      expect(await slugs("tomatoes")).toEqual(["tomatoes"]);
+      expect(await slugs("lettuce")).toEqual(["salad"]);
+
+      agent.sql`DELETE FROM memos WHERE slug = 'tomatoes'`;
+      expect(await slugs("tomatoes")).toEqual([]);
+      expect(await slugs("flour")).toEqual(["bread"]);
+    }));
+});
+
+describe("searchFragmentsFts", () => {
+  it("follows fragment changes and counts links", () =>
+    run("fts-fragments", async (agent) => {
+      for (const [slug, content] of [
+        ["bees", "Bees pollinate flowers"],
+        ["honey", "Made by bees"],
+      ]) {
+        agent.sql`
+          INSERT INTO fragments (id, slug, content, speaker, ts, metadata, created, modified)
+          VALUES (${slug}, ${slug}, ${content}, 'user', '2025-01-01', '{}',
+                  '2025-01-01', '2025-01-01')`;
+      }
+      agent.sql`
+        INSERT INTO fragment_edges (id, from_id, from_kind, to_id, to_kind, rel, metadata, created)
+        VALUES ('e1', 'honey', 'fragment', 'bees', 'fragment', 'supports', '{}', '2025-01-01')`;
+
+      const hits = await searchFragmentsFts<{ slug: string }>(agent, "bees");
+      expect(hits.map((hit) => [hit.slug, hit.link_count])).toEqual([
+        ["bees", 1],
+        ["honey", 1],
+      ]);
+      expect(hits[1].snippet).toBe("Made by <mark>bees</mark>");
+
+      agent.sql`UPDATE fragments SET slug = 'hive' WHERE id = 'bees'`;
+      agent.sql`DELETE FROM fragments WHERE id = 'honey'`;
+      const after = await searchFragmentsFts<{ slug: string }>(agent, "bees");
+      expect(after.map((hit) => hit.slug)).toEqual(["hive"]);
+      expect(
+        (await searchFragmentsFts(agent, "hive", { columns: ["slug"] })).length
+      ).toBe(1);
+    }));
+});
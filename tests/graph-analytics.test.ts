@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeGraph,
+  articulationPoints,
+  connectedComponents,
+  labelPropagation,
+  pageRank,
+  type AnalyticsEdge,
+} from "../src/graph-analytics";
+
+const edge = (from: string, to: string, symmetric = false): AnalyticsEdge => ({
+  from,
+  to,
+  weight: 1,
+  symmetric,
+});
+
+// Two triangles joined through "hub", plus an orphan
+const ids = ["a1", "a2", "a3", "hub", "b1", "b2", "b3", "orphan"];
+const edges = [
+  edge("a1", "a2"),
+  edge("a2", "a3"),
+  edge("a3", "a1"),
+  edge("a1", "hub"),
+  edge("hub", "b1"),
+  edge("b1", "b2"),
+  edge("b2", "b3"),
+  edge("b3", "b1"),
+];
+
+describe("pageRank", () => {
+  it("sums to one and favours fragments with more incoming weight", () => {
+    const rank = pageRank(["x", "y", "z"], [edge("x", "z"), edge("y", "z")]);
+    const total = [...rank.values()].reduce((a, b) => a + b, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(rank.get("z")!).toBeGreaterThan(rank.get("x")!);
+  });
+
+  it("passes rank both ways along symmetric edges", () => {
+    const rank = pageRank(["x", "y"], [edge("x", "y", true)]);
+    expect(rank.get("x")!).toBeCloseTo(rank.get("y")!, 6);
+  });
+
+  it("stays a distribution with negative and zero weights", () => {
+    const rank = pageRank(
+      ["x", "y", "z"],
+      [
+        { ...edge("x", "y"), weight: 1 },
+        { ...edge("x", "z"), weight: -1 },
+        { ...edge("y", "z"), weight: 0 },
+      ]
+    );
+    const values = [...rank.values()];
+    expect(values.every((v) => v > 0)).toBe(true);
+    expect(values.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 6);
+    // x passes all its rank to y; nothing flows to z
+    expect(rank.get("y")!).toBeGreaterThan(rank.get("z")!);
+  });
+});
+
+describe("connectedComponents", () => {
+  it("ignores direction and numbers the largest component 0", () => {
+    const components = connectedComponents(ids, edges);
+    expect(components.get("a1")).toBe(0);
+    expect(components.get("b3")).toBe(0);
+    expect(components.get("orphan")).toBe(1);
+  });
+});
+
+describe("labelPropagation", () => {
+  it("keeps densely linked groups together", () => {
+    const communities = labelPropagation(ids, edges);
+    expect(communities.get("a1")).toBe(communities.get("a2"));
+    expect(communities.get("a2")).toBe(communities.get("a3"));
+    expect(communities.get("b1")).toBe(communities.get("b3"));
+    expect(communities.get("a1")).not.toBe(communities.get("b1"));
+  });
+});
+
+describe("articulationPoints", () => {
+  it("finds fragments whose removal splits the graph", () => {
+    expect([...articulationPoints(ids, edges)].sort()).toEqual([
+      "a1",
+      "b1",
+      "hub",
+    ]);
+  });
+
+  it("finds none in a cycle", () => {
+    expect(
+      articulationPoints(
+        ["x", "y", "z"],
+        [edge("x", "y"), edge("y", "z"), edge("z", "x")]
+      ).size
+    ).toBe(0);
+  });
+});
+
+describe("analyzeGraph", () => {
+  it("summarises orphans, bridges and degrees, ignoring dangling edges", () => {
+    const analytics = analyzeGraph(
+      ids.map((id) => ({ id, slug: `s-${id}` })),
+      [...edges, edge("memo-1", "a1")]
+    );
+    expect(analytics.fragment_count).toBe(8);
+    expect(analytics.edge_count).toBe(8);
+    expect(analytics.orphans).toEqual(["s-orphan"]);
+    expect(analytics.bridges.sort()).toEqual(["s-a1", "s-b1", "s-hub"]);
+    expect(analytics.components).toEqual([
+      { id: 0, size: 7 },
+      { id: 1, size: 1 },
+    ]);
+    const hub = analytics.nodes.find((n) => n.slug === "s-hub")!;
+    expect(hub).toMatchObject({ degree: 2, in_degree: 1, out_degree: 1 });
+  });
+});
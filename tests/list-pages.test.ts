@@ -0,0 +1,291 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import {
+  decodeCursor,
+  decodeKeysetCursor,
+  encodeCursor,
+  listFragmentsPage,
+  listMemosPage,
+  type ListOptions,
+  pageSize,
+  parseListParams,
+} from "../src/list-pages";
+import { runMigrations } from "../src/migrations";
+
+describe("cursors", () => {
+  it("round-trip keyset positions", () => {
+    const cursor = encodeCursor([
+      "2025-01-02T03:04:05.000Z",
+      "0f8c7a36-6a4e-4d8e-9c57-1d2b3c4d5e6f",
+    ]);
+    expect(decodeKeysetCursor(cursor)).toEqual({
+      key: "2025-01-02T03:04:05.000Z",
+      id: "0f8c7a36-6a4e-4d8e-9c57-1d2b3c4d5e6f",
+    });
+  });
+
+  it("round-trip any text as URL-safe characters", () => {
+    for (const slug of ["日本語-note", "ñandú", "emoji-🦉"]) {
+      const cursor = encodeCursor([slug, "id"]);
+      expect(cursor).toMatch(/^[\w-]+$/);
+      expect(decodeKeysetCursor(cursor)).toEqual({ key: slug, id: "id" });
+    }
+  });
+
+  it("round-trip offsets", () => {
+    expect(decodeCursor(encodeCursor([50]))).toEqual([50]);
+    expect(decodeKeysetCursor(encodeCursor([50]))).toBeNull();
+  });
+
+  it("reject anything else", () => {
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor(btoa("{}"))).toBeNull();
+    expect(decodeCursor(btoa("[]"))).toBeNull();
+    expect(decodeKeysetCursor(btoa(JSON.stringify(["a", 1])))).toBeNull();
+  });
+});
+
+describe("pageSize", () => {
+  it("defaults and caps the limit", () => {
+    expect(pageSize(undefined)).toBe(50);
+    expect(pageSize(Number.NaN)).toBe(50);
+    expect(pageSize(0)).toBe(50);
+    expect(pageSize(12.7)).toBe(12);
+    expect(pageSize(10_000)).toBe(200);
+  });
+});
+
+describe("parseListParams", () => {
+  it("reads limit, cursor, sort and filters", () => {
+    const options = parseListParams(
+      new URLSearchParams(
+        "limit=20&cursor=abc&sortBy=created&sortOrder=asc&author=assistant" +
+          "&since=2025-01-01&until=2025-02-01&type=workflow&has_vector=false&parent=none"
+      )
+    );
+    expect(options).toEqual({
+      cursor: "abc",
+      limit: 20,
+      sortBy: "created",
+      sortOrder: "asc",
+      author: "assistant",
+      since: "2025-01-01",
+      until: "2025-02-01",
+      type: "workflow",
+      has_vector: false,
+      parent: "none",
+    });
+  });
+
+  it("leaves out what wasn't given or isn't understood", () => {
+    const options = parseListParams(
+      new URLSearchParams("sortBy=rowid&sortOrder=up&has_vector=maybe&author=")
+    );
+    expect(options.sortBy).toBeUndefined();
+    expect(options.sortOrder).toBeUndefined();
+    expect(options.has_vector).toBeUndefined();
+    expect(options.author).toBeUndefined();
+    expect(options.cursor).toBeUndefined();
+  });
+});
+
+/**
+ * Memos (two roots, replies to "garden", one embedded, one workflow) and
+ * fragments (two from "garden", one linked, one with no source memo).
+ */
+async function seed(agent: Chat) {
+  await runMigrations(agent);
+  const memos: [string, string, string | null, string, string][] = [
+    // slug, author, parent, created, headers
+    ["garden", "user", null, "2025-01-01", "{}"],
+    ["日本語-note", "user", null, "2025-01-02", '{"type":"workflow"}'],
+    ["reply-a", "assistant", "garden", "2025-01-03", "{}"],
+    ["reply-b", "assistant:🦉:Owl", "garden", "2025-01-04", "{}"],
+    ["ñandú", "user", null, "2025-01-05", "{}"],
+  ];
+  for (const [slug, author, parent, created, headers] of memos) {
+    const vectorId = slug === "garden" ? "memo-garden" : null;
+    agent.sql`
+      INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author, vector_id)
+      VALUES (${`m-${slug}`}, ${slug}, ${`About ${slug}`}, ${headers}, ${created},
+              ${created}, ${parent ? `m-${parent}` : null}, ${author}, ${vectorId})`;
+  }
+
+  const fragments: [string, string, string, string][] = [
+    // slug, speaker, created, metadata
+    ["compost", "user", "2025-02-01", '{"source_memo":"garden"}'],
+    [
+      "mulch",
+      "assistant",
+      "2025-02-02",
+      '{"source_memo":"garden","type":"tip"}',
+    ],
+    ["tea-leaves", "user", "2025-02-03", "{}"],
+  ];
+  for (const [slug, speaker, created, metadata] of fragments) {
+    agent.sql`
+      INSERT INTO fragments (id, slug, content, speaker, ts, metadata, created, modified)
+      VALUES (${`f-${slug}`}, ${slug}, ${`Notes on ${slug} for the garden`},
+              ${speaker}, ${created}, ${metadata}, ${created}, ${created})`;
+  }
+  agent.sql`
+    INSERT INTO fragment_edges (id, from_id, to_id, rel, metadata, created)
+    VALUES ('e1', 'f-compost', 'f-mulch', 'supports', '{}', '2025-02-03')`;
+}
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (agent: Chat) => {
+    await seed(agent);
+    await test(agent);
+  });
+}
+
+describe("listMemosPage", () => {
+  const slugs = async (agent: Chat, options: ListOptions) => {
+    const result = await listMemosPage(agent, options);
+    if (!result.ok) throw new Error(result.error);
+    return result.value.items.map((m) => m.slug);
+  };
+
+  it("pages through by slug, past non-Latin-1 keys", () =>
+    run("list-memos-paging", async (agent) => {
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const result = await listMemosPage(agent, {
+          limit: 2,
+          cursor,
+          sortBy: "slug",
+          sortOrder: "asc",
+        });
+        if (!result.ok) throw new Error(result.error);
+        expect(result.value.total).toBe(5);
+        expect(result.value.items.length).toBeLessThanOrEqual(2);
+        seen.push(...result.value.items.map((m) => m.slug));
+        cursor = result.value.next_cursor;
+      } while (cursor);
+      expect(seen).toEqual([
+        "garden",
+        "reply-a",
+        "reply-b",
+        "ñandú",
+        "日本語-note",
+      ]);
+
+      // Past the end: no items, but still the total
+      const past = await listMemosPage(agent, {
+        cursor: encodeCursor(["0000", ""]),
+      });
+      expect(past.ok && past.value).toEqual({
+        items: [],
+        total: 5,
+        next_cursor: null,
+      });
+      const invalid = await listMemosPage(agent, { cursor: "nope" });
+      expect(!invalid.ok && invalid.status).toBe(400);
+    }));
+
+  it("applies each filter", () =>
+    run("list-memos-filters", async (agent) => {
+      expect(await slugs(agent, { sortBy: "created" })).toEqual([
+        "ñandú",
+        "reply-b",
+        "reply-a",
+        "日本語-note",
+        "garden",
+      ]);
+      expect(await slugs(agent, { author: "assistant" })).toEqual([
+        "reply-b",
+        "reply-a",
+      ]);
+      // `_` and `%` are matched literally, not as wildcards
+      expect(await slugs(agent, { author: "assist_nt" })).toEqual([]);
+      expect(await slugs(agent, { author: "%" })).toEqual([]);
+      expect(
+        await slugs(agent, { since: "2025-01-02", until: "2025-01-04" })
+      ).toEqual(["reply-b", "reply-a", "日本語-note"]);
+      expect(await slugs(agent, { type: "workflow" })).toEqual(["日本語-note"]);
+      expect(await slugs(agent, { has_vector: true })).toEqual(["garden"]);
+      expect(await slugs(agent, { has_vector: false })).toHaveLength(4);
+      expect(await slugs(agent, { parent: "garden" })).toEqual([
+        "reply-b",
+        "reply-a",
+      ]);
+      expect(await slugs(agent, { parent: "m-garden", limit: 1 })).toEqual([
+        "reply-b",
+      ]);
+      expect(await slugs(agent, { parent: "none" })).toEqual([
+        "ñandú",
+        "日本語-note",
+        "garden",
+      ]);
+
+      const missing = await listMemosPage(agent, { parent: "nothing" });
+      expect(!missing.ok && missing.status).toBe(404);
+    }));
+});
+
+describe("listFragmentsPage", () => {
+  const slugs = async (agent: Chat, options: ListOptions & { q?: string }) => {
+    const result = await listFragmentsPage(agent, options);
+    if (!result.ok) throw new Error(result.error);
+    return result.value.items.map((f) => f.slug);
+  };
+
+  it("applies each filter and counts links", () =>
+    run("list-fragments-filters", async (agent) => {
+      const all = await listFragmentsPage(agent);
+      expect(
+        all.ok && all.value.items.map((f) => [f.slug, f.link_count])
+      ).toEqual([
+        ["tea-leaves", 0],
+        ["mulch", 1],
+        ["compost", 1],
+      ]);
+      expect(await slugs(agent, { author: "assistant" })).toEqual(["mulch"]);
+      expect(await slugs(agent, { type: "tip" })).toEqual(["mulch"]);
+      expect(await slugs(agent, { since: "2025-02-02" })).toEqual([
+        "tea-leaves",
+        "mulch",
+      ]);
+      expect(await slugs(agent, { parent: "garden" })).toEqual([
+        "mulch",
+        "compost",
+      ]);
+      expect(await slugs(agent, { parent: "none" })).toEqual(["tea-leaves"]);
+      expect(await slugs(agent, { has_vector: true })).toEqual([]);
+
+      const page = await listFragmentsPage(agent, { limit: 2 });
+      const cursor = page.ok ? page.value.next_cursor : null;
+      expect(await slugs(agent, { limit: 2, cursor })).toEqual(["compost"]);
+    }));
+
+  it("pages full-text hits by offset and refuses filters with them", () =>
+    run("list-fragments-search", async (agent) => {
+      const first = await listFragmentsPage(agent, { q: "garden", limit: 2 });
+      if (!first.ok) throw new Error(first.error);
+      expect(first.value.total).toBe(3);
+      expect(first.value.items).toHaveLength(2);
+
+      const rest = await listFragmentsPage(agent, {
+        q: "garden",
+        cursor: first.value.next_cursor,
+      });
+      expect(rest.ok && rest.value.items).toHaveLength(1);
+      expect(rest.ok && rest.value.next_cursor).toBeNull();
+
+      const fractional = await listFragmentsPage(agent, {
+        q: "garden",
+        cursor: encodeCursor([1.5]),
+      });
+      expect(!fractional.ok && fractional.status).toBe(400);
+
+      const filtered = await listFragmentsPage(agent, {
+        q: "garden",
+        author: "user",
+      });
+      expect(!filtered.ok && filtered.status).toBe(400);
+    }));
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { chunkMemo, passageCitation } from "../src/memo-chunks";
+
+describe("chunkMemo", () => {
+  it("splits at headings and keeps offsets into the memo", () => {
+    const content =
+      "Intro line.\n\n# Setup\n\nInstall it.\n\nThen run it.\n\n## Usage\nCall it.";
+    const chunks = chunkMemo(content);
+
+    expect(chunks.map((c) => c.section)).toEqual(["", "Setup", "Usage"]);
+    expect(chunks[1].text).toBe("# Setup\n\nInstall it.\n\nThen run it.");
+    for (const chunk of chunks) {
+      expect(content.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    }
+  });
+
+  it("packs paragraphs up to the size limit and splits long ones", () => {
+    const paragraph = "word ".repeat(30).trim(); // 149 chars
+    const content = [paragraph, paragraph, paragraph].join("\n\n");
+    const chunks = chunkMemo(content, 320);
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toBe(`${paragraph}\n\n${paragraph}`);
+
+    const long = "One sentence here. ".repeat(20).trim();
+    const pieces = chunkMemo(long, 100);
+    expect(pieces.length).toBeGreaterThan(3);
+    expect(pieces.every((c) => c.text.length <= 100)).toBe(true);
+    expect(pieces[0].text.endsWith(".")).toBe(true);
+  });
+
+  it("keeps code fences whole and ignores headings inside them", () => {
+    const content = "# Code\n\n```\n# not a heading\n\nstill code\n```";
+    const chunks = chunkMemo(content);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].section).toBe("Code");
+    expect(chunks[0].text).toBe(content);
+  });
+
+  it("drops empty headings but never returns nothing for text", () => {
+    expect(chunkMemo("# Title\n\n## Part\nBody")).toMatchObject([
+      { section: "Part", text: "## Part\nBody" },
+    ]);
+    expect(chunkMemo("# Only a title")).toMatchObject([
+      { section: "", text: "# Only a title" },
+    ]);
+    expect(chunkMemo("   ")).toEqual([]);
+  });
+});
+
+describe("passageCitation", () => {
+  it("cites the section when there is one", () => {
+    expect(passageCitation("notes", "Setup")).toBe("[[notes#Setup]]");
+    expect(passageCitation("notes", "")).toBe("[[notes]]");
+    expect(passageCitation("notes", "A [b] | c")).toBe("[[notes#A b  c]]");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { parseWikiLinks, rewriteWikiLinks } from "../src/memo-links";
+
+describe("parseWikiLinks", () => {
+  it("splits slug and section anchor", () => {
+    expect(
+      parseWikiLinks("See [[tea]] and [[brewing#Water temperature]].")
+    ).toEqual([
+      { slug: "tea", anchor: "" },
+      { slug: "brewing", anchor: "Water temperature" },
+    ]);
+  });
+
+  it("keeps one link per slug and anchor, in order of appearance", () => {
+    expect(
+      parseWikiLinks("[[a]] [[b]] [[a]] [[a#x]] [[ a ]] [[]] [[#x]]")
+    ).toEqual([
+      { slug: "a", anchor: "" },
+      { slug: "b", anchor: "" },
+      { slug: "a", anchor: "x" },
+    ]);
+  });
+
+  it("drops display text and counts transclusions as links", () => {
+    expect(
+      parseWikiLinks("[[tea|a cup]] ![[brewing#Water]] [[tea#Pot|the pot]]")
+    ).toEqual([
+      { slug: "tea", anchor: "" },
+      { slug: "brewing", anchor: "Water" },
+      { slug: "tea", anchor: "Pot" },
+    ]);
+  });
+});
+
+describe("rewriteWikiLinks", () => {
+  it("points links at the new slug and keeps their section", () => {
+    expect(
+      rewriteWikiLinks(
+        "[[tea]], [[tea#Water]] and [[ tea ]]",
+        "tea",
+        "green-tea"
+      )
+    ).toBe("[[green-tea]], [[green-tea#Water]] and [[green-tea]]");
+  });
+
+  it("leaves other links and plain text alone", () => {
+    const content = "tea [[teapot]] [[brewing#tea]] [[]]";
+    expect(rewriteWikiLinks(content, "tea", "green-tea")).toBe(content);
+  });
+
+  it("keeps display text and transclusion markers", () => {
+    expect(
+      rewriteWikiLinks(
+        "[[tea|a cup]] ![[tea]] ![[tea#Water|water]]",
+        "tea",
+        "green-tea"
+      )
+    ).toBe("[[green-tea|a cup]] ![[green-tea]] ![[green-tea#Water|water]]");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, MAX_DIFF_CELLS } from "../src/memo-revisions";
+
+describe("diffLines", () => {
+  it("marks identical text as unchanged", () => {
+    const lines = diffLines("a\nb", "a\nb");
+    expect(lines.every((l) => l.type === "equal")).toBe(true);
+    expect(lines).toHaveLength(2);
+  });
+
+  it("reports added, removed and kept lines with line numbers", () => {
+    const lines = diffLines("one\ntwo\nthree", "one\n2\nthree\nfour");
+    expect(lines.map((l) => `${l.type}:${l.text}`)).toEqual([
+      "equal:one",
+      "add:2",
+      "remove:two",
+      "equal:three",
+      "add:four",
+    ]);
+    expect(lines[2]).toMatchObject({ old_line: 2, new_line: null });
+    expect(lines[4]).toMatchObject({ old_line: null, new_line: 4 });
+  });
+
+  it("removes and re-adds a changed region too large to diff", () => {
+    const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1;
+    const from = ["head", ...Array.from({ length: size }, (_, i) => `a${i}`)];
+    const to = ["head", ...Array.from({ length: size }, (_, i) => `b${i}`)];
+    const lines = diffLines(from.join("\n"), to.join("\n"));
+    expect(lines).toHaveLength(1 + 2 * size);
+    expect(lines[0]).toMatchObject({ type: "equal", text: "head" });
+    expect(lines[1]).toMatchObject({ type: "remove", old_line: 2 });
+    expect(lines[size]).toMatchObject({ type: "remove", text: `a${size - 1}` });
+    expect(lines[size + 1]).toMatchObject({ type: "add", new_line: 2 });
+  });
+});
@@ -0,0 +1,161 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { encodeCursor } from "../src/list-pages";
+import { runMigrations } from "../src/migrations";
+import { listReplies, listThreads } from "../src/memo-threads";
+
+/**
+ * Three threads and a reply whose parent is gone (listed as a thread):
+ *
+ *   garden  user, journal   ← garden-r1 (owl) ← garden-r1a (user)
+ *                           ← garden-r2 (assistant)
+ *   tea     assistant       ← tea-r1 (user)
+ *   music   user, embedded
+ *   stray   user, parent deleted
+ */
+async function seed(agent: Chat) {
+  await runMigrations(agent);
+  const memos: [string, string, string | null, string, string][] = [
+    // slug, author, parent, created, headers
+    ["garden", "user", null, "2025-01-01", '{"type":"journal"}'],
+    ["tea", "assistant", null, "2025-01-02", "{}"],
+    ["stray", "user", "gone", "2025-01-02T12:00", "{}"],
+    ["music", "user", null, "2025-01-03", "{}"],
+    ["tea-r1", "user", "tea", "2025-01-04", "{}"],
+    ["garden-r2", "assistant", "garden", "2025-01-05", "{}"],
+    ["garden-r1", "assistant:🦉:Owl", "garden", "2025-01-10", "{}"],
+    ["garden-r1a", "user", "garden-r1", "2025-01-11", "{}"],
+  ];
+  for (const [slug, author, parent, created, headers] of memos) {
+    const vectorId = slug === "music" ? "memo-music" : null;
+    agent.sql`
+      INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author, vector_id)
+      VALUES (${slug}, ${slug}, ${`About ${slug}`}, ${headers}, ${created},
+              ${created}, ${parent}, ${author}, ${vectorId})`;
+  }
+  agent.sql`
+    INSERT INTO reactions (id, memo_id, emoji, user_id, created)
+    VALUES ('r1', 'garden', '🌱', 'user', '2025-01-02')`;
+}
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (agent: Chat) => {
+    await seed(agent);
+    await test(agent);
+  });
+}
+
+describe("listThreads", () => {
+  it("orders threads by their latest activity, with subtree stats", () =>
+    run("threads-order", async (agent) => {
+      const result = await listThreads(agent);
+      if (!result.ok) throw new Error(result.error);
+      const { items, total, next_cursor } = result.value;
+
+      expect(items.map((t) => t.slug)).toEqual([
+        "garden",
+        "tea",
+        "music",
+        "stray",
+      ]);
+      expect(total).toBe(4);
+      expect(next_cursor).toBeNull();
+      expect(items[0]).toMatchObject({
+        reply_count: 2,
+        descendant_count: 3,
+        last_activity: "2025-01-11",
+        participants: ["user", "assistant", "assistant:🦉:Owl"],
+        reactions: { "🌱": ["user"] },
+      });
+      expect(items[1]).toMatchObject({
+        reply_count: 1,
+        participants: ["assistant", "user"],
+      });
+    }));
+
+  it("pages through with keyset cursors", () =>
+    run("threads-paging", async (agent) => {
+      const slugs: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const result = await listThreads(agent, { limit: 1, cursor });
+        if (!result.ok) throw new Error(result.error);
+        expect(result.value.total).toBe(4);
+        slugs.push(...result.value.items.map((t) => t.slug));
+        cursor = result.value.next_cursor;
+      } while (cursor);
+      expect(slugs).toEqual(["garden", "tea", "music", "stray"]);
+
+      // Past the end: no items, but still the total
+      const past = await listThreads(agent, {
+        cursor: encodeCursor(["2000-01-01", ""]),
+      });
+      expect(past.ok && past.value).toEqual({
+        items: [],
+        total: 4,
+        next_cursor: null,
+      });
+
+      const invalid = await listThreads(agent, { cursor: "nope" });
+      expect(!invalid.ok && invalid.status).toBe(400);
+    }));
+
+  it("filters the threads it lists", () =>
+    run("threads-filters", async (agent) => {
+      const slugs = async (options: Parameters<typeof listThreads>[1]) => {
+        const result = await listThreads(agent, options);
+        if (!result.ok) throw new Error(result.error);
+        return result.value.items.map((t) => t.slug);
+      };
+      expect(await slugs({ author: "assistant" })).toEqual(["tea"]);
+      expect(await slugs({ author: "user" })).toEqual([
+        "garden",
+        "music",
+        "stray",
+      ]);
+      expect(await slugs({ type: "journal" })).toEqual(["garden"]);
+      expect(await slugs({ has_vector: true })).toEqual(["music"]);
+      expect(
+        await slugs({ since: "2025-01-02", until: "2025-01-02T23:59" })
+      ).toEqual(["tea", "stray"]);
+    }));
+});
+
+describe("listReplies", () => {
+  it("lists direct replies by activity and pages like threads", () =>
+    run("replies", async (agent) => {
+      const result = await listReplies(agent, "garden");
+      if (!result.ok) throw new Error(result.error);
+      expect(result.value.parent_id).toBe("garden");
+      expect(result.value.items.map((r) => r.slug)).toEqual([
+        "garden-r1",
+        "garden-r2",
+      ]);
+      expect(result.value.items[0]).toMatchObject({
+        reply_count: 1,
+        participants: ["assistant:🦉:Owl", "user"],
+      });
+
+      const first = await listReplies(agent, "garden", { limit: 1 });
+      const cursor = first.ok ? first.value.next_cursor : null;
+      expect(cursor).not.toBeNull();
+      const second = await listReplies(agent, "garden", { limit: 1, cursor });
+      expect(second.ok && second.value.items.map((r) => r.slug)).toEqual([
+        "garden-r2",
+      ]);
+      expect(second.ok && second.value.next_cursor).toBeNull();
+
+      const author = await listReplies(agent, "garden", {
+        author: "assistant",
+      });
+      expect(author.ok && author.value.items.map((r) => r.slug)).toEqual([
+        "garden-r1",
+        "garden-r2",
+      ]);
+
+      const missing = await listReplies(agent, "nothing");
+      expect(!missing.ok && missing.status).toBe(404);
+    }));
+});
@@ -0,0 +1,32 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { getSchemaVersion, runMigrations } from "../src/migrations";
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, test);
+}
+
+describe("namespaced vectors backfill", () => {
+  it("starts no job for a new notebook", () =>
+    run("backfill-new", async (agent) => {
+      await runMigrations(agent);
+      expect(getSchemaVersion(agent)).toBe(19);
+      expect(agent.sql`SELECT id FROM embedding_jobs`).toEqual([]);
+    }));
+
+  it("re-embeds rows embedded before namespaces on upgrade", () =>
+    run("backfill-upgrade", async (agent) => {
+      await runMigrations(agent);
+      agent.sql`DELETE FROM schema_migrations WHERE version = 19`;
+      agent.sql`
+        INSERT INTO memos (id, slug, content, headers, created, modified, vector_id)
+        VALUES ('m1', 'old', 'Embedded long ago', '{}', '2024-01-01', '2024-01-01', 'memo-m1')`;
+
+      await runMigrations(agent);
+      expect(agent.sql`SELECT status, force FROM embedding_jobs`).toEqual([
+        { status: "running", force: 0 },
+      ]);
+    }));
+});
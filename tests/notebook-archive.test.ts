@@ -0,0 +1,490 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { runMigrations } from "../src/migrations";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  decodeEmbedding,
+  encodeEmbedding,
+  exportNotebook,
+  importNotebook,
+  isRejected,
+  parseArchive,
+  parseImportOptions,
+  planImport,
+  type ArchiveEdge,
+  type ArchiveMemo,
+  type NotebookArchive,
+  type NotebookItems,
+} from "../src/notebook-archive";
+
+const NOW = Date.parse("2025-06-01T00:00:00Z");
+
+function memo(
+  id: string,
+  slug: string,
+  extra: Partial<ArchiveMemo> = {}
+): ArchiveMemo {
+  return {
+    id,
+    slug,
+    content: `About ${slug}`,
+    headers: "{}",
+    created: "2025-01-01T00:00:00Z",
+    modified: "2025-01-01T00:00:00Z",
+    parent_id: null,
+    author: "user",
+    summary: null,
+    ...extra,
+  };
+}
+
+function items(extra: Partial<NotebookItems> = {}): NotebookItems {
+  return {
+    memos: [],
+    fragments: [],
+    fragment_edges: [],
+    reactions: [],
+    emoji_personas: [],
+    relation_types: [],
+    schedules: [],
+    ...extra,
+  };
+}
+
+function archive(extra: Partial<NotebookItems> = {}): NotebookArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schema_version: 18,
+    exported_at: "2025-05-01T00:00:00Z",
+    settings: { currentModelName: "gpt-4.1-2025-04-14" },
+    ...items(extra),
+  };
+}
+
+function edge(id: string, from_id: string, to_id: string): ArchiveEdge {
+  return {
+    id,
+    from_id,
+    from_kind: "memo",
+    to_id,
+    to_kind: "memo",
+    rel: "supports",
+    weight: null,
+    metadata: "{}",
+    created: "2025-01-01T00:00:00Z",
+  };
+}
+
+function counter() {
+  let n = 0;
+  return () => `new-${++n}`;
+}
+
+describe("parseArchive", () => {
+  it("accepts an archive and defaults its settings", () => {
+    const { settings: _, ...bare } = archive({ memos: [memo("m1", "a")] });
+    const result = parseArchive(bare);
+    expect(result.ok && result.value.settings).toEqual({});
+  });
+
+  it("rejects other files, newer versions and malformed rows", () => {
+    expect(parseArchive(null).ok).toBe(false);
+    expect(parseArchive({ ...archive(), format: "memos-dump" }).ok).toBe(false);
+
+    const newer = parseArchive({ ...archive(), version: ARCHIVE_VERSION + 1 });
+    expect(!newer.ok && newer.error).toMatch(/newer/);
+
+    const { memos: _, ...noMemos } = archive();
+    expect(parseArchive(noMemos).ok).toBe(false);
+
+    const result = parseArchive(
+      archive({ memos: [memo("m1", "a"), { id: "m2" } as ArchiveMemo] })
+    );
+    expect(!result.ok && result.error).toBe("memos[1] has no 'slug'.");
+  });
+});
+
+describe("parseImportOptions", () => {
+  it("defaults to a merge that keeps local versions", () => {
+    expect(parseImportOptions(new URLSearchParams())).toEqual({
+      ok: true,
+      value: { mode: "merge", on_conflict: "skip", dry_run: false },
+    });
+  });
+
+  it("rejects unknown modes", () => {
+    expect(parseImportOptions(new URLSearchParams("mode=append")).ok).toBe(
+      false
+    );
+    expect(
+      parseImportOptions(new URLSearchParams("on_conflict=newest")).ok
+    ).toBe(false);
+  });
+});
+
+describe("planImport", () => {
+  it("leaves identical items alone and inserts new ones", () => {
+    const plan = planImport(
+      archive({ memos: [memo("m1", "a"), memo("m2", "b")] }),
+      items({ memos: [memo("m1", "a")] }),
+      {},
+      { now: NOW, newId: counter() }
+    );
+    expect(plan.report.counts.memos).toEqual({
+      inserted: 1,
+      updated: 0,
+      unchanged: 1,
+      skipped: 0,
+    });
+    expect(plan.ops.memos.insert.map((m) => m.slug)).toEqual(["b"]);
+  });
+
+  it("remaps taken ids and the references that follow them", () => {
+    const plan = planImport(
+      archive({
+        memos: [
+          memo("m1", "root"),
+          memo("m2", "reply", { parent_id: "m1" }),
+          memo("m3", "same"),
+        ],
+        fragments: [
+          {
+            id: "f1",
+            slug: "idea",
+            content: "An idea",
+            speaker: "user",
+            ts: "2025-01-01T00:00:00Z",
+            convo_id: null,
+            metadata: "{}",
+            created: "2025-01-01T00:00:00Z",
+            modified: "2025-01-01T00:00:00Z",
+          },
+        ],
+        fragment_edges: [
+          {
+            id: "e1",
+            from_id: "f1",
+            from_kind: "fragment",
+            to_id: "m2",
+            to_kind: "reply",
+            rel: "supports",
+            weight: null,
+            metadata: "{}",
+            created: "2025-01-01T00:00:00Z",
+          },
+          {
+            id: "e2",
+            from_id: "f1",
+            from_kind: "fragment",
+            to_id: "gone",
+            to_kind: "memo",
+            rel: "supports",
+            weight: null,
+            metadata: "{}",
+            created: "2025-01-01T00:00:00Z",
+          },
+        ],
+        reactions: [
+          {
+            id: "r1",
+            memo_id: "m3",
+            emoji: "👍",
+            user_id: "user",
+            created: null,
+          },
+        ],
+      }),
+      // m1 is another memo here, and "same" has a different id
+      items({ memos: [memo("m1", "elsewhere"), memo("local-3", "same")] }),
+      {},
+      { now: NOW, newId: counter() }
+    );
+
+    const [root, reply] = plan.ops.memos.insert;
+    expect(root).toMatchObject({ id: "new-1", slug: "root" });
+    expect(reply).toMatchObject({ id: "m2", parent_id: "new-1" });
+    expect(plan.report.remapped).toEqual([
+      { section: "memos", from: "m1", to: "new-1" },
+      { section: "memos", from: "m3", to: "local-3" },
+    ]);
+
+    expect(plan.ops.fragment_edges.insert).toMatchObject([
+      { id: "e1", from_id: "f1", to_id: "m2" },
+    ]);
+    expect(plan.report.skipped).toEqual([
+      {
+        section: "fragment_edges",
+        id: "e2",
+        reason: "endpoint not in archive or notebook",
+      },
+    ]);
+    expect(plan.ops.reactions.insert).toMatchObject([{ memo_id: "local-3" }]);
+  });
+
+  it("reports conflicts and keeps or overwrites the local version", () => {
+    const incoming = archive({ memos: [memo("m1", "a", { content: "New" })] });
+    const local = items({ memos: [memo("m9", "a", { content: "Old" })] });
+
+    const kept = planImport(incoming, local, {}, { now: NOW });
+    expect(kept.report.conflicts).toEqual([
+      {
+        section: "memos",
+        key: "a",
+        local_id: "m9",
+        fields: ["content"],
+        resolution: "kept_local",
+      },
+    ]);
+    expect(kept.ops.memos.update).toEqual([]);
+    expect(kept.report.counts.memos.skipped).toBe(1);
+
+    const overwritten = planImport(
+      incoming,
+      local,
+      { on_conflict: "overwrite" },
+      { now: NOW }
+    );
+    expect(overwritten.ops.memos.update).toMatchObject([
+      { id: "m9", content: "New" },
+    ]);
+    expect(overwritten.report.conflicts[0].resolution).toBe("overwritten");
+  });
+
+  it("ignores the notebook in replace mode", () => {
+    const plan = planImport(
+      archive({ memos: [memo("m1", "a")] }),
+      items({ memos: [memo("m1", "a", { content: "Local" })] }),
+      { mode: "replace", dry_run: true },
+      { now: NOW }
+    );
+    expect(plan.ops.memos.insert).toMatchObject([{ id: "m1" }]);
+    expect(plan.report.conflicts).toEqual([]);
+    expect(plan.report.dry_run).toBe(true);
+    expect(plan.report.settings).toEqual(["currentModelName"]);
+  });
+
+  it("skips verbs whose inverse is taken and tasks already due", () => {
+    const plan = planImport(
+      archive({
+        relation_types: [
+          {
+            name: "cites",
+            inverse: "has_example",
+            symmetric: 0,
+            description: "",
+            color: null,
+            created: "2025-01-01",
+            modified: "2025-01-01",
+          },
+        ],
+        schedules: [
+          {
+            callback: "executeTask",
+            payload: "Water the plants",
+            type: "scheduled",
+            time: NOW / 1000 - 60,
+          },
+          {
+            callback: "executeTask",
+            payload: "Weekly review",
+            type: "cron",
+            time: NOW / 1000 - 60,
+            cron: "0 9 * * 1",
+          },
+        ],
+      }),
+      items({
+        relation_types: [
+          {
+            name: "example_of",
+            inverse: "has_example",
+            symmetric: 0,
+            description: "",
+            color: null,
+            created: "2025-01-01",
+            modified: "2025-01-01",
+          },
+        ],
+      }),
+      {},
+      { now: NOW }
+    );
+    expect(plan.report.skipped.map((s) => s.reason)).toEqual([
+      "inverse 'has_example' belongs to 'example_of'",
+      "already due",
+    ]);
+    expect(plan.ops.schedules.insert.map((s) => s.payload)).toEqual([
+      "Weekly review",
+    ]);
+  });
+
+  it("rejects archives that repeat a key", () => {
+    const verb = (name: string, inverse: string) => ({
+      name,
+      inverse,
+      symmetric: 0,
+      description: "",
+      color: null,
+      created: "2025-01-01",
+      modified: "2025-01-01",
+    });
+    const plan = planImport(
+      archive({
+        memos: [memo("m1", "a"), memo("m2", "b"), memo("m3", "a")],
+        fragment_edges: [edge("e1", "m1", "m2"), edge("e2", "m1", "m2")],
+        reactions: [
+          { id: "r1", memo_id: "m1", emoji: "👍", user_id: "u", created: null },
+          { id: "r2", memo_id: "m1", emoji: "👍", user_id: "u", created: null },
+        ],
+        relation_types: [verb("cites", "cited_by"), verb("quotes", "cited_by")],
+      }),
+      items(),
+      { mode: "replace" },
+      { now: NOW }
+    );
+    expect(isRejected(plan.report)).toBe(true);
+    expect(
+      plan.report.conflicts
+        .filter((c) => c.resolution === "rejected")
+        .map((c) => [c.section, c.key, c.local_id])
+    ).toEqual([
+      ["memos", "a", "m1"],
+      ["relation_types", "cited_by", "cites"],
+      ["fragment_edges", "m1 supports m2", "e1"],
+      ["reactions", "m1 👍 u", "r1"],
+    ]);
+
+    const clean = planImport(archive({ memos: [memo("m1", "a")] }), items());
+    expect(isRejected(clean.report)).toBe(false);
+  });
+});
+
+/**
+ * A notebook with a thread, a fragment linked to it, a reaction and a
+ * persona, on top of the migrations' relation types.
+ */
+async function seed(agent: Chat) {
+  await runMigrations(agent);
+  agent.sql`
+    INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author)
+    VALUES ('m1', 'garden', 'See [[garden-log]]', '{}', '2025-01-01', '2025-01-01', NULL, 'user'),
+           ('m2', 'garden-log', 'Planted beans', '{}', '2025-01-02', '2025-01-02', 'm1', 'assistant')`;
+  agent.sql`
+    INSERT INTO fragments (id, slug, content, speaker, ts, convo_id, metadata, created, modified)
+    VALUES ('f1', 'beans', 'Beans need sun', 'user', '2025-01-01', NULL, '{}', '2025-01-01', '2025-01-01')`;
+  agent.sql`
+    INSERT INTO fragment_edges (id, from_id, from_kind, to_id, to_kind, rel, weight, metadata, created)
+    VALUES ('e1', 'f1', 'fragment', 'm1', 'memo', 'supports', NULL, '{}', '2025-01-03')`;
+  agent.sql`
+    INSERT INTO reactions (id, memo_id, emoji, user_id, created)
+    VALUES ('r1', 'm1', '🌱', 'user', '2025-01-03')`;
+  agent.sql`
+    INSERT INTO emoji_personas (id, emoji, name, description, instructions, created, modified)
+    VALUES ('p1', '🦉', 'Owl', 'Wise', 'Answer slowly', '2025-01-01', '2025-01-01')`;
+}
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (agent: Chat) => {
+    await seed(agent);
+    await test(agent);
+  });
+}
+
+function slugs(agent: Chat) {
+  return agent.sql<{ slug: string }>`SELECT slug FROM memos ORDER BY slug`.map(
+    (row) => row.slug
+  );
+}
+
+describe("importNotebook", () => {
+  it("restores an export with replace", () =>
+    run("archive-round-trip", async (agent) => {
+      const { exported_at: _, ...before } = await exportNotebook(agent);
+
+      agent.sql`
+        INSERT INTO memos (id, slug, content, headers, created, modified)
+        VALUES ('m3', 'stray', 'Not in the archive', '{}', '2025-02-01', '2025-02-01')`;
+      agent.sql`DELETE FROM reactions`;
+
+      const report = await importNotebook(
+        agent,
+        { ...before, exported_at: "2025-05-01T00:00:00Z" },
+        { mode: "replace" }
+      );
+      expect(report.counts.memos.inserted).toBe(2);
+      expect(report.conflicts).toEqual([]);
+
+      const { exported_at: __, ...after } = await exportNotebook(agent);
+      expect(after).toEqual(before);
+      expect(agent.sql`SELECT source_id, target_slug FROM memo_links`).toEqual([
+        { source_id: "m1", target_slug: "garden-log" },
+      ]);
+    }));
+
+  it("merges with remapped ids and follows them in references", () =>
+    run("archive-merge", async (agent) => {
+      const report = await importNotebook(
+        agent,
+        archive({
+          // m1 is 'garden' here; 'garden-log' matches by slug
+          memos: [
+            memo("m1", "orchard"),
+            memo("m9", "garden-log", { content: "Planted beans" }),
+            memo("m4", "orchard-log", { parent_id: "m1" }),
+          ],
+          fragment_edges: [edge("e1", "m4", "m1")],
+        })
+      );
+      expect(report.counts.memos).toMatchObject({ inserted: 2 });
+      const orchard = report.remapped.find((r) => r.from === "m1")?.to;
+      expect(orchard).toBeDefined();
+      expect(report.remapped).toContainEqual({
+        section: "memos",
+        from: "m9",
+        to: "m2",
+      });
+
+      expect(slugs(agent)).toEqual([
+        "garden",
+        "garden-log",
+        "orchard",
+        "orchard-log",
+      ]);
+      expect(
+        agent.sql`SELECT parent_id FROM memos WHERE slug = 'orchard-log'`
+      ).toEqual([{ parent_id: orchard }]);
+      expect(
+        agent.sql`SELECT id, from_id, to_id FROM fragment_edges ORDER BY from_id`
+      ).toEqual([
+        { id: "e1", from_id: "f1", to_id: "m1" },
+        { id: expect.any(String), from_id: "m4", to_id: orchard },
+      ]);
+    }));
+
+  it("leaves the notebook intact when replace finds a duplicate slug", () =>
+    run("archive-duplicate", async (agent) => {
+      const report = await importNotebook(
+        agent,
+        archive({ memos: [memo("x1", "same"), memo("x2", "same")] }),
+        { mode: "replace" }
+      );
+      expect(isRejected(report)).toBe(true);
+      expect(report.embedding_job).toBeNull();
+
+      expect(slugs(agent)).toEqual(["garden", "garden-log"]);
+      expect(agent.sql`SELECT id FROM reactions`).toEqual([{ id: "r1" }]);
+      expect(agent.sql`SELECT id FROM emoji_personas`).toEqual([{ id: "p1" }]);
+    }));
+});
+
+describe("embedding encoding", () => {
+  it("round-trips through base64 float32", () => {
+    expect(decodeEmbedding(encodeEmbedding([0.5, -1, 0.25]))).toEqual([
+      0.5, -1, 0.25,
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  incomingLabel,
+  matchRelation,
+  normalizeRelName,
+  validateRelationType,
+  type RelationType,
+} from "../src/relation-types";
+
+const now = "2025-01-01T00:00:00.000Z";
+const type = (
+  name: string,
+  inverse: string | null,
+  symmetric = inverse === null
+): RelationType => ({
+  name,
+  inverse,
+  symmetric: symmetric ? 1 : 0,
+  description: "",
+  color: null,
+  created: now,
+  modified: now,
+});
+
+const registry = [
+  type("example_of", "has_example"),
+  type("part_of", "has_part"),
+  type("contradicts", null),
+];
+
+describe("normalizeRelName", () => {
+  it("lower-cases and joins words with underscores", () => {
+    expect(normalizeRelName("  Example Of ")).toBe("example_of");
+    expect(normalizeRelName("has-example")).toBe("has_example");
+    expect(normalizeRelName("--part  of--")).toBe("part_of");
+  });
+});
+
+describe("matchRelation", () => {
+  it("resolves names and inverse names", () => {
+    expect(matchRelation(registry, "Example of")).toMatchObject({
+      type: { name: "example_of" },
+      reversed: false,
+    });
+    expect(matchRelation(registry, "has part")).toMatchObject({
+      type: { name: "part_of" },
+      reversed: true,
+    });
+  });
+
+  it("returns null for unknown verbs", () => {
+    expect(matchRelation(registry, "inspired_by")).toBeNull();
+    expect(matchRelation(registry, "  ")).toBeNull();
+  });
+});
+
+describe("incomingLabel", () => {
+  it("uses the inverse, or the name when symmetric", () => {
+    expect(incomingLabel(registry[0])).toBe("has_example");
+    expect(incomingLabel(registry[2])).toBe("contradicts");
+  });
+});
+
+describe("validateRelationType", () => {
+  it("normalises a valid type", () => {
+    const result = validateRelationType(
+      { name: "Causes", inverse: "Caused By", color: "#AABBCC" },
+      registry
+    );
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        name: "causes",
+        inverse: "caused_by",
+        symmetric: false,
+        description: "",
+        color: "#aabbcc",
+      },
+    });
+  });
+
+  it("requires an inverse unless symmetric", () => {
+    expect(validateRelationType({ name: "causes" }, registry)).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+    expect(
+      validateRelationType({ name: "similar_to", symmetric: true }, registry)
+    ).toMatchObject({ ok: true, value: { inverse: null } });
+  });
+
+  it("rejects names or inverses already in use", () => {
+    expect(
+      validateRelationType(
+        { name: "has_example", inverse: "example_for" },
+        registry
+      )
+    ).toMatchObject({ ok: false, status: 409 });
+    expect(
+      validateRelationType({ name: "contains", inverse: "part_of" }, registry)
+    ).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it("rejects malformed colours", () => {
+    expect(
+      validateRelationType(
+        { name: "causes", inverse: "caused_by", color: "red" },
+        registry
+      )
+    ).toMatchObject({ ok: false, status: 400 });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { fuseRanks, RRF_K } from "../src/search";
+
+describe("fuseRanks", () => {
+  it("ranks keys found by both lists above keys found by one", () => {
+    const fused = fuseRanks([
+      ["memo:a", "memo:b", "fragment:c"],
+      ["fragment:c", "memo:d"],
+    ]);
+    expect(fused.map((f) => f.key)).toEqual([
+      "fragment:c",
+      "memo:a",
+      "memo:b",
+      "memo:d",
+    ]);
+  });
+
+  it("scores each appearance as 1 / (k + rank)", () => {
+    const [top] = fuseRanks([["x"], ["y", "x"]]);
+    expect(top.key).toBe("x");
+    expect(top.score).toBeCloseTo(1 / (RRF_K + 1) + 1 / (RRF_K + 2));
+  });
+
+  it("handles empty lists", () => {
+    expect(fuseRanks([[], []])).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { runMigrations } from "../src/migrations";
+import { indexMemoLinks } from "../src/memo-links";
+import { renameMemo, resolveSlugAlias } from "../src/slug-rename";
+
+/**
+ * Memo `old` and memo `notes` linking to it.
+ */
+async function seed(agent: Chat) {
+  await runMigrations(agent);
+  agent.sql`
+    INSERT INTO memos (id, slug, content, headers, created, modified)
+    VALUES ('m1', 'old', 'The memo', '{}', '2025-01-01', '2025-01-01'),
+           ('m2', 'notes', 'See [[old#Intro|it]]', '{}', '2025-01-01', '2025-01-01')`;
+  indexMemoLinks(agent, "m2", "See [[old#Intro|it]]");
+}
+
+function run(name: string, test: (agent: Chat) => Promise<void>) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (agent: Chat) => {
+    await seed(agent);
+    await test(agent);
+  });
+}
+
+describe("renameMemo", () => {
+  it("rewrites links, records a revision and keeps the old slug", () =>
+    run("rename-memo", async (agent) => {
+      const result = await renameMemo(agent, "old", "new");
+      if (!result.ok) throw new Error(result.error);
+      expect(result.value.rewritten_memos).toEqual(["notes"]);
+
+      expect(agent.sql`SELECT content FROM memos WHERE id = 'm2'`).toEqual([
+        { content: "See [[new#Intro|it]]" },
+      ]);
+      expect(
+        agent.sql`
+          SELECT revision, content, author FROM memo_revisions
+          WHERE memo_id = 'm2' ORDER BY revision`
+      ).toEqual([
+        { revision: 1, content: "See [[old#Intro|it]]", author: "user" },
+        { revision: 2, content: "See [[new#Intro|it]]", author: "user" },
+      ]);
+      expect(
+        agent.sql`SELECT target_slug, target_kind FROM memo_links WHERE source_id = 'm2'`
+      ).toEqual([{ target_slug: "new", target_kind: "memo" }]);
+      expect(await resolveSlugAlias(agent, "memo", "old")).toBe("new");
+    }));
+
+  it("writes nothing when part of the rename fails", () =>
+    run("rename-memo-rollback", async (agent) => {
+      agent.sql`
+        CREATE TRIGGER fail_alias BEFORE INSERT ON slug_aliases
+        BEGIN SELECT RAISE(ABORT, 'no aliases'); END`;
+
+      await expect(renameMemo(agent, "old", "new")).rejects.toThrow(
+        /no aliases/
+      );
+      expect(agent.sql`SELECT slug, content FROM memos ORDER BY id`).toEqual([
+        { slug: "old", content: "The memo" },
+        { slug: "notes", content: "See [[old#Intro|it]]" },
+      ]);
+      expect(agent.sql`SELECT id FROM memo_revisions`).toEqual([]);
+      expect(
+        agent.sql`SELECT target_slug FROM memo_links WHERE source_id = 'm2'`
+      ).toEqual([{ target_slug: "old" }]);
+    }));
+});
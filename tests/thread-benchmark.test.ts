@@ -0,0 +1,96 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import type { Chat } from "../src/server";
+import { runMigrations } from "../src/migrations";
+import { loadSubtree, loadThread } from "../src/memo-threads";
+
+const THREAD_SIZE = 5000;
+const CHAIN_LENGTH = 40;
+
+/**
+ * One 5,000-memo thread (every memo has up to four replies, so it is seven
+ * levels deep) and a 40-memo chain of replies, with a few reactions.
+ */
+async function seed(agent: Chat) {
+  await runMigrations(agent);
+  agent.sql`
+    WITH RECURSIVE n(i) AS (
+      SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ${THREAD_SIZE}
+    )
+    INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author)
+    SELECT 'bench-' || i, 'bench-' || i, 'Reply ' || i, '{}',
+      datetime('2025-01-01', '+' || i || ' seconds'),
+      datetime('2025-01-01', '+' || i || ' seconds'),
+      CASE WHEN i = 1 THEN NULL ELSE 'bench-' || ((i - 2) / 4 + 1) END,
+      CASE i % 3 WHEN 0 THEN 'assistant' WHEN 1 THEN 'user' ELSE 'assistant:🦉:Owl' END
+    FROM n`;
+  agent.sql`
+    WITH RECURSIVE n(i) AS (
+      SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ${CHAIN_LENGTH}
+    )
+    INSERT INTO memos (id, slug, content, headers, created, modified, parent_id, author)
+    SELECT 'chain-' || i, 'chain-' || i, 'Link ' || i, '{}',
+      datetime('2025-02-01', '+' || i || ' seconds'),
+      datetime('2025-02-01', '+' || i || ' seconds'),
+      CASE WHEN i = 1 THEN NULL ELSE 'chain-' || (i - 1) END, 'user'
+    FROM n`;
+  agent.sql`
+    INSERT INTO reactions (id, memo_id, emoji, user_id, created)
+    VALUES ('r1', 'bench-1', '👍', 'user', '2025-01-02'),
+           ('r2', 'bench-4999', '❤️', 'user', '2025-01-02')`;
+}
+
+describe("thread loading", () => {
+  it("loads a 5,000-memo thread in two queries", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("thread-benchmark"));
+    await runInDurableObject(stub, async (agent: Chat) => {
+      await seed(agent);
+      const sql = vi.spyOn(agent, "sql");
+
+      // Counted rather than timed: wall-clock limits flake on slow runners
+      const thread = await loadThread(agent, "bench-1");
+
+      expect(sql).toHaveBeenCalledTimes(2); // the thread, then reactions
+      expect(thread?.total).toBe(THREAD_SIZE);
+      expect(thread?.truncated).toBe(false);
+      expect(thread?.root.slug).toBe("bench-1");
+      expect(thread?.tree.replies.map((r) => r.slug)).toEqual([
+        "bench-2",
+        "bench-3",
+        "bench-4",
+        "bench-5",
+      ]);
+      expect(thread?.tree.reactions).toEqual({ "👍": ["user"] });
+
+      // A leaf deep in the thread brings its ancestors along
+      const leaf = await loadThread(agent, "bench-4999");
+      expect(leaf?.focusedMemo.slug).toBe("bench-4999");
+      expect(leaf?.focusedMemo.reactions).toEqual({ "❤️": ["user"] });
+      expect(leaf?.root.slug).toBe("bench-1");
+    });
+  }, 30_000);
+
+  it("stops at the depth limit and loads the rest as a subtree", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("thread-depth"));
+    await runInDurableObject(stub, async (agent: Chat) => {
+      await seed(agent);
+
+      const thread = await loadThread(agent, "chain-1", { depth: 10 });
+      expect(thread?.total).toBe(11);
+      expect(thread?.truncated).toBe(true);
+      const cut = thread?.memos[10];
+      expect(cut?.slug).toBe("chain-11");
+
+      const rest = await loadSubtree(agent, "chain-11", { depth: 100 });
+      expect(rest?.total).toBe(CHAIN_LENGTH - 10);
+      expect(rest?.truncated).toBe(false);
+
+      // Focusing on a deep memo loads its ancestors and the levels below it
+      const focused = await loadThread(agent, "chain-30", { depth: 2 });
+      expect(focused?.root.slug).toBe("chain-1");
+      expect(focused?.memos.map((m) => m.slug)).toContain("chain-32");
+      expect(focused?.memos.map((m) => m.slug)).not.toContain("chain-33");
+      expect(focused?.focusedMemo.unloaded_replies).toBe(0);
+    });
+  });
+});
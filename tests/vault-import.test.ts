@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseFrontmatter,
+  planVault,
+  vaultSlug,
+  type VaultFile,
+} from "../src/vault-import";
+import { readZip } from "../src/zip";
+
+const MODIFIED = new Date("2025-03-04T05:06:08Z");
+
+function file(path: string, text = ""): VaultFile {
+  return { path, text, modified: MODIFIED };
+}
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * A minimal zip of `files`, stored or deflated, stamped with MODIFIED.
+ * `declared` overrides the uncompressed size the headers give.
+ */
+async function zip(
+  files: Record<string, string>,
+  { compress = false, declared }: { compress?: boolean; declared?: number } = {}
+): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const time = (5 << 11) | (6 << 5) | 4;
+  const date = ((2025 - 1980) << 9) | (3 << 5) | 4;
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (out: number[], n: number) => out.push(n & 0xff, n >> 8);
+  const u32 = (out: number[], n: number) =>
+    out.push(n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24);
+
+  for (const [path, text] of Object.entries(files)) {
+    const name = encoder.encode(path);
+    const plain = encoder.encode(text);
+    const data = compress ? await deflate(plain) : plain;
+    const offset = local.length;
+    for (const out of [local, central]) {
+      u32(out, out === local ? 0x04034b50 : 0x02014b50);
+      if (out === central) u16(out, 20);
+      u16(out, 20);
+      u16(out, 0);
+      u16(out, compress ? 8 : 0);
+      u16(out, time);
+      u16(out, date);
+      u32(out, 0); // crc, unchecked
+      u32(out, data.length);
+      u32(out, declared ?? plain.length);
+      u16(out, name.length);
+      u16(out, 0);
+      if (out === central) {
+        u16(out, 0);
+        u16(out, 0);
+        u16(out, 0);
+        u32(out, 0);
+        u32(out, offset);
+      }
+      out.push(...name);
+    }
+    local.push(...data);
+  }
+
+  const count = Object.keys(files).length;
+  const end: number[] = [];
+  u32(end, 0x06054b50);
+  u16(end, 0);
+  u16(end, 0);
+  u16(end, count);
+  u16(end, count);
+  u32(end, central.length);
+  u32(end, local.length);
+  u16(end, 0);
+  return new Uint8Array([...local, ...central, ...end]).buffer;
+}
+
+describe("readZip", () => {
+  it("reads stored and deflated entries", async () => {
+    const files = { "Notes/Hello.md": "# Hello\n\nWorld", "Other.md": "x" };
+    for (const compress of [false, true]) {
+      const entries = await readZip(await zip(files, { compress }));
+      expect(
+        entries.map((e) => [e.path, new TextDecoder().decode(e.data)])
+      ).toEqual(Object.entries(files));
+      expect(entries[0].modified).toEqual(MODIFIED);
+    }
+  });
+
+  it("unpacks only the entries asked for", async () => {
+    const entries = await readZip(
+      await zip({ "a.md": "Note", "photo.png": "PNG" }, { compress: true }),
+      { include: (path) => path.endsWith(".md") }
+    );
+    expect(
+      entries.map((e) => [e.path, new TextDecoder().decode(e.data)])
+    ).toEqual([
+      ["a.md", "Note"],
+      ["photo.png", ""],
+    ]);
+  });
+
+  it("stops at the size limits", async () => {
+    const files = { "a.md": "a".repeat(600), "b.md": "b".repeat(600) };
+    const archive = await zip(files, { compress: true });
+    await expect(readZip(archive, { maxEntryBytes: 500 })).rejects.toThrow(
+      "'a.md' is larger than"
+    );
+    await expect(readZip(archive, { maxTotalBytes: 1000 })).rejects.toThrow(
+      "Archive unpacks to more than"
+    );
+    expect(await readZip(archive, { maxTotalBytes: 1200 })).toHaveLength(2);
+
+    // A header understating the size doesn't get past the limit
+    const lying = await zip(files, { compress: true, declared: 1 });
+    await expect(readZip(lying, { maxEntryBytes: 500 })).rejects.toThrow(
+      "'a.md' is larger than"
+    );
+  });
+
+  it("rejects files that aren't zips", async () => {
+    await expect(
+      readZip(new TextEncoder().encode("# Not a zip").buffer)
+    ).rejects.toThrow("Not a zip archive.");
+  });
+});
+
+describe("parseFrontmatter", () => {
+  it("reads the YAML subset frontmatter uses", () => {
+    const { properties, body } = parseFrontmatter(
+      [
+        "---",
+        'title: "Reading: notes"',
+        "tags: [books, 'to read']",
+        "aliases:",
+        "  - Reading",
+        "  - Books read",
+        "rating: 4",
+        "draft: false",
+        "summary: |",
+        "  First line",
+        "  Second line",
+        "empty:",
+        "---",
+        "Body",
+      ].join("\r\n")
+    );
+    expect(properties).toEqual({
+      title: "Reading: notes",
+      tags: ["books", "to read"],
+      aliases: ["Reading", "Books read"],
+      rating: 4,
+      draft: false,
+      summary: "First line\nSecond line",
+      empty: null,
+    });
+    expect(body).toBe("Body");
+  });
+
+  it("reads Logseq properties and leaves other notes alone", () => {
+    expect(
+      parseFrontmatter("tags:: [[books]], reading\nalias:: Shelf\n\n- Body")
+    ).toEqual({
+      properties: { tags: ["books", "reading"], alias: ["Shelf"] },
+      body: "- Body",
+    });
+    expect(parseFrontmatter("Just text\n---\nMore")).toEqual({
+      properties: {},
+      body: "Just text\n---\nMore",
+    });
+  });
+});
+
+describe("vaultSlug", () => {
+  it("turns file names into slugs", () => {
+    expect(vaultSlug("My Note")).toBe("my-note");
+    expect(vaultSlug("Project_Plan (v2)!")).toBe("project-plan-v2");
+    expect(vaultSlug("Café #1 [draft]")).toBe("café-1-draft");
+    expect(vaultSlug("???")).toBe("");
+  });
+});
+
+describe("planVault", () => {
+  it("maps frontmatter to headers and skips attachments", () => {
+    const plan = planVault(
+      [
+        file(".obsidian/app.json", "{}"),
+        file("assets/photo.png"),
+        file(
+          "Journal/Day One.md",
+          "---\ncreated: 2024-01-02\ntags: [daily]\n---\nHello"
+        ),
+      ],
+      new Set()
+    );
+    expect(plan.skipped).toEqual([
+      { path: "assets/photo.png", reason: "not markdown" },
+    ]);
+    expect(plan.notes).toEqual([
+      {
+        path: "Journal/Day One.md",
+        name: "Day One",
+        slug: "day-one",
+        content: "Hello",
+        headers: {
+          created: "2024-01-02",
+          tags: ["daily"],
+          vault_path: "Journal/Day One.md",
+          title: "Day One",
+        },
+        created: "2024-01-02T00:00:00.000Z",
+        modified: "2024-01-02T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("reports renamed slugs and rewrites links to them", () => {
+    const plan = planVault(
+      [
+        file("a/Ideas.md", "One"),
+        file("b/Ideas.md", "Two"),
+        file("todo.md", "---\naliases: [Tasks]\n---\n"),
+        file(
+          "index.md",
+          "See [[Ideas]], [[b/Ideas#Top|more]], ![[TASKS]] and [[Missing]]"
+        ),
+      ],
+      new Set(["todo"])
+    );
+    expect(plan.renamed).toEqual([
+      {
+        path: "a/Ideas.md",
+        name: "Ideas",
+        slug: "ideas",
+        reason: "normalized",
+      },
+      {
+        path: "b/Ideas.md",
+        name: "Ideas",
+        slug: "ideas-2",
+        reason: "duplicate",
+      },
+      { path: "todo.md", name: "todo", slug: "todo-2", reason: "taken" },
+    ]);
+    expect(plan.notes.find((n) => n.slug === "index")?.content).toBe(
+      "See [[ideas|Ideas]], [[ideas-2#Top|more]], ![[todo-2]] and [[Missing]]"
+    );
+  });
+
+  it("skips notes whose slug is taken when asked to", () => {
+    const plan = planVault([file("Todo.md", "x")], new Set(["todo"]), {
+      on_conflict: "skip",
+    });
+    expect(plan.notes).toEqual([]);
+    expect(plan.skipped).toEqual([
+      { path: "Todo.md", reason: "memo 'todo' already exists" },
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  fragmentVectorMetadata,
+  memoVectorMetadata,
+  vectorRef,
+  vectorRefIds,
+} from "../src/vector-metadata";
+
+describe("vectorRef", () => {
+  it("reads typed metadata", () => {
+    expect(
+      vectorRef({
+        id: "memo-1",
+        metadata: memoVectorMetadata({ id: "1", slug: "a" }),
+      })
+    ).toEqual({ kind: "memo", id: "1" });
+    expect(
+      vectorRef({
+        id: "fragment-2",
+        metadata: fragmentVectorMetadata({ id: "2", slug: "b" }),
+      })
+    ).toEqual({ kind: "fragment", id: "2" });
+  });
+
+  it("understands legacy shapes", () => {
+    expect(vectorRef({ id: "memo-1", metadata: { memo_id: "1" } })).toEqual({
+      kind: "memo",
+      id: "1",
+    });
+    expect(
+      vectorRef({ id: "3", metadata: { type: "fragment", content: "x" } })
+    ).toEqual({ kind: "fragment", id: "3" });
+    expect(vectorRef({ id: "4", metadata: {} })).toBeNull();
+  });
+});
+
+describe("vectorRefIds", () => {
+  it("keeps only the requested kind, in order, without duplicates", () => {
+    const matches = [
+      { id: "a", metadata: { memo_id: "m1" } },
+      { id: "b", metadata: { fragment_id: "f1" } },
+      { id: "c", metadata: { memo_id: "m2" } },
+      { id: "d", metadata: { memo_id: "m1" } },
+    ];
+    expect(vectorRefIds(matches, "memo")).toEqual(["m1", "m2"]);
+    expect(vectorRefIds(matches, "fragment")).toEqual(["f1"]);
+  });
+});
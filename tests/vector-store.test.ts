@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+import type {
+  Vectorize,
+  VectorizeQueryOptions,
+} from "@cloudflare/workers-types/experimental";
+import {
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  matchesFilter,
+  MAX_VECTORIZE_TOP_K,
+  rankVectors,
+  vectorizeStore,
+} from "../src/vector-store";
+
+describe("vector blobs", () => {
+  it("round-trips through float32", () => {
+    const decoded = decodeVector(encodeVector([0.5, -1, 0.25]));
+    expect(Array.from(decoded)).toEqual([0.5, -1, 0.25]);
+    expect(Array.from(decodeVector(new Uint8Array(encodeVector([2]))))).toEqual(
+      [2]
+    );
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("ignores magnitude and rejects mismatched sizes", () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe("matchesFilter", () => {
+  const metadata = { kind: "memo", slug: "a", count: 2 };
+
+  it("supports equality and operators", () => {
+    expect(matchesFilter(metadata)).toBe(true);
+    expect(matchesFilter(metadata, { slug: "a" })).toBe(true);
+    expect(matchesFilter(metadata, { slug: "b" })).toBe(false);
+    expect(matchesFilter(metadata, { count: { $ne: 3 } })).toBe(true);
+    expect(matchesFilter(metadata, { slug: { $in: ["b", "c"] } })).toBe(false);
+    expect(matchesFilter(metadata, { slug: { $nin: ["b"] } })).toBe(true);
+    expect(matchesFilter(metadata, { missing: null })).toBe(true);
+  });
+});
+
+describe("rankVectors", () => {
+  const candidates = [
+    { id: "x", values: [1, 0], metadata: { slug: "x" } },
+    { id: "y", values: [0.8, 0.6], metadata: { slug: "y" } },
+    { id: "z", values: [0, 1], metadata: { slug: "z" } },
+  ];
+
+  it("returns the best topK above the threshold", () => {
+    const matches = rankVectors([1, 0], candidates, { topK: 2 });
+    expect(matches.map((m) => m.id)).toEqual(["x", "y"]);
+    expect(matches[1].score).toBeCloseTo(0.8);
+
+    const strict = rankVectors([1, 0], candidates, {
+      topK: 5,
+      threshold: 0.9,
+    });
+    expect(strict.map((m) => m.id)).toEqual(["x"]);
+  });
+
+  it("applies metadata filters before ranking", () => {
+    const matches = rankVectors([1, 0], candidates, {
+      topK: 1,
+      filter: { slug: { $ne: "x" } },
+    });
+    expect(matches.map((m) => m.id)).toEqual(["y"]);
+  });
+});
+
+describe("vectorizeStore", () => {
+  it("never asks Vectorize for more than its topK limit", async () => {
+    const query = vi.fn(
+      async (_vector: number[], _options: VectorizeQueryOptions) => ({
+        matches: [],
+        count: 0,
+      })
+    );
+    const store = vectorizeStore({ query } as unknown as Vectorize);
+
+    await store.query([1, 0], { topK: 300, namespace: "memo" });
+    await store.query([1, 0], { topK: 5 });
+
+    expect(MAX_VECTORIZE_TOP_K).toBe(50);
+    expect(query.mock.calls.map(([, options]) => options.topK)).toEqual([
+      50, 5,
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandTransclusions,
+  extractSection,
+  findWikiLinks,
+  formatWikiLink,
+  parseWikiLinkTarget,
+  splitWikiLinks,
+  wikiLinkLabel,
+} from "../src/wiki-links";
+
+describe("parseWikiLinkTarget", () => {
+  it("splits slug, anchor and display text", () => {
+    expect(parseWikiLinkTarget(" tea # Water | the water ")).toEqual({
+      slug: "tea",
+      anchor: "Water",
+      alias: "the water",
+    });
+  });
+
+  it("splits display text off first, so it may contain '#'", () => {
+    expect(parseWikiLinkTarget("tea|issue #4")).toEqual({
+      slug: "tea",
+      anchor: "",
+      alias: "issue #4",
+    });
+  });
+});
+
+describe("findWikiLinks", () => {
+  it("finds links and transclusions with their offsets", () => {
+    const links = findWikiLinks("a [[tea]] b ![[pot#Lid]]");
+    expect(
+      links.map(({ slug, anchor, embed, index }) => [
+        slug,
+        anchor,
+        embed,
+        index,
+      ])
+    ).toEqual([
+      ["tea", "", false, 2],
+      ["pot", "Lid", true, 12],
+    ]);
+  });
+
+  it("skips links that name nothing", () => {
+    expect(findWikiLinks("[[]] [[#x]] [[|y]]")).toEqual([]);
+  });
+});
+
+describe("splitWikiLinks", () => {
+  it("alternates text and links", () => {
+    const parts = splitWikiLinks("x [[a]]y");
+    expect(parts.map((p) => (typeof p === "string" ? p : p.slug))).toEqual([
+      "x ",
+      "a",
+      "y",
+    ]);
+  });
+});
+
+describe("wikiLinkLabel and formatWikiLink", () => {
+  it("labels links by display text, else slug and anchor", () => {
+    expect(wikiLinkLabel({ slug: "tea", anchor: "", alias: "cup" })).toBe(
+      "cup"
+    );
+    expect(wikiLinkLabel({ slug: "tea", anchor: "Water", alias: "" })).toBe(
+      "tea#Water"
+    );
+  });
+
+  it("writes links back out", () => {
+    expect(
+      formatWikiLink({ slug: "tea", anchor: "Water", alias: "w", embed: true })
+    ).toBe("![[tea#Water|w]]");
+    expect(formatWikiLink({ slug: "tea", anchor: "", alias: "" })).toBe(
+      "[[tea]]"
+    );
+  });
+});
+
+describe("extractSection", () => {
+  const content = [
+    "# Tea",
+    "intro",
+    "## Water",
+    "hot",
+    "### Temperature",
+    "80C",
+    "## Leaves",
+    "green",
+  ].join("\n");
+
+  it("returns the heading and everything below it up to the next sibling", () => {
+    expect(extractSection(content, "Water")).toBe(
+      "## Water\nhot\n### Temperature\n80C"
+    );
+  });
+
+  it("falls back to a case-insensitive match", () => {
+    expect(extractSection(content, "leaves")).toBe("## Leaves\ngreen");
+  });
+
+  it("returns null for a missing heading", () => {
+    expect(extractSection(content, "Milk")).toBeNull();
+  });
+});
+
+describe("expandTransclusions", () => {
+  const notes: Record<string, string> = {
+    a: "A says ![[b]]",
+    b: "B says ![[c#Two]]",
+    c: "# One\n1\n# Two\n2",
+    loop: "round ![[loop-back]]",
+    "loop-back": "and ![[loop]]",
+  };
+  const load = async (slug: string) => notes[slug] ?? null;
+
+  it("embeds targets and sections recursively", async () => {
+    expect(
+      await expandTransclusions("![[a]]", load, { ancestors: ["x"] })
+    ).toBe("A says B says # Two\n2");
+  });
+
+  it("leaves plain links, missing targets and missing sections alone", async () => {
+    expect(
+      await expandTransclusions("[[a]] ![[nope]] ![[c#Three|three]]", load)
+    ).toBe("[[a]] [[nope]] [[c#Three|three]]");
+  });
+
+  it("stops at cycles", async () => {
+    expect(
+      await expandTransclusions(notes.loop, load, { ancestors: ["loop"] })
+    ).toBe("round and [[loop]]");
+  });
+
+  it("stops at the depth limit", async () => {
+    expect(await expandTransclusions("![[a]]", load, { maxDepth: 1 })).toBe(
+      "A says [[b]]"
+    );
+  });
+});